@@ -0,0 +1,180 @@
+/**
+ * Tests for Inventory Export Parser
+ */
+
+import Database from 'better-sqlite3';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  detectInventoryFormat,
+  matchInventoryRows,
+  normalizeLocation,
+  parseInventoryCsv,
+  parseInventoryJson,
+} from '../../src/parsers/inventoryParser';
+import { ItemService } from '../../src/services/itemService';
+
+describe('inventoryParser', () => {
+  describe('parseInventoryCsv', () => {
+    it('should read positional columns without a header', () => {
+      const { rows, errors } = parseInventoryCsv('Darksteel Ore,12,,bag\n"Iron Ore",3,yes,Alice\n');
+
+      expect(errors).toEqual([]);
+      expect(rows).toEqual([
+        {
+          row: 1,
+          name: 'Darksteel Ore',
+          itemId: undefined,
+          quantity: 12,
+          isHq: false,
+          location: 'bag',
+        },
+        { row: 2, name: 'Iron Ore', itemId: undefined, quantity: 3, isHq: true, location: 'Alice' },
+      ]);
+    });
+
+    it('should map columns by header name', () => {
+      const { rows } = parseInventoryCsv('Retainer,Qty,Item Name\nRetainer: Alice,2,Iron Ore\n');
+
+      expect(rows).toEqual([
+        expect.objectContaining({ row: 2, name: 'Iron Ore', quantity: 2, location: 'Alice' }),
+      ]);
+    });
+
+    it('should detect HQ markers in item names', () => {
+      const { rows } = parseInventoryCsv('Iron Ore (HQ),1\nDarksteel Ore\uE03C,1\n');
+
+      expect(rows.map((row) => [row.name, row.isHq])).toEqual([
+        ['Iron Ore', true],
+        ['Darksteel Ore', true],
+      ]);
+    });
+
+    it('should report rows without a name or a valid quantity', () => {
+      const { rows, errors } = parseInventoryCsv(
+        'Iron Ore,lots\n,4\n\n# comment\nTin Ore,"1,200"\n'
+      );
+
+      expect(errors).toEqual([
+        { row: 1, name: 'Iron Ore', reason: 'invalid quantity "lots"' },
+        { row: 2, name: '', reason: 'missing item name' },
+      ]);
+      expect(rows).toEqual([expect.objectContaining({ row: 5, name: 'Tin Ore', quantity: 1200 })]);
+    });
+  });
+
+  describe('parseInventoryJson', () => {
+    it('should accept field name aliases and item IDs', () => {
+      const { rows } = parseInventoryJson(
+        JSON.stringify([
+          { item: 'Iron Ore', count: 2, hq: true, location: 'Saddlebag' },
+          { itemId: 5, quantity: 1 },
+        ])
+      );
+
+      expect(rows).toEqual([
+        {
+          row: 1,
+          name: 'Iron Ore',
+          itemId: undefined,
+          quantity: 2,
+          isHq: true,
+          location: 'saddlebag',
+        },
+        { row: 2, name: undefined, itemId: 5, quantity: 1, isHq: false, location: undefined },
+      ]);
+    });
+
+    it('should reject documents that are not a list', () => {
+      expect(() => parseInventoryJson('{"name": "Iron Ore"}')).toThrow();
+    });
+  });
+
+  describe('detectInventoryFormat', () => {
+    it('should use the extension, then the content', () => {
+      expect(detectInventoryFormat('bags.JSON', 'Iron Ore,1')).toBe('json');
+      expect(detectInventoryFormat('bags.csv', '[]')).toBe('csv');
+      expect(detectInventoryFormat('bags.txt', '  [{"name": "Iron Ore"}]')).toBe('json');
+    });
+  });
+
+  describe('normalizeLocation', () => {
+    it('should unify bag and saddlebag spellings and keep retainer names', () => {
+      expect(normalizeLocation('Inventory')).toBe('bag');
+      expect(normalizeLocation('Saddlebags')).toBe('saddlebag');
+      expect(normalizeLocation('Retainer - Alice')).toBe('Alice');
+      expect(normalizeLocation('  ')).toBeUndefined();
+    });
+  });
+
+  describe('matchInventoryRows', () => {
+    let dir: string;
+    let itemService: ItemService;
+
+    beforeAll(() => {
+      dir = mkdtempSync(join(tmpdir(), 'eorzea-inventory-'));
+      const dbPath = join(dir, 'gameData.db');
+
+      const db = new Database(dbPath);
+      db.exec(readFileSync(join(__dirname, '../../data/gameData-schema.sql'), 'utf-8'));
+      db.exec(`
+        INSERT INTO items (id, name) VALUES
+          (1, 'Iron Ore'), (2, 'Darksteel Ore'), (3, 'Tin Ore'), (4, 'Zinc Ore');
+      `);
+      db.close();
+
+      itemService = new ItemService(dbPath);
+    });
+
+    afterAll(() => {
+      itemService.close();
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should resolve exact and approximate names and report the rest', () => {
+      const parsed = parseInventoryCsv(
+        [
+          'Iron Ore,3,,saddlebag',
+          'darksteel  ore,12',
+          'Tinc Ore,1',
+          'Mythril Ore,2',
+          'Tin Ore,0',
+        ].join('\n')
+      );
+      const result = matchInventoryRows(parsed, itemService, 'bag');
+
+      expect(result.entries).toEqual([
+        { itemId: 1, quantity: 3, isHq: false, location: 'saddlebag' },
+        { itemId: 2, quantity: 12, isHq: false, location: 'bag' },
+      ]);
+      expect(result.fuzzyMatches).toEqual([
+        { row: 2, name: 'darksteel  ore', matchedName: 'Darksteel Ore', itemId: 2 },
+      ]);
+      expect(result.unmatched).toEqual([
+        { row: 3, name: 'Tinc Ore', reason: 'no matching item' },
+        { row: 4, name: 'Mythril Ore', reason: 'no matching item' },
+        { row: 5, name: 'Tin Ore', reason: 'invalid quantity "0"' },
+      ]);
+    });
+
+    it('should report item IDs that are not in the database', () => {
+      const parsed = parseInventoryJson(
+        JSON.stringify([
+          { itemId: 3, quantity: 1 },
+          { itemId: 999, quantity: 2 },
+          { itemId: 998, name: 'Gold Ore', quantity: 1 },
+        ])
+      );
+      const result = matchInventoryRows(parsed, itemService);
+
+      expect(result.entries).toEqual([
+        { itemId: 3, quantity: 1, isHq: false, location: undefined },
+      ]);
+      expect(result.unmatched).toEqual([
+        { row: 2, name: '#999', reason: 'unknown item ID' },
+        { row: 3, name: 'Gold Ore', reason: 'unknown item ID' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Tests for Lodestone Achievement Parser
+ */
+
+import Database from 'better-sqlite3';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  type AchievementLocale,
+  getMSQAchievementCount,
+  matchAchievementsToDatabase,
+  parseAchievementsFromFile,
+  parseLodestoneAchievementHtml,
+  parseLodestoneAchievementText,
+} from '../../src/parsers/lodestoneAchievementParser';
+
+const FIXTURE_DIR = join(__dirname, '../fixtures/lodestone');
+
+describe('lodestoneAchievementParser', () => {
+  describe('parseLodestoneAchievementText', () => {
+    it('should read English multi-line and single-line entries', () => {
+      const text = [
+        '11/01/2025',
+        'Quests achievement "On Wings of Hope" earned!',
+        '10/31/2025Battle achievement "Let\'s Get Ready to Rumble" earned!',
+      ].join('\n');
+
+      expect(parseLodestoneAchievementText(text)).toEqual([
+        { date: '11/01/2025', category: 'Quests', name: 'On Wings of Hope', locale: 'en' },
+        {
+          date: '10/31/2025',
+          category: 'Battle',
+          name: "Let's Get Ready to Rumble",
+          locale: 'en',
+        },
+      ]);
+    });
+
+    it('should read Japanese, German and French entries', () => {
+      const text = [
+        '2025/11/01',
+        'アチーブメント「光の戦士」を達成した！',
+        '01.11.2025',
+        'Errungenschaft „Krieger des Lichts“ erhalten!',
+        '01/11/2025',
+        'Haut fait « Guerrier de la Lumière » obtenu !',
+      ].join('\n');
+
+      expect(parseLodestoneAchievementText(text)).toEqual([
+        { date: '2025/11/01', category: '', name: '光の戦士', locale: 'ja' },
+        { date: '01.11.2025', category: '', name: 'Krieger des Lichts', locale: 'de' },
+        { date: '01/11/2025', category: '', name: 'Guerrier de la Lumière', locale: 'fr' },
+      ]);
+    });
+
+    it('should skip achievements without a date and other lines', () => {
+      const text = 'Quests achievement "On Wings of Hope" earned!\nAchievements\n11/01/2025\n';
+
+      expect(parseLodestoneAchievementText(text)).toEqual([]);
+    });
+  });
+
+  describe('parseLodestoneAchievementHtml', () => {
+    it('should keep the achievement IDs of a saved page', () => {
+      const html = readFileSync(join(FIXTURE_DIR, 'achievement-page1.html'), 'utf-8');
+
+      expect(parseLodestoneAchievementHtml(html)).toEqual([
+        { date: '2023-11-14', category: '', name: 'Warrior of Light', achievementId: 2298 },
+        { date: '2023-07-22', category: '', name: "Let's Get Ready to Rumble", achievementId: 788 },
+      ]);
+    });
+  });
+
+  describe('matchAchievementsToDatabase', () => {
+    let dir: string;
+    let dbPath: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'eorzea-achievements-'));
+      dbPath = join(dir, 'gameData.db');
+
+      const db = new Database(dbPath);
+      db.exec(readFileSync(join(__dirname, '../../data/gameData-schema.sql'), 'utf-8'));
+      db.exec(`
+        INSERT INTO achievements (id, name) VALUES
+          (788, 'Warrior of Light'),
+          (2298, 'Shadowbringers'),
+          (1001, 'Let''s Get Ready to Rumble'),
+          (1002, 'On Wings of Hope'),
+          (1003, 'Mapping the Realm: Thanalan');
+      `);
+      db.close();
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    const entry = (name: string, achievementId?: number, locale?: AchievementLocale) => ({
+      date: '11/01/2025',
+      category: '',
+      name,
+      achievementId,
+      locale,
+    });
+
+    it('should match names after normalizing them', () => {
+      const result = matchAchievementsToDatabase(
+        [entry('Warrior of Light'), entry('let’s get ready to rumble')],
+        dbPath
+      );
+
+      expect(result.achievements.map((a) => [a.achievementId, a.matchedName])).toEqual([
+        [788, undefined],
+        [1001, "Let's Get Ready to Rumble"],
+      ]);
+      expect(result.fuzzyMatches).toEqual([]);
+    });
+
+    it('should prefer IDs from saved pages over names', () => {
+      const result = matchAchievementsToDatabase([entry('光の戦士', 788)], dbPath);
+
+      expect(result.achievements).toEqual([
+        expect.objectContaining({ achievementId: 788, matchedName: 'Warrior of Light' }),
+      ]);
+      expect(getMSQAchievementCount(result)).toBe(1);
+    });
+
+    it('should fuzzy-match small typos and report them', () => {
+      const result = matchAchievementsToDatabase([entry('On Wings of Hpoe')], dbPath);
+
+      expect(result.matched).toBe(1);
+      expect(result.fuzzyMatches).toEqual([
+        { name: 'On Wings of Hpoe', matchedName: 'On Wings of Hope', achievementId: 1002 },
+      ]);
+    });
+
+    it('should not fuzzy-match names from other languages', () => {
+      const result = matchAchievementsToDatabase(
+        [entry('Shadowbringers', undefined, 'de'), entry('Shadowbringer', undefined, 'de')],
+        dbPath
+      );
+
+      expect(result.achievements).toEqual([expect.objectContaining({ achievementId: 2298 })]);
+      expect(result.fuzzyMatches).toEqual([]);
+      expect(result.unmatchedNames).toEqual(['Shadowbringer']);
+      expect(result.nearMisses).toEqual([]);
+    });
+
+    it('should report near-misses for names too far off', () => {
+      const result = matchAchievementsToDatabase(
+        [entry('Mapping the Realms: Thanlan Zone'), entry('Krieger des Lichts', undefined, 'de')],
+        dbPath
+      );
+
+      expect(result.unmatchedNames).toEqual([
+        'Mapping the Realms: Thanlan Zone',
+        'Krieger des Lichts',
+      ]);
+      expect(result.nearMisses).toEqual([
+        {
+          name: 'Mapping the Realms: Thanlan Zone',
+          closestName: 'Mapping the Realm: Thanalan',
+          distance: 7,
+        },
+      ]);
+    });
+
+    it('should read saved pages and text files', () => {
+      const textPath = join(dir, 'achievements.txt');
+      writeFileSync(textPath, '11/01/2025\nQuests achievement "On Wings of Hope" earned!\n');
+
+      expect(
+        parseAchievementsFromFile(join(FIXTURE_DIR, 'achievement-page2.html'), dbPath)
+      ).toEqual(
+        expect.objectContaining({ total: 1, matched: 0, unmatchedNames: ['Not In Game Data'] })
+      );
+      expect(parseAchievementsFromFile(textPath, dbPath).achievements).toEqual([
+        expect.objectContaining({ achievementId: 1002 }),
+      ]);
+    });
+
+    it('should refuse copied text from other languages', () => {
+      const textPath = join(dir, 'achievements.txt');
+      writeFileSync(textPath, '01.11.2025\nErrungenschaft „Krieger des Lichts“ erhalten!\n');
+
+      expect(() => parseAchievementsFromFile(textPath, dbPath)).toThrow(
+        /German can't be matched.*Save the Lodestone achievement page as HTML/
+      );
+    });
+  });
+});
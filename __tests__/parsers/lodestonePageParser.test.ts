@@ -0,0 +1,128 @@
+/**
+ * Tests for Lodestone Page Parser
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  getLodestonePageKind,
+  parseLodestoneAchievementPage,
+  parseLodestoneClassJobPage,
+  parseLodestoneCollectionPage,
+  parseLodestoneProfilePage,
+  readLodestoneSavedPages,
+} from '../../src/parsers/lodestonePageParser';
+
+const FIXTURE_DIR = join(__dirname, '../fixtures/lodestone');
+
+function readFixture(name: string): string {
+  return readFileSync(join(FIXTURE_DIR, name), 'utf-8');
+}
+
+describe('Lodestone Page Parser', () => {
+  describe('parseLodestoneCollectionPage', () => {
+    it('should list mount names', () => {
+      expect(parseLodestoneCollectionPage(readFixture('mount.html'), 'mount')).toEqual([
+        'Company Chocobo',
+        'Magitek Armor',
+        'Fat Black Chocobo',
+      ]);
+    });
+
+    it('should list minion names with entities decoded', () => {
+      expect(parseLodestoneCollectionPage(readFixture('minion.html'), 'minion')).toEqual([
+        'Wind-up Airship',
+        'Wind-up Cid & Nero',
+      ]);
+    });
+
+    it('should not pick up names of the other collection', () => {
+      expect(parseLodestoneCollectionPage(readFixture('mount.html'), 'minion')).toEqual([]);
+    });
+  });
+
+  describe('parseLodestoneAchievementPage', () => {
+    it('should read achievement IDs, names and dates', () => {
+      const result = parseLodestoneAchievementPage(readFixture('achievement-page1.html'));
+
+      expect(result.achievements).toEqual([
+        { id: 2298, name: 'Warrior of Light', earnedAt: new Date(1700000000 * 1000) },
+        { id: 788, name: "Let's Get Ready to Rumble", earnedAt: new Date(1690000000 * 1000) },
+      ]);
+      expect(result.isPrivate).toBe(false);
+    });
+
+    it('should read the pager', () => {
+      expect(parseLodestoneAchievementPage(readFixture('achievement-page1.html'))).toEqual(
+        expect.objectContaining({ page: 1, totalPages: 2 })
+      );
+      expect(parseLodestoneAchievementPage(readFixture('achievement-page2.html'))).toEqual(
+        expect.objectContaining({ page: 2, totalPages: 2 })
+      );
+    });
+
+    it('should detect private achievements', () => {
+      expect(parseLodestoneAchievementPage(readFixture('achievement-private.html'))).toEqual({
+        achievements: [],
+        page: 1,
+        totalPages: 1,
+        isPrivate: true,
+      });
+    });
+  });
+
+  describe('parseLodestoneProfilePage', () => {
+    it('should read the character header and free company', () => {
+      expect(parseLodestoneProfilePage(readFixture('profile.html'))).toEqual({
+        id: '12345',
+        name: 'Alice Example',
+        server: 'Gilgamesh',
+        dataCenter: 'Aether',
+        title: 'Warrior of Light',
+        avatar: 'https://img2.finalfantasyxiv.com/f/0a1b2c3d4e5f_96x96.jpg',
+        freeCompany: 'Seventh Dawn & Co',
+        level: 90,
+        job: 'Paladin',
+      });
+    });
+
+    it('should read the header from other character pages', () => {
+      expect(parseLodestoneProfilePage(readFixture('class_job.html'))).toEqual(
+        expect.objectContaining({ id: '12345', name: 'Alice Example', freeCompany: undefined })
+      );
+    });
+
+    it('should return null without a character header', () => {
+      expect(parseLodestoneProfilePage(readFixture('mount.html'))).toBeNull();
+    });
+  });
+
+  describe('parseLodestoneClassJobPage', () => {
+    it('should key unlocked jobs by name without spaces', () => {
+      expect(parseLodestoneClassJobPage(readFixture('class_job.html'))).toEqual({
+        Paladin: { Level: 90 },
+        DarkKnight: { Level: 70 },
+        Carpenter: { Level: 45 },
+      });
+    });
+  });
+
+  describe('readLodestoneSavedPages', () => {
+    it('should sort pages by content', () => {
+      expect(getLodestonePageKind(readFixture('profile.html'))).toBe('profile');
+      expect(getLodestonePageKind(readFixture('class_job.html'))).toBe('classJob');
+      expect(getLodestonePageKind(readFixture('achievement-private.html'))).toBe('achievements');
+      expect(getLodestonePageKind('<html><body>Not the Lodestone</body></html>')).toBeNull();
+    });
+
+    it('should read every saved page in a directory', () => {
+      const pages = readLodestoneSavedPages(FIXTURE_DIR);
+
+      expect(pages.profile).toBe(readFixture('profile.html'));
+      expect(pages.classJob).toBe(readFixture('class_job.html'));
+      expect(pages.mount).toBe(readFixture('mount.html'));
+      expect(pages.minion).toBe(readFixture('minion.html'));
+      expect(pages.achievements).toHaveLength(3);
+    });
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Tests for Market Price Snapshot Parser
+ */
+
+import Database from 'better-sqlite3';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  matchMarketPriceRows,
+  parseMarketPriceCsv,
+  parseMarketPriceJson,
+} from '../../src/parsers/marketPriceParser';
+import { ItemService } from '../../src/services/itemService';
+
+describe('marketPriceParser', () => {
+  describe('parseMarketPriceCsv', () => {
+    it('should read positional columns without a header', () => {
+      const { rows, errors } = parseMarketPriceCsv(
+        'Iron Ore,Gilgamesh,"1,200",,2025-11-01T00:00:00Z\nIron Ingot,,,450\n'
+      );
+
+      expect(errors).toEqual([]);
+      expect(rows).toEqual([
+        {
+          row: 1,
+          name: 'Iron Ore',
+          itemId: undefined,
+          world: 'Gilgamesh',
+          priceNq: 1200,
+          priceHq: null,
+          recordedAt: Date.parse('2025-11-01T00:00:00Z'),
+        },
+        {
+          row: 2,
+          name: 'Iron Ingot',
+          itemId: undefined,
+          world: undefined,
+          priceNq: null,
+          priceHq: 450,
+          recordedAt: undefined,
+        },
+      ]);
+    });
+
+    it('should map columns by header name', () => {
+      const { rows } = parseMarketPriceCsv(
+        'Item ID,Min Price HQ,Server,Min Price,Last Upload Time\n5057,300,Gilgamesh,250,1761955200\n'
+      );
+
+      expect(rows).toEqual([
+        expect.objectContaining({
+          itemId: 5057,
+          world: 'Gilgamesh',
+          priceNq: 250,
+          priceHq: 300,
+          recordedAt: 1761955200000,
+        }),
+      ]);
+    });
+
+    it('should report rows without a valid price or date', () => {
+      const { rows, errors } = parseMarketPriceCsv(
+        'Iron Ore,Gilgamesh,cheap\nTin Ore,Gilgamesh\nCopper Ore,Gilgamesh,5,,yesterday\n'
+      );
+
+      expect(rows).toEqual([]);
+      expect(errors).toEqual([
+        { row: 1, name: 'Iron Ore', reason: 'invalid price "cheap"' },
+        { row: 2, name: 'Tin Ore', reason: 'missing price' },
+        { row: 3, name: 'Copper Ore', reason: 'invalid date "yesterday"' },
+      ]);
+    });
+  });
+
+  describe('parseMarketPriceJson', () => {
+    it('should read arrays and {items} objects', () => {
+      const item = { itemId: 5057, world: 'Gilgamesh', minPriceNQ: 250, minPriceHQ: null };
+
+      expect(parseMarketPriceJson(JSON.stringify([item])).rows).toEqual([
+        expect.objectContaining({ row: 1, itemId: 5057, priceNq: 250, priceHq: null }),
+      ]);
+      expect(parseMarketPriceJson(JSON.stringify({ items: [item] })).rows).toHaveLength(1);
+      expect(() => parseMarketPriceJson('{"prices": []}')).toThrow('Expected a JSON array');
+    });
+  });
+
+  describe('matchMarketPriceRows', () => {
+    let dir: string;
+    let itemService: ItemService;
+
+    beforeAll(() => {
+      dir = mkdtempSync(join(tmpdir(), 'eorzea-prices-'));
+      const dbPath = join(dir, 'gameData.db');
+
+      const db = new Database(dbPath);
+      db.exec(readFileSync(join(__dirname, '../../data/gameData-schema.sql'), 'utf-8'));
+      db.exec(`INSERT INTO items (id, name) VALUES (5111, 'Iron Ore'), (5057, 'Iron Ingot');`);
+      db.close();
+
+      itemService = new ItemService(dbPath);
+    });
+
+    afterAll(() => {
+      itemService.close();
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should resolve exact names and apply the default world and date', () => {
+      const parsed = parseMarketPriceCsv(
+        'Item,Item ID,World,Price\nIron Ore,,,120\n,5057,Sargatanas,1\n'
+      );
+
+      expect(matchMarketPriceRows(parsed, itemService, 'Gilgamesh', 1000)).toEqual({
+        prices: [
+          { item_id: 5111, world: 'Gilgamesh', price_nq: 120, price_hq: null, recorded_at: 1000 },
+          { item_id: 5057, world: 'Sargatanas', price_nq: 1, price_hq: null, recorded_at: 1000 },
+        ],
+        unmatched: [],
+      });
+    });
+
+    it('should skip approximate names and rows without a world', () => {
+      const parsed = parseMarketPriceCsv('Iron Oer,Gilgamesh,120\nIron Ingot,,300\n');
+
+      expect(matchMarketPriceRows(parsed, itemService).unmatched).toEqual([
+        { row: 1, name: 'Iron Oer', reason: 'no matching item' },
+        { row: 2, name: 'Iron Ingot', reason: 'missing world' },
+      ]);
+    });
+  });
+});
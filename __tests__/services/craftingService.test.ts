@@ -0,0 +1,288 @@
+/**
+ * Tests for Crafting Service batch planning, guides and profit analysis
+ */
+
+import Database from 'better-sqlite3';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CraftingService } from '../../src/services/craftingService';
+import { UserDataRepository } from '../../src/services/userDataRepository';
+import type { MarketPrice, PriceProvider } from '../../src/types/market';
+
+describe('CraftingService', () => {
+  let dir: string;
+  let userData: UserDataRepository;
+  let service: CraftingService;
+
+  // Ingot (yields 1) ← 3 Ore; Rivets (yields 3) ← 1 Ingot;
+  // Sword ← 2 Ingot + 4 Rivets; Shield ← 1 Ingot + 2 Rivets + 1 Leather;
+  // Ingot can also be made from 1 Leather (recipe 15)
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'eorzea-crafting-'));
+    const dbPath = join(dir, 'gameData.db');
+
+    const db = new Database(dbPath);
+    db.exec(readFileSync(join(__dirname, '../../data/gameData-schema.sql'), 'utf-8'));
+    db.exec(`
+      INSERT INTO items (id, name, price_mid) VALUES
+        (1, 'Ore', 2), (2, 'Ingot', 0), (3, 'Rivets', 0), (4, 'Sword', 0), (5, 'Shield', 0),
+        (6, 'Leather', 90);
+      INSERT INTO craft_types (id, name) VALUES (1, 'Blacksmith');
+      INSERT INTO recipe_level_tables (id, class_job_level) VALUES (1, 10);
+      INSERT INTO recipes (id, craft_type_id, recipe_level_table_id, item_result_id, amount_result) VALUES
+        (10, 1, 1, 2, 1), (11, 1, 1, 3, 3), (12, 1, 1, 4, 1), (13, 1, 1, 5, 1), (15, 1, 1, 2, 1);
+      INSERT INTO recipe_ingredients (recipe_id, item_id, quantity, position) VALUES
+        (10, 1, 3, 0),
+        (11, 2, 1, 0),
+        (12, 2, 2, 0), (12, 3, 4, 1),
+        (13, 2, 1, 0), (13, 3, 2, 1), (13, 6, 1, 2),
+        (15, 6, 1, 0);
+      INSERT INTO item_sources (item_id, source_type, source_name) VALUES (1, 'gathering', 'Mining');
+      INSERT INTO item_sources (item_id, source_type, source_name, source_details) VALUES
+        (6, 'shop', 'Tanner', '{"cost":120,"currency":"Gil"}'),
+        (6, 'shop', 'Merchant', '{"currency":"Gil"}'),
+        (6, 'shop', 'Seal Vendor', '{"cost":5,"currency":"Allied Seal"}');
+    `);
+    db.close();
+
+    const userDbPath = join(dir, 'userData.db');
+    const userDb = new Database(userDbPath);
+    userDb.exec(readFileSync(join(__dirname, '../../data/userData-schema.sql'), 'utf-8'));
+    userDb.close();
+
+    userData = new UserDataRepository(userDbPath, dbPath);
+    service = new CraftingService(dbPath, userData);
+  });
+
+  afterAll(() => {
+    service.close();
+    userData.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('getCraftPlan', () => {
+    it('should round intermediate crafts up to whole synths', () => {
+      const plan = service.getCraftPlan([{ recipeId: 12, quantity: 1 }]);
+      const rivets = plan.crafts.find((step) => step.item_id === 3)!;
+
+      // 4 rivets at 3 per synth → 2 synths, 2 left over
+      expect(rivets.crafts).toBe(2);
+      expect(rivets.surplus).toBe(2);
+
+      // 2 ingots for the sword + 2 for the rivet synths
+      expect(plan.crafts.find((step) => step.item_id === 2)!.crafts).toBe(4);
+      expect(plan.raw_materials).toEqual([
+        expect.objectContaining({
+          item_id: 1,
+          quantity_needed: 12,
+          sources: [{ type: 'gathering', description: 'Mining' }],
+        }),
+      ]);
+    });
+
+    it('should merge shared intermediates across recipes', () => {
+      const plan = service.getCraftPlan([
+        { recipeId: 12, quantity: 1 },
+        { recipeId: 13, quantity: 1 },
+      ]);
+
+      // 6 rivets in total fit in 2 synths, instead of 2 + 1 when planned separately
+      expect(plan.crafts.find((step) => step.item_id === 3)!.crafts).toBe(2);
+      expect(plan.crafts.find((step) => step.item_id === 2)!.crafts).toBe(5);
+      expect(plan.raw_materials.map((m) => [m.item_id, m.quantity_needed])).toEqual(
+        expect.arrayContaining([
+          [1, 15],
+          [6, 1],
+        ])
+      );
+      expect(plan.total_crafts).toBe(9);
+    });
+
+    it('should list crafts in dependency order', () => {
+      const plan = service.getCraftPlan([{ recipeId: 13, quantity: 3 }]);
+      const position = (itemId: number) => plan.crafts.findIndex((step) => step.item_id === itemId);
+
+      expect(position(2)).toBeLessThan(position(3));
+      expect(position(3)).toBeLessThan(position(5));
+      expect(plan.crafts.filter((step) => step.is_target).map((step) => step.item_id)).toEqual([5]);
+    });
+
+    it('should use owned intermediates and materials first', () => {
+      const owned = new Map([
+        [3, 4], // All the rivets
+        [1, 5],
+      ]);
+      const plan = service.getCraftPlan([{ recipeId: 12, quantity: 1 }], owned);
+
+      expect(plan.crafts.map((step) => step.item_id)).toEqual([2, 4]);
+      expect(plan.raw_materials).toEqual([
+        expect.objectContaining({ item_id: 1, quantity_needed: 1, quantity_owned: 5 }),
+      ]);
+      // The caller's inventory isn't consumed
+      expect(owned.get(3)).toBe(4);
+    });
+
+    it('should use a requested recipe for its item everywhere in the plan', () => {
+      // The ingot is an intermediate of the sword before it's requested with the other recipe
+      const plan = service.getCraftPlan([
+        { recipeId: 12, quantity: 1 },
+        { recipeId: 15, quantity: 2 },
+      ]);
+
+      expect(plan.crafts.map((step) => step.recipe_id)).not.toContain(10);
+      expect(plan.crafts.find((step) => step.recipe_id === 15)).toEqual(
+        expect.objectContaining({ quantity_needed: 6, is_target: true })
+      );
+      expect(plan.raw_materials.map((m) => [m.item_id, m.quantity_needed])).toEqual([[6, 6]]);
+    });
+
+    it('should report unknown recipes', () => {
+      const plan = service.getCraftPlan([
+        { recipeId: 999, quantity: 1 },
+        { recipeId: 10, quantity: 2 },
+      ]);
+
+      expect(plan.unknown_recipe_ids).toEqual([999]);
+      expect(plan.total_crafts).toBe(2);
+    });
+  });
+
+  describe('getCraftingGuide', () => {
+    it('should not expand intermediates that are already owned', () => {
+      const guide = service.getCraftingGuide(12, new Map([[3, 4]]))!;
+
+      expect(guide.total_materials).toEqual([
+        expect.objectContaining({ item_id: 1, quantity_needed: 6 }),
+      ]);
+      expect(guide.intermediate_crafts.map((craft) => craft.id)).not.toContain(11);
+    });
+
+    it('should subtract partially owned materials at every level', () => {
+      const tree = service.getMaterialTree(12, new Set(), new Map([[2, 1]]));
+      const ingot = tree.find((node) => node.item_id === 2)!;
+
+      expect(ingot.quantity_owned).toBe(1);
+      expect(ingot.sub_materials).toEqual([expect.objectContaining({ item_id: 1, quantity: 3 })]);
+
+      // 1 ingot for the sword + 4 for the rivets (the guide counts one rivet per synth)
+      const guide = service.getCraftingGuide(12, new Map([[2, 1]]))!;
+      expect(guide.total_materials).toEqual([
+        expect.objectContaining({ item_id: 1, quantity_needed: 15 }),
+      ]);
+    });
+
+    it('should price materials at their cheapest gil vendor', () => {
+      const guide = service.getCraftingGuide(13)!;
+
+      // The merchant has no cost of its own, so the leather's vendor price is used
+      expect(guide.total_materials).toEqual([
+        expect.objectContaining({ item_id: 1, quantity_needed: 9, vendor_purchasable: false }),
+        expect.objectContaining({
+          item_id: 6,
+          vendor_purchasable: true,
+          vendor_price: 90,
+          vendor_name: 'Merchant',
+        }),
+      ]);
+      expect(guide.estimated_cost).toBe(90);
+      expect(guide.non_vendor_materials).toEqual([1]);
+
+      // Owned materials aren't bought
+      expect(service.getCraftingGuide(13, new Map([[6, 1]]))!.estimated_cost).toBe(0);
+    });
+  });
+
+  describe('getCraftingProfit', () => {
+    // Local stand-in for a price source: Ore 5, Leather 70 (vendor: 90), Shield 300 / HQ 500
+    // on Gilgamesh, only the Shield on Balmung
+    const prices: PriceProvider = {
+      name: 'stub',
+      async getPrices(itemIds: number[], world: string) {
+        const listed: Array<[number, number | null, number | null]> =
+          world === 'Gilgamesh'
+            ? [
+                [1, 5, null],
+                [6, 70, 95],
+                [5, 300, 500],
+              ]
+            : world === 'Balmung'
+              ? [[5, 300, 500]]
+              : [];
+        return new Map(
+          listed
+            .filter(([itemId]) => itemIds.includes(itemId))
+            .map(([itemId, priceNq, priceHq]): [number, MarketPrice] => [
+              itemId,
+              { item_id: itemId, world, price_nq: priceNq, price_hq: priceHq, recorded_at: 1000 },
+            ])
+        );
+      },
+    };
+
+    it('should compare material cost with the sale value of the result', async () => {
+      const profit = (await service.getCraftingProfit(13, prices, 'Gilgamesh'))!;
+
+      // The leather is cheaper on the market than at the merchant
+      expect(profit.materials).toEqual([
+        expect.objectContaining({
+          item_id: 1,
+          unit_price: 5,
+          price_source: 'market',
+          total_cost: 45,
+        }),
+        expect.objectContaining({
+          item_id: 6,
+          unit_price: 70,
+          price_source: 'market',
+          total_cost: 70,
+        }),
+      ]);
+      expect(profit).toEqual(
+        expect.objectContaining({
+          price_source: 'stub',
+          sale_value: 300,
+          material_cost: 115,
+          profit: 185,
+          margin_percent: 61.7,
+          unpriced_materials: [],
+          prices_recorded_at: 1000,
+        })
+      );
+      expect((await service.getCraftingProfit(13, prices, 'Gilgamesh', true))!.profit).toBe(385);
+    });
+
+    it('should fall back to vendor prices and report unpriced materials', async () => {
+      const profit = (await service.getCraftingProfit(13, prices, 'Sargatanas'))!;
+
+      expect(profit.materials.map((m) => [m.item_id, m.unit_price, m.price_source])).toEqual([
+        [1, null, null],
+        [6, 90, 'vendor'],
+      ]);
+      expect(profit).toEqual(
+        expect.objectContaining({
+          sale_value: null,
+          material_cost: 90,
+          profit: null,
+          unpriced_materials: [1],
+          prices_recorded_at: null,
+        })
+      );
+      expect(await service.getCraftingProfit(999, prices, 'Gilgamesh')).toBeNull();
+    });
+
+    it('should not report a profit while materials are unpriced', async () => {
+      const profit = (await service.getCraftingProfit(13, prices, 'Balmung'))!;
+
+      expect(profit).toEqual(
+        expect.objectContaining({
+          sale_value: 300,
+          material_cost: 90,
+          unpriced_materials: [1],
+          profit: null,
+          margin_percent: null,
+        })
+      );
+    });
+  });
+});
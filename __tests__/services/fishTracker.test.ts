@@ -160,6 +160,106 @@ describe('FishTrackerService', () => {
       // Each fish should be within its time window
       // (We can't easily verify this without calculating Eorzean time)
     });
+
+    it('should only return fish whose weather matches', () => {
+      const testDate = new Date('2024-01-01T12:00:00Z');
+      const fish = service.getAvailableFish(testDate);
+
+      for (const f of fish) {
+        expect(f.available).toBe(true);
+        expect(f.reason).toMatch(/^time ok, /);
+        if (f.weatherSet.length > 0 && f.currentWeather !== null) {
+          expect(f.weatherSet).toContain(f.currentWeather);
+        }
+      }
+    });
+  });
+
+  describe('getFishInTimeWindow', () => {
+    it('should explain why weather-blocked fish are unavailable', () => {
+      const testDate = new Date('2024-01-01T12:00:00Z');
+      const blocked = service.getFishInTimeWindow(testDate).filter((f) => !f.available);
+
+      for (const f of blocked) {
+        expect(f.timeOk).toBe(true);
+        expect(f.weatherOk).toBe(false);
+        expect(f.reason).toMatch(/^time ok, (previous )?weather wrong \(need .+\)$/);
+      }
+    });
+  });
+
+  describe('getUpcomingWindows', () => {
+    const from = new Date('2024-01-01T00:00:00Z');
+
+    it('should return ordered, non-overlapping windows', () => {
+      const fish = service.getFishById(4898);
+      expect(fish).not.toBeNull();
+
+      const windows = service.getUpcomingWindows(fish!, { count: 5, from });
+      expect(windows.length).toBeLessThanOrEqual(5);
+
+      windows.forEach((w, i) => {
+        expect(w.end.getTime()).toBeGreaterThan(w.start.getTime());
+        expect(w.start.getTime()).toBeGreaterThanOrEqual(from.getTime());
+        if (i > 0) {
+          expect(w.start.getTime()).toBeGreaterThan(windows[i - 1].end.getTime());
+        }
+      });
+    });
+
+    it('should only return windows matching the weather requirements', () => {
+      const fish = service.getBigFish().find((f) => f.weatherSet.length > 0);
+      if (!fish) return;
+
+      const windows = service.getUpcomingWindows(fish, { count: 3, from, horizonDays: 14 });
+      windows.forEach((w) => {
+        if (w.weather !== null) {
+          expect(fish.weatherSet).toContain(w.weather);
+        }
+      });
+    });
+
+    it('should agree with getNextAvailableWindow', () => {
+      const fish = service.getFishById(4898);
+      const [first] = service.getUpcomingWindows(fish!, { count: 1, from });
+      const next = service.getNextAvailableWindow(fish!, from);
+
+      expect(next?.getTime()).toBe(first?.start.getTime());
+    });
+  });
+
+  describe('getIntuitionPlan', () => {
+    const from = new Date('2024-01-01T00:00:00Z');
+
+    it('should list predators before the target', () => {
+      const fish = service
+        .getBigFish()
+        .find((f) => service.getPredators(f).length > 0 && f.intuitionLength);
+      if (!fish) return;
+
+      const plan = service.getIntuitionPlan(fish, { from, horizonDays: 14 });
+      const predators = service.getPredators(fish);
+
+      expect(plan.steps).toHaveLength(predators.length + 1);
+      expect(plan.steps[plan.steps.length - 1].isTarget).toBe(true);
+      expect(plan.steps[plan.steps.length - 1].fishId).toBe(fish._id);
+    });
+
+    it('should trigger intuition close enough to the target window', () => {
+      const fish = service
+        .getBigFish()
+        .find((f) => service.getPredators(f).length > 0 && f.intuitionLength);
+      if (!fish) return;
+
+      const plan = service.getIntuitionPlan(fish, { from, horizonDays: 14 });
+      plan.windows.forEach((w) => {
+        expect(w.triggerFrom.getTime()).toBeLessThan(w.triggerUntil.getTime());
+        expect(w.triggerUntil.getTime()).toBeLessThanOrEqual(w.targetWindow.end.getTime());
+        expect(w.triggerFrom.getTime() + fish.intuitionLength! * 1000).toBeGreaterThanOrEqual(
+          w.targetWindow.start.getTime()
+        );
+      });
+    });
   });
 
   describe('getFishByWeather', () => {
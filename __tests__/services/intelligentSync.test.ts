@@ -1,4 +1,7 @@
 import { IntelligentSyncService } from '../../src/services/intelligentSync';
+import Database from 'better-sqlite3';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
 import { join } from 'path';
 
 describe('IntelligentSyncService', () => {
@@ -139,3 +142,333 @@ describe('IntelligentSyncService', () => {
     });
   });
 });
+
+describe('IntelligentSyncService MSQ inference', () => {
+  let dir: string;
+  let service: IntelligentSyncService;
+
+  // Genre 8 is the MSQ (from the final quest), 7 the previous patch's MSQ,
+  // 50 side quests and 60 starting class quests
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'eorzea-sync-'));
+    const dbPath = join(dir, 'gameData.db');
+
+    const db = new Database(dbPath);
+    db.exec(readFileSync(join(__dirname, '../../data/gameData-schema.sql'), 'utf-8'));
+    db.exec(`
+      CREATE TABLE quests (
+        id INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        level INTEGER NOT NULL,
+        level_offset INTEGER,
+        journal_genre_id INTEGER,
+        expansion_id INTEGER,
+        previous_quests TEXT,
+        objectives TEXT,
+        is_repeatable BOOLEAN
+      );
+      INSERT INTO quests (id, name, level, journal_genre_id, expansion_id, previous_quests) VALUES
+        (90, 'Previous Patch Finale', 70, 7, 2, '[]'),
+        (100, 'Start', 70, 8, 3, '[90]'),
+        (101, 'Middle', 72, 8, 3, '[100, 200]'),
+        (102, 'Late', 75, 8, 3, '[101, 300, 301]'),
+        (103, 'Shadowbringers', 80, 8, 3, '[102]'),
+        (150, 'Unrelated Side Quest', 71, 50, 3, '[]'),
+        (200, 'Required Side Quest', 71, 50, 3, '[201]'),
+        (201, 'Side Quest Opener', 70, 50, 3, '[]'),
+        (300, 'Class Quest A', 70, 60, 3, '[]'),
+        (301, 'Class Quest B', 70, 60, 3, '[]');
+      INSERT INTO achievements (id, name) VALUES (2298, 'Shadowbringers');
+    `);
+    db.close();
+
+    service = new IntelligentSyncService(dbPath);
+  });
+
+  afterAll(() => {
+    service.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should only infer quests on the prerequisite chain of the final quest', () => {
+    const result = service.analyzeAchievements([2298]);
+
+    expect(result.inferredQuests.map((q) => q.questId)).toEqual([90, 100, 201, 200, 101, 102, 103]);
+  });
+
+  it('should infer required side quests with slightly lower confidence', () => {
+    const result = service.analyzeAchievements([2298]);
+    const confidence = (questId: number) =>
+      result.inferredQuests.find((q) => q.questId === questId)?.confidence;
+
+    expect(confidence(103)).toBe(95);
+    expect(confidence(90)).toBe(95);
+    expect(confidence(200)).toBe(90);
+    expect(confidence(201)).toBe(90);
+  });
+
+  it('should not infer alternative prerequisites', () => {
+    const ids = service.analyzeAchievements([2298]).inferredQuests.map((q) => q.questId);
+
+    expect(ids).not.toContain(300);
+    expect(ids).not.toContain(301);
+    expect(ids).not.toContain(150);
+  });
+
+  it('should not infer the same quest twice', () => {
+    const result = service.analyzeAchievements([2298, 2298]);
+
+    expect(result.summary.totalQuestsInferred).toBe(7);
+  });
+});
+
+describe('IntelligentSyncService job quest inference', () => {
+  let dir: string;
+  let service: IntelligentSyncService;
+
+  // Gladiator (1) unlocks Paladin (19); Carpenter (8) is a crafter. Category 900
+  // holds the level achievements, 901 a lone dungeon achievement mentioning a job.
+  // Quest category 40 is only used by Paladin quests.
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'eorzea-sync-jobs-'));
+    const dbPath = join(dir, 'gameData.db');
+
+    const db = new Database(dbPath);
+    db.exec(readFileSync(join(__dirname, '../../data/gameData-schema.sql'), 'utf-8'));
+    db.exec(`
+      CREATE TABLE quests (
+        id INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        level INTEGER NOT NULL,
+        level_offset INTEGER,
+        class_job_category_id INTEGER,
+        class_job_required_id INTEGER,
+        journal_genre_id INTEGER,
+        expansion_id INTEGER,
+        previous_quests TEXT,
+        objectives TEXT,
+        is_repeatable BOOLEAN
+      );
+      INSERT INTO class_jobs (id, name, abbreviation) VALUES
+        (1, 'gladiator', 'GLA'), (8, 'carpenter', 'CRP'), (19, 'paladin', 'PLD');
+      INSERT INTO achievements (id, category_id, name, description) VALUES
+        (144, 900, 'The Sword and Shield', 'Achieve level 50 as a paladin.'),
+        (145, 900, 'The Sword and Shield II', 'Achieve level 60 as a paladin.'),
+        (160, 900, 'Wood Worker', 'Achieve level 50 as a carpenter.'),
+        (700, 901, 'Shield Wall', 'Clear a level 50 dungeon as a paladin.');
+      INSERT INTO quests
+        (id, name, level, class_job_category_id, class_job_required_id, previous_quests) VALUES
+        (1, 'Way of the Gladiator', 1, 2, 1, '[]'),
+        (2, 'Gladiator Graduation', 30, 2, 1, '[1]'),
+        (3, 'Paladin''s Pledge', 30, 40, 19, '[2]'),
+        (4, 'Paladin''s Oath', 50, 40, NULL, '[3]'),
+        (5, 'Paladin''s Return', 60, 40, 19, '[4]'),
+        (6, 'Way of the Carpenter', 1, 9, 8, '[]'),
+        (7, 'Paladin Impostor', 40, 1, NULL, '[]');
+    `);
+    db.close();
+
+    service = new IntelligentSyncService(dbPath);
+  });
+
+  afterAll(() => {
+    service.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should infer the job quests up to the achieved level', () => {
+    const result = service.analyzeAchievements([144]);
+    const jobQuests = result.inferredQuests.filter((q) => q.confidence === 85);
+
+    expect(jobQuests.map((q) => q.questId)).toEqual([3, 4]);
+    expect(jobQuests[0].reason).toBe('Inferred from paladin level 50 achievement');
+  });
+
+  it('should infer the base class quests a job requires with lower confidence', () => {
+    const result = service.analyzeAchievements([145]);
+
+    expect(result.inferredQuests.map((q) => [q.questId, q.confidence])).toEqual([
+      [1, 80],
+      [2, 80],
+      [3, 85],
+      [4, 85],
+      [5, 85],
+    ]);
+  });
+
+  it('should cover crafting jobs', () => {
+    const result = service.analyzeAchievements([160]);
+
+    expect(result.inferredQuests.map((q) => q.questId)).toEqual([6]);
+  });
+
+  it('should not match quests or achievements by name alone', () => {
+    const ids = service.analyzeAchievements([144, 700]).inferredQuests.map((q) => q.questId);
+
+    expect(ids).not.toContain(7);
+    expect(service.analyzeAchievements([700]).inferredQuests).toEqual([]);
+  });
+});
+
+describe('IntelligentSyncService inference rules', () => {
+  let dir: string;
+  let service: IntelligentSyncService;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'eorzea-sync-rules-'));
+    const dbPath = join(dir, 'gameData.db');
+
+    const fishObjective = (fishId: number, fishName: string) =>
+      JSON.stringify([{ type: 'fish', details: { fish: { fishId, fishName } } }]);
+
+    const db = new Database(dbPath);
+    db.exec(readFileSync(join(__dirname, '../../data/gameData-schema.sql'), 'utf-8'));
+    db.exec(`
+      CREATE TABLE quests (
+        id INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        level INTEGER NOT NULL,
+        level_offset INTEGER,
+        journal_genre_id INTEGER,
+        expansion_id INTEGER,
+        previous_quests TEXT,
+        objectives TEXT,
+        is_repeatable BOOLEAN
+      );
+      INSERT INTO quests (id, name, level, journal_genre_id, expansion_id, previous_quests) VALUES
+        (100, 'Start', 70, 8, 3, '[]'),
+        (103, 'Shadowbringers', 80, 8, 3, '[100]');
+      INSERT INTO titles (id, name_masculine, name_feminine, is_prefix) VALUES
+        (50, 'Warrior of Darkness', 'Warrior of Darkness', 0);
+      INSERT INTO items (id, name) VALUES (60, 'Allagan Tomestone');
+      INSERT INTO mounts (id, name, singular) VALUES (1, 'Fat Moogle', 'fat moogle');
+      INSERT INTO companions (id, name, singular) VALUES (2, 'Wind-up Ardbert', 'wind-up Ardbert');
+      INSERT INTO orchestrion_rolls (id, name) VALUES (3, 'Shadowbringers');
+      INSERT INTO achievements (id, name, title_reward_id, item_reward_id) VALUES
+        (2298, 'Shadowbringers', 50, NULL),
+        (500, 'Moogle Friend', NULL, 60);
+      INSERT INTO collectible_sources (collectible_type, collectible_id, source_type, source_id) VALUES
+        ('mount', 1, 'achievement', 500),
+        ('companion', 2, 'achievement', 2298),
+        ('orchestrion', 3, 'achievement', 2298),
+        ('mount', 1, 'quest', 103);
+    `);
+    const setObjectives = db.prepare('UPDATE quests SET objectives = ? WHERE id = ?');
+    setObjectives.run(fishObjective(7, 'Merlthor Goby'), 100);
+    db.prepare(
+      `INSERT INTO quests (id, name, level, previous_quests, objectives)
+       VALUES (400, 'A Fishy Request', 20, '[]', ?)`
+    ).run(fishObjective(8, 'Pipira'));
+    db.close();
+
+    service = new IntelligentSyncService(dbPath);
+  });
+
+  afterAll(() => {
+    service.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const ofType = (
+    result: ReturnType<IntelligentSyncService['analyzeAchievements']>,
+    type: string
+  ) => result.inferences.filter((inference) => inference.type === type);
+
+  it('should infer collectibles listed as achievement rewards', () => {
+    const result = service.analyzeAchievements([2298, 500]);
+
+    expect(ofType(result, 'mount')).toEqual([
+      expect.objectContaining({
+        targetId: 1,
+        targetName: 'Fat Moogle',
+        confidence: 90,
+        rule: 'achievement_collectibles',
+        inferredFrom: { type: 'achievement', id: 500, name: 'Moogle Friend' },
+      }),
+    ]);
+    expect(ofType(result, 'companion').map((i) => i.targetId)).toEqual([2]);
+    expect(ofType(result, 'orchestrion').map((i) => i.targetId)).toEqual([3]);
+  });
+
+  it('should infer reward titles and items', () => {
+    const result = service.analyzeAchievements([2298, 500]);
+
+    expect(ofType(result, 'title')).toEqual([
+      expect.objectContaining({
+        targetId: 50,
+        targetName: 'Warrior of Darkness',
+        confidence: 100,
+        reason: 'Auto-unlocked from achievement: Shadowbringers',
+      }),
+    ]);
+    expect(ofType(result, 'item')).toEqual([
+      expect.objectContaining({ targetId: 60, targetName: 'Allagan Tomestone', confidence: 90 }),
+    ]);
+  });
+
+  it('should infer fish from inferred quests with the quest confidence', () => {
+    const result = service.analyzeAchievements([2298]);
+
+    expect(ofType(result, 'fish')).toEqual([
+      expect.objectContaining({
+        targetId: 7,
+        targetName: 'Merlthor Goby',
+        confidence: 95,
+        inferredFrom: { type: 'quest', id: 100, name: 'Start' },
+      }),
+    ]);
+  });
+
+  it('should infer fish from completed quests with full confidence', () => {
+    const result = service.analyzeAchievements([2298], [100, 400]);
+
+    expect(ofType(result, 'fish').map((i) => [i.targetId, i.confidence])).toEqual([
+      [7, 100],
+      [8, 100],
+    ]);
+  });
+
+  it('should count inferences by type', () => {
+    const result = service.analyzeAchievements([2298, 500]);
+
+    expect(result.summary.byType).toEqual({
+      quest: 2,
+      fish: 1,
+      mount: 1,
+      companion: 1,
+      orchestrion: 1,
+      title: 1,
+      item: 1,
+    });
+    expect(result.summary.totalInferences).toBe(8);
+  });
+
+  it('should run added rules after the built-in ones', () => {
+    const custom = new IntelligentSyncService(join(dir, 'gameData.db'));
+    custom.addRule({
+      name: 'finale_items',
+      infer: (context) =>
+        context.inferences
+          .filter((inference) => inference.type === 'quest' && inference.targetId === 103)
+          .map((inference) => ({
+            type: 'item',
+            targetId: 60,
+            targetName: 'Allagan Tomestone',
+            confidence: 80,
+            rule: 'finale_items',
+            inferredFrom: { type: 'quest', id: 103, name: inference.targetName },
+            reason: 'Reward of quest: Shadowbringers',
+          })),
+    });
+
+    expect(custom.getRuleNames().at(-1)).toBe('finale_items');
+    expect(ofType(custom.analyzeAchievements([2298]), 'item')).toEqual([
+      expect.objectContaining({ targetId: 60, rule: 'finale_items' }),
+    ]);
+    // The achievement rule is more confident, so its inference is kept
+    expect(ofType(custom.analyzeAchievements([2298, 500]), 'item')).toEqual([
+      expect.objectContaining({ targetId: 60, confidence: 90, rule: 'achievement_items' }),
+    ]);
+    custom.close();
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Tests for the snapshot Price Provider
+ */
+
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SnapshotPriceProvider } from '../../src/services/marketPrices';
+
+describe('SnapshotPriceProvider', () => {
+  let dir: string;
+  let provider: SnapshotPriceProvider;
+
+  const price = (itemId: number, world: string, priceNq: number, recordedAt: number) => ({
+    item_id: itemId,
+    world,
+    price_nq: priceNq,
+    price_hq: null,
+    recorded_at: recordedAt,
+  });
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'eorzea-market-'));
+    provider = new SnapshotPriceProvider(join(dir, 'marketPrices.db'));
+  });
+
+  afterEach(() => {
+    provider.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should return the prices of one world', async () => {
+    provider.importPrices([price(1, 'Gilgamesh', 100, 1000), price(1, 'Sargatanas', 80, 1000)]);
+
+    const prices = await provider.getPrices([1, 2], 'gilgamesh');
+
+    expect([...prices.keys()]).toEqual([1]);
+    expect(prices.get(1)).toEqual(price(1, 'Gilgamesh', 100, 1000));
+  });
+
+  it('should keep the newest snapshot of an item', async () => {
+    provider.importPrices([price(1, 'Gilgamesh', 100, 2000)]);
+
+    expect(
+      provider.importPrices([price(1, 'Gilgamesh', 50, 1000), price(1, 'Gilgamesh', 120, 3000)])
+    ).toEqual({ imported: 1, skipped: 1 });
+    expect((await provider.getPrices([1], 'Gilgamesh')).get(1)?.price_nq).toBe(120);
+    expect(provider.getWorlds()).toEqual([{ world: 'Gilgamesh', items: 1, latest: 3000 }]);
+  });
+});
@@ -0,0 +1,298 @@
+/**
+ * Tests for Player Profile Service Lodestone imports
+ */
+
+import Database from 'better-sqlite3';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  parseLodestoneAchievementPage,
+  parseLodestoneCollectionPage,
+  readLodestoneSavedPages,
+} from '../../src/parsers/lodestonePageParser';
+import { PlayerProfileService } from '../../src/services/playerProfile';
+import { UserDataRepository } from '../../src/services/userDataRepository';
+
+// Intelligent sync reads the game data of the test profile instead of data/gameData.db
+let mockGameDbPath: string;
+jest.mock('../../src/services/intelligentSync', () => {
+  const actual = jest.requireActual('../../src/services/intelligentSync');
+  return {
+    ...actual,
+    getIntelligentSyncService: () => new actual.IntelligentSyncService(mockGameDbPath),
+  };
+});
+
+function readFixture(name: string): string {
+  return readFileSync(join(__dirname, '../fixtures/lodestone', name), 'utf-8');
+}
+
+describe('PlayerProfileService', () => {
+  let dir: string;
+  let userData: UserDataRepository;
+  let service: PlayerProfileService;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'eorzea-profile-'));
+    const userDbPath = join(dir, 'userData.db');
+    const gameDbPath = join(dir, 'gameData.db');
+    mockGameDbPath = gameDbPath;
+
+    const userDb = new Database(userDbPath);
+    userDb.exec(readFileSync(join(__dirname, '../../data/userData-schema.sql'), 'utf-8'));
+    userDb.exec(`
+      INSERT INTO characters (id, name, server, created_at) VALUES
+        ('12345', 'Alice Example', 'Gilgamesh', 0);
+    `);
+    userDb.close();
+
+    const gameDb = new Database(gameDbPath);
+    gameDb.exec(readFileSync(join(__dirname, '../../data/gameData-schema.sql'), 'utf-8'));
+    gameDb.exec(`
+      INSERT INTO mounts (id, name, singular) VALUES
+        (1, 'Company Chocobo', 'company chocobo'),
+        (2, 'Magitek Armor', 'magitek armor');
+      INSERT INTO companions (id, name, singular) VALUES
+        (1, 'Wind-up Airship', 'wind-up airship'),
+        (2, 'Wind-up Cid & Nero', 'wind-up Cid & Nero');
+      INSERT INTO achievements (id, name) VALUES
+        (2298, 'Warrior of Light'),
+        (788, 'Let''s Get Ready to Rumble');
+    `);
+    gameDb.close();
+
+    userData = new UserDataRepository(userDbPath, gameDbPath);
+    service = new PlayerProfileService(userDbPath, gameDbPath, userData);
+  });
+
+  afterEach(() => {
+    service.close();
+    userData.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('importLodestoneCollections', () => {
+    const collections = () => ({
+      mounts: parseLodestoneCollectionPage(readFixture('mount.html'), 'mount'),
+      minions: parseLodestoneCollectionPage(readFixture('minion.html'), 'minion'),
+      achievements: {
+        achievements: [
+          ...parseLodestoneAchievementPage(readFixture('achievement-page1.html')).achievements,
+          ...parseLodestoneAchievementPage(readFixture('achievement-page2.html')).achievements,
+        ],
+        isPrivate: false,
+      },
+    });
+
+    it('should record Lodestone pages with the lodestone_sync source', () => {
+      const result = service.importLodestoneCollections('12345', collections());
+
+      expect(result).toEqual({
+        mountsAdded: 2,
+        minionsAdded: 2,
+        achievementsAdded: 2,
+        unmatched: ['Fat Black Chocobo', 'Not In Game Data'],
+        achievementsPrivate: false,
+      });
+      expect(userData.getObtainedCollectibles('12345', 'mount')).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ collectible_id: 1, obtained_from: 'lodestone_sync' }),
+          expect.objectContaining({ collectible_id: 2, obtained_from: 'lodestone_sync' }),
+        ])
+      );
+      expect(userData.getObtainedCollectible('12345', 'companion', 2)?.obtained_from).toBe(
+        'lodestone_sync'
+      );
+      expect(service.getUnlockedAchievements('12345')).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ achievementId: 2298, source: 'lodestone_sync' }),
+          expect.objectContaining({ achievementId: 788, source: 'lodestone_sync' }),
+        ])
+      );
+    });
+
+    it('should keep entries the character already has', () => {
+      userData.markCollectibleObtained('12345', 'mount', 1, 'quest');
+      service.markAchievementUnlocked('12345', 2298, 'manual');
+
+      const result = service.importLodestoneCollections('12345', collections());
+
+      expect(result.mountsAdded).toBe(1);
+      expect(result.achievementsAdded).toBe(1);
+      expect(userData.getObtainedCollectible('12345', 'mount', 1)?.obtained_from).toBe('quest');
+      expect(
+        service.getUnlockedAchievements('12345').find((a) => a.achievementId === 2298)?.source
+      ).toBe('manual');
+    });
+
+    it('should report private achievements', () => {
+      const achievements = parseLodestoneAchievementPage(readFixture('achievement-private.html'));
+      const result = service.importLodestoneCollections('12345', {
+        achievements: { achievements: achievements.achievements, isPrivate: true },
+      });
+
+      expect(result).toEqual(
+        expect.objectContaining({ achievementsAdded: 0, achievementsPrivate: true })
+      );
+    });
+  });
+
+  describe('importCharacterFromHtml', () => {
+    const pages = () => readLodestoneSavedPages(join(__dirname, '../fixtures/lodestone'));
+
+    it('should update characters already in the profile', () => {
+      const result = service.importCharacterFromHtml({ ...pages(), profile: undefined });
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          created: false,
+          characterId: '12345',
+          changes: expect.objectContaining({ newJobs: ['Paladin', 'DarkKnight', 'Carpenter'] }),
+          collections: expect.objectContaining({ mountsAdded: 2, achievementsPrivate: false }),
+        })
+      );
+      expect(service.getJobProgress('12345').map((job) => [job.jobName, job.level])).toEqual([
+        ['Paladin', 90],
+        ['DarkKnight', 70],
+        ['Carpenter', 45],
+      ]);
+    });
+
+    it('should add characters that are not in the profile yet', () => {
+      service.removeCharacter('12345');
+
+      const result = service.importCharacterFromHtml(pages());
+
+      expect(result.created).toBe(true);
+      expect(service.getCharacterById('12345')).toEqual(
+        expect.objectContaining({
+          name: 'Alice Example',
+          server: 'Gilgamesh',
+          dataCenter: 'Aether',
+          freeCompany: 'Seventh Dawn & Co',
+          isActive: true,
+        })
+      );
+      expect(service.getUnlockedAchievements('12345')).toHaveLength(2);
+    });
+
+    it('should report job level changes on a second import', () => {
+      service.importCharacterFromHtml(pages());
+      service.updateJobLevel('12345', 'Paladin', 80);
+
+      const result = service.importCharacterFromHtml(pages());
+
+      expect(result.changes).toEqual({
+        jobsUpdated: 1,
+        newJobs: [],
+        levelChanges: [{ jobName: 'Paladin', oldLevel: 80, newLevel: 90 }],
+      });
+      expect(result.collections).toEqual(
+        expect.objectContaining({ mountsAdded: 0, minionsAdded: 0, achievementsAdded: 0 })
+      );
+    });
+
+    it('should reject pages without a character', () => {
+      expect(() => service.importCharacterFromHtml({ achievements: [] })).toThrow(
+        'No Lodestone character page found'
+      );
+    });
+  });
+
+  describe('sync runs', () => {
+    beforeEach(() => {
+      const gameDb = new Database(mockGameDbPath);
+      gameDb.exec(`
+        CREATE TABLE quests (
+          id INTEGER PRIMARY KEY,
+          name TEXT NOT NULL,
+          level INTEGER NOT NULL,
+          level_offset INTEGER,
+          journal_genre_id INTEGER,
+          expansion_id INTEGER,
+          previous_quests TEXT,
+          objectives TEXT,
+          is_repeatable BOOLEAN
+        );
+        INSERT INTO quests (id, name, level, journal_genre_id, expansion_id, previous_quests) VALUES
+          (100, 'Start', 70, 8, 3, '[]'),
+          (103, 'Shadowbringers', 80, 8, 3, '[100]');
+        INSERT INTO titles (id, name_masculine, name_feminine, is_prefix) VALUES
+          (50, 'Warrior of Darkness', 'Warrior of Darkness', 0);
+        UPDATE achievements SET title_reward_id = 50 WHERE id = 2298;
+        INSERT INTO achievements (id, name) VALUES (500, 'Magitek Master');
+        INSERT INTO collectible_sources (collectible_type, collectible_id, source_type, source_id)
+          VALUES ('mount', 2, 'achievement', 500);
+      `);
+      gameDb.close();
+    });
+
+    it('should record what a sync added as a run', async () => {
+      const result = await service.performIntelligentSync('12345', [2298, 500]);
+
+      expect(service.getSyncRuns('12345')).toEqual([
+        expect.objectContaining({
+          id: result.runId,
+          achievementIds: [2298, 500],
+          revertedAt: undefined,
+          changeCounts: { achievement: 2, quest: 2, title: 1, mount: 1 },
+        }),
+      ]);
+      expect(service.getSyncRun(result.runId)?.changes).toEqual(
+        expect.arrayContaining([
+          { type: 'quest', targetId: 103, targetName: 'Shadowbringers', confidence: 95 },
+          { type: 'mount', targetId: 2, targetName: 'Magitek Armor', confidence: 90 },
+        ])
+      );
+    });
+
+    it('should remove everything a run added when reverted', async () => {
+      const { runId } = await service.performIntelligentSync('12345', [2298, 500]);
+
+      expect(service.revertSyncRun(runId)).toEqual({ runId, removed: 6, kept: 0 });
+      expect(service.getCompletedQuests('12345')).toEqual([]);
+      expect(service.getUnlockedAchievements('12345')).toEqual([]);
+      expect(service.isTitleUnlocked('12345', 50)).toBe(false);
+      expect(userData.getObtainedCollectible('12345', 'mount', 2)).toBeNull();
+      expect(service.getSyncRun(runId)?.revertedAt).toBeInstanceOf(Date);
+      expect(() => service.revertSyncRun(runId)).toThrow('already been reverted');
+    });
+
+    it('should keep manual completions when reverting', async () => {
+      service.markQuestComplete('12345', 100, 'Done by hand');
+      const { runId } = await service.performIntelligentSync('12345', [2298]);
+      service.markQuestComplete('12345', 103, 'Confirmed in game');
+
+      expect(service.revertSyncRun(runId)).toEqual({ runId, removed: 2, kept: 1 });
+      expect(service.getCompletedQuests('12345').map((q) => [q.questId, q.source])).toEqual(
+        expect.arrayContaining([
+          [100, 'manual'],
+          [103, 'manual'],
+        ])
+      );
+    });
+
+    it('should not keep any inferred rows when recording the run fails', async () => {
+      const userDb = new Database(join(dir, 'userData.db'));
+      userDb.exec(`
+        CREATE TRIGGER fail_sync_run BEFORE INSERT ON sync_runs
+        BEGIN SELECT RAISE(ABORT, 'disk full'); END;
+      `);
+      userDb.close();
+
+      // SqliteError comes from another realm when better-sqlite3 was loaded by an earlier suite
+      await expect(service.performIntelligentSync('12345', [2298, 500])).rejects.toMatchObject({
+        message: expect.stringContaining('disk full'),
+      });
+      expect(service.getCompletedQuests('12345')).toEqual([]);
+      expect(service.getUnlockedAchievements('12345')).toEqual([]);
+      expect(service.isTitleUnlocked('12345', 50)).toBe(false);
+      expect(userData.getObtainedCollectible('12345', 'mount', 2)).toBeNull();
+    });
+
+    it('should reject unknown runs', () => {
+      expect(() => service.revertSyncRun(999)).toThrow('Sync run 999 not found');
+    });
+  });
+});
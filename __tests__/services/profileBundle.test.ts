@@ -0,0 +1,201 @@
+/**
+ * Tests for Profile Bundle Service
+ */
+
+import Database from 'better-sqlite3';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PROFILE_BUNDLE_VERSION, ProfileBundleService } from '../../src/services/profileBundle';
+
+const SCHEMA = readFileSync(join(__dirname, '../../data/userData-schema.sql'), 'utf-8');
+
+describe('ProfileBundleService', () => {
+  let dir: string;
+  let sourcePath: string;
+  let targetPath: string;
+
+  const createProfile = (path: string, sql: string) => {
+    const db = new Database(path);
+    db.exec(SCHEMA);
+    db.exec(sql);
+    db.close();
+  };
+
+  const query = (path: string, sql: string) => {
+    const db = new Database(path, { readonly: true });
+    const rows = db.prepare(sql).all();
+    db.close();
+    return rows;
+  };
+
+  const exportSource = () => {
+    const service = new ProfileBundleService(sourcePath);
+    const bundle = service.exportProfile(['12345']);
+    service.close();
+    return bundle;
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'eorzea-bundle-'));
+    sourcePath = join(dir, 'source.db');
+    targetPath = join(dir, 'target.db');
+
+    createProfile(
+      sourcePath,
+      `
+      INSERT INTO characters (id, name, server, created_at, is_active) VALUES
+        ('12345', 'Alice Example', 'Gilgamesh', 0, 1),
+        ('67890', 'Bob Example', 'Gilgamesh', 0, 0);
+      INSERT INTO job_progress (character_id, job_name, level, updated_at) VALUES
+        ('12345', 'Paladin', 90, 2000),
+        ('67890', 'Miner', 50, 2000);
+      INSERT INTO completed_quests (character_id, quest_id, completed_at, source) VALUES
+        ('12345', 100, 1000, 'manual'),
+        ('12345', 103, 3000, 'manual');
+      INSERT INTO obtained_mounts (character_id, mount_id, obtained_at, obtained_from) VALUES
+        ('12345', 1, 1000, 'quest');
+      INSERT INTO goals (character_id, title, created_at) VALUES
+        ('12345', 'Catch every big fish', 1000);
+    `
+    );
+    createProfile(
+      targetPath,
+      `
+      INSERT INTO characters (id, name, server, created_at, is_active) VALUES
+        ('99999', 'Other Example', 'Sargatanas', 0, 1);
+    `
+    );
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should export only the requested character without row IDs', () => {
+    const bundle = exportSource();
+
+    expect(bundle).toEqual(
+      expect.objectContaining({ format: 'eorzea-profile', version: PROFILE_BUNDLE_VERSION })
+    );
+    expect(bundle.characters.map((c) => c.id)).toEqual(['12345']);
+    expect(bundle.tables.job_progress).toEqual([
+      expect.objectContaining({ character_id: '12345', job_name: 'Paladin', level: 90 }),
+    ]);
+    expect(bundle.tables.completed_quests[0]).not.toHaveProperty('id');
+  });
+
+  it('should import into a fresh profile without changing the active character', () => {
+    const service = new ProfileBundleService(targetPath);
+    const result = service.importProfile(exportSource());
+    service.close();
+
+    expect(result.characterIds).toEqual(['12345']);
+    expect(result.tables.completed_quests).toEqual({ added: 2, updated: 0, skipped: 0 });
+    expect(result.tables.goals).toEqual({ added: 1, updated: 0, skipped: 0 });
+    expect(query(targetPath, 'SELECT id, is_active FROM characters ORDER BY id')).toEqual([
+      { id: '12345', is_active: 0 },
+      { id: '99999', is_active: 1 },
+    ]);
+    expect(query(targetPath, 'SELECT mount_id, obtained_from FROM obtained_mounts')).toEqual([
+      { mount_id: 1, obtained_from: 'quest' },
+    ]);
+  });
+
+  it('should make only the first character active in an empty profile', () => {
+    const source = new ProfileBundleService(sourcePath);
+    const bundle = source.exportProfile(['12345', '67890']);
+    source.close();
+
+    const emptyPath = join(dir, 'empty.db');
+    createProfile(emptyPath, '');
+    const service = new ProfileBundleService(emptyPath);
+    service.importProfile(bundle);
+    service.close();
+
+    expect(query(emptyPath, 'SELECT id, is_active FROM characters ORDER BY id')).toEqual([
+      { id: '12345', is_active: 1 },
+      { id: '67890', is_active: 0 },
+    ]);
+  });
+
+  describe('merge strategies', () => {
+    beforeEach(() => {
+      const db = new Database(targetPath);
+      db.exec(`
+        INSERT INTO characters (id, name, server, created_at, is_active) VALUES
+          ('12345', 'Alice Example', 'Gilgamesh', 0, 0);
+        INSERT INTO completed_quests (character_id, quest_id, completed_at, source, notes) VALUES
+          ('12345', 100, 2000, 'manual', 'Newer here'),
+          ('12345', 103, 2000, 'manual', 'Older here');
+      `);
+      db.close();
+    });
+
+    const importWith = (strategy: 'skip' | 'overwrite' | 'newest') => {
+      const service = new ProfileBundleService(targetPath);
+      const result = service.importProfile(exportSource(), strategy);
+      service.close();
+      return {
+        counts: result.tables.completed_quests,
+        quests: query(
+          targetPath,
+          'SELECT quest_id, completed_at, notes FROM completed_quests ORDER BY quest_id'
+        ),
+      };
+    };
+
+    it('should keep existing rows with skip', () => {
+      expect(importWith('skip')).toEqual({
+        counts: { added: 0, updated: 0, skipped: 2 },
+        quests: [
+          { quest_id: 100, completed_at: 2000, notes: 'Newer here' },
+          { quest_id: 103, completed_at: 2000, notes: 'Older here' },
+        ],
+      });
+    });
+
+    it('should replace existing rows with overwrite', () => {
+      expect(importWith('overwrite')).toEqual({
+        counts: { added: 0, updated: 2, skipped: 0 },
+        quests: [
+          { quest_id: 100, completed_at: 1000, notes: null },
+          { quest_id: 103, completed_at: 3000, notes: null },
+        ],
+      });
+    });
+
+    it('should only take more recent rows with newest', () => {
+      expect(importWith('newest')).toEqual({
+        counts: { added: 0, updated: 1, skipped: 1 },
+        quests: [
+          { quest_id: 100, completed_at: 2000, notes: 'Newer here' },
+          { quest_id: 103, completed_at: 3000, notes: null },
+        ],
+      });
+    });
+  });
+
+  describe('validation', () => {
+    it('should reject bundles from newer versions', () => {
+      const service = new ProfileBundleService(targetPath);
+      const bundle = { ...exportSource(), version: PROFILE_BUNDLE_VERSION + 1 };
+
+      expect(() => service.importProfile(bundle)).toThrow('is newer than this version');
+      expect(() => service.importProfile({ ...bundle, format: 'other' } as any)).toThrow(
+        'Not an eorzea profile bundle'
+      );
+      service.close();
+    });
+
+    it('should reject rows for characters outside the bundle and roll back', () => {
+      const service = new ProfileBundleService(targetPath);
+      const bundle = exportSource();
+      bundle.tables.caught_fish = [{ character_id: '67890', fish_id: 1, caught_at: 1000 }];
+
+      expect(() => service.importProfile(bundle)).toThrow("character that isn't in the bundle");
+      service.close();
+      expect(query(targetPath, 'SELECT id FROM characters')).toEqual([{ id: '99999' }]);
+    });
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Tests for Quest Graph Service
+ */
+
+import Database from 'better-sqlite3';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { QuestGraphService } from '../../src/services/questGraph';
+
+describe('QuestGraphService', () => {
+  let dir: string;
+  let service: QuestGraphService;
+
+  // 1 → 2, 3; 2 + 3 → 4; 3 → 6; 5 needs a quest that doesn't exist; 7 ↔ 8 form a cycle
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'eorzea-quests-'));
+    const dbPath = join(dir, 'gameData.db');
+
+    const db = new Database(dbPath);
+    db.exec(`
+      CREATE TABLE quests (
+        id INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        level INTEGER NOT NULL,
+        level_offset INTEGER,
+        journal_genre_id INTEGER,
+        expansion_id INTEGER,
+        previous_quests TEXT,
+        is_repeatable BOOLEAN
+      );
+      INSERT INTO quests (id, name, level, previous_quests) VALUES
+        (1, 'Start', 1, '[]'),
+        (2, 'Left', 5, '[1]'),
+        (3, 'Right', 3, '[1]'),
+        (4, 'Finale', 10, '[2, 3]'),
+        (5, 'Orphan', 2, '[99]'),
+        (6, 'Side', 4, '[3]'),
+        (7, 'Loop A', 1, '[8]'),
+        (8, 'Loop B', 1, '[7]'),
+        (9, 'After Loop', 2, '[8]');
+    `);
+    db.close();
+
+    service = new QuestGraphService(dbPath);
+  });
+
+  afterAll(() => {
+    service.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('getPrerequisiteChain', () => {
+    it('should list every prerequisite after its own prerequisites', () => {
+      expect(service.getPrerequisiteChain(4).map((node) => node.id)).toEqual([1, 3, 2]);
+    });
+
+    it('should ignore prerequisites missing from the database', () => {
+      expect(service.getPrerequisiteChain(5)).toEqual([]);
+      expect(service.getNode(5)!.previousQuests).toEqual([]);
+    });
+
+    it('should only walk through quests that pass the filter', () => {
+      const chain = service.getPrerequisiteChain(4, (node) => node.level < 5);
+      expect(chain.map((node) => node.id)).toEqual([1, 3]);
+    });
+
+    it('should terminate on cycles', () => {
+      expect(service.getPrerequisiteChain(9).map((node) => node.id)).toEqual([7, 8]);
+    });
+  });
+
+  describe('getPathTo', () => {
+    it('should mark completed prerequisites', () => {
+      const path = service.getPathTo(4, [1])!;
+
+      expect(path.quest.name).toBe('Finale');
+      expect(path.prerequisites.map((step) => [step.id, step.completed])).toEqual([
+        [1, true],
+        [3, false],
+        [2, false],
+      ]);
+      expect(path.remaining).toBe(2);
+    });
+
+    it('should return null for unknown quests', () => {
+      expect(service.getPathTo(999)).toBeNull();
+    });
+  });
+
+  describe('getUnlockedQuests', () => {
+    it('should list quests whose prerequisites are all complete', () => {
+      expect(service.getUnlockedQuests([1]).map((node) => node.id)).toEqual([3, 2]);
+      expect(service.getUnlockedQuests([1, 3]).map((node) => node.id)).toEqual([6, 2]);
+      expect(service.getUnlockedQuests([1, 2, 3]).map((node) => node.id)).toEqual([6, 4]);
+    });
+
+    it('should not list completed quests', () => {
+      expect(service.getUnlockedQuests([1, 2, 3, 4, 6])).toEqual([]);
+    });
+  });
+});
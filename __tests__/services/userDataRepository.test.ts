@@ -0,0 +1,243 @@
+/**
+ * Tests for User Data Repository
+ */
+
+import Database from 'better-sqlite3';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { applySchemaAdditions, UserDataRepository } from '../../src/services/userDataRepository';
+import { CollectiblesService } from '../../src/services/collectiblesService';
+import { CraftingService } from '../../src/services/craftingService';
+
+describe('UserDataRepository', () => {
+  let dir: string;
+  let userDbPath: string;
+  let gameDbPath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'eorzea-userdata-'));
+    userDbPath = join(dir, 'userData.db');
+    gameDbPath = join(dir, 'gameData.db');
+
+    const userDb = new Database(userDbPath);
+    userDb.exec(readFileSync(join(__dirname, '../../data/userData-schema.sql'), 'utf-8'));
+    userDb.exec(`
+      INSERT INTO characters (id, name, server, created_at) VALUES
+        ('12345', 'Alice Example', 'Gilgamesh', 0);
+    `);
+    userDb.close();
+
+    const gameDb = new Database(gameDbPath);
+    gameDb.exec(readFileSync(join(__dirname, '../../data/gameData-schema.sql'), 'utf-8'));
+    gameDb.exec(`
+      INSERT INTO mounts (id, name, singular, is_flying) VALUES
+        (1, 'Company Chocobo', 'company chocobo', 1),
+        (2, 'Magitek Armor', 'magitek armor', 0);
+      INSERT INTO companions (id, name, singular) VALUES (1, 'Wind-up Airship', 'wind-up airship');
+      INSERT INTO items (id, name) VALUES (10, 'Bronze Ingot');
+      INSERT INTO craft_types (id, name) VALUES (1, 'Blacksmith');
+      INSERT INTO recipes (id, craft_type_id, recipe_level_table_id, item_result_id, exp_reward)
+        VALUES (100, 1, 1, 10, 50);
+    `);
+    gameDb.close();
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('progress tracking', () => {
+    it('should store collectibles for Lodestone character IDs', () => {
+      const repository = new UserDataRepository(userDbPath, gameDbPath);
+      repository.markCollectibleObtained('12345', 'mount', 1, 'quest');
+
+      expect(repository.getObtainedCollectibles('12345', 'mount')).toEqual([
+        expect.objectContaining({
+          character_id: '12345',
+          collectible_type: 'mount',
+          collectible_id: 1,
+          obtained_from: 'quest',
+        }),
+      ]);
+      expect(repository.getObtainedCollectible('12345', 'companion', 1)).toBeNull();
+      repository.close();
+    });
+
+    it('should back collectible and crafting services', () => {
+      const repository = new UserDataRepository(userDbPath, gameDbPath);
+      const collectibles = new CollectiblesService(gameDbPath, repository);
+      const crafting = new CraftingService(gameDbPath, repository);
+
+      collectibles.trackObtainedMount('12345', 1);
+      crafting.trackCraftedItem('12345', 100, 10, true);
+
+      const stats = collectibles.getCollectionStats('12345');
+      expect(stats.mounts).toEqual(expect.objectContaining({ total: 2, obtained: 1, flying: 1 }));
+      expect(stats.companions.obtained).toBe(0);
+      expect(collectibles.getMountById(1, '12345')?.obtained).toBe(true);
+
+      expect(crafting.getCraftingStats('12345')).toEqual([
+        expect.objectContaining({
+          craft_type: 'Blacksmith',
+          recipes_crafted: 1,
+          hq_items_crafted: 1,
+          total_exp_earned: 50,
+          progress_percentage: 100,
+        }),
+      ]);
+      expect(crafting.getCraftedItems('12345', 'Blacksmith')).toEqual([
+        expect.objectContaining({ recipe_id: 100, item_name: 'Bronze Ingot' }),
+      ]);
+
+      collectibles.close();
+      crafting.close();
+      repository.close();
+    });
+  });
+
+  describe('applySchemaAdditions', () => {
+    const tableNames = (db: Database.Database) =>
+      (
+        db.prepare("SELECT name FROM sqlite_master WHERE type = 'table'").all() as Array<{
+          name: string;
+        }>
+      ).map((row) => row.name);
+
+    it('should add newer tables to older profiles from the schema file', () => {
+      const db = new Database(join(dir, 'old.db'));
+      db.exec('CREATE TABLE characters (id TEXT PRIMARY KEY, name TEXT NOT NULL)');
+
+      applySchemaAdditions(db);
+
+      expect(tableNames(db)).toEqual(
+        expect.arrayContaining(['inventory', 'sync_runs', 'sync_run_changes', 'schema_migrations'])
+      );
+      expect(db.prepare('SELECT name FROM schema_migrations').all()).toEqual(
+        expect.arrayContaining([{ name: 'add-inventory' }, { name: 'add-sync-runs' }])
+      );
+      db.close();
+    });
+
+    it('should keep tables a profile already has', () => {
+      const db = new Database(userDbPath);
+      db.exec(`
+        INSERT INTO inventory (character_id, item_id, quantity, updated_at) VALUES ('12345', 10, 3, 0);
+        DELETE FROM schema_migrations;
+      `);
+
+      applySchemaAdditions(db);
+      applySchemaAdditions(db);
+
+      expect(db.prepare('SELECT quantity FROM inventory').all()).toEqual([{ quantity: 3 }]);
+      db.close();
+    });
+  });
+
+  describe('migrateLegacyProgress', () => {
+    beforeEach(() => {
+      const gameDb = new Database(gameDbPath);
+      gameDb.exec(`
+        CREATE TABLE obtained_mounts (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          character_id INTEGER NOT NULL,
+          mount_id INTEGER NOT NULL,
+          obtained_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          obtained_from TEXT,
+          notes TEXT,
+          UNIQUE(character_id, mount_id)
+        );
+        CREATE TABLE crafted_items (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          character_id INTEGER NOT NULL,
+          recipe_id INTEGER NOT NULL,
+          item_id INTEGER NOT NULL,
+          crafted_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          is_hq BOOLEAN DEFAULT 0,
+          is_collectible BOOLEAN DEFAULT 0,
+          collectibility INTEGER,
+          notes TEXT,
+          UNIQUE(character_id, recipe_id)
+        );
+        INSERT INTO obtained_mounts (character_id, mount_id, obtained_at, obtained_from) VALUES
+          (12345, 1, '2024-05-01 12:30:00', 'achievement'),
+          (99999, 2, '2024-05-02 08:00:00', NULL);
+        INSERT INTO crafted_items (character_id, recipe_id, item_id, crafted_at, is_hq) VALUES
+          (12345, 100, 10, '2024-05-03 00:00:00', 1);
+      `);
+      gameDb.close();
+    });
+
+    it('should move rows for known characters into userData.db', () => {
+      const repository = new UserDataRepository(userDbPath, gameDbPath);
+
+      expect(repository.getObtainedCollectibles('12345', 'mount')).toEqual([
+        expect.objectContaining({
+          collectible_id: 1,
+          obtained_at: '2024-05-01T12:30:00.000Z',
+          obtained_from: 'achievement',
+        }),
+      ]);
+      expect(repository.getCraftedItems('12345')).toEqual([
+        expect.objectContaining({ recipe_id: 100, is_hq: true }),
+      ]);
+      repository.close();
+
+      // Moved rows are gone from gameData.db, unknown characters stay
+      const gameDb = new Database(gameDbPath, { readonly: true });
+      expect(gameDb.prepare('SELECT character_id FROM obtained_mounts').all()).toEqual([
+        { character_id: 99999 },
+      ]);
+      expect(gameDb.prepare('SELECT COUNT(*) as count FROM crafted_items').get()).toEqual({
+        count: 0,
+      });
+      gameDb.close();
+    });
+
+    it('should move skipped rows once their character is added', () => {
+      const repository = new UserDataRepository(userDbPath, gameDbPath);
+      const userDb = new Database(userDbPath);
+      userDb.exec(`
+        INSERT INTO characters (id, name, server, created_at) VALUES
+          ('99999', 'Bob Example', 'Gilgamesh', 0);
+      `);
+      userDb.close();
+
+      expect(repository.migrateLegacyProgress(gameDbPath)).toEqual({
+        migrated: { obtained_mounts: 1, crafted_items: 0 },
+        skipped: { obtained_mounts: 0, crafted_items: 0 },
+      });
+      expect(repository.getObtainedCollectibles('99999', 'mount')).toEqual([
+        expect.objectContaining({ collectible_id: 2 }),
+      ]);
+      repository.close();
+    });
+
+    it('should only run once nothing was skipped', () => {
+      const userDb = new Database(userDbPath);
+      userDb.exec(`
+        INSERT INTO characters (id, name, server, created_at) VALUES
+          ('99999', 'Bob Example', 'Gilgamesh', 0);
+      `);
+      userDb.close();
+      const repository = new UserDataRepository(userDbPath, gameDbPath);
+
+      expect(repository.migrateLegacyProgress(gameDbPath)).toBeNull();
+      repository.close();
+    });
+
+    it('should report moved and skipped rows', () => {
+      // Without a gameData.db there is nothing to move, so migrate explicitly afterwards
+      const repository = new UserDataRepository(userDbPath, join(dir, 'missing.db'));
+      const userDb = new Database(userDbPath);
+      userDb.exec('DELETE FROM schema_migrations');
+      userDb.close();
+
+      expect(repository.migrateLegacyProgress(gameDbPath)).toEqual({
+        migrated: { obtained_mounts: 1, crafted_items: 1 },
+        skipped: { obtained_mounts: 1, crafted_items: 0 },
+      });
+      repository.close();
+    });
+  });
+});
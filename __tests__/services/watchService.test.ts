@@ -0,0 +1,66 @@
+/**
+ * Tests for Watch Service alert scheduling
+ */
+
+import { WatchService } from '../../src/services/watchService';
+import type { WatchWindow } from '../../src/types/watch';
+
+describe('WatchService', () => {
+  const MINUTE = 60 * 1000;
+  const now = new Date('2024-01-01T12:00:00Z');
+
+  // Alert scheduling doesn't touch the databases
+  const createService = () => new WatchService({} as any, {} as any);
+
+  const window = (startOffset: number, endOffset: number): WatchWindow => ({
+    type: 'fish',
+    id: 4898,
+    name: 'Test Fish',
+    location: 'Test Location',
+    start: new Date(now.getTime() + startOffset * MINUTE),
+    end: new Date(now.getTime() + endOffset * MINUTE),
+  });
+
+  describe('collectDueAlerts', () => {
+    it('should alert for windows opening within the lead time', () => {
+      const alerts = createService().collectDueAlerts([window(3, 20)], now, 5);
+
+      expect(alerts).toHaveLength(1);
+      expect(alerts[0].minutesUntil).toBe(3);
+      expect(alerts[0].title).toContain('Test Fish in 3 min');
+      expect(alerts[0].message).toContain('Test Location');
+    });
+
+    it('should not alert for windows beyond the lead time', () => {
+      expect(createService().collectDueAlerts([window(10, 20)], now, 5)).toEqual([]);
+    });
+
+    it('should alert for windows that are already open', () => {
+      const alerts = createService().collectDueAlerts([window(-5, 10)], now, 5);
+
+      expect(alerts).toHaveLength(1);
+      expect(alerts[0].minutesUntil).toBe(0);
+      expect(alerts[0].title).toContain('is up now');
+    });
+
+    it('should skip windows that have closed', () => {
+      expect(createService().collectDueAlerts([window(-20, -1)], now, 5)).toEqual([]);
+    });
+
+    it('should alert once per window', () => {
+      const service = createService();
+
+      expect(service.collectDueAlerts([window(3, 20)], now, 5)).toHaveLength(1);
+
+      // An open window is reported with a moving start but the same end
+      const later = new Date(now.getTime() + 4 * MINUTE);
+      const reopened = { ...window(4, 20), start: later };
+      expect(service.collectDueAlerts([reopened], later, 5)).toEqual([]);
+
+      // The next window alerts again
+      expect(
+        service.collectDueAlerts([window(60, 80)], new Date(now.getTime() + 57 * MINUTE), 5)
+      ).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Tests for Alert Sinks
+ */
+
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { createAlertSinks, createWebhookSink } from '../../src/utils/alertSinks';
+import type { WatchAlert } from '../../src/types/watch';
+
+describe('alertSinks', () => {
+  const alert: WatchAlert = {
+    window: {
+      type: 'gathering_node',
+      id: 123,
+      name: 'Unspoiled Node',
+      location: 'Coerthas Western Highlands',
+      start: new Date('2024-01-01T12:00:00Z'),
+      end: new Date('2024-01-01T12:05:50Z'),
+    },
+    minutesUntil: 5,
+    title: 'Unspoiled Node in 5 min',
+    message: 'Opens soon',
+  };
+
+  describe('createWebhookSink', () => {
+    let server: Server;
+    let received: any[];
+    let status: number;
+
+    beforeEach(async () => {
+      received = [];
+      status = 204;
+      server = createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => (body += chunk));
+        req.on('end', () => {
+          received.push({ method: req.method, body: JSON.parse(body) });
+          res.statusCode = status;
+          res.end();
+        });
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    });
+
+    afterEach(async () => {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    });
+
+    const url = () => `http://127.0.0.1:${(server.address() as AddressInfo).port}/alerts`;
+
+    it('should POST the alert as JSON', async () => {
+      await createWebhookSink(url()).send(alert);
+
+      expect(received).toHaveLength(1);
+      expect(received[0].method).toBe('POST');
+      expect(received[0].body).toMatchObject({
+        title: 'Unspoiled Node in 5 min',
+        type: 'gathering_node',
+        id: 123,
+        location: 'Coerthas Western Highlands',
+        start: '2024-01-01T12:00:00.000Z',
+      });
+    });
+
+    it('should reject on error responses', async () => {
+      status = 500;
+      await expect(createWebhookSink(url()).send(alert)).rejects.toThrow('500');
+    });
+  });
+
+  describe('createAlertSinks', () => {
+    it('should only create the configured sinks', () => {
+      const sinks = createAlertSinks({
+        leadMinutes: 5,
+        pollSeconds: 30,
+        bell: false,
+        webhookUrl: 'http://127.0.0.1/alerts',
+      });
+
+      expect(sinks.map((sink) => sink.name)).toEqual(['webhook']);
+    });
+  });
+});
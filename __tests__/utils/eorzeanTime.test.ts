@@ -8,6 +8,7 @@ import {
   isInTimeWindow,
   getNextWindowStart,
   getCurrentWindowEnd,
+  getTimeWindowIntervals,
   formatEorzeanTime,
   formatTimeWindow,
   EORZEA_MULTIPLIER,
@@ -141,6 +142,47 @@ describe('eorzeanTime', () => {
     });
   });
 
+  describe('getTimeWindowIntervals', () => {
+    // Unix epoch is 00:00 ET; one Eorzean day is 70 real minutes
+    const ET_DAY = 4200 * 1000;
+    const ET_HOUR = 175 * 1000;
+
+    it('should cover the whole range for 24-hour windows', () => {
+      const from = new Date(0);
+      const to = new Date(ET_DAY);
+      expect(getTimeWindowIntervals(0, 24, from, to)).toEqual([{ start: from, end: to }]);
+    });
+
+    it('should return one interval per Eorzean day for normal windows', () => {
+      const intervals = getTimeWindowIntervals(9, 17, new Date(0), new Date(2 * ET_DAY));
+
+      expect(intervals).toHaveLength(2);
+      expect(intervals[0].start.getTime()).toBe(9 * ET_HOUR);
+      expect(intervals[0].end.getTime()).toBe(17 * ET_HOUR);
+      expect(intervals[1].start.getTime()).toBe(ET_DAY + 9 * ET_HOUR);
+    });
+
+    it('should include the tail of a window that crossed midnight', () => {
+      // 22:00 - 04:00 window, range starts at 00:00 ET
+      const intervals = getTimeWindowIntervals(22, 4, new Date(ET_DAY), new Date(2 * ET_DAY));
+
+      expect(intervals[0].start.getTime()).toBe(ET_DAY);
+      expect(intervals[0].end.getTime()).toBe(ET_DAY + 4 * ET_HOUR);
+      expect(intervals[1].start.getTime()).toBe(ET_DAY + 22 * ET_HOUR);
+      expect(intervals[1].end.getTime()).toBe(2 * ET_DAY);
+    });
+
+    it('should clip intervals to the range', () => {
+      const from = new Date(10 * ET_HOUR);
+      const to = new Date(12 * ET_HOUR);
+      expect(getTimeWindowIntervals(9, 17, from, to)).toEqual([{ start: from, end: to }]);
+    });
+
+    it('should return nothing for an empty range', () => {
+      expect(getTimeWindowIntervals(9, 17, new Date(ET_DAY), new Date(0))).toEqual([]);
+    });
+  });
+
   describe('formatEorzeanTime', () => {
     it('should format time with leading zeros', () => {
       const time = { hours: 9, minutes: 5, seconds: 3, timestamp: 0 };
@@ -0,0 +1,62 @@
+/**
+ * Tests for Fuzzy Name Matching
+ */
+
+import { findBestMatch, levenshteinDistance, normalizeName } from '../../src/utils/fuzzyMatch';
+
+describe('fuzzyMatch', () => {
+  const candidates = [
+    { value: 1, name: 'Darksteel Ore' },
+    { value: 2, name: 'Darksteel Ingot' },
+    { value: 3, name: "Dragon's Blood" },
+    { value: 4, name: 'Iron Ore' },
+  ];
+
+  describe('normalizeName', () => {
+    it('should ignore case, curly apostrophes and extra whitespace', () => {
+      expect(normalizeName('  Dragon’s   BLOOD ')).toBe("dragon's blood");
+    });
+
+    it('should drop punctuation', () => {
+      expect(normalizeName('Ore (Grade 2)')).toBe('ore grade 2');
+    });
+  });
+
+  describe('levenshteinDistance', () => {
+    it('should count edits', () => {
+      expect(levenshteinDistance('kitten', 'sitting')).toBe(3);
+      expect(levenshteinDistance('ore', 'ore')).toBe(0);
+    });
+
+    it('should stop early past the maximum distance', () => {
+      expect(levenshteinDistance('iron ore', 'darksteel ingot', 2)).toBe(3);
+    });
+  });
+
+  describe('findBestMatch', () => {
+    it('should match names that only differ by case or punctuation', () => {
+      expect(findBestMatch('dragons blood', candidates)).toEqual({
+        value: 3,
+        name: "Dragon's Blood",
+        distance: 1,
+      });
+      expect(findBestMatch('DARKSTEEL ORE', candidates)?.distance).toBe(0);
+    });
+
+    it('should tolerate small typos', () => {
+      expect(findBestMatch('Darksteal Ore', candidates)?.value).toBe(1);
+    });
+
+    it('should reject names that are too different', () => {
+      expect(findBestMatch('Mythril Ore', candidates)).toBeNull();
+    });
+
+    it('should reject ambiguous matches', () => {
+      const ores = [
+        { value: 1, name: 'Tin Ore' },
+        { value: 2, name: 'Zinc Ore' },
+      ];
+      expect(findBestMatch('Tinc Ore', ores)).toBeNull();
+    });
+  });
+});
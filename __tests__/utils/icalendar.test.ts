@@ -0,0 +1,95 @@
+/**
+ * Tests for iCalendar Builder
+ */
+
+import {
+  buildICalendar,
+  escapeICalText,
+  foldICalLine,
+  formatICalDate,
+} from '../../src/utils/icalendar';
+
+describe('icalendar', () => {
+  describe('formatICalDate', () => {
+    it('should format dates as UTC timestamps', () => {
+      expect(formatICalDate(new Date('2024-01-02T03:04:05.678Z'))).toBe('20240102T030405Z');
+    });
+  });
+
+  describe('escapeICalText', () => {
+    it('should escape special characters and newlines', () => {
+      expect(escapeICalText('Bait: A, B; C\\D\nNext')).toBe('Bait: A\\, B\\; C\\\\D\\nNext');
+    });
+  });
+
+  describe('foldICalLine', () => {
+    it('should leave short lines alone', () => {
+      expect(foldICalLine('SUMMARY:Short')).toBe('SUMMARY:Short');
+    });
+
+    it('should fold long lines at 75 octets', () => {
+      const line = `DESCRIPTION:${'x'.repeat(200)}`;
+      const folded = foldICalLine(line);
+      const parts = folded.split('\r\n');
+
+      expect(parts.length).toBeGreaterThan(1);
+      expect(parts[0]).toHaveLength(75);
+      for (const part of parts.slice(1)) {
+        expect(part.startsWith(' ')).toBe(true);
+        expect(Buffer.byteLength(part)).toBeLessThanOrEqual(75);
+      }
+      expect(parts.map((part, i) => (i === 0 ? part : part.slice(1))).join('')).toBe(line);
+    });
+
+    it('should not split multi-byte characters', () => {
+      const folded = foldICalLine(`SUMMARY:${'🎣'.repeat(40)}`);
+      for (const part of folded.split('\r\n')) {
+        expect(Buffer.byteLength(part)).toBeLessThanOrEqual(75);
+        expect(part).not.toContain('�');
+      }
+    });
+  });
+
+  describe('buildICalendar', () => {
+    const now = new Date('2024-01-01T00:00:00Z');
+    const calendar = buildICalendar(
+      [
+        {
+          uid: 'fish-1-123@eorzea',
+          start: new Date('2024-01-01T12:00:00Z'),
+          end: new Date('2024-01-01T12:23:20Z'),
+          summary: 'Test Fish',
+          location: 'Limsa Lominsa',
+          description: 'Bait: Lugworm\nWeather: Clouds',
+          categories: ['Fishing'],
+        },
+      ],
+      'Test',
+      now
+    );
+
+    it('should wrap events in a VCALENDAR with CRLF line endings', () => {
+      const lines = calendar.split('\r\n');
+
+      expect(lines[0]).toBe('BEGIN:VCALENDAR');
+      expect(lines).toContain('VERSION:2.0');
+      expect(lines[lines.length - 2]).toBe('END:VCALENDAR');
+      expect(calendar.replace(/\r\n/g, '')).not.toContain('\n');
+    });
+
+    it('should include event properties', () => {
+      const lines = calendar.split('\r\n');
+
+      expect(lines).toContain('BEGIN:VEVENT');
+      expect(lines).toContain('UID:fish-1-123@eorzea');
+      expect(lines).toContain('DTSTAMP:20240101T000000Z');
+      expect(lines).toContain('DTSTART:20240101T120000Z');
+      expect(lines).toContain('DTEND:20240101T122320Z');
+      expect(lines).toContain('SUMMARY:Test Fish');
+      expect(lines).toContain('LOCATION:Limsa Lominsa');
+      expect(lines).toContain('DESCRIPTION:Bait: Lugworm\\nWeather: Clouds');
+      expect(lines).toContain('CATEGORIES:Fishing');
+      expect(lines).toContain('END:VEVENT');
+    });
+  });
+});
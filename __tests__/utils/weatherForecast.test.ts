@@ -0,0 +1,132 @@
+/**
+ * Tests for Weather Forecast Utility
+ */
+
+import {
+  calculateWeather,
+  findNextWeatherWindow,
+  findWeatherConditionSlots,
+  getPreviousWeatherPeriodStart,
+  WEATHER_PERIOD_SECONDS,
+  type WeatherRate,
+} from '../../src/utils/weatherForecast';
+import { getEorzeanTime } from '../../src/utils/eorzeanTime';
+
+describe('weatherForecast', () => {
+  const PERIOD = WEATHER_PERIOD_SECONDS * 1000;
+  const from = new Date(0);
+
+  // Two made-up zones with different weather tables; every zone shares the same
+  // seed per period, so only the rate thresholds decide which weathers coincide
+  const zoneA: WeatherRate[] = [
+    { weatherId: 1, rate: 30 },
+    { weatherId: 2, rate: 60 },
+    { weatherId: 3, rate: 100 },
+  ];
+  const zoneB: WeatherRate[] = [
+    { weatherId: 4, rate: 50 },
+    { weatherId: 5, rate: 100 },
+  ];
+
+  describe('findWeatherConditionSlots', () => {
+    it('should only return periods with the required weather', () => {
+      const slots = findWeatherConditionSlots([{ weatherRates: zoneA, weatherIds: [2] }], {
+        from,
+        count: 5,
+      });
+
+      expect(slots).toHaveLength(5);
+      for (const slot of slots) {
+        expect(calculateWeather(slot.start, zoneA)).toBe(2);
+        expect(slot.matched).toEqual([0]);
+      }
+    });
+
+    it('should check the previous weather period', () => {
+      const slots = findWeatherConditionSlots(
+        [{ weatherRates: zoneA, weatherIds: [3], previousWeatherIds: [1] }],
+        { from, count: 3 }
+      );
+
+      expect(slots.length).toBeGreaterThan(0);
+      for (const slot of slots) {
+        expect(calculateWeather(slot.start, zoneA)).toBe(3);
+        expect(calculateWeather(getPreviousWeatherPeriodStart(slot.start), zoneA)).toBe(1);
+      }
+    });
+
+    it('should restrict slots to the Eorzean hour range', () => {
+      const slots = findWeatherConditionSlots([{ weatherRates: zoneA, etHourRange: [4, 6] }], {
+        from,
+        count: 3,
+      });
+
+      expect(slots).toHaveLength(3);
+      for (const slot of slots) {
+        expect(getEorzeanTime(slot.start).hours).toBe(4);
+        expect(slot.end.getTime() - slot.start.getTime()).toBe(2 * 175 * 1000);
+      }
+    });
+
+    it('should merge consecutive matching periods into one slot', () => {
+      const slots = findWeatherConditionSlots([{ weatherRates: zoneA }], { from, count: 1 });
+
+      expect(slots).toHaveLength(1);
+      expect(slots[0].start).toEqual(from);
+      expect(slots[0].end.getTime() - slots[0].start.getTime()).toBe(2000 * PERIOD);
+    });
+
+    it('should require every condition in "all" mode', () => {
+      const conditions = [
+        { weatherRates: zoneA, weatherIds: [2] },
+        { weatherRates: zoneB, weatherIds: [5] },
+      ];
+      const slots = findWeatherConditionSlots(conditions, { from, count: 3, mode: 'all' });
+
+      expect(slots).toHaveLength(3);
+      for (const slot of slots) {
+        expect(calculateWeather(slot.start, zoneA)).toBe(2);
+        expect(calculateWeather(slot.start, zoneB)).toBe(5);
+        expect(slot.matched).toEqual([0, 1]);
+      }
+    });
+
+    it('should report which conditions matched in "any" mode', () => {
+      const conditions = [
+        { weatherRates: zoneA, weatherIds: [1] },
+        { weatherRates: zoneB, weatherIds: [5] },
+      ];
+      const slots = findWeatherConditionSlots(conditions, { from, count: 10, mode: 'any' });
+
+      expect(slots).toHaveLength(10);
+      for (const slot of slots) {
+        expect(slot.matched.length).toBeGreaterThan(0);
+        expect(slot.matched.includes(0)).toBe(calculateWeather(slot.start, zoneA) === 1);
+        expect(slot.matched.includes(1)).toBe(calculateWeather(slot.start, zoneB) === 5);
+      }
+    });
+
+    it('should search beyond 100 weather periods', () => {
+      // 1% weather: the next occurrence after this point is ~151 periods away
+      const start = new Date(Date.UTC(2024, 0, 1) + 2 * PERIOD);
+      const rare: WeatherRate[] = [
+        { weatherId: 1, rate: 1 },
+        { weatherId: 2, rate: 100 },
+      ];
+
+      expect(findNextWeatherWindow(start, rare, [1])).toBeNull();
+
+      const slots = findWeatherConditionSlots([{ weatherRates: rare, weatherIds: [1] }], {
+        from: start,
+        count: 1,
+      });
+      expect(slots).toHaveLength(1);
+      expect(slots[0].start.getTime() - start.getTime()).toBeGreaterThan(100 * PERIOD);
+      expect(calculateWeather(slots[0].start, rare)).toBe(1);
+    });
+
+    it('should return nothing without conditions', () => {
+      expect(findWeatherConditionSlots([], { from })).toEqual([]);
+    });
+  });
+});
@@ -88,10 +88,10 @@ CREATE TABLE IF NOT EXISTS item_search_categories (
 CREATE TABLE IF NOT EXISTS item_sources (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
     item_id INTEGER NOT NULL,
-    source_type TEXT NOT NULL, -- 'quest', 'crafting', 'gathering', 'monster', 'shop', 'achievement', 'treasure', 'dungeon', 'trial', 'raid'
-    source_id INTEGER, -- ID of the source (quest_id, recipe_id, gathering_point_id, etc.)
+    source_type TEXT NOT NULL, -- 'quest', 'leve', 'crafting', 'gathering', 'monster', 'shop', 'achievement', 'treasure', 'dungeon', 'trial', 'raid'
+    source_id INTEGER, -- ID of the source (quest_id, leve_id, shop_id, recipe_id, gathering_point_id, etc.)
     source_name TEXT, -- Human-readable name
-    source_details TEXT, -- JSON for additional info (location, drop rate, cost, etc.)
+    source_details TEXT, -- JSON for additional info (npc, location, drop rate, cost, currency, etc.)
     FOREIGN KEY (item_id) REFERENCES items(id)
 );
 
@@ -103,8 +103,8 @@ CREATE INDEX idx_item_sources_source ON item_sources(source_id);
 CREATE TABLE IF NOT EXISTS item_uses (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
     item_id INTEGER NOT NULL,
-    use_type TEXT NOT NULL, -- 'recipe_ingredient', 'quest_required', 'leve_required', 'gc_supply', 'desynth'
-    use_id INTEGER, -- ID of what it's used for (recipe_id, quest_id, etc.)
+    use_type TEXT NOT NULL, -- 'recipe_ingredient', 'quest_required', 'leve_required', 'gc_supply', 'desynth', 'currency_exchange'
+    use_id INTEGER, -- ID of what it's used for (recipe_id, quest_id, leve_id, supply level, item received, etc.)
     use_name TEXT, -- Human-readable name
     quantity_required INTEGER DEFAULT 1,
     use_details TEXT, -- JSON for additional info
@@ -408,10 +408,10 @@ CREATE TABLE IF NOT EXISTS collectible_sources (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
     collectible_type TEXT NOT NULL, -- 'mount', 'companion', 'orchestrion'
     collectible_id INTEGER NOT NULL,
-    source_type TEXT NOT NULL, -- 'quest', 'achievement', 'shop', 'dungeon', 'trial', 'raid', 'crafting', 'gathering', 'event', 'mogstation'
+    source_type TEXT NOT NULL, -- 'quest', 'leve', 'achievement', 'shop', 'dungeon', 'trial', 'raid', 'crafting', 'gathering', 'event', 'mogstation'
     source_id INTEGER,
     source_name TEXT,
-    source_details TEXT, -- JSON (cost, requirements, drop rate, etc.)
+    source_details TEXT, -- JSON (cost, requirements, drop rate, unlock item, etc.)
     UNIQUE(collectible_type, collectible_id, source_type, source_id)
 );
 
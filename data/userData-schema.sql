@@ -10,7 +10,9 @@
 -- - Collectibles (Mounts, Minions, Orchestrion)
 -- - Titles & Achievements
 -- - Bookmarks & Goals
+-- - Inventory (owned materials for crafting)
 -- - Session History
+-- - Intelligent Sync Runs (for reverting inferred progress)
 --
 -- This database is READ/WRITE and contains all user-specific data.
 -- It references gameData.db for item names, recipes, locations, etc.
@@ -216,7 +218,7 @@ CREATE INDEX idx_unlocked_achievements_achievement ON unlocked_achievements(achi
 CREATE TABLE IF NOT EXISTS bookmarks (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
     character_id TEXT NOT NULL,
-    type TEXT NOT NULL,                  -- 'quest', 'fish', 'location', 'item', 'recipe'
+    type TEXT NOT NULL,                  -- 'quest', 'fish', 'location', 'gathering_node', 'item', 'recipe'
     item_id INTEGER NOT NULL,            -- ID in the respective gameData.db table
     notes TEXT,
     priority INTEGER DEFAULT 0,          -- 0=normal, 1=high
@@ -245,6 +247,25 @@ CREATE TABLE IF NOT EXISTS goals (
 CREATE INDEX idx_goals_char ON goals(character_id);
 CREATE INDEX idx_goals_completed ON goals(completed);
 
+-- ============================================================================
+-- INVENTORY
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS inventory (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    character_id TEXT NOT NULL,
+    item_id INTEGER NOT NULL,            -- References gameData.db items table
+    quantity INTEGER NOT NULL,
+    is_hq BOOLEAN DEFAULT 0,
+    location TEXT NOT NULL DEFAULT 'bag', -- 'bag', 'saddlebag', or a retainer name
+    updated_at INTEGER NOT NULL,
+    FOREIGN KEY (character_id) REFERENCES characters(id) ON DELETE CASCADE,
+    UNIQUE(character_id, item_id, is_hq, location)
+);
+
+CREATE INDEX idx_inventory_char ON inventory(character_id);
+CREATE INDEX idx_inventory_item ON inventory(item_id);
+
 -- ============================================================================
 -- SESSION HISTORY
 -- ============================================================================
@@ -259,3 +280,42 @@ CREATE TABLE IF NOT EXISTS session_history (
 );
 
 CREATE INDEX idx_session_history_timestamp ON session_history(timestamp);
+
+-- ============================================================================
+-- INTELLIGENT SYNC RUNS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS sync_runs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    character_id TEXT NOT NULL,
+    started_at INTEGER NOT NULL,          -- Unix timestamp (milliseconds)
+    achievement_ids TEXT NOT NULL,        -- JSON array of the synced achievements
+    reverted_at INTEGER,
+    FOREIGN KEY (character_id) REFERENCES characters(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_sync_runs_char ON sync_runs(character_id);
+
+-- Every row a sync run added, so the run can be reverted
+CREATE TABLE IF NOT EXISTS sync_run_changes (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    run_id INTEGER NOT NULL,
+    change_type TEXT NOT NULL,            -- 'quest', 'achievement', 'title', 'fish', 'mount', 'companion', 'orchestrion'
+    target_id INTEGER NOT NULL,           -- quest_id, achievement_id, ... of the row
+    target_name TEXT,
+    confidence INTEGER,
+    row_id INTEGER NOT NULL,              -- id of the row in its progress table
+    written_at INTEGER NOT NULL,          -- Row timestamp as written; later edits change it
+    FOREIGN KEY (run_id) REFERENCES sync_runs(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_sync_run_changes_run ON sync_run_changes(run_id);
+
+-- ============================================================================
+-- SCHEMA MIGRATIONS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS schema_migrations (
+    name TEXT PRIMARY KEY,               -- One-time data migrations already applied
+    applied_at INTEGER NOT NULL
+);
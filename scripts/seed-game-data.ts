@@ -8,14 +8,24 @@
  * - Gathering points and items
  * - Mounts, Companions (Minions), and Orchestrion Rolls
  * - Reference data (ClassJob, PlaceName, etc.)
+ * - Item sources (shops, quest and leve rewards, recipes, gathering)
+ * - Collectible sources (from the items that unlock mounts, minions and rolls)
+ * - Item uses (recipes, quest and leve turn-ins, GC supply, desynthesis, exchanges)
  *
- * Usage: tsx scripts/seed-game-data.ts [--skip-items] [--skip-crafting] [--skip-gathering] [--skip-collectibles]
+ * Usage: tsx scripts/seed-game-data.ts [--skip-items] [--skip-crafting] [--skip-gathering] [--skip-collectibles] [--skip-sources] [--skip-uses]
  */
 
 import Database from 'better-sqlite3';
 import { parse } from 'csv-parse/sync';
 import { readFileSync, existsSync } from 'fs';
 import { join } from 'path';
+import type { CollectibleType } from '../src/types/collectibles.js';
+import type {
+  ItemSourceDetails,
+  ItemSourceType,
+  ItemUseDetails,
+  ItemUseType,
+} from '../src/types/item.js';
 
 const CSV_DIR = join(process.cwd(), 'data', 'ffxiv-datamining', 'csv');
 const DB_PATH = join(process.cwd(), 'data', 'gameData.db');
@@ -30,6 +40,8 @@ interface SeedOptions {
   skipGathering?: boolean;
   skipCollectibles?: boolean;
   skipReference?: boolean;
+  skipSources?: boolean;
+  skipUses?: boolean;
 }
 
 // Parse command line arguments
@@ -41,6 +53,8 @@ function parseArgs(): SeedOptions {
     skipGathering: args.includes('--skip-gathering'),
     skipCollectibles: args.includes('--skip-collectibles'),
     skipReference: args.includes('--skip-reference'),
+    skipSources: args.includes('--skip-sources'),
+    skipUses: args.includes('--skip-uses'),
   };
 }
 
@@ -263,8 +277,8 @@ function seedItems(db: Database.Database) {
       id, name, description, icon, level_item, level_equip, rarity,
       item_ui_category_id, item_search_category_id, stack_size,
       is_unique, is_untradable, is_dyeable, is_collectible, can_be_hq,
-      price_mid, price_low
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      price_mid, price_low, item_action_id
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
 
   const transaction = db.transaction((itemList: CSVRow[]) => {
@@ -292,7 +306,8 @@ function seedItems(db: Database.Database) {
         parseInt(item['IsCollectable'] || '0') === 1,
         parseInt(item['CanBeHq'] || '0') === 1,
         parseInt(item['Price{Mid}'] || item['PriceMid'] || '0') || null,
-        parseInt(item['Price{Low}'] || item['PriceLow'] || '0') || null
+        parseInt(item['Price{Low}'] || item['PriceLow'] || '0') || null,
+        parseInt(item['ItemAction'] || '0') || null
       );
     }
   });
@@ -686,6 +701,710 @@ function seedCollectibles(db: Database.Database) {
   }
 }
 
+// Where an NPC stands, for source details
+interface NpcLocation {
+  npc: string;
+  location?: string;
+  coordinates?: { x: number; y: number };
+}
+
+interface NpcIndex {
+  byNpc: Map<number, NpcLocation>;
+  // Keyed by the shop (or other ENpcData) IDs each NPC offers
+  byData: Map<number, NpcLocation>;
+}
+
+// Convert a Level position to the coordinate shown on the in-game map
+function toMapCoordinate(value: number, sizeFactor: number, offset: number): number {
+  const scale = sizeFactor / 100;
+  const coordinate = (41 / scale) * (((value + offset) * scale + 1024) / 2048) + 1;
+  return Math.round(coordinate * 10) / 10;
+}
+
+// Load NPC names and positions (ENpcResident, ENpcBase, Level, Map)
+function loadNpcs(db: Database.Database): NpcIndex {
+  const index: NpcIndex = { byNpc: new Map(), byData: new Map() };
+
+  const residents = loadCSV('ENpcResident.csv');
+  if (!residents) return index;
+
+  const territoryNames = new Map(
+    (
+      db
+        .prepare(
+          `SELECT tt.id, pn.name FROM territory_types tt
+           JOIN place_names pn ON pn.id = tt.place_name_id`
+        )
+        .all() as Array<{ id: number; name: string }>
+    ).map((row) => [row.id, row.name])
+  );
+
+  const maps = new Map<number, CSVRow>();
+  for (const map of loadCSV('Map.csv') ?? []) {
+    maps.set(parseInt(map['#'] || map['key'] || '0'), map);
+  }
+
+  // Level rows of type 8 place an NPC in the world; keep the first one
+  const positions = new Map<number, Omit<NpcLocation, 'npc'>>();
+  for (const level of loadCSV('Level.csv') ?? []) {
+    const npcId = parseInt(level['Object'] || '0');
+    if (parseInt(level['Type'] || '0') !== 8 || positions.has(npcId)) continue;
+
+    const map = maps.get(parseInt(level['Map'] || '0'));
+    const sizeFactor = parseInt(map?.['SizeFactor'] || '0');
+    positions.set(npcId, {
+      location: territoryNames.get(parseInt(level['Territory'] || '0')),
+      coordinates:
+        map && sizeFactor > 0
+          ? {
+              x: toMapCoordinate(
+                parseFloat(level['X'] || '0'),
+                sizeFactor,
+                parseInt(map['Offset{X}'] || '0')
+              ),
+              y: toMapCoordinate(
+                parseFloat(level['Z'] || '0'),
+                sizeFactor,
+                parseInt(map['Offset{Y}'] || '0')
+              ),
+            }
+          : undefined,
+    });
+  }
+
+  for (const resident of residents) {
+    const id = parseInt(resident['#'] || resident['key'] || '0');
+    const name = resident['Singular'] || '';
+    if (id === 0 || name === '') continue;
+
+    index.byNpc.set(id, { npc: name, ...positions.get(id) });
+  }
+
+  for (const base of loadCSV('ENpcBase.csv') ?? []) {
+    const npc = index.byNpc.get(parseInt(base['#'] || base['key'] || '0'));
+    if (!npc) continue;
+
+    for (let i = 0; i < 32; i++) {
+      const dataId = parseInt(base[`ENpcData[${i}]`] || '0');
+      // Several NPCs can run the same shop, prefer one we can place on a map
+      if (dataId === 0 || index.byData.get(dataId)?.location) continue;
+
+      index.byData.set(dataId, npc);
+    }
+  }
+
+  return index;
+}
+
+// Tomestone item per tomestone slot (TomestonesItem)
+function loadTomestoneItems(): Map<number, number> {
+  const tomestoneItems = new Map<number, number>();
+  for (const row of loadCSV('TomestonesItem.csv') ?? []) {
+    const slot = parseInt(row['Tomestones'] || '0');
+    if (slot > 0) tomestoneItems.set(slot, parseInt(row['Item'] || '0'));
+  }
+  return tomestoneItems;
+}
+
+interface SpecialShopEntry {
+  itemId: number;
+  count: number;
+  costItemId: number;
+  costCount: number;
+}
+
+// Read what a special shop hands out and for what
+//
+// Tomestone shops list their cost as a tomestone slot instead of an item.
+function readSpecialShopEntries(
+  shop: CSVRow,
+  tomestoneItems: Map<number, number>
+): SpecialShopEntry[] {
+  const usesTomestones = parseInt(shop['UseCurrencyType'] || '0') === 16;
+  const entries: SpecialShopEntry[] = [];
+
+  for (let i = 0; i < 60; i++) {
+    const itemId = parseInt(shop[`Item{Receive}[${i}][0]`] || '0');
+    const costId = parseInt(shop[`Item{Cost}[${i}][0]`] || '0');
+    if (itemId === 0 || costId === 0) continue;
+
+    entries.push({
+      itemId,
+      count: parseInt(shop[`Count{Receive}[${i}][0]`] || '1') || 1,
+      costItemId: usesTomestones ? (tomestoneItems.get(costId) ?? costId) : costId,
+      costCount: parseInt(shop[`Count{Cost}[${i}][0]`] || '0'),
+    });
+  }
+
+  return entries;
+}
+
+// Seed item sources (shops, quest and leve rewards, recipes, gathering)
+//
+// Monster drops aren't part of the game data sheets, so they can't be derived here.
+function seedItemSources(db: Database.Database) {
+  console.log('🛒 Seeding item sources...');
+
+  db.prepare('DELETE FROM item_sources').run();
+
+  const items = db.prepare('SELECT id, name, price_mid FROM items').all() as Array<{
+    id: number;
+    name: string;
+    price_mid: number | null;
+  }>;
+  const itemsById = new Map(items.map((item) => [item.id, item]));
+  const placeNames = new Map(
+    (
+      db.prepare('SELECT id, name FROM place_names').all() as Array<{ id: number; name: string }>
+    ).map((row) => [row.id, row.name])
+  );
+  const npcs = loadNpcs(db);
+
+  const insertSource = db.prepare(`
+    INSERT INTO item_sources (item_id, source_type, source_id, source_name, source_details)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+
+  // Sheets reference items that were never released, skip those
+  const addSource = (
+    itemId: number,
+    sourceType: ItemSourceType,
+    sourceId: number,
+    sourceName: string,
+    details: ItemSourceDetails
+  ): number => {
+    if (!itemsById.has(itemId)) return 0;
+
+    insertSource.run(itemId, sourceType, sourceId, sourceName, JSON.stringify(details));
+    return 1;
+  };
+
+  const npcDetails = (npc?: NpcLocation): ItemSourceDetails => ({
+    npc: npc?.npc,
+    location: npc?.location,
+    coordinates: npc?.coordinates,
+  });
+
+  // Gil shops (items sell for their vendor price)
+  const gilShops = loadCSV('GilShop.csv');
+  const gilShopItems = loadCSV('GilShopItem.csv');
+  if (gilShops && gilShopItems) {
+    const shopNames = new Map(
+      gilShops.map((shop) => [parseInt(shop['#'] || shop['key'] || '0'), shop['Name'] || ''])
+    );
+    let count = 0;
+
+    const transaction = db.transaction((rows: CSVRow[]) => {
+      for (const row of rows) {
+        // Sub-rows are keyed "<shop>.<index>"
+        const shopId = parseInt(row['#'] || row['key'] || '0');
+        const itemId = parseInt(row['Item'] || '0');
+        if (shopId === 0 || itemId === 0) continue;
+
+        const npc = npcs.byData.get(shopId);
+        count += addSource(itemId, 'shop', shopId, npc?.npc || shopNames.get(shopId) || 'Vendor', {
+          cost: itemsById.get(itemId)?.price_mid ?? undefined,
+          currency: 'Gil',
+          ...npcDetails(npc),
+        });
+      }
+    });
+
+    transaction(gilShopItems);
+    console.log(`  ✅ Inserted ${count} gil shop sources`);
+  }
+
+  // Special shops (exchanges for tomestones, seals, scrips and other items)
+  const specialShops = loadCSV('SpecialShop.csv');
+  if (specialShops) {
+    const tomestoneItems = loadTomestoneItems();
+    let count = 0;
+
+    const transaction = db.transaction((shops: CSVRow[]) => {
+      for (const shop of shops) {
+        const shopId = parseInt(shop['#'] || shop['key'] || '0');
+        if (shopId === 0) continue;
+
+        const npc = npcs.byData.get(shopId);
+        for (const entry of readSpecialShopEntries(shop, tomestoneItems)) {
+          count += addSource(entry.itemId, 'shop', shopId, npc?.npc || shop['Name'] || 'Exchange', {
+            cost: entry.costCount || undefined,
+            currency: itemsById.get(entry.costItemId)?.name || 'Special currency',
+            ...npcDetails(npc),
+          });
+        }
+      }
+    });
+
+    transaction(specialShops);
+    console.log(`  ✅ Inserted ${count} special shop sources`);
+  }
+
+  // Quest rewards (fixed and optional items)
+  const quests = loadCSV('Quest.csv');
+  if (quests) {
+    let count = 0;
+
+    const transaction = db.transaction((questList: CSVRow[]) => {
+      for (const quest of questList) {
+        const id = parseInt(quest['#'] || quest['key'] || '0');
+        const name = quest['Name'] || '';
+        if (id === 0 || name === '') continue;
+
+        const issuer = npcs.byNpc.get(parseInt(quest['Issuer{Start}'] || '0'));
+        const details: ItemSourceDetails = {
+          level: parseInt(quest['ClassJobLevel[0]'] || '0') || undefined,
+          ...npcDetails(issuer),
+          location: issuer?.location || placeNames.get(parseInt(quest['PlaceName'] || '0')),
+        };
+
+        for (let i = 0; i < 7; i++) {
+          const itemId = parseInt(quest[`Item{Reward}[${i}]`] || quest[`Reward[${i}]`] || '0');
+          if (itemId > 0) count += addSource(itemId, 'quest', id, name, details);
+        }
+
+        for (let i = 0; i < 5; i++) {
+          const itemId = parseInt(quest[`OptionalItem{Reward}[${i}]`] || '0');
+          if (itemId > 0) {
+            count += addSource(itemId, 'quest', id, name, {
+              ...details,
+              requirements: ['Optional reward (choose one)'],
+            });
+          }
+        }
+      }
+    });
+
+    transaction(quests);
+    console.log(`  ✅ Inserted ${count} quest reward sources`);
+  }
+
+  // Leve rewards (Leve → LeveRewardItem → LeveRewardItemGroup)
+  const leves = loadCSV('Leve.csv');
+  const leveRewards = loadCSV('LeveRewardItem.csv');
+  const leveRewardGroups = loadCSV('LeveRewardItemGroup.csv');
+  if (leves && leveRewards && leveRewardGroups) {
+    const groupItems = new Map<number, number[]>();
+    for (const group of leveRewardGroups) {
+      const itemIds: number[] = [];
+      for (let i = 0; i < 9; i++) {
+        const itemId = parseInt(group[`Item[${i}]`] || '0');
+        if (itemId > 0) itemIds.push(itemId);
+      }
+      groupItems.set(parseInt(group['#'] || group['key'] || '0'), itemIds);
+    }
+
+    // Chance of each item per reward table (the best group wins when an item is in several)
+    const rewardChances = new Map<number, Map<number, number>>();
+    for (const reward of leveRewards) {
+      const chances = new Map<number, number>();
+      for (let i = 0; i < 8; i++) {
+        const groupId = parseInt(reward[`LeveRewardItemGroup[${i}]`] || '0');
+        const probability = parseInt(reward[`Probability<%>[${i}]`] || '0');
+        for (const itemId of groupItems.get(groupId) ?? []) {
+          chances.set(itemId, Math.max(chances.get(itemId) ?? 0, probability));
+        }
+      }
+      rewardChances.set(parseInt(reward['#'] || reward['key'] || '0'), chances);
+    }
+    let count = 0;
+
+    const transaction = db.transaction((leveList: CSVRow[]) => {
+      for (const leve of leveList) {
+        const id = parseInt(leve['#'] || leve['key'] || '0');
+        const name = leve['Name'] || '';
+        if (id === 0 || name === '') continue;
+
+        const chances = rewardChances.get(parseInt(leve['LeveRewardItem'] || '0'));
+        for (const [itemId, probability] of chances ?? []) {
+          count += addSource(itemId, 'leve', id, name, {
+            level: parseInt(leve['ClassJobLevel'] || '0') || undefined,
+            location: placeNames.get(parseInt(leve['PlaceName{Issued}'] || '0')),
+            drop_rate: probability || undefined,
+          });
+        }
+      }
+    });
+
+    transaction(leves);
+    console.log(`  ✅ Inserted ${count} leve reward sources`);
+  }
+
+  // Recipes and gathering come from the tables seeded above
+  const crafted = db
+    .prepare(
+      `INSERT INTO item_sources (item_id, source_type, source_id, source_name, source_details)
+       SELECT r.item_result_id, 'crafting', r.id, COALESCE(ct.name, 'Crafting') || ' recipe',
+         json_object('level', rlt.class_job_level)
+       FROM recipes r
+       JOIN items i ON i.id = r.item_result_id
+       LEFT JOIN craft_types ct ON ct.id = r.craft_type_id
+       LEFT JOIN recipe_level_tables rlt ON rlt.id = r.recipe_level_table_id`
+    )
+    .run();
+  console.log(`  ✅ Inserted ${crafted.changes} recipe sources`);
+
+  // One source per item, zone and gathering type rather than per node
+  const gathered = db
+    .prepare(
+      `INSERT INTO item_sources (item_id, source_type, source_id, source_name, source_details)
+       SELECT gi.item_id, 'gathering', MIN(gp.id), COALESCE(gt.name, 'Gathering') || ' node',
+         json_object('location', pn.name, 'level', MIN(gpb.gathering_level))
+       FROM gathering_items gi
+       JOIN items i ON i.id = gi.item_id
+       JOIN gathering_item_points gip ON gip.gathering_item_id = gi.id
+       JOIN gathering_points gp ON gp.id = gip.gathering_point_id
+       JOIN gathering_point_base gpb ON gpb.id = gp.gathering_point_base_id
+       LEFT JOIN gathering_types gt ON gt.id = gpb.gathering_type_id
+       LEFT JOIN place_names pn ON pn.id = gp.place_name_id
+       GROUP BY gi.item_id, gp.place_name_id, gpb.gathering_type_id`
+    )
+    .run();
+  console.log(`  ✅ Inserted ${gathered.changes} gathering sources`);
+}
+
+// ItemAction types that unlock a collectible (Data[0] is the collectible ID)
+const UNLOCK_ACTION_TYPES: Record<number, CollectibleType> = {
+  853: 'companion',
+  1322: 'mount',
+  25183: 'orchestrion',
+};
+
+const COLLECTIBLE_TABLES: Record<CollectibleType, string> = {
+  mount: 'mounts',
+  companion: 'companions',
+  orchestrion: 'orchestrion_rolls',
+};
+
+// Derive collectible sources from the items that unlock them
+//
+// Each mount, minion and orchestrion roll is linked to its unlock item via
+// the item's ItemAction, then inherits that item's sources and the
+// achievements that reward it.
+function seedCollectibleSources(db: Database.Database) {
+  console.log('🔗 Deriving collectible sources...');
+
+  const itemActions = loadCSV('ItemAction.csv');
+  if (!itemActions) return;
+
+  const unlocks = new Map<number, { type: CollectibleType; id: number }>();
+  for (const action of itemActions) {
+    const type = UNLOCK_ACTION_TYPES[parseInt(action['Type'] || '0')];
+    const collectibleId = parseInt(action['Data[0]'] || '0');
+    if (type && collectibleId > 0) {
+      unlocks.set(parseInt(action['#'] || action['key'] || '0'), { type, id: collectibleId });
+    }
+  }
+
+  const collectibleIds = Object.fromEntries(
+    Object.entries(COLLECTIBLE_TABLES).map(([type, table]) => [
+      type,
+      new Set(
+        (db.prepare(`SELECT id FROM ${table}`).all() as Array<{ id: number }>).map((r) => r.id)
+      ),
+    ])
+  ) as Record<CollectibleType, Set<number>>;
+
+  // Achievements are seeded by seed-achievement-db, use them when they're there
+  const hasAchievements = db
+    .prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'achievements'`)
+    .get();
+  const getAchievementRewards = hasAchievements
+    ? db.prepare('SELECT id, name FROM achievements WHERE item_reward_id = ?')
+    : null;
+  const getItemSources = db.prepare(
+    'SELECT source_type, source_id, source_name, source_details FROM item_sources WHERE item_id = ?'
+  );
+
+  db.prepare('DELETE FROM collectible_sources').run();
+  const insertSource = db.prepare(`
+    INSERT OR IGNORE INTO collectible_sources
+      (collectible_type, collectible_id, source_type, source_id, source_name, source_details)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+
+  const unlockItems = db
+    .prepare('SELECT id, name, item_action_id FROM items WHERE item_action_id IS NOT NULL')
+    .all() as Array<{ id: number; name: string; item_action_id: number }>;
+  const counts: Record<CollectibleType, Set<number>> = {
+    mount: new Set(),
+    companion: new Set(),
+    orchestrion: new Set(),
+  };
+  let count = 0;
+
+  const transaction = db.transaction(() => {
+    for (const item of unlockItems) {
+      const collectible = unlocks.get(item.item_action_id);
+      if (!collectible || !collectibleIds[collectible.type].has(collectible.id)) continue;
+
+      const unlockDetails = { unlock_item_id: item.id, unlock_item_name: item.name };
+      const add = (sourceType: string, sourceId: number | null, name: string, details: object) => {
+        const result = insertSource.run(
+          collectible.type,
+          collectible.id,
+          sourceType,
+          sourceId,
+          name,
+          JSON.stringify({ ...details, ...unlockDetails })
+        );
+        count += result.changes;
+        counts[collectible.type].add(collectible.id);
+      };
+
+      const itemSources = getItemSources.all(item.id) as Array<{
+        source_type: string;
+        source_id: number | null;
+        source_name: string;
+        source_details: string | null;
+      }>;
+      for (const source of itemSources) {
+        add(
+          source.source_type,
+          source.source_id,
+          source.source_name,
+          source.source_details ? JSON.parse(source.source_details) : {}
+        );
+      }
+
+      const achievements = (getAchievementRewards?.all(item.id) ?? []) as Array<{
+        id: number;
+        name: string;
+      }>;
+      for (const achievement of achievements) {
+        add('achievement', achievement.id, achievement.name, {});
+      }
+    }
+  });
+
+  transaction();
+  console.log(
+    `  ✅ Inserted ${count} sources for ${counts.mount.size} mounts, ` +
+      `${counts.companion.size} companions and ${counts.orchestrion.size} orchestrion rolls`
+  );
+}
+
+// Jobs in GCSupplyDuty column order
+const GC_SUPPLY_JOBS = [
+  'Carpenter',
+  'Blacksmith',
+  'Armorer',
+  'Goldsmith',
+  'Leatherworker',
+  'Weaver',
+  'Alchemist',
+  'Culinarian',
+  'Miner',
+  'Botanist',
+  'Fisher',
+];
+
+// Seed item uses (recipes, quest and leve turn-ins, GC supply, desynthesis, exchanges)
+function seedItemUses(db: Database.Database) {
+  console.log('🧾 Seeding item uses...');
+
+  db.prepare('DELETE FROM item_uses').run();
+
+  const itemNames = new Map(
+    (db.prepare('SELECT id, name FROM items').all() as Array<{ id: number; name: string }>).map(
+      (row) => [row.id, row.name]
+    )
+  );
+
+  const insertUse = db.prepare(`
+    INSERT INTO item_uses (item_id, use_type, use_id, use_name, quantity_required, use_details)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+
+  // Sheets reference items that were never released, skip those
+  const addUse = (
+    itemId: number,
+    useType: ItemUseType,
+    useId: number | null,
+    useName: string,
+    quantity: number,
+    details: ItemUseDetails
+  ): number => {
+    if (!itemNames.has(itemId)) return 0;
+
+    insertUse.run(itemId, useType, useId, useName, quantity, JSON.stringify(details));
+    return 1;
+  };
+
+  // Recipe ingredients come from the crafting tables
+  const ingredients = db
+    .prepare(
+      `INSERT INTO item_uses (item_id, use_type, use_id, use_name, quantity_required, use_details)
+       SELECT ri.item_id, 'recipe_ingredient', r.id, result.name, ri.quantity,
+         json_object('craft_job', ct.name, 'recipe_level', rlt.class_job_level)
+       FROM recipe_ingredients ri
+       JOIN recipes r ON r.id = ri.recipe_id
+       JOIN items i ON i.id = ri.item_id
+       JOIN items result ON result.id = r.item_result_id
+       LEFT JOIN craft_types ct ON ct.id = r.craft_type_id
+       LEFT JOIN recipe_level_tables rlt ON rlt.id = r.recipe_level_table_id`
+    )
+    .run();
+  console.log(`  ✅ Inserted ${ingredients.changes} recipe ingredient uses`);
+
+  // Quest turn-ins come from the objectives parsed by parse-quest-data / seed-quest-db
+  const hasQuests = db
+    .prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'quests'`)
+    .get();
+  if (hasQuests) {
+    const quests = db
+      .prepare(
+        `SELECT id, name, level, objectives FROM quests
+         WHERE objectives LIKE '%"type":"item"%' OR objectives LIKE '%"type":"fish"%'`
+      )
+      .all() as Array<{ id: number; name: string; level: number; objectives: string }>;
+    let count = 0;
+
+    const transaction = db.transaction(() => {
+      for (const quest of quests) {
+        for (const objective of JSON.parse(quest.objectives)) {
+          if (objective.type !== 'item' && objective.type !== 'fish') continue;
+
+          count += addUse(
+            objective.targetId,
+            'quest_required',
+            quest.id,
+            quest.name,
+            objective.quantity || 1,
+            { quest_level: quest.level || undefined }
+          );
+        }
+      }
+    });
+
+    transaction();
+    console.log(`  ✅ Inserted ${count} quest turn-in uses`);
+  } else {
+    console.log('  ⚠️  No quests table, run seed-quest-db first for quest turn-ins');
+  }
+
+  // Crafting leve turn-ins
+  const leves = loadCSV('Leve.csv');
+  const craftLeves = loadCSV('CraftLeve.csv');
+  if (leves && craftLeves) {
+    const levesById = new Map(
+      leves.map((leve) => [parseInt(leve['#'] || leve['key'] || '0'), leve])
+    );
+    let count = 0;
+
+    const transaction = db.transaction((craftLeveList: CSVRow[]) => {
+      for (const craftLeve of craftLeveList) {
+        const leveId = parseInt(craftLeve['Leve'] || '0');
+        const leve = levesById.get(leveId);
+        if (!leve || !leve['Name']) continue;
+
+        const repeats = parseInt(craftLeve['Repeats'] || '0');
+        for (let i = 0; i < 4; i++) {
+          const itemId = parseInt(craftLeve[`Item[${i}]`] || '0');
+          const itemCount = parseInt(craftLeve[`ItemCount[${i}]`] || '0');
+          if (itemId === 0 || itemCount === 0) continue;
+
+          count += addUse(itemId, 'leve_required', leveId, leve['Name'], itemCount, {
+            leve_level: parseInt(leve['ClassJobLevel'] || '0') || undefined,
+            // Repeatable leves ask for the items again on every turn-in
+            repeats: repeats > 0 ? repeats + 1 : undefined,
+          });
+        }
+      }
+    });
+
+    transaction(craftLeves);
+    console.log(`  ✅ Inserted ${count} leve turn-in uses`);
+  }
+
+  // Grand Company supply and provisioning missions, keyed by level
+  const supplyDuties = loadCSV('GCSupplyDuty.csv');
+  if (supplyDuties) {
+    let count = 0;
+
+    const transaction = db.transaction((duties: CSVRow[]) => {
+      for (const duty of duties) {
+        const level = parseInt(duty['#'] || duty['key'] || '0');
+        if (level === 0) continue;
+
+        GC_SUPPLY_JOBS.forEach((job, jobIndex) => {
+          for (let slot = 0; slot < 3; slot++) {
+            const itemId = parseInt(duty[`Item[${jobIndex}][${slot}]`] || '0');
+            if (itemId === 0) continue;
+
+            count += addUse(
+              itemId,
+              'gc_supply',
+              level,
+              `${job} Lv. ${level}`,
+              parseInt(duty[`ItemCount[${jobIndex}][${slot}]`] || '1') || 1,
+              { required_job: job }
+            );
+          }
+        });
+      }
+    });
+
+    transaction(supplyDuties);
+    console.log(`  ✅ Inserted ${count} Grand Company supply uses`);
+  }
+
+  // Desynthesis (the item's repair class does the desynthesis)
+  const items = loadCSV('Item.csv');
+  if (items) {
+    const classJobNames = new Map(
+      (
+        db.prepare('SELECT id, name FROM class_jobs').all() as Array<{ id: number; name: string }>
+      ).map((row) => [row.id, row.name])
+    );
+    let count = 0;
+
+    const transaction = db.transaction((itemList: CSVRow[]) => {
+      for (const item of itemList) {
+        const id = parseInt(item['#'] || item['key'] || '0');
+        if (id === 0 || parseInt(item['Desynth'] || '0') === 0) continue;
+
+        const job = classJobNames.get(parseInt(item['ClassJob{Repair}'] || '0'));
+        count += addUse(id, 'desynth', null, job || 'Desynthesis', 1, { required_job: job });
+      }
+    });
+
+    transaction(items);
+    console.log(`  ✅ Inserted ${count} desynthesis uses`);
+  }
+
+  // Currencies and items spent at special shops
+  const specialShops = loadCSV('SpecialShop.csv');
+  if (specialShops) {
+    const tomestoneItems = loadTomestoneItems();
+    let count = 0;
+
+    const transaction = db.transaction((shops: CSVRow[]) => {
+      for (const shop of shops) {
+        const shopId = parseInt(shop['#'] || shop['key'] || '0');
+        if (shopId === 0) continue;
+
+        for (const entry of readSpecialShopEntries(shop, tomestoneItems)) {
+          const received = itemNames.get(entry.itemId);
+          if (!received) continue;
+
+          count += addUse(
+            entry.costItemId,
+            'currency_exchange',
+            entry.itemId,
+            received,
+            entry.costCount || 1,
+            { shop: shop['Name'] || undefined, shop_id: shopId, received_quantity: entry.count }
+          );
+        }
+      }
+    });
+
+    transaction(specialShops);
+    console.log(`  ✅ Inserted ${count} exchange currency uses`);
+  }
+}
+
 // Main seeding function
 async function main() {
   console.log('🌟 FFXIV Game Data Seeder');
@@ -730,6 +1449,16 @@ async function main() {
       seedCollectibles(db);
     }
 
+    // Sources and uses are derived from the data above, so they come last
+    if (!options.skipSources) {
+      seedItemSources(db);
+      seedCollectibleSources(db);
+    }
+
+    if (!options.skipUses) {
+      seedItemUses(db);
+    }
+
     console.log('\n========================');
     console.log('✅ All data seeded successfully!');
     console.log(`📁 Database: ${DB_PATH}`);
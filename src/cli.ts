@@ -14,7 +14,17 @@ import { achievementCommand } from './commands/achievement.js';
 import { syncCommand } from './commands/sync.js';
 import { itemCommand } from './commands/item.js';
 import { gatherCommand } from './commands/gather.js';
-import { craftCommand } from './commands/craft.js';
+import {
+  craftCommand,
+  craftPlanCommand,
+  craftPricesCommand,
+  craftProfitCommand,
+} from './commands/craft.js';
+import { inventoryCommand } from './commands/inventory.js';
+import { weatherCommand } from './commands/weather.js';
+import { watchCommand } from './commands/watch.js';
+import { exportCommand } from './commands/export.js';
+import { profileCommand } from './commands/profile.js';
 import {
   mountCommand,
   minionCommand,
@@ -45,6 +55,7 @@ program
   .option('--switch <name>', 'Switch active character')
   .option('--remove <name>', 'Remove character from profile')
   .option('--sync', 'Sync character data from Lodestone (requires internet)')
+  .option('--import-html <dir>', 'Import a character from saved Lodestone pages (offline)')
   .action(async (options) => {
     await characterCommand(options);
   });
@@ -61,6 +72,8 @@ program
   .option('--note <note>', 'Add a note when marking complete')
   .option('--show-completed', 'Show only completed quests')
   .option('--show-incomplete', 'Show only incomplete quests')
+  .option('--path-to <id>', 'Show the ordered prerequisite chain for a quest')
+  .option('--unlocked', 'List quests unlocked by your completed quests')
   .action(async (options) => {
     await questCommand(options);
   });
@@ -76,6 +89,8 @@ program
   .option('-a, --available', 'Show fish available at current Eorzean time')
   .option('--aquarium', 'Show aquarium fish only')
   .option('--limit <limit>', 'Limit number of results (default: 20)')
+  .option('--windows <count>', 'Show the next N catch windows (use with --id)')
+  .option('--intuition', "Show the predator chain schedule for Fisher's Intuition (use with --id)")
   .option('--caught', 'Mark fish as caught (use with --id)')
   .option('--note <note>', 'Add a note when marking caught')
   .option('--show-caught', 'Show only caught fish')
@@ -84,6 +99,43 @@ program
     await fishCommand(options);
   });
 
+// Weather commands
+program
+  .command('weather <zone>')
+  .description('Show the weather forecast for a zone (name or ID)')
+  .option('-p, --periods <count>', 'Number of weather periods to show (default: 10)')
+  .option('-w, --weather <names>', 'Find the next time this weather occurs (comma-separated)')
+  .option('--after <names>', 'Require the previous weather to be one of these (use with --weather)')
+  .action(async (zone, options) => {
+    await weatherCommand(zone, options);
+  });
+
+// Watch command
+program
+  .command('watch')
+  .description('Watch fish and timed gathering node windows and alert before they open')
+  .option('--add-fish <ids>', 'Add fish to the watch list (comma-separated)')
+  .option('--add-node <ids>', 'Add timed gathering nodes to the watch list (comma-separated)')
+  .option('--remove-fish <ids>', 'Remove fish from the watch list')
+  .option('--remove-node <ids>', 'Remove gathering nodes from the watch list')
+  .option('--list', 'Show the watch list with upcoming windows and exit')
+  .option('--lead <minutes>', 'Alert this many minutes before a window opens (default: 5)')
+  .option('--interval <seconds>', 'How often to check for due alerts (default: 30)')
+  .option('--no-bell', 'Disable the terminal bell')
+  .option('--notify-command <command>', 'Shell command to run for each alert')
+  .option('--webhook <url>', 'POST each alert as JSON to this URL')
+  .option('--save', 'Save the alert settings as defaults')
+  .option('--once', 'Check once, send due alerts and exit')
+  .action(async (options) => {
+    await watchCommand(options);
+  });
+
+// Export command
+program.addCommand(exportCommand);
+
+// Profile backup commands
+program.addCommand(profileCommand);
+
 // Location commands
 program
   .command('location')
@@ -120,8 +172,11 @@ program
   .command('sync')
   .description('Intelligent sync: analyze achievements and infer quest completions')
   .option('--achievements <ids>', 'Comma-separated achievement IDs to sync')
-  .option('--from-file <path>', 'Parse achievements from Lodestone text file')
+  .option('--from-file <path>', 'Parse achievements from Lodestone text or saved HTML')
   .option('--dry-run', 'Preview changes without saving')
+  .option('--history', 'List previous sync runs')
+  .option('--show <runId>', 'Show what a sync run added')
+  .option('--revert <runId>', 'Remove what a sync run added')
   .action(async (options) => {
     await syncCommand(options);
   });
@@ -167,6 +222,7 @@ program
   .description('Search and view crafting recipes')
   .option('-i, --id <id>', 'Get details for a specific recipe')
   .option('--guide', 'Show complete crafting guide with material tree (use with --id)')
+  .option('--no-inventory', "Don't subtract the active character's inventory from the guide")
   .option('--crafted', 'Mark recipe as crafted (use with --id)')
   .option('-t, --type <craft_type>', 'Filter by craft type (Carpenter, Blacksmith, etc.)')
   .option('--ingredient <name>', 'Find recipes using an ingredient')
@@ -174,6 +230,29 @@ program
   .option('--limit <limit>', 'Limit number of results (default: 20)')
   .action(async (name, options) => {
     await craftCommand(name, options);
+  })
+  .addCommand(craftPlanCommand)
+  .addCommand(craftProfitCommand)
+  .addCommand(craftPricesCommand);
+
+// Inventory commands
+program
+  .command('inventory')
+  .alias('inv')
+  .description('Track owned materials (subtracted from crafting guides and plans)')
+  .option('--add <item>', 'Add an item by ID or exact name')
+  .option('--remove <item>', 'Remove an item by ID or exact name (all of it without --quantity)')
+  .option('-q, --quantity <quantity>', 'Quantity to add or remove (default: 1 for --add)')
+  .option('--hq', 'High-quality items')
+  .option('--location <location>', 'Storage location: bag, saddlebag, or a retainer name')
+  .option(
+    '--import <file>',
+    'Import a CSV (item name, quantity, hq, location) or JSON export; --location sets the default'
+  )
+  .option('--replace', 'With --import, replace the imported locations instead of adding')
+  .option('--clear', 'Remove all items (or only --location)')
+  .action(async (options) => {
+    await inventoryCommand(options);
   });
 
 // Mount commands
@@ -4,6 +4,10 @@ import Table from 'cli-table3';
 import { getLodestoneClient } from '../services/lodestone.js';
 import { getPlayerProfileService } from '../services/playerProfile.js';
 import { getConfig } from '../utils/config.js';
+import { readLodestoneSavedPages } from '../parsers/lodestonePageParser.js';
+import type { CharacterSyncResult } from '../types/profile.js';
+import { existsSync, statSync } from 'fs';
+import { resolve } from 'path';
 
 export interface CharacterCommandOptions {
   name?: string;
@@ -16,6 +20,7 @@ export interface CharacterCommandOptions {
   switch?: string;
   remove?: string;
   sync?: boolean;
+  importHtml?: string;
 }
 
 export async function characterCommand(options: CharacterCommandOptions): Promise<void> {
@@ -50,6 +55,11 @@ export async function characterCommand(options: CharacterCommandOptions): Promis
     return;
   }
 
+  if (options.importHtml) {
+    importCharacterHtml(options.importHtml);
+    return;
+  }
+
   // Original lookup functionality (Lodestone search)
   await lookupCharacter(options);
 }
@@ -350,32 +360,7 @@ async function syncCharacter(characterId?: string): Promise<void> {
 
     spinner.succeed(chalk.green(`Character "${character.name}" synced successfully!`));
 
-    console.log(chalk.bold.cyan('\n=== Sync Results ===\n'));
-    console.log(`${chalk.bold('Last Synced:')} ${result.lastSyncedAt.toLocaleString()}`);
-    console.log(`${chalk.bold('Jobs Updated:')} ${result.changes.jobsUpdated}`);
-
-    if (result.changes.newJobs.length > 0) {
-      console.log(chalk.bold.green('\nNew Jobs:'));
-      result.changes.newJobs.forEach((job) => {
-        console.log(`  + ${job}`);
-      });
-    }
-
-    if (result.changes.levelChanges.length > 0) {
-      console.log(chalk.bold.cyan('\nLevel Changes:'));
-      result.changes.levelChanges.forEach((change) => {
-        const diff = change.newLevel - change.oldLevel;
-        const arrow = diff > 0 ? chalk.green('↑') : chalk.red('↓');
-        console.log(
-          `  ${change.jobName}: ${change.oldLevel} → ${change.newLevel} ${arrow} ${Math.abs(diff)}`
-        );
-      });
-    }
-
-    if (result.changes.jobsUpdated === 0) {
-      console.log(chalk.gray('No changes detected.'));
-    }
-
+    printSyncResults(result);
     console.log('');
   } catch (error) {
     spinner.fail(chalk.red('Failed to sync character'));
@@ -398,6 +383,98 @@ async function syncCharacter(characterId?: string): Promise<void> {
   }
 }
 
+/**
+ * Import a character from Lodestone pages saved to disk (works offline)
+ */
+function importCharacterHtml(dirPath: string): void {
+  const resolvedPath = resolve(dirPath);
+
+  if (!existsSync(resolvedPath) || !statSync(resolvedPath).isDirectory()) {
+    console.log(chalk.red(`Error: Directory not found: ${dirPath}\n`));
+    return;
+  }
+
+  const pages = readLodestoneSavedPages(resolvedPath);
+  const pageCount =
+    [pages.profile, pages.classJob, pages.mount, pages.minion].filter(Boolean).length +
+    pages.achievements.length;
+
+  if (pageCount === 0) {
+    console.log(chalk.yellow(`No saved Lodestone character pages found in ${dirPath}`));
+    console.log(
+      chalk.gray(
+        'Save the profile, class/job, achievement, mount and minion pages as .html files.\n'
+      )
+    );
+    return;
+  }
+
+  try {
+    const profileService = getPlayerProfileService();
+    const result = profileService.importCharacterFromHtml(pages);
+    const character = profileService.getCharacterById(result.characterId)!;
+
+    console.log(
+      chalk.green(
+        `✓ Character "${character.name}" (${character.server}) ${result.created ? 'added' : 'updated'} from ${pageCount} saved page(s)`
+      )
+    );
+    printSyncResults(result);
+    console.log('');
+  } catch (error) {
+    console.error(chalk.red(`\n${(error as Error).message}\n`));
+  }
+}
+
+/**
+ * Print job and collection changes from a Lodestone sync or import
+ */
+function printSyncResults(result: CharacterSyncResult): void {
+  console.log(chalk.bold.cyan('\n=== Sync Results ===\n'));
+  console.log(`${chalk.bold('Last Synced:')} ${result.lastSyncedAt.toLocaleString()}`);
+  console.log(`${chalk.bold('Jobs Updated:')} ${result.changes.jobsUpdated}`);
+
+  if (result.changes.newJobs.length > 0) {
+    console.log(chalk.bold.green('\nNew Jobs:'));
+    result.changes.newJobs.forEach((job) => {
+      console.log(`  + ${job}`);
+    });
+  }
+
+  if (result.changes.levelChanges.length > 0) {
+    console.log(chalk.bold.cyan('\nLevel Changes:'));
+    result.changes.levelChanges.forEach((change) => {
+      const diff = change.newLevel - change.oldLevel;
+      const arrow = diff > 0 ? chalk.green('↑') : chalk.red('↓');
+      console.log(
+        `  ${change.jobName}: ${change.oldLevel} → ${change.newLevel} ${arrow} ${Math.abs(diff)}`
+      );
+    });
+  }
+
+  const collections = result.collections;
+  if (collections) {
+    console.log(chalk.bold.cyan('\nCollections:'));
+    console.log(`  Mounts added: ${collections.mountsAdded}`);
+    console.log(`  Minions added: ${collections.minionsAdded}`);
+    console.log(`  Achievements added: ${collections.achievementsAdded}`);
+
+    if (collections.achievementsPrivate) {
+      console.log(chalk.yellow('  Achievements are private on the Lodestone, skipped'));
+    }
+    if (collections.unmatched.length > 0) {
+      console.log(chalk.gray(`  ${collections.unmatched.length} not found in game data (skipped)`));
+    }
+  }
+
+  const collectionsAdded = collections
+    ? collections.mountsAdded + collections.minionsAdded + collections.achievementsAdded
+    : 0;
+  if (result.changes.jobsUpdated === 0 && collectionsAdded === 0) {
+    console.log(chalk.gray('No changes detected.'));
+  }
+}
+
 /**
  * Original Lodestone lookup (read-only, doesn't save to profile)
  */
@@ -438,6 +515,11 @@ async function lookupCharacter(options: CharacterCommandOptions): Promise<void>
     console.log(
       chalk.gray('  eorzea character --sync                                 Sync from Lodestone')
     );
+    console.log(
+      chalk.gray(
+        '  eorzea character --import-html <dir>                    Import saved Lodestone pages'
+      )
+    );
     console.log(
       chalk.gray('  eorzea character --name <name> --server <server>        Search Lodestone\n')
     );
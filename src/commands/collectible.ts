@@ -196,7 +196,7 @@ async function markMountObtained(
     return;
   }
 
-  collectiblesService.trackObtainedMount(parseInt(character.id), mountId, undefined, note);
+  collectiblesService.trackObtainedMount(character.id, mountId, undefined, note);
   console.log(chalk.green(`✓ Marked mount "${mount.singular || mount.name}" as obtained!`));
 
   if (note) {
@@ -375,7 +375,7 @@ async function markMinionObtained(
     return;
   }
 
-  collectiblesService.trackObtainedCompanion(parseInt(character.id), companionId, undefined, note);
+  collectiblesService.trackObtainedCompanion(character.id, companionId, undefined, note);
   console.log(
     chalk.green(`✓ Marked minion "${companion.singular || companion.name}" as obtained!`)
   );
@@ -554,7 +554,7 @@ async function markOrchestrionObtained(
     return;
   }
 
-  collectiblesService.trackObtainedOrchestrion(parseInt(character.id), orchestrionId, undefined, note);
+  collectiblesService.trackObtainedOrchestrion(character.id, orchestrionId, undefined, note);
   console.log(chalk.green(`✓ Marked orchestrion roll "${orchestrion.name}" as obtained!`));
 
   if (note) {
@@ -584,7 +584,7 @@ export async function collectionCommand(): Promise<void> {
       return;
     }
 
-    const stats = service.getCollectionStats(parseInt(character.id));
+    const stats = service.getCollectionStats(character.id);
 
     spinner.stop();
 
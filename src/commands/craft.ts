@@ -2,11 +2,22 @@
  * Crafting CLI Commands
  */
 
+import { Command } from 'commander';
 import chalk from 'chalk';
 import Table from 'cli-table3';
 import ora from 'ora';
+import { readFileSync } from 'fs';
+import {
+  detectMarketPriceFormat,
+  matchMarketPriceRows,
+  parseMarketPrices,
+  type MarketPriceImportResult,
+} from '../parsers/marketPriceParser.js';
 import { CraftingService } from '../services/craftingService.js';
+import { ItemService } from '../services/itemService.js';
+import { getPriceProvider, resetPriceProvider } from '../services/marketPrices.js';
 import { getPlayerProfileService } from '../services/playerProfile.js';
+import type { CraftPlan, CraftPlanItem, CraftingProfit } from '../types/crafting.js';
 
 export interface CraftCommandOptions {
   id?: string;
@@ -16,6 +27,7 @@ export interface CraftCommandOptions {
   ingredient?: string;
   level?: string;
   limit?: string;
+  inventory?: boolean;
 }
 
 export async function craftCommand(
@@ -43,7 +55,11 @@ export async function craftCommand(
       // Show crafting guide
       if (options.guide) {
         spinner.stop();
-        await showCraftingGuide(service, recipeId);
+        await showCraftingGuide(
+          service,
+          recipeId,
+          options.inventory === false ? undefined : getOwnedQuantities()
+        );
         service.close();
         return;
       }
@@ -150,6 +166,7 @@ export async function craftCommand(
       console.log(chalk.cyan('  eorzea craft --type <craft_type>') + '   Filter by craft type');
       console.log(chalk.cyan('  eorzea craft --ingredient <name>') + '   Find recipes using ingredient');
       console.log(chalk.cyan('  eorzea craft --level <level>') + '       Filter by level');
+      console.log(chalk.cyan('  eorzea craft plan <id>:<qty> ...') + '   Plan a batch of crafts');
       service.close();
       return;
     }
@@ -231,8 +248,12 @@ export async function craftCommand(
   }
 }
 
-async function showCraftingGuide(service: CraftingService, recipeId: number): Promise<void> {
-  const guide = service.getCraftingGuide(recipeId);
+async function showCraftingGuide(
+  service: CraftingService,
+  recipeId: number,
+  owned?: Map<number, number>
+): Promise<void> {
+  const guide = service.getCraftingGuide(recipeId, owned);
 
   if (!guide) {
     console.log(chalk.red('Recipe not found'));
@@ -287,12 +308,22 @@ async function showCraftingGuide(service: CraftingService, recipeId: number): Pr
         material.sources.length > 0
           ? ` ${chalk.dim('[' + material.sources[0].type + ']')}`
           : '';
+      const have = material.quantity_owned ? chalk.dim(` (have ${material.quantity_owned})`) : '';
+      const price = material.vendor_price
+        ? chalk.green(
+            ` ${(material.vendor_price * material.quantity_needed).toLocaleString()} gil @ ${material.vendor_name}`
+          )
+        : chalk.dim(' not vendor-purchasable');
       console.log(
-        `  ${chalk.yellow('→')} ${material.quantity_needed}x ${material.item_name}${sources}`
+        `  ${chalk.yellow('→')} ${material.quantity_needed}x ${material.item_name}${have}${sources}${price}`
       );
     });
   }
 
+  if (owned && owned.size > 0) {
+    console.log(chalk.dim('\n  Owned materials are subtracted (use --no-inventory to ignore)'));
+  }
+
   // Intermediate crafts
   if (guide.intermediate_crafts.length > 0) {
     console.log(chalk.bold('\n🔧 Intermediate Crafts Required:'));
@@ -310,6 +341,14 @@ async function showCraftingGuide(service: CraftingService, recipeId: number): Pr
   console.log(chalk.bold('\n⏱️  Estimates:'));
   console.log(`  ${chalk.dim('Total Crafts:')} ${guide.intermediate_crafts.length + 1}`);
   console.log(`  ${chalk.dim('Estimated Time:')} ~${guide.estimated_time_minutes} minutes`);
+  console.log(
+    `  ${chalk.dim('Vendor Cost:')} ${guide.estimated_cost.toLocaleString()} gil` +
+      (guide.non_vendor_materials.length > 0
+        ? chalk.dim(
+            ` (+ ${guide.non_vendor_materials.length} material(s) to gather or buy elsewhere)`
+          )
+        : '')
+  );
 
   console.log('');
 }
@@ -340,3 +379,356 @@ async function markRecipeCrafted(
   );
   console.log('');
 }
+
+/**
+ * Owned quantities for the active character, if there is one
+ */
+function getOwnedQuantities(): Map<number, number> | undefined {
+  const profileService = getPlayerProfileService();
+  const character = profileService.getActiveCharacter();
+  return character ? profileService.getOwnedQuantities(character.id) : undefined;
+}
+
+/**
+ * Parse plan entries given as "recipeId" or "recipeId:quantity"
+ */
+function parsePlanEntries(entries: string[]): CraftPlanItem[] | null {
+  const items: CraftPlanItem[] = [];
+
+  for (const entry of entries) {
+    const [recipeId, quantity = '1'] = entry.split(':');
+    const item = { recipeId: parseInt(recipeId), quantity: parseInt(quantity) };
+    if (isNaN(item.recipeId) || isNaN(item.quantity) || item.quantity < 1) {
+      console.log(
+        chalk.red(`Invalid plan entry "${entry}" (expected recipeId or recipeId:quantity)`)
+      );
+      return null;
+    }
+    items.push(item);
+  }
+
+  return items;
+}
+
+function displayCraftPlan(plan: CraftPlan): void {
+  console.log(chalk.cyan.bold('\n🧾 Crafting Plan\n'));
+  console.log(chalk.gray('━'.repeat(80)));
+
+  if (plan.raw_materials.length > 0) {
+    console.log(chalk.bold('\n🗂️  Raw Materials:'));
+    plan.raw_materials.forEach((material) => {
+      const sources =
+        material.sources.length > 0 ? ` ${chalk.dim('[' + material.sources[0].type + ']')}` : '';
+      const have = material.quantity_owned ? chalk.dim(` (have ${material.quantity_owned})`) : '';
+      console.log(
+        `  ${chalk.yellow('→')} ${material.quantity_needed}x ${material.item_name}${have}${sources}`
+      );
+    });
+  }
+
+  console.log(chalk.bold('\n🔧 Crafts (in order):'));
+  const table = new Table({
+    head: [
+      chalk.cyan('#'),
+      chalk.cyan('Item'),
+      chalk.cyan('Craft Type'),
+      chalk.cyan('Level'),
+      chalk.cyan('Needed'),
+      chalk.cyan('Synths'),
+      chalk.cyan('Surplus'),
+    ],
+    style: {
+      head: [],
+      border: [],
+    },
+  });
+
+  plan.crafts.forEach((step, index) => {
+    table.push([
+      (index + 1).toString(),
+      `${step.is_target ? chalk.green(step.item_name) : step.item_name} ${chalk.dim(`(#${step.recipe_id})`)}`,
+      step.craft_type_name || 'Unknown',
+      step.class_job_level?.toString() || 'N/A',
+      step.quantity_owned > 0
+        ? `${step.quantity_needed} ${chalk.dim(`(have ${step.quantity_owned})`)}`
+        : step.quantity_needed.toString(),
+      step.amount_result > 1
+        ? `${step.crafts} ${chalk.dim(`(×${step.amount_result})`)}`
+        : step.crafts.toString(),
+      step.surplus > 0 ? step.surplus.toString() : chalk.gray('-'),
+    ]);
+  });
+
+  console.log(table.toString());
+  console.log(`\n  ${chalk.dim('Total Synths:')} ${plan.total_crafts}`);
+  console.log(chalk.dim('  Requested items are shown in green\n'));
+}
+
+export const craftPlanCommand = new Command('plan')
+  .description('Plan a batch of crafts with one consolidated shopping list')
+  .argument('[entries...]', 'Recipes to craft as recipeId or recipeId:quantity')
+  .option('-f, --file <file>', 'Read a JSON list of {recipeId, quantity} from a file')
+  .option('--no-inventory', "Don't subtract the active character's inventory")
+  .action(async (entries: string[], options) => {
+    let items: CraftPlanItem[] | null;
+
+    if (options.file) {
+      try {
+        items = JSON.parse(readFileSync(options.file, 'utf-8'));
+      } catch (error) {
+        console.error(chalk.red(`Could not read plan file ${options.file}:`), String(error));
+        process.exit(1);
+      }
+      if (
+        !Array.isArray(items) ||
+        !items.every((item) => Number.isInteger(item?.recipeId) && Number.isInteger(item?.quantity))
+      ) {
+        console.log(chalk.red('Plan file must be a JSON array of {recipeId, quantity}'));
+        return;
+      }
+    } else {
+      items = parsePlanEntries(entries);
+      if (!items) return;
+    }
+
+    if (items.length === 0) {
+      console.log(chalk.yellow('Please specify recipes to plan'));
+      console.log(chalk.cyan('  eorzea craft plan <recipeId>:<quantity> ...'));
+      console.log(chalk.cyan('  eorzea craft plan --file plan.json'));
+      return;
+    }
+
+    const service = new CraftingService();
+
+    try {
+      const plan = service.getCraftPlan(
+        items,
+        options.inventory ? getOwnedQuantities() : undefined
+      );
+
+      if (plan.unknown_recipe_ids.length > 0) {
+        console.log(chalk.yellow(`Unknown recipe(s): ${plan.unknown_recipe_ids.join(', ')}`));
+      }
+      if (plan.crafts.length === 0) {
+        return;
+      }
+
+      displayCraftPlan(plan);
+    } catch (error) {
+      console.error(chalk.red('Error planning crafts:'), error);
+      process.exit(1);
+    } finally {
+      service.close();
+    }
+  });
+
+/**
+ * World to price against: the --world option, or the active character's server
+ */
+function resolveWorld(world?: string): string | undefined {
+  return world || getPlayerProfileService().getActiveCharacter()?.server;
+}
+
+function formatGil(amount: number | null): string {
+  return amount === null ? chalk.gray('no price') : `${amount.toLocaleString()} gil`;
+}
+
+function displayCraftingProfit(profit: CraftingProfit): void {
+  console.log(
+    chalk.cyan.bold(
+      `\n💰 Profit for ${profit.item_name}${profit.hq ? ' (HQ)' : ''} ${chalk.dim(`(#${profit.recipe_id})`)} on ${profit.world}\n`
+    )
+  );
+  console.log(chalk.gray('━'.repeat(60)));
+
+  console.log(chalk.bold('\n📦 Materials (one synth):'));
+  profit.materials.forEach((material) => {
+    const price =
+      material.unit_price === null
+        ? chalk.gray('no price')
+        : `${material.total_cost.toLocaleString()} gil ${chalk.dim(`(${material.unit_price.toLocaleString()} each, ${material.price_source})`)}`;
+    console.log(
+      `  ${chalk.yellow('→')} ${material.quantity_needed}x ${material.item_name}: ${price}`
+    );
+  });
+
+  const sale =
+    profit.amount_result > 1 && profit.sale_price !== null
+      ? `${formatGil(profit.sale_value)} ${chalk.dim(`(${profit.amount_result} × ${profit.sale_price.toLocaleString()})`)}`
+      : formatGil(profit.sale_value);
+
+  console.log(chalk.bold('\n📊 Summary:'));
+  console.log(`  ${chalk.dim('Material Cost:')} ${formatGil(profit.material_cost)}`);
+  console.log(`  ${chalk.dim('Sale Value:')}    ${sale}`);
+  if (profit.profit !== null) {
+    const color = profit.profit >= 0 ? chalk.green : chalk.red;
+    console.log(
+      `  ${chalk.dim('Profit:')}        ${color(formatGil(profit.profit))} ${chalk.dim(`(${profit.margin_percent}%)`)}`
+    );
+  }
+
+  if (profit.unpriced_materials.length > 0) {
+    console.log(
+      chalk.yellow(
+        `\n⚠️  ${profit.unpriced_materials.length} material(s) have no price, so the cost is a lower bound and profit is unknown`
+      )
+    );
+  }
+  if (profit.prices_recorded_at !== null) {
+    console.log(
+      chalk.dim(`\n  Prices from ${new Date(profit.prices_recorded_at).toLocaleString()} or later`)
+    );
+  }
+  console.log();
+}
+
+function displayProfitComparison(profits: CraftingProfit[]): void {
+  const table = new Table({
+    head: [
+      chalk.cyan('Item'),
+      chalk.cyan('Material Cost'),
+      chalk.cyan('Sale Value'),
+      chalk.cyan('Profit'),
+      chalk.cyan('Margin'),
+    ],
+    style: {
+      head: [],
+      border: [],
+    },
+  });
+
+  // Most profitable first, recipes without a known profit last
+  const sorted = [...profits].sort((a, b) => (b.profit ?? -Infinity) - (a.profit ?? -Infinity));
+  sorted.forEach((profit) => {
+    const color = (profit.profit ?? 0) >= 0 ? chalk.green : chalk.red;
+    table.push([
+      `${profit.item_name} ${chalk.dim(`(#${profit.recipe_id})`)}`,
+      profit.unpriced_materials.length > 0
+        ? `${formatGil(profit.material_cost)} ${chalk.yellow('+?')}`
+        : formatGil(profit.material_cost),
+      formatGil(profit.sale_value),
+      profit.profit === null ? chalk.gray('-') : color(formatGil(profit.profit)),
+      profit.margin_percent === null ? chalk.gray('-') : `${profit.margin_percent}%`,
+    ]);
+  });
+
+  console.log(chalk.cyan.bold(`\n💰 Craft Profit on ${profits[0].world}\n`));
+  console.log(table.toString());
+  console.log(chalk.dim('  +? marks materials without a price\n'));
+}
+
+export const craftProfitCommand = new Command('profit')
+  .description('Compare material cost with the market value of crafted items')
+  .argument('<recipeIds...>', 'Recipes to compare')
+  .option('-w, --world <world>', "World to price against (default: active character's server)")
+  .option('--hq', 'Value the result at its HQ price')
+  .action(async (recipeIds: string[], options) => {
+    const ids = recipeIds.map((id) => parseInt(id));
+    if (ids.some((id) => isNaN(id))) {
+      console.log(chalk.red('Recipe IDs must be numbers'));
+      return;
+    }
+
+    const world = resolveWorld(options.world);
+    if (!world) {
+      console.log(chalk.red('No world given and no active character.'));
+      console.log(
+        chalk.yellow('Use --world <world>, e.g. "eorzea craft profit 123 --world Gilgamesh"\n')
+      );
+      return;
+    }
+
+    const service = new CraftingService();
+    const prices = getPriceProvider();
+
+    try {
+      const profits: CraftingProfit[] = [];
+      for (const id of ids) {
+        const profit = await service.getCraftingProfit(id, prices, world, !!options.hq);
+        if (!profit) {
+          console.log(chalk.yellow(`Recipe with ID ${id} not found`));
+          continue;
+        }
+        profits.push(profit);
+      }
+
+      if (profits.length === 1) {
+        displayCraftingProfit(profits[0]);
+      } else if (profits.length > 1) {
+        displayProfitComparison(profits);
+      }
+
+      if (profits.some((profit) => profit.sale_price === null)) {
+        console.log(
+          chalk.dim(
+            `💡 Tip: Import prices for ${world} with "eorzea craft prices --import <file>"\n`
+          )
+        );
+      }
+    } catch (error) {
+      console.error(chalk.red('Error calculating profit:'), error);
+      process.exit(1);
+    } finally {
+      service.close();
+      resetPriceProvider();
+    }
+  });
+
+export const craftPricesCommand = new Command('prices')
+  .description('Import market price snapshots used by "craft profit"')
+  .option('--import <file>', 'CSV or JSON of item, world, NQ price, HQ price, recorded at')
+  .option('-w, --world <world>', 'World for rows without one')
+  .action((options) => {
+    const prices = getPriceProvider();
+
+    try {
+      if (!options.import) {
+        const worlds = prices.getWorlds();
+        if (worlds.length === 0) {
+          console.log(chalk.yellow('No market prices imported yet.'));
+          console.log(chalk.dim('💡 Tip: Use --import <file> to add a price snapshot\n'));
+          return;
+        }
+
+        console.log(chalk.bold('\n💹 Imported market prices:\n'));
+        worlds.forEach((world) => {
+          console.log(
+            `  ${world.world.padEnd(16)} ${world.items} items ${chalk.dim(`(latest ${new Date(world.latest).toLocaleString()})`)}`
+          );
+        });
+        console.log();
+        return;
+      }
+
+      const itemService = new ItemService();
+      let result: MarketPriceImportResult;
+      try {
+        const text = readFileSync(options.import, 'utf-8');
+        const parsed = parseMarketPrices(text, detectMarketPriceFormat(options.import, text));
+        result = matchMarketPriceRows(parsed, itemService, options.world);
+      } catch (error) {
+        console.log(chalk.red(`Could not read ${options.import}: ${String(error)}`));
+        return;
+      } finally {
+        itemService.close();
+      }
+
+      const { imported, skipped } = prices.importPrices(result.prices);
+      console.log(chalk.green(`✓ Imported ${imported} prices from ${options.import}`));
+      if (skipped > 0) {
+        console.log(chalk.dim(`  ${skipped} older than the prices already stored were skipped`));
+      }
+
+      if (result.unmatched.length > 0) {
+        console.log(chalk.red(`\n✗ ${result.unmatched.length} rows were skipped:`));
+        result.unmatched.forEach((issue) => {
+          console.log(
+            `  ${chalk.dim(`row ${issue.row}:`)} ${issue.name || chalk.dim('(empty)')} ${chalk.red(`- ${issue.reason}`)}`
+          );
+        });
+      }
+      console.log();
+    } finally {
+      resetPriceProvider();
+    }
+  });
@@ -0,0 +1,80 @@
+/**
+ * Export Command
+ *
+ * Export upcoming fish and gathering node windows to other tools
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { writeFileSync } from 'fs';
+import { CalendarService } from '../services/calendarService.js';
+import { FishTrackerService } from '../services/fishTracker.js';
+import { GatheringNodeService } from '../services/gatheringNodeService.js';
+import { getPlayerProfileService } from '../services/playerProfile.js';
+
+export const exportCommand = new Command('export')
+  .description('Export upcoming windows to other tools')
+  .addCommand(
+    new Command('ics')
+      .description('Export upcoming fish and gathering node windows as an iCalendar (.ics) file')
+      .option('-o, --out <file>', 'Output file (default: stdout)')
+      .option('-c, --count <number>', 'Windows per fish/node', '5')
+      .option('-d, --days <number>', 'How many real days ahead to search', '7')
+      .option('--uncaught-big-fish', 'Include every big fish not caught yet')
+      .option('--timed-nodes', 'Include every timed gathering node')
+      .action(async (options) => {
+        const profileService = getPlayerProfileService();
+        const character = profileService.getActiveCharacter();
+
+        if (!character) {
+          console.log(chalk.red('No active character.'));
+          console.log(chalk.yellow('Use "eorzea character --add" to add a character first.\n'));
+          return;
+        }
+
+        const fishTracker = new FishTrackerService();
+        const nodeService = new GatheringNodeService();
+
+        try {
+          const calendarService = new CalendarService(fishTracker, nodeService);
+          const targets = calendarService.collectTargets(profileService, character.id, {
+            uncaughtBigFish: options.uncaughtBigFish,
+            timedNodes: options.timedNodes,
+          });
+
+          if (targets.fishIds.length === 0 && targets.nodeIds.length === 0) {
+            console.log(chalk.yellow('Nothing to export.'));
+            console.log(
+              chalk.dim(
+                '💡 Tip: Bookmark fish/nodes with "eorzea watch --add-fish/--add-node", or use --uncaught-big-fish / --timed-nodes\n'
+              )
+            );
+            return;
+          }
+
+          const calendar = calendarService.buildCalendar(targets, {
+            count: parseInt(options.count),
+            horizonDays: parseFloat(options.days),
+          });
+
+          if (!options.out) {
+            process.stdout.write(calendar);
+            return;
+          }
+
+          writeFileSync(options.out, calendar, 'utf-8');
+          const eventCount = calendar.split('BEGIN:VEVENT').length - 1;
+          console.log(
+            chalk.green(
+              `✓ Exported ${eventCount} window(s) for ${targets.fishIds.length} fish and ${targets.nodeIds.length} node(s) to ${options.out}`
+            )
+          );
+        } catch (error) {
+          console.error(chalk.red('Error exporting calendar:'), error);
+          process.exit(1);
+        } finally {
+          fishTracker.close();
+          nodeService.close();
+        }
+      })
+  );
@@ -6,6 +6,7 @@ import chalk from 'chalk';
 import Table from 'cli-table3';
 import ora from 'ora';
 import { FishTrackerService } from '../services/fishTracker.js';
+import type { Fish, FishAvailability } from '../types/fish.js';
 import { getPlayerProfileService } from '../services/playerProfile.js';
 import { getEorzeanTime, formatEorzeanTime, formatTimeWindow } from '../utils/eorzeanTime.js';
 
@@ -17,6 +18,8 @@ interface FishCommandOptions {
   available?: boolean;
   aquarium?: boolean;
   limit?: string;
+  windows?: string;
+  intuition?: boolean;
   // Progress tracking
   caught?: boolean;
   note?: string;
@@ -99,6 +102,14 @@ export async function fishCommand(options: FishCommandOptions): Promise<void> {
         console.log(`  ${chalk.dim(key + ':')} ${value}`);
       });
 
+      if (options.windows) {
+        displayUpcomingWindows(service, fish, parseInt(options.windows) || 10);
+      }
+
+      if (options.intuition) {
+        displayIntuitionPlan(service, fish);
+      }
+
       if (character && !isCaught) {
         console.log(chalk.dim(`\n💡 Tip: Use --caught to mark this fish as caught`));
       }
@@ -133,11 +144,14 @@ export async function fishCommand(options: FishCommandOptions): Promise<void> {
     }
 
     // Get fish based on options
-    let fish;
+    let fish: Fish[];
     let title;
+    let weatherBlocked: FishAvailability[] = [];
 
     if (options.available) {
-      fish = service.getAvailableFish();
+      const inTimeWindow = service.getFishInTimeWindow();
+      fish = inTimeWindow.filter((f) => f.available);
+      weatherBlocked = inTimeWindow.filter((f) => !f.available);
       if (searchOptions.limit) {
         fish = fish.slice(0, searchOptions.limit);
       }
@@ -221,6 +235,18 @@ export async function fishCommand(options: FishCommandOptions): Promise<void> {
     console.log(chalk.bold(`\n${title} (${fish.length} results):\n`));
     console.log(table.toString());
 
+    // Fish whose time window is open but whose weather doesn't match
+    if (weatherBlocked.length > 0) {
+      console.log(
+        chalk.yellow(
+          `\n🌦️  ${weatherBlocked.length} more in their time window, blocked by weather:`
+        )
+      );
+      weatherBlocked.slice(0, searchOptions.limit).forEach((f) => {
+        console.log(chalk.dim(`  ${f.name || `Fish #${f._id}`} (${f._id}): ${f.reason}`));
+      });
+    }
+
     // Show summary stats
     const stats = service.getBigFishCount();
     const total = service.getTotalCount();
@@ -239,6 +265,124 @@ export async function fishCommand(options: FishCommandOptions): Promise<void> {
   }
 }
 
+/**
+ * Show the next N catch windows for a fish (time and weather combined)
+ */
+function displayUpcomingWindows(service: FishTrackerService, fish: Fish, count: number): void {
+  const windows = service.getUpcomingWindows(fish, { count });
+
+  console.log(chalk.bold(`\n📅 Upcoming Windows (next ${count}):\n`));
+
+  if (windows.length === 0) {
+    console.log(chalk.yellow('  No windows found in the next 7 days'));
+    return;
+  }
+
+  const weatherName = (weatherId: number | null) =>
+    weatherId === null ? '-' : service.getWeatherName(weatherId) || `Weather ${weatherId}`;
+
+  const table = new Table({
+    head: [
+      chalk.cyan('#'),
+      chalk.cyan('Start (local)'),
+      chalk.cyan('End (local)'),
+      chalk.cyan('Duration'),
+      chalk.cyan('Weather'),
+    ],
+    style: {
+      head: [],
+      border: [],
+    },
+  });
+
+  windows.forEach((window, index) => {
+    table.push([
+      (index + 1).toString(),
+      window.start.toLocaleString(),
+      window.end.toLocaleString(),
+      formatDuration(window.end.getTime() - window.start.getTime()),
+      window.previousWeather !== null && fish.previousWeatherSet.length > 0
+        ? `${weatherName(window.previousWeather)} → ${weatherName(window.weather)}`
+        : weatherName(window.weather),
+    ]);
+  });
+
+  console.log(table.toString());
+}
+
+/**
+ * Show the predator chain and the next times it lines up with the target
+ */
+function displayIntuitionPlan(service: FishTrackerService, fish: Fish): void {
+  const plan = service.getIntuitionPlan(fish);
+
+  console.log(chalk.bold(`\n🧠 Fisher's Intuition Plan:\n`));
+
+  if (plan.steps.length === 1) {
+    console.log(chalk.gray('  This fish does not require any predators'));
+    return;
+  }
+
+  if (plan.intuitionLength) {
+    console.log(
+      chalk.dim(`  Intuition lasts ${plan.intuitionLength}s once the last predator is caught\n`)
+    );
+  }
+
+  plan.steps.forEach((step) => {
+    const name = step.fishName || `Fish #${step.fishId}`;
+    const label = step.isTarget ? chalk.yellow(`${name} (target)`) : `${step.count}× ${name}`;
+    const baits = step.baitNames.length > 0 ? chalk.dim(` — ${step.baitNames.join(' → ')}`) : '';
+    console.log(`  ${step.order}. ${label}${baits}`);
+  });
+
+  console.log();
+
+  if (plan.windows.length === 0) {
+    console.log(chalk.yellow('  Predators and target do not line up in the next 7 days'));
+    return;
+  }
+
+  const table = new Table({
+    head: [
+      chalk.cyan('#'),
+      chalk.cyan('Fish predators from'),
+      chalk.cyan('Last predator between'),
+      chalk.cyan('Target window'),
+    ],
+    style: {
+      head: [],
+      border: [],
+    },
+  });
+
+  plan.windows.forEach((window, index) => {
+    table.push([
+      (index + 1).toString(),
+      window.predatorsFrom.toLocaleString(),
+      `${window.triggerFrom.toLocaleTimeString()} - ${window.triggerUntil.toLocaleTimeString()}`,
+      `${window.targetWindow.start.toLocaleTimeString()} - ${window.targetWindow.end.toLocaleTimeString()}`,
+    ]);
+  });
+
+  console.log(table.toString());
+}
+
+/**
+ * Format a real-time duration as "1h 23m" / "23m 20s"
+ */
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (hours > 0) {
+    return minutes > 0 ? `${hours}h ${minutes}m` : `${hours}h`;
+  }
+  return seconds > 0 ? `${minutes}m ${seconds}s` : `${minutes}m`;
+}
+
 function markFishCaught(
   profileService: any,
   fishService: FishTrackerService,
@@ -0,0 +1,211 @@
+/**
+ * Inventory CLI Commands
+ *
+ * Record the materials a character owns, so crafting guides and plans
+ * only list what still has to be gathered, bought or crafted.
+ */
+
+import chalk from 'chalk';
+import Table from 'cli-table3';
+import { readFileSync } from 'fs';
+import {
+  detectInventoryFormat,
+  matchInventoryRows,
+  normalizeLocation,
+  parseInventory,
+  type InventoryImportResult,
+} from '../parsers/inventoryParser.js';
+import { ItemService } from '../services/itemService.js';
+import { DEFAULT_INVENTORY_LOCATION, getPlayerProfileService } from '../services/playerProfile.js';
+import type { InventoryItem } from '../types/profile.js';
+
+export interface InventoryCommandOptions {
+  add?: string;
+  remove?: string;
+  quantity?: string;
+  hq?: boolean;
+  location?: string;
+  import?: string;
+  replace?: boolean;
+  clear?: boolean;
+}
+
+/**
+ * Show or edit the active character's inventory.
+ *
+ * @example
+ * ```bash
+ * # Add 12 Darksteel Ore to the saddlebag
+ * eorzea inventory --add "Darksteel Ore" -q 12 --location saddlebag
+ *
+ * # Import a CSV of item name, quantity, hq, location (or a JSON array)
+ * eorzea inventory --import retainers.csv --replace
+ * ```
+ */
+export async function inventoryCommand(options: InventoryCommandOptions): Promise<void> {
+  const profileService = getPlayerProfileService();
+  const character = profileService.getActiveCharacter();
+
+  if (!character) {
+    console.log(chalk.red('No active character.'));
+    console.log(chalk.yellow('Use "eorzea character --add" to add a character first.\n'));
+    return;
+  }
+
+  const itemService = new ItemService();
+
+  try {
+    const quantity = options.quantity ? parseInt(options.quantity) : undefined;
+    if (quantity !== undefined && (isNaN(quantity) || quantity < 1)) {
+      console.log(chalk.red('Quantity must be a positive number'));
+      return;
+    }
+
+    const storage = options.location ? normalizeLocation(options.location) : undefined;
+
+    if (options.add) {
+      const item = resolveItem(itemService, options.add);
+      if (!item) return;
+
+      const location = storage || DEFAULT_INVENTORY_LOCATION;
+      profileService.addInventoryItem(character.id, item.id, quantity ?? 1, !!options.hq, location);
+      console.log(
+        chalk.green(
+          `✓ Added ${quantity ?? 1}x ${item.name}${options.hq ? ' (HQ)' : ''} to ${location}`
+        )
+      );
+      return;
+    }
+
+    if (options.remove) {
+      const item = resolveItem(itemService, options.remove);
+      if (!item) return;
+
+      const removed = profileService.removeInventoryItem(character.id, item.id, {
+        quantity,
+        isHq: options.hq ? true : undefined,
+        location: storage,
+      });
+      console.log(
+        removed > 0
+          ? chalk.green(`✓ Removed ${removed}x ${item.name}`)
+          : chalk.yellow(`No ${item.name} in inventory`)
+      );
+      return;
+    }
+
+    if (options.import) {
+      const result = readImportFile(itemService, options.import, storage);
+      if (!result) return;
+
+      const count = profileService.importInventory(character.id, result.entries, !!options.replace);
+      displayImportResult(result, count, options.import);
+      return;
+    }
+
+    if (options.clear) {
+      profileService.clearInventory(character.id, storage);
+      console.log(
+        chalk.green(`✓ Cleared inventory${storage ? ` in ${storage}` : ''} for ${character.name}`)
+      );
+      return;
+    }
+
+    displayInventory(profileService.getInventory(character.id, storage), character.name);
+  } catch (error) {
+    console.error(chalk.red('Error updating inventory:'));
+    if (error instanceof Error) {
+      console.error(chalk.red(`  ${error.message}`));
+    }
+    process.exit(1);
+  } finally {
+    itemService.close();
+  }
+}
+
+/**
+ * Resolve an item by ID or exact name
+ */
+function resolveItem(itemService: ItemService, query: string): { id: number; name: string } | null {
+  const item = /^\d+$/.test(query)
+    ? itemService.getItemById(parseInt(query))
+    : itemService.getItemByName(query);
+
+  if (!item) {
+    console.log(chalk.yellow(`Item "${query}" not found`));
+    console.log(chalk.dim('💡 Tip: Use "eorzea item <name>" to look up the exact name or ID\n'));
+    return null;
+  }
+
+  return { id: item.id, name: item.name };
+}
+
+/**
+ * Read a CSV or JSON inventory export and resolve its item names
+ */
+function readImportFile(
+  itemService: ItemService,
+  file: string,
+  defaultLocation?: string
+): InventoryImportResult | null {
+  try {
+    const text = readFileSync(file, 'utf-8');
+    const parsed = parseInventory(text, detectInventoryFormat(file, text));
+    return matchInventoryRows(parsed, itemService, defaultLocation);
+  } catch (error) {
+    console.log(chalk.red(`Could not read ${file}: ${String(error)}`));
+    return null;
+  }
+}
+
+function displayImportResult(result: InventoryImportResult, count: number, file: string): void {
+  console.log(chalk.green(`✓ Imported ${count} inventory entries from ${file}`));
+
+  if (result.fuzzyMatches.length > 0) {
+    console.log(chalk.yellow(`\n⚠️  ${result.fuzzyMatches.length} names matched approximately:`));
+    result.fuzzyMatches.forEach((match) => {
+      console.log(
+        `  ${chalk.dim(`row ${match.row}:`)} ${match.name} ${chalk.yellow('→')} ${match.matchedName}`
+      );
+    });
+  }
+
+  if (result.unmatched.length > 0) {
+    console.log(chalk.red(`\n✗ ${result.unmatched.length} rows were skipped:`));
+    result.unmatched.forEach((issue) => {
+      console.log(
+        `  ${chalk.dim(`row ${issue.row}:`)} ${issue.name || chalk.dim('(empty)')} ${chalk.red(`- ${issue.reason}`)}`
+      );
+    });
+    console.log(chalk.dim('\n💡 Tip: Fix the names (see "eorzea item <name>") and import again\n'));
+  }
+}
+
+function displayInventory(items: InventoryItem[], characterName: string): void {
+  if (items.length === 0) {
+    console.log(chalk.yellow('Inventory is empty.'));
+    console.log(chalk.dim('💡 Tip: Use --add <item> -q <quantity> or --import <file>\n'));
+    return;
+  }
+
+  const table = new Table({
+    head: [chalk.cyan('Location'), chalk.cyan('Item'), chalk.cyan('Qty'), chalk.cyan('HQ')],
+    style: {
+      head: [],
+      border: [],
+    },
+  });
+
+  items.forEach((item) => {
+    table.push([
+      item.location,
+      `${item.itemName || 'Unknown'} ${chalk.dim(`(#${item.itemId})`)}`,
+      item.quantity.toString(),
+      item.isHq ? chalk.green('✓') : chalk.gray('✗'),
+    ]);
+  });
+
+  console.log(chalk.bold(`\n🎒 Inventory for ${characterName} (${items.length} stacks):\n`));
+  console.log(table.toString());
+  console.log(chalk.dim('\n💡 Crafting guides and plans subtract these quantities\n'));
+}
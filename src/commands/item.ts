@@ -218,6 +218,21 @@ async function showItemGuide(service: ItemService, itemId: number): Promise<void
     console.log(chalk.bold('\n📍 How to Obtain:'));
     guide.sources_detailed.forEach((source) => {
       console.log(`  ${chalk.yellow('→')} ${chalk.bold(source.type)}: ${source.description}`);
+
+      const details = [
+        source.details?.cost
+          ? `${source.details.cost.toLocaleString()} ${source.details.currency || ''}`.trim()
+          : null,
+        source.details?.location
+          ? source.details.coordinates
+            ? `${source.details.location} (${source.details.coordinates.x}, ${source.details.coordinates.y})`
+            : source.details.location
+          : null,
+        source.details?.drop_rate ? `${source.details.drop_rate}% chance` : null,
+      ].filter(Boolean);
+      if (details.length > 0) {
+        console.log(chalk.dim(`      ${details.join(' · ')}`));
+      }
     });
   }
 
@@ -0,0 +1,119 @@
+/**
+ * Profile Command
+ *
+ * Export a character's progress as a JSON bundle and import it elsewhere
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { readFileSync, writeFileSync } from 'fs';
+import { PROFILE_MERGE_STRATEGIES, ProfileBundleService } from '../services/profileBundle.js';
+import { getPlayerProfileService } from '../services/playerProfile.js';
+import type { ProfileMergeStrategy } from '../types/profile.js';
+
+export const profileCommand = new Command('profile')
+  .description('Back up and move character progress between machines')
+  .addCommand(
+    new Command('export')
+      .description('Export a character and all its progress as a JSON bundle')
+      .option('--character <idOrName>', 'Character ID or name (default: active character)')
+      .option('-o, --out <file>', 'Output file (default: stdout)')
+      .action((options) => {
+        const profileService = getPlayerProfileService();
+        const character = options.character
+          ? profileService
+              .listCharacters()
+              .find(
+                (c) =>
+                  c.id === options.character ||
+                  c.name.toLowerCase() === options.character.toLowerCase()
+              )
+          : profileService.getActiveCharacter();
+
+        if (!character) {
+          console.log(
+            chalk.red(
+              options.character
+                ? `Character "${options.character}" not found.`
+                : 'No active character.'
+            )
+          );
+          console.log(chalk.yellow('Use "eorzea character --list" to see your characters.\n'));
+          return;
+        }
+
+        const bundleService = new ProfileBundleService();
+
+        try {
+          const bundle = bundleService.exportProfile([character.id]);
+          const json = JSON.stringify(bundle, null, 2);
+
+          if (!options.out) {
+            process.stdout.write(json + '\n');
+            return;
+          }
+
+          writeFileSync(options.out, json, 'utf-8');
+          const rowCount = Object.values(bundle.tables).reduce((sum, rows) => sum + rows.length, 0);
+          console.log(
+            chalk.green(
+              `✓ Exported ${character.name} (${rowCount} progress rows) to ${options.out}`
+            )
+          );
+        } catch (error) {
+          console.error(chalk.red('Error exporting profile:'), error);
+          process.exit(1);
+        } finally {
+          bundleService.close();
+        }
+      })
+  )
+  .addCommand(
+    new Command('import')
+      .description('Import a profile bundle, merging it with existing progress')
+      .argument('<file>', 'Bundle written by "eorzea profile export"')
+      .option(
+        '--strategy <strategy>',
+        'What to do with rows you already have: skip, overwrite or newest',
+        'skip'
+      )
+      .action((file: string, options) => {
+        const strategy = options.strategy as ProfileMergeStrategy;
+        if (!PROFILE_MERGE_STRATEGIES.includes(strategy)) {
+          console.log(chalk.red(`Unknown strategy "${options.strategy}".`));
+          console.log(chalk.yellow(`Use one of: ${PROFILE_MERGE_STRATEGIES.join(', ')}\n`));
+          return;
+        }
+
+        let bundle;
+        try {
+          bundle = JSON.parse(readFileSync(file, 'utf-8'));
+        } catch (error) {
+          console.error(chalk.red(`Could not read ${file}:`), error);
+          process.exit(1);
+        }
+
+        const bundleService = new ProfileBundleService();
+
+        try {
+          const result = bundleService.importProfile(bundle, strategy);
+
+          console.log(
+            chalk.green(`✓ Imported ${result.characterIds.length} character(s) from ${file}\n`)
+          );
+          for (const [table, counts] of Object.entries(result.tables)) {
+            if (counts.added + counts.updated + counts.skipped === 0) continue;
+            console.log(
+              `  ${table.padEnd(22)} ${chalk.green(`+${counts.added}`)} added, ` +
+                `${chalk.cyan(String(counts.updated))} updated, ${chalk.dim(`${counts.skipped} skipped`)}`
+            );
+          }
+          console.log();
+        } catch (error) {
+          console.error(chalk.red('Error importing profile:'), (error as Error).message);
+          process.exit(1);
+        } finally {
+          bundleService.close();
+        }
+      })
+  );
@@ -1,6 +1,7 @@
 import chalk from 'chalk';
 import Table from 'cli-table3';
 import { QuestTrackerService } from '../services/questTracker.js';
+import { QuestGraphService } from '../services/questGraph.js';
 import { getPlayerProfileService } from '../services/playerProfile.js';
 
 export interface QuestCommandOptions {
@@ -14,6 +15,9 @@ export interface QuestCommandOptions {
   note?: string;
   showCompleted?: boolean;
   showIncomplete?: boolean;
+  // Prerequisite graph
+  pathTo?: string;
+  unlocked?: boolean;
 }
 
 export async function questCommand(options: QuestCommandOptions): Promise<void> {
@@ -21,6 +25,18 @@ export async function questCommand(options: QuestCommandOptions): Promise<void>
   const profileService = getPlayerProfileService();
 
   try {
+    // Prerequisite chain for a quest
+    if (options.pathTo) {
+      showPathTo(profileService, parseInt(options.pathTo, 10));
+      return;
+    }
+
+    // Quests unlocked by the active character's completed quests
+    if (options.unlocked) {
+      showUnlockedQuests(questTracker, profileService);
+      return;
+    }
+
     // Get quest by ID
     if (options.id) {
       const questId = parseInt(options.id, 10);
@@ -62,11 +78,106 @@ export async function questCommand(options: QuestCommandOptions): Promise<void>
     console.log(chalk.cyan('  --id <id> --incomplete') + 'Mark quest as incomplete');
     console.log(chalk.cyan('  --show-completed') + '      Filter completed quests');
     console.log(chalk.cyan('  --show-incomplete') + '     Filter incomplete quests');
+    console.log(chalk.cyan('  --path-to <id>') + '        Show every prerequisite of a quest');
+    console.log(chalk.cyan('  --unlocked') + '            List quests you can pick up next');
   } finally {
     questTracker.close();
   }
 }
 
+function showPathTo(profileService: any, questId: number): void {
+  const graph = new QuestGraphService();
+
+  try {
+    const character = profileService.getActiveCharacter();
+    const completedIds = character
+      ? profileService.getCompletedQuests(character.id).map((q: any) => q.questId)
+      : [];
+    const path = graph.getPathTo(questId, completedIds);
+
+    if (!path) {
+      console.log(chalk.red(`Quest ${questId} not found.\n`));
+      return;
+    }
+
+    console.log(chalk.cyan(`\n🗺️  Path to "${path.quest.name}" (Lv. ${path.quest.level})\n`));
+
+    if (path.prerequisites.length === 0) {
+      console.log(chalk.green('No prerequisites - this quest can be picked up directly.\n'));
+      return;
+    }
+
+    const table = new Table({
+      head: ['', '#', 'ID', 'Name', 'Level'].map((h) => chalk.cyan(h)),
+      style: {
+        head: [],
+        border: [],
+      },
+    });
+
+    path.prerequisites.forEach((step, index) => {
+      table.push([
+        step.completed ? chalk.green('✓') : chalk.gray('○'),
+        index + 1,
+        step.id,
+        step.completed ? chalk.dim(step.name) : step.name,
+        step.level,
+      ]);
+    });
+
+    console.log(table.toString());
+
+    if (character) {
+      console.log(
+        path.remaining === 0
+          ? chalk.green(`\n✓ All ${path.prerequisites.length} prerequisites done\n`)
+          : chalk.yellow(
+              `\n${path.remaining} of ${path.prerequisites.length} prerequisites left for ${character.name}\n`
+            )
+      );
+    } else {
+      console.log(chalk.dim(`\n${path.prerequisites.length} prerequisites\n`));
+    }
+  } finally {
+    graph.close();
+  }
+}
+
+function showUnlockedQuests(questTracker: QuestTrackerService, profileService: any): void {
+  const character = profileService.getActiveCharacter();
+
+  if (!character) {
+    console.log(chalk.red('No active character.'));
+    console.log(chalk.yellow('Use "eorzea character --add" to add a character first.\n'));
+    return;
+  }
+
+  const graph = new QuestGraphService();
+
+  try {
+    const completedIds = profileService.getCompletedQuests(character.id).map((q: any) => q.questId);
+    const unlocked = graph.getUnlockedQuests(completedIds);
+
+    if (unlocked.length === 0) {
+      console.log(chalk.yellow('No newly unlocked quests.'));
+      console.log(
+        chalk.dim('💡 Tip: Mark quests complete with --id <id> --complete or run a sync\n')
+      );
+      return;
+    }
+
+    console.log(
+      chalk.cyan(`\n🔓 ${unlocked.length} quest(s) unlocked by ${character.name}'s progress\n`)
+    );
+    displayQuestTable(unlocked.map((node) => questTracker.getQuestById(node.id)));
+    console.log(
+      chalk.cyan('\nTip: Use --id <ID> to view detailed information for a specific quest')
+    );
+  } finally {
+    graph.close();
+  }
+}
+
 async function markQuestComplete(
   profileService: any,
   questTracker: QuestTrackerService,
@@ -5,9 +5,13 @@
  */
 
 import chalk from 'chalk';
-import { getPlayerProfileService } from '../services/playerProfile.js';
+import { getPlayerProfileService, type PlayerProfileService } from '../services/playerProfile.js';
 import { getAchievementTrackerService } from '../services/achievementTracker.js';
-import { getIntelligentSyncService } from '../services/intelligentSync.js';
+import {
+  getIntelligentSyncService,
+  INFERENCE_TYPES,
+  type InferenceResult,
+} from '../services/intelligentSync.js';
 import {
   parseAchievementsFromFile,
   getMSQAchievementCount,
@@ -17,8 +21,11 @@ import { resolve } from 'path';
 
 export interface SyncCommandOptions {
   achievements?: string; // Comma-separated achievement IDs
-  fromFile?: string; // Path to Lodestone achievement text file
+  fromFile?: string; // Lodestone achievement text or saved HTML page
   dryRun?: boolean;
+  history?: boolean;
+  show?: string; // Sync run ID
+  revert?: string; // Sync run ID
 }
 
 export async function syncCommand(options: SyncCommandOptions): Promise<void> {
@@ -33,6 +40,22 @@ export async function syncCommand(options: SyncCommandOptions): Promise<void> {
     return;
   }
 
+  // Handle sync run history
+  if (options.history) {
+    showSyncHistory(activeChar.id, profileService);
+    return;
+  }
+
+  if (options.show) {
+    showSyncRun(parseInt(options.show), activeChar.id, profileService);
+    return;
+  }
+
+  if (options.revert) {
+    revertSyncRun(parseInt(options.revert), activeChar.id, profileService);
+    return;
+  }
+
   // Handle file-based sync
   if (options.fromFile) {
     await syncFromFile(options.fromFile, activeChar.id, profileService, options.dryRun);
@@ -73,41 +96,26 @@ export async function syncCommand(options: SyncCommandOptions): Promise<void> {
 
     // Just analyze without saving
     const intelligentSync = getIntelligentSyncService();
-    const result = intelligentSync.analyzeAchievements(achievementIds);
+    const completedQuestIds = profileService
+      .getCompletedQuests(activeChar.id)
+      .map((quest) => quest.questId);
+    const result = intelligentSync.analyzeAchievements(achievementIds, completedQuestIds);
 
     console.log(chalk.bold('Analysis Results:'));
     console.log(`  ${chalk.green('Achievements:')} ${result.achievements.length}`);
-    console.log(`  ${chalk.green('Quests to infer:')} ${result.inferredQuests.length}`);
-    console.log(`  ${chalk.green('High confidence (≥90%):')} ${result.summary.highConfidence}`);
-    console.log(
-      `  ${chalk.yellow('Medium confidence (70-89%):')} ${result.summary.mediumConfidence}`
-    );
-    console.log(`  ${chalk.red('Low confidence (<70%):')} ${result.summary.lowConfidence}`);
-    console.log();
-
-    if (result.inferredQuests.length > 0) {
-      console.log(chalk.bold('Sample inferred quests (first 10):'));
-      for (const quest of result.inferredQuests.slice(0, 10)) {
-        console.log(
-          `  ${chalk.cyan(`#${quest.questId}`)} ${quest.questName} ${chalk.gray(
-            `(${quest.confidence}%)`
-          )}`
-        );
-        console.log(`    ${chalk.dim(quest.reason)}`);
-      }
-      if (result.inferredQuests.length > 10) {
-        console.log(chalk.gray(`  ... and ${result.inferredQuests.length - 10} more`));
-      }
-    }
+    printInferencePreview(result);
   } else {
     // Perform actual sync
     const result = await profileService.performIntelligentSync(activeChar.id, achievementIds);
 
-    console.log(chalk.green('✓ Sync completed!\n'));
+    console.log(chalk.green(`✓ Sync completed! (run #${result.runId})\n`));
     console.log(chalk.bold('Results:'));
     console.log(`  ${chalk.green('Achievements processed:')} ${result.achievementsProcessed}`);
     console.log(`  ${chalk.green('Quests inferred:')} ${result.questsInferred}`);
     console.log(`  ${chalk.cyan('Fish inferred:')} ${result.fishInferred}`);
+    console.log(`  ${chalk.cyan('Collectibles inferred:')} ${result.collectiblesInferred}`);
+    console.log(`  ${chalk.cyan('Titles inferred:')} ${result.titlesInferred}`);
+    console.log(`  ${chalk.cyan('Reward items:')} ${result.itemsInferred}`);
     console.log(`  ${chalk.green('High confidence (≥90%):')} ${result.highConfidence}`);
     console.log(`  ${chalk.yellow('Medium confidence (70-89%):')} ${result.mediumConfidence}`);
     console.log(`  ${chalk.red('Low confidence (<70%):')} ${result.lowConfidence}`);
@@ -120,13 +128,14 @@ export async function syncCommand(options: SyncCommandOptions): Promise<void> {
         `Progress: ${stats.completedQuests.toLocaleString()} / ${stats.totalQuests.toLocaleString()} quests (${stats.questCompletionPercentage.toFixed(1)}%)`
       )
     );
+    console.log(chalk.gray(`Undo with: eorzea sync --revert ${result.runId}`));
   }
 
   console.log();
 }
 
 /**
- * Sync achievements from Lodestone text file
+ * Sync achievements from copied Lodestone text or a saved achievement page
  */
 async function syncFromFile(
   filePath: string,
@@ -180,15 +189,38 @@ async function syncFromFile(
       }
     }
 
+    // Show fuzzy matches so they can be double-checked
+    if (result.fuzzyMatches.length > 0) {
+      console.log(chalk.bold('\nMatched by similar name (please check):'));
+      for (const match of result.fuzzyMatches.slice(0, 10)) {
+        console.log(
+          `  ${chalk.yellow('~')} ${match.name} ${chalk.gray(`→ ${match.matchedName} (#${match.achievementId})`)}`
+        );
+      }
+      if (result.fuzzyMatches.length > 10) {
+        console.log(chalk.gray(`  ... and ${result.fuzzyMatches.length - 10} more`));
+      }
+    }
+
     // Show unmatched if any
     if (result.unmatchedNames.length > 0) {
       console.log(chalk.bold('\nNot found in database (will be skipped):'));
       for (const name of result.unmatchedNames.slice(0, 5)) {
-        console.log(`  ${chalk.red('✗')} ${name}`);
+        const nearMiss = result.nearMisses.find((miss) => miss.name === name);
+        console.log(
+          `  ${chalk.red('✗')} ${name}${nearMiss ? chalk.gray(` (closest: ${nearMiss.closestName})`) : ''}`
+        );
       }
       if (result.unmatchedNames.length > 5) {
         console.log(chalk.gray(`  ... and ${result.unmatchedNames.length - 5} more`));
       }
+      if (result.nearMisses.length > 0) {
+        console.log(
+          chalk.gray(
+            `  ${result.nearMisses.length} unmatched names are close to an achievement, fix them in the file to include them`
+          )
+        );
+      }
     }
 
     console.log();
@@ -203,18 +235,15 @@ async function syncFromFile(
       return;
     }
 
-    // Use intelligent sync to estimate quest inferences
+    // Use intelligent sync to estimate the inferences
     const intelligentSync = getIntelligentSyncService();
-    const inferenceResult = intelligentSync.analyzeAchievements(achievementIds);
+    const completedQuestIds = profileService
+      .getCompletedQuests(characterId)
+      .map((quest: any) => quest.questId);
+    const inferenceResult = intelligentSync.analyzeAchievements(achievementIds, completedQuestIds);
 
     console.log(chalk.bold('Estimated impact:'));
-    console.log(`  ${chalk.cyan('Quests to infer:')} ${inferenceResult.inferredQuests.length}`);
-    console.log(`  ${chalk.green('High confidence:')} ${inferenceResult.summary.highConfidence}`);
-    console.log(
-      `  ${chalk.yellow('Medium confidence:')} ${inferenceResult.summary.mediumConfidence}`
-    );
-    console.log(`  ${chalk.red('Low confidence:')} ${inferenceResult.summary.lowConfidence}`);
-    console.log();
+    printInferencePreview(inferenceResult, dryRun ? 5 : 0);
 
     if (dryRun) {
       console.log(chalk.yellow('🔍 DRY RUN MODE - No changes saved\n'));
@@ -225,11 +254,14 @@ async function syncFromFile(
     console.log(chalk.bold('Syncing achievements...\n'));
     const syncResult = await profileService.performIntelligentSync(characterId, achievementIds);
 
-    console.log(chalk.green('✓ Sync completed!\n'));
+    console.log(chalk.green(`✓ Sync completed! (run #${syncResult.runId})\n`));
     console.log(chalk.bold('Results:'));
     console.log(`  ${chalk.green('Achievements synced:')} ${syncResult.achievementsProcessed}`);
     console.log(`  ${chalk.green('Quests inferred:')} ${syncResult.questsInferred}`);
     console.log(`  ${chalk.cyan('Fish inferred:')} ${syncResult.fishInferred}`);
+    console.log(`  ${chalk.cyan('Collectibles inferred:')} ${syncResult.collectiblesInferred}`);
+    console.log(`  ${chalk.cyan('Titles inferred:')} ${syncResult.titlesInferred}`);
+    console.log(`  ${chalk.cyan('Reward items:')} ${syncResult.itemsInferred}`);
     console.log(`  ${chalk.green('High confidence:')} ${syncResult.highConfidence}`);
     console.log(`  ${chalk.yellow('Medium confidence:')} ${syncResult.mediumConfidence}`);
     console.log(`  ${chalk.red('Low confidence:')} ${syncResult.lowConfidence}`);
@@ -242,9 +274,152 @@ async function syncFromFile(
         `Progress: ${stats.completedQuests.toLocaleString()} / ${stats.totalQuests.toLocaleString()} quests (${stats.questCompletionPercentage.toFixed(1)}%)`
       )
     );
+    console.log(chalk.gray(`Undo with: eorzea sync --revert ${syncResult.runId}`));
     console.log();
   } catch (error: any) {
     console.log(chalk.red(`Error parsing file: ${error.message}`));
     console.log(chalk.gray('Make sure the file contains valid Lodestone achievement data.'));
   }
 }
+
+const TYPE_LABELS: Record<string, string> = {
+  quest: 'Quests',
+  achievement: 'Achievements',
+  fish: 'Fish',
+  mount: 'Mounts',
+  companion: 'Minions',
+  orchestrion: 'Orchestrion rolls',
+  title: 'Titles',
+  item: 'Reward items',
+};
+
+/**
+ * Print inference counts per type, with a sample of each type showing its
+ * confidence and where it was inferred from
+ */
+function printInferencePreview(result: InferenceResult, sampleSize: number = 5): void {
+  for (const type of INFERENCE_TYPES) {
+    console.log(`  ${chalk.cyan(`${TYPE_LABELS[type]}:`)} ${result.summary.byType[type]}`);
+  }
+  console.log(`  ${chalk.green('Quests ≥90% confidence:')} ${result.summary.highConfidence}`);
+  console.log(`  ${chalk.yellow('Quests 70-89% confidence:')} ${result.summary.mediumConfidence}`);
+  console.log(`  ${chalk.red('Quests <70% confidence:')} ${result.summary.lowConfidence}`);
+  console.log();
+
+  if (sampleSize === 0) return;
+
+  for (const type of INFERENCE_TYPES) {
+    const inferences = result.inferences.filter((inference) => inference.type === type);
+    if (inferences.length === 0) continue;
+
+    console.log(chalk.bold(`Sample ${TYPE_LABELS[type].toLowerCase()} (first ${sampleSize}):`));
+    for (const inference of inferences.slice(0, sampleSize)) {
+      console.log(
+        `  ${chalk.cyan(`#${inference.targetId}`)} ${inference.targetName} ${chalk.gray(
+          `(${inference.confidence}%)`
+        )}`
+      );
+      console.log(`    ${chalk.dim(`${inference.reason} [${inference.rule}]`)}`);
+    }
+    if (inferences.length > sampleSize) {
+      console.log(chalk.gray(`  ... and ${inferences.length - sampleSize} more`));
+    }
+    console.log();
+  }
+}
+
+/**
+ * List the sync runs of a character
+ */
+function showSyncHistory(characterId: string, profileService: PlayerProfileService): void {
+  const runs = profileService.getSyncRuns(characterId);
+
+  console.log(chalk.bold.cyan('\n🕘 Sync History\n'));
+
+  if (runs.length === 0) {
+    console.log(chalk.gray('No sync runs yet.\n'));
+    return;
+  }
+
+  for (const run of runs) {
+    const counts = Object.entries(run.changeCounts)
+      .map(([type, count]) => `${count} ${TYPE_LABELS[type].toLowerCase()}`)
+      .join(', ');
+    console.log(
+      `  ${chalk.cyan(`#${run.id}`)} ${run.startedAt.toLocaleString()} ${chalk.gray(
+        `(${run.achievementIds.length} achievements)`
+      )}${run.revertedAt ? chalk.yellow(' reverted') : ''}`
+    );
+    console.log(`    ${chalk.dim(counts || 'No changes')}`);
+  }
+
+  console.log(chalk.gray('\nUse --show <runId> for details or --revert <runId> to undo a run.\n'));
+}
+
+/**
+ * Show everything a sync run added
+ */
+function showSyncRun(
+  runId: number,
+  characterId: string,
+  profileService: PlayerProfileService
+): void {
+  const run = profileService.getSyncRun(runId);
+  if (!run || run.characterId !== characterId) {
+    console.log(chalk.red(`Sync run #${runId} not found for the active character`));
+    return;
+  }
+
+  console.log(chalk.bold.cyan(`\n🔄 Sync Run #${run.id}\n`));
+  console.log(`  ${chalk.green('Started:')} ${run.startedAt.toLocaleString()}`);
+  console.log(`  ${chalk.green('Achievements:')} ${run.achievementIds.join(', ')}`);
+  if (run.revertedAt) {
+    console.log(`  ${chalk.yellow('Reverted:')} ${run.revertedAt.toLocaleString()}`);
+  }
+  console.log();
+
+  if (run.changes.length === 0) {
+    console.log(chalk.gray('This run added nothing.\n'));
+    return;
+  }
+
+  for (const [type, label] of Object.entries(TYPE_LABELS)) {
+    const changes = run.changes.filter((change) => change.type === type);
+    if (changes.length === 0) continue;
+
+    console.log(chalk.bold(`${label} (${changes.length}):`));
+    for (const change of changes) {
+      const confidence = change.confidence ? chalk.gray(` (${change.confidence}%)`) : '';
+      console.log(`  ${chalk.cyan(`#${change.targetId}`)} ${change.targetName ?? ''}${confidence}`);
+    }
+    console.log();
+  }
+}
+
+/**
+ * Remove what a sync run added
+ */
+function revertSyncRun(
+  runId: number,
+  characterId: string,
+  profileService: PlayerProfileService
+): void {
+  const run = profileService.getSyncRun(runId);
+  if (!run || run.characterId !== characterId) {
+    console.log(chalk.red(`Sync run #${runId} not found for the active character`));
+    return;
+  }
+
+  try {
+    const result = profileService.revertSyncRun(runId);
+
+    console.log(chalk.green(`\n✓ Reverted sync run #${runId}\n`));
+    console.log(`  ${chalk.green('Removed:')} ${result.removed}`);
+    if (result.kept > 0) {
+      console.log(`  ${chalk.yellow('Kept (changed since the sync):')} ${result.kept}`);
+    }
+    console.log();
+  } catch (error: any) {
+    console.log(chalk.red(`Error: ${error.message}`));
+  }
+}
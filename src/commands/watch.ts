@@ -0,0 +1,299 @@
+/**
+ * Watch CLI Commands
+ *
+ * Long-running alarm mode for fish and timed gathering node windows.
+ * The watch list is stored as bookmarks on the active character.
+ */
+
+import chalk from 'chalk';
+import Table from 'cli-table3';
+import { FishTrackerService } from '../services/fishTracker.js';
+import { GatheringNodeService } from '../services/gatheringNodeService.js';
+import { getPlayerProfileService, type PlayerProfileService } from '../services/playerProfile.js';
+import { WatchService, type WatchTarget } from '../services/watchService.js';
+import type { AlertSink, WatchAlert, WatchConfig, WatchWindow } from '../types/watch.js';
+import { createAlertSinks } from '../utils/alertSinks.js';
+import { getConfig } from '../utils/config.js';
+
+export interface WatchCommandOptions {
+  addFish?: string;
+  addNode?: string;
+  removeFish?: string;
+  removeNode?: string;
+  list?: boolean;
+  lead?: string;
+  interval?: string;
+  bell?: boolean;
+  notifyCommand?: string;
+  webhook?: string;
+  save?: boolean;
+  once?: boolean;
+}
+
+/**
+ * Manage the watch list, or watch it and raise alerts before windows open.
+ *
+ * @example
+ * ```bash
+ * # Add a big fish and a timed node to the watch list
+ * eorzea watch --add-fish 4898 --add-node 123
+ *
+ * # Alert 10 minutes ahead via terminal bell and a webhook
+ * eorzea watch --lead 10 --webhook http://localhost:8080/alerts
+ * ```
+ */
+export async function watchCommand(options: WatchCommandOptions): Promise<void> {
+  const profileService = getPlayerProfileService();
+  const character = profileService.getActiveCharacter();
+
+  if (!character) {
+    console.log(chalk.red('No active character.'));
+    console.log(chalk.yellow('Use "eorzea character --add" to add a character first.\n'));
+    return;
+  }
+
+  const fishTracker = new FishTrackerService();
+  const nodeService = new GatheringNodeService();
+  const closeServices = () => {
+    fishTracker.close();
+    nodeService.close();
+  };
+
+  try {
+    // Watch list management
+    if (options.addFish || options.addNode || options.removeFish || options.removeNode) {
+      for (const id of parseIds(options.addFish)) {
+        const fish = fishTracker.getFishById(id);
+        if (!fish) {
+          console.log(chalk.yellow(`Fish ${id} not found`));
+          continue;
+        }
+        profileService.addBookmark(character.id, 'fish', id);
+        console.log(chalk.green(`✓ Watching fish #${id}${fish.name ? ` (${fish.name})` : ''}`));
+      }
+
+      for (const id of parseIds(options.addNode)) {
+        const node = nodeService.getNodeById(id);
+        if (!node) {
+          console.log(chalk.yellow(`Gathering node ${id} not found`));
+          continue;
+        }
+        if (node.start_hour >= 24) {
+          console.log(chalk.yellow(`Gathering node ${id} is always available; nothing to watch`));
+          continue;
+        }
+        profileService.addBookmark(character.id, 'gathering_node', id);
+        console.log(
+          chalk.green(`✓ Watching gathering node #${id}${node.name ? ` (${node.name})` : ''}`)
+        );
+      }
+
+      removeBookmarks(profileService, character.id, 'fish', parseIds(options.removeFish));
+      removeBookmarks(profileService, character.id, 'gathering_node', parseIds(options.removeNode));
+
+      console.log('');
+      closeServices();
+      return;
+    }
+
+    const getTargets = (): WatchTarget[] =>
+      [
+        ...profileService.getBookmarks(character.id, 'fish'),
+        ...profileService.getBookmarks(character.id, 'gathering_node'),
+      ].map((bookmark) => ({ type: bookmark.type as WatchTarget['type'], id: bookmark.itemId }));
+
+    const watchService = new WatchService(fishTracker, nodeService);
+
+    if (getTargets().length === 0) {
+      console.log(chalk.yellow('Your watch list is empty.'));
+      console.log(chalk.dim('💡 Tip: Use --add-fish <ids> or --add-node <ids> to watch windows\n'));
+      closeServices();
+      return;
+    }
+
+    if (options.list) {
+      displayWindows(watchService.getWindows(getTargets()));
+      closeServices();
+      return;
+    }
+
+    const config = buildWatchConfig(options);
+    const sinks = createAlertSinks(config);
+
+    if (options.save) {
+      const configManager = getConfig();
+      configManager.set({ watch: config });
+      configManager.save();
+      console.log(chalk.green(`✓ Saved watch settings to ${configManager.getConfigPath()}`));
+    }
+
+    if (sinks.length === 0) {
+      console.log(chalk.yellow('No alert sinks enabled; alerts will only be printed.'));
+    }
+
+    const tick = async () => {
+      const now = new Date();
+      const windows = watchService.getWindows(getTargets(), now);
+      const alerts = watchService.collectDueAlerts(windows, now, config.leadMinutes);
+
+      for (const alert of alerts) {
+        if (sinks.length === 0) {
+          console.log(`${alert.title} - ${alert.message}`);
+        }
+        await sendToSinks(sinks, alert);
+      }
+    };
+
+    console.log(
+      chalk.cyan.bold(`\n⏰ Watching ${getTargets().length} target(s) for ${character.name}`)
+    );
+    console.log(
+      chalk.dim(
+        `Alerts ${config.leadMinutes} min ahead via ${sinks.map((s) => s.name).join(', ') || 'console'}`
+      )
+    );
+    displayWindows(watchService.getWindows(getTargets()));
+
+    await tick();
+
+    if (options.once) {
+      closeServices();
+      return;
+    }
+
+    console.log(chalk.dim(`\nChecking every ${config.pollSeconds}s. Press Ctrl+C to stop.\n`));
+
+    const timer = setInterval(() => {
+      tick().catch((error) => {
+        console.error(chalk.red(`Watch check failed: ${String(error)}`));
+      });
+    }, config.pollSeconds * 1000);
+
+    process.on('SIGINT', () => {
+      clearInterval(timer);
+      closeServices();
+      console.log(chalk.dim('\nStopped watching.'));
+      process.exit(0);
+    });
+  } catch (error) {
+    closeServices();
+    console.error(chalk.red('Error running watch:'));
+    if (error instanceof Error) {
+      console.error(chalk.red(`  ${error.message}`));
+    }
+    process.exit(1);
+  }
+}
+
+/**
+ * Merge command-line overrides into the saved watch settings
+ */
+function buildWatchConfig(options: WatchCommandOptions): WatchConfig {
+  const config = { ...getConfig().get().watch };
+
+  if (options.lead) {
+    const leadMinutes = Number(options.lead);
+    if (!Number.isFinite(leadMinutes) || leadMinutes < 0) {
+      throw new Error(`--lead must be a number of minutes (got "${options.lead}")`);
+    }
+    config.leadMinutes = leadMinutes;
+  }
+  if (options.interval) {
+    const pollSeconds = Number(options.interval);
+    if (!Number.isFinite(pollSeconds) || pollSeconds <= 0) {
+      throw new Error(`--interval must be a number of seconds (got "${options.interval}")`);
+    }
+    config.pollSeconds = Math.max(1, Math.round(pollSeconds));
+  }
+  if (options.bell === false) {
+    config.bell = false;
+  }
+  if (options.notifyCommand) {
+    config.notifyCommand = options.notifyCommand;
+  }
+  if (options.webhook) {
+    config.webhookUrl = options.webhook;
+  }
+
+  return config;
+}
+
+async function sendToSinks(sinks: AlertSink[], alert: WatchAlert): Promise<void> {
+  const results = await Promise.allSettled(sinks.map((sink) => sink.send(alert)));
+
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') {
+      console.error(
+        chalk.red(`Alert sink "${sinks[index].name}" failed: ${String(result.reason)}`)
+      );
+    }
+  });
+}
+
+function removeBookmarks(
+  profileService: PlayerProfileService,
+  characterId: string,
+  type: WatchTarget['type'],
+  ids: number[]
+): void {
+  if (ids.length === 0) return;
+
+  const bookmarks = profileService.getBookmarks(characterId, type);
+  for (const id of ids) {
+    const bookmark = bookmarks.find((b) => b.itemId === id);
+    if (!bookmark) {
+      console.log(
+        chalk.yellow(`${type === 'fish' ? 'Fish' : 'Gathering node'} ${id} is not watched`)
+      );
+      continue;
+    }
+    profileService.removeBookmark(bookmark.id);
+    console.log(
+      chalk.green(`✓ Stopped watching ${type === 'fish' ? 'fish' : 'gathering node'} #${id}`)
+    );
+  }
+}
+
+function displayWindows(windows: WatchWindow[]): void {
+  if (windows.length === 0) {
+    console.log(chalk.yellow('\nNo upcoming windows found for the watch list'));
+    return;
+  }
+
+  const now = Date.now();
+  const table = new Table({
+    head: [
+      chalk.cyan('Type'),
+      chalk.cyan('ID'),
+      chalk.cyan('Name'),
+      chalk.cyan('Location'),
+      chalk.cyan('Opens (local)'),
+      chalk.cyan('Closes (local)'),
+    ],
+    style: {
+      head: [],
+      border: [],
+    },
+  });
+
+  for (const window of windows) {
+    table.push([
+      window.type === 'fish' ? '🎣 Fish' : '⛏️  Node',
+      window.id.toString(),
+      window.name,
+      window.location || '-',
+      window.start.getTime() <= now ? chalk.green('Open now') : window.start.toLocaleString(),
+      window.end.toLocaleString(),
+    ]);
+  }
+
+  console.log('\n' + table.toString());
+}
+
+function parseIds(value: string | undefined): number[] {
+  if (!value) return [];
+  return value
+    .split(',')
+    .map((id) => parseInt(id.trim()))
+    .filter((id) => !isNaN(id));
+}
@@ -0,0 +1,188 @@
+/**
+ * Weather CLI Commands
+ */
+
+import chalk from 'chalk';
+import Table from 'cli-table3';
+import ora from 'ora';
+import { WeatherService } from '../services/weatherService.js';
+import type { WeatherPeriod, WeatherZone } from '../types/weather.js';
+
+export interface WeatherCommandOptions {
+  periods?: string;
+  weather?: string;
+  after?: string;
+}
+
+/**
+ * Show the weather forecast for a zone, or the next time a weather
+ * transition happens there.
+ *
+ * @example
+ * ```bash
+ * # Next 10 weather periods in Limsa Lominsa
+ * eorzea weather "Limsa Lominsa"
+ *
+ * # Next time Thunderstorms follows Clouds
+ * eorzea weather "Limsa Lominsa" --weather Thunderstorms --after Clouds
+ * ```
+ */
+export async function weatherCommand(
+  zoneArg: string,
+  options: WeatherCommandOptions
+): Promise<void> {
+  const spinner = ora('Loading weather data...').start();
+
+  try {
+    const service = new WeatherService();
+
+    const zone = resolveZone(service, zoneArg);
+    spinner.stop();
+
+    if (!zone) {
+      console.log(chalk.yellow(`No zone with weather data found matching "${zoneArg}"`));
+      service.close();
+      return;
+    }
+
+    const zoneName = zone.name || `Zone ${zone.id}`;
+
+    if (options.weather || options.after) {
+      const weatherIds = parseWeatherList(service, options.weather);
+      const previousWeatherIds = parseWeatherList(service, options.after);
+
+      if (!weatherIds || !previousWeatherIds) {
+        service.close();
+        return;
+      }
+
+      const match = service.findTransition(zone.id, { weatherIds, previousWeatherIds });
+
+      console.log(chalk.cyan.bold(`\n🌦  ${zoneName}`));
+      console.log(chalk.gray('━'.repeat(60)));
+
+      if (!match) {
+        console.log(chalk.yellow('No matching weather found in the search range'));
+      } else {
+        console.log(`${chalk.bold('Weather:')} ${formatTransition(match)}`);
+        console.log(
+          `${chalk.bold('Starts:')}  ${match.startTime.toLocaleString()} (${formatRelative(match.startTime)})`
+        );
+        console.log(`${chalk.bold('Ends:')}    ${match.endTime.toLocaleString()}`);
+        console.log(`${chalk.bold('ET:')}      ${formatEorzeanPeriod(match.eorzeanHour)}`);
+      }
+
+      service.close();
+      return;
+    }
+
+    const periods = options.periods ? parseInt(options.periods) : 10;
+    const forecast = service.forecast(zone.id, periods) || [];
+
+    console.log(
+      chalk.cyan.bold(`\n🌦  Weather Forecast - ${zoneName} (next ${forecast.length} periods)\n`)
+    );
+
+    const table = new Table({
+      head: [
+        chalk.cyan('ET'),
+        chalk.cyan('Start (local)'),
+        chalk.cyan('In'),
+        chalk.cyan('Weather'),
+        chalk.cyan('Previous'),
+      ],
+      style: {
+        head: [],
+        border: [],
+      },
+    });
+
+    forecast.forEach((period, index) => {
+      table.push([
+        formatEorzeanPeriod(period.eorzeanHour),
+        period.startTime.toLocaleString(),
+        index === 0 ? chalk.green('now') : formatRelative(period.startTime),
+        period.weatherName || `Weather ${period.weatherId}`,
+        chalk.dim(formatWeatherName(period.previousWeatherId, period.previousWeatherName)),
+      ]);
+    });
+
+    console.log(table.toString());
+    console.log(
+      chalk.dim(`\n💡 Tip: Use --weather <name> --after <name> to find a weather transition\n`)
+    );
+
+    service.close();
+  } catch (error) {
+    spinner.stop();
+    console.error(chalk.red('Error loading weather data:'));
+    if (error instanceof Error) {
+      console.error(chalk.red(`  ${error.message}`));
+    }
+    process.exit(1);
+  }
+}
+
+/**
+ * Resolve a zone by place name ID or by (partial) name
+ */
+function resolveZone(service: WeatherService, zoneArg: string): WeatherZone | null {
+  if (/^\d+$/.test(zoneArg.trim())) {
+    return service.getZoneById(parseInt(zoneArg));
+  }
+
+  const matches = service.findZones(zoneArg.trim());
+  if (matches.length > 1) {
+    const others = matches
+      .slice(1, 6)
+      .map((zone) => `${zone.name} (${zone.id})`)
+      .join(', ');
+    console.log(chalk.dim(`Also matching: ${others}${matches.length > 6 ? ', ...' : ''}`));
+  }
+  return matches[0] || null;
+}
+
+/**
+ * Parse a comma-separated list of weather names or IDs
+ * Returns null (after printing a warning) if a name can't be resolved
+ */
+function parseWeatherList(service: WeatherService, value: string | undefined): number[] | null {
+  if (!value) return [];
+
+  const ids: number[] = [];
+  for (const name of value.split(',')) {
+    const id = service.getWeatherIdByName(name);
+    if (id === null) {
+      console.log(chalk.yellow(`Unknown weather: "${name.trim()}"`));
+      return null;
+    }
+    ids.push(id);
+  }
+  return ids;
+}
+
+function formatTransition(period: WeatherPeriod): string {
+  const current = formatWeatherName(period.weatherId, period.weatherName);
+  const previous = formatWeatherName(period.previousWeatherId, period.previousWeatherName);
+  return `${previous} → ${chalk.green(current)}`;
+}
+
+function formatWeatherName(weatherId: number | null, name: string | null): string {
+  if (weatherId === null) return '-';
+  return name || `Weather ${weatherId}`;
+}
+
+function formatEorzeanPeriod(hour: number): string {
+  const end = (hour + 8) % 24;
+  return `${hour.toString().padStart(2, '0')}:00 - ${end.toString().padStart(2, '0')}:00`;
+}
+
+function formatRelative(date: Date): string {
+  const minutes = Math.max(0, Math.round((date.getTime() - Date.now()) / 60000));
+  if (minutes < 60) return `${minutes}m`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${minutes % 60}m`;
+
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
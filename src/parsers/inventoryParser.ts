@@ -0,0 +1,283 @@
+/**
+ * Inventory Export Parser
+ *
+ * Parses inventory exports (CSV of `item name, quantity, hq, location` or a
+ * JSON array of objects) and resolves item names to database IDs.
+ */
+
+import { parse } from 'csv-parse/sync';
+import type { ItemService } from '../services/itemService.js';
+import type { InventoryEntry } from '../types/profile.js';
+
+export type InventoryFormat = 'csv' | 'json';
+
+export interface InventoryImportRow {
+  /** Line in the CSV file, or position in the JSON array (1-based) */
+  row: number;
+  name?: string;
+  itemId?: number;
+  quantity: number;
+  isHq: boolean;
+  location?: string;
+}
+
+export interface InventoryImportIssue {
+  row: number;
+  name: string;
+  reason: string;
+}
+
+export interface ParsedInventory {
+  rows: InventoryImportRow[];
+  errors: InventoryImportIssue[];
+}
+
+export interface InventoryImportResult {
+  entries: InventoryEntry[];
+  /** Names that only matched after fuzzy matching */
+  fuzzyMatches: Array<{ row: number; name: string; matchedName: string; itemId: number }>;
+  /** Rows that couldn't be parsed or matched to an item */
+  unmatched: InventoryImportIssue[];
+}
+
+/** Accepted header names (lowercase, without spaces or underscores) per field */
+const COLUMN_ALIASES: Record<keyof Omit<InventoryImportRow, 'row'>, string[]> = {
+  name: ['name', 'item', 'itemname'],
+  itemId: ['id', 'itemid'],
+  quantity: ['quantity', 'qty', 'count', 'amount'],
+  isHq: ['hq', 'ishq', 'quality'],
+  location: ['location', 'source', 'container', 'storage', 'retainer'],
+};
+
+/** Positional columns when the CSV has no header */
+const DEFAULT_COLUMNS: Array<keyof typeof COLUMN_ALIASES> = [
+  'name',
+  'quantity',
+  'isHq',
+  'location',
+];
+
+/** The HQ icon the game appends to item names when copying them */
+const HQ_ICON = '\uE03C';
+
+/**
+ * Guess the format from the file extension, falling back to the content
+ */
+export function detectInventoryFormat(filePath: string, text: string): InventoryFormat {
+  if (/\.json$/i.test(filePath)) return 'json';
+  if (/\.csv$/i.test(filePath)) return 'csv';
+  return /^\s*[[{]/.test(text) ? 'json' : 'csv';
+}
+
+/**
+ * Parse a CSV inventory export
+ *
+ * Columns default to `item name, quantity, hq, location`; a header row with
+ * recognizable names (e.g. Name, Qty, Quality, Retainer) can reorder them.
+ */
+export function parseInventoryCsv(text: string): ParsedInventory {
+  const records = parse(text, {
+    bom: true,
+    comment: '#',
+    info: true,
+    relax_column_count: true,
+    relax_quotes: true,
+    skip_empty_lines: true,
+    trim: true,
+  }) as unknown as Array<{ record: string[]; info: { lines: number } }>;
+
+  let columns = DEFAULT_COLUMNS as Array<keyof typeof COLUMN_ALIASES | undefined>;
+  if (records.length > 0 && isHeaderRow(records[0].record)) {
+    columns = records[0].record.map(findColumn);
+    records.shift();
+  }
+
+  const result: ParsedInventory = { rows: [], errors: [] };
+  for (const { record, info } of records) {
+    const fields: Record<string, string> = {};
+    record.forEach((value, index) => {
+      const column = columns[index];
+      if (column && value !== '') fields[column] = value;
+    });
+    addRow(result, info.lines, fields);
+  }
+
+  return result;
+}
+
+/**
+ * Parse a JSON inventory export: an array of objects (or `{items: [...]}`)
+ * using the same field names as the CSV header
+ */
+export function parseInventoryJson(text: string): ParsedInventory {
+  const data = JSON.parse(text);
+  const items = Array.isArray(data) ? data : data?.items;
+
+  if (!Array.isArray(items)) {
+    throw new Error('Expected a JSON array of inventory items');
+  }
+
+  return parseInventoryItems(items);
+}
+
+/**
+ * Parse already-decoded inventory objects (e.g. an API request body)
+ */
+export function parseInventoryItems(items: unknown[]): ParsedInventory {
+  const result: ParsedInventory = { rows: [], errors: [] };
+  items.forEach((item, index) => {
+    const fields: Record<string, unknown> = {};
+    if (item && typeof item === 'object') {
+      for (const [key, value] of Object.entries(item)) {
+        const column = findColumn(key);
+        if (column && value !== null && value !== '') fields[column] = value;
+      }
+    }
+    addRow(result, index + 1, fields);
+  });
+
+  return result;
+}
+
+/**
+ * Parse an inventory export in the given format
+ */
+export function parseInventory(text: string, format: InventoryFormat): ParsedInventory {
+  return format === 'json' ? parseInventoryJson(text) : parseInventoryCsv(text);
+}
+
+/**
+ * Resolve item names to IDs (exact first, then fuzzy) and build the
+ * entries to store; rows without a location get the default one.
+ * Explicit item IDs are checked against the items table.
+ */
+export function matchInventoryRows(
+  parsed: ParsedInventory,
+  itemService: ItemService,
+  defaultLocation?: string
+): InventoryImportResult {
+  const result: InventoryImportResult = {
+    entries: [],
+    fuzzyMatches: [],
+    unmatched: [...parsed.errors],
+  };
+
+  for (const row of parsed.rows) {
+    let itemId = row.itemId;
+
+    if (itemId !== undefined) {
+      if (!itemService.getItemById(itemId)) {
+        result.unmatched.push({
+          row: row.row,
+          name: row.name ?? `#${itemId}`,
+          reason: 'unknown item ID',
+        });
+        continue;
+      }
+    } else if (row.name) {
+      const match = itemService.matchItemName(row.name);
+      if (!match) {
+        result.unmatched.push({ row: row.row, name: row.name, reason: 'no matching item' });
+        continue;
+      }
+      if (!match.exact) {
+        result.fuzzyMatches.push({
+          row: row.row,
+          name: row.name,
+          matchedName: match.name,
+          itemId: match.id,
+        });
+      }
+      itemId = match.id;
+    }
+
+    result.entries.push({
+      itemId: itemId!,
+      quantity: row.quantity,
+      isHq: row.isHq,
+      location: row.location ?? defaultLocation,
+    });
+  }
+
+  result.unmatched.sort((a, b) => a.row - b.row);
+  return result;
+}
+
+/**
+ * Canonical storage location: bag and saddlebag spellings are unified,
+ * anything else (e.g. a retainer's name) is kept as written
+ */
+export function normalizeLocation(location: string): string | undefined {
+  const value = location.trim();
+  const key = value.toLowerCase();
+
+  if (!value) return undefined;
+  if (['bag', 'bags', 'inventory', 'player inventory'].includes(key)) return 'bag';
+  if (['saddlebag', 'saddlebags', 'chocobo saddlebag'].includes(key)) return 'saddlebag';
+  if (['premium saddlebag', 'premium saddlebags'].includes(key)) return 'premium saddlebag';
+
+  // "Retainer: Name" → "Name"
+  return value.replace(/^retainer\s*[:-]\s*/i, '');
+}
+
+function findColumn(header: string): keyof typeof COLUMN_ALIASES | undefined {
+  const key = header.toLowerCase().replace(/[\s_-]/g, '');
+  return (Object.keys(COLUMN_ALIASES) as Array<keyof typeof COLUMN_ALIASES>).find((column) =>
+    COLUMN_ALIASES[column].includes(key)
+  );
+}
+
+function isHeaderRow(record: string[]): boolean {
+  const columns = record.map(findColumn);
+  return columns.includes('quantity') && (columns.includes('name') || columns.includes('itemId'));
+}
+
+function parseHq(value: unknown): boolean {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0;
+  return ['true', 'yes', 'y', '1', 'hq', 'x', '✓'].includes(String(value).trim().toLowerCase());
+}
+
+function addRow(result: ParsedInventory, row: number, fields: Record<string, unknown>): void {
+  let name = fields.name !== undefined ? String(fields.name).trim() : undefined;
+  let isHq = fields.isHq !== undefined && parseHq(fields.isHq);
+
+  // Names copied from the game carry the HQ icon; some tools add "(HQ)"
+  if (name && (name.includes(HQ_ICON) || /\s*\(?\bHQ\)?$/.test(name))) {
+    name = name
+      .replace(HQ_ICON, '')
+      .replace(/\s*\(?\bHQ\)?$/, '')
+      .trim();
+    isHq = true;
+  }
+
+  const label = name ?? (fields.itemId !== undefined ? `#${fields.itemId}` : '');
+  const itemId = fields.itemId !== undefined ? Number(fields.itemId) : undefined;
+  const quantity =
+    typeof fields.quantity === 'number'
+      ? fields.quantity
+      : Number(String(fields.quantity ?? '').replace(/[,\s]/g, ''));
+
+  if (!name && itemId === undefined) {
+    result.errors.push({ row, name: label, reason: 'missing item name' });
+    return;
+  }
+  if (itemId !== undefined && !Number.isInteger(itemId)) {
+    result.errors.push({ row, name: label, reason: `invalid item ID "${fields.itemId}"` });
+    return;
+  }
+  if (!Number.isInteger(quantity) || quantity < 1) {
+    result.errors.push({ row, name: label, reason: `invalid quantity "${fields.quantity ?? ''}"` });
+    return;
+  }
+
+  result.rows.push({
+    row,
+    name,
+    itemId,
+    quantity,
+    isHq,
+    location:
+      fields.location !== undefined ? normalizeLocation(String(fields.location)) : undefined,
+  });
+}
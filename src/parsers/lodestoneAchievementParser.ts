@@ -1,18 +1,28 @@
 /**
  * Lodestone Achievement Parser
  *
- * Parses Lodestone achievement text data and matches to database
+ * Parses Lodestone achievement history (copy-pasted text, or the saved HTML
+ * page) and matches it to the database. Text is recognized in English,
+ * Japanese, German and French, but only English names can be matched: the
+ * game data has no localized achievement names.
  */
 
 import { readFileSync } from 'fs';
 import Database from 'better-sqlite3';
 import { join } from 'path';
+import { getLodestonePageKind, parseLodestoneAchievementPage } from './lodestonePageParser.js';
+import { findBestMatch, normalizeName, type FuzzyCandidate } from '../utils/fuzzyMatch.js';
+
+export type AchievementLocale = 'en' | 'ja' | 'de' | 'fr';
 
 export interface ParsedAchievement {
   date: string;
   category: string;
   name: string;
+  locale?: AchievementLocale;
   achievementId?: number;
+  /** Name in the database, when it differs from the parsed one */
+  matchedName?: string;
 }
 
 export interface ParseResult {
@@ -21,10 +31,41 @@ export interface ParseResult {
   unmatched: number;
   achievements: ParsedAchievement[];
   unmatchedNames: string[];
+  /** Names that only matched after fuzzy matching, worth double-checking */
+  fuzzyMatches: Array<{ name: string; matchedName: string; achievementId: number }>;
+  /** Unmatched names and the closest achievement, too far off to match automatically */
+  nearMisses: Array<{ name: string; closestName: string; distance: number }>;
 }
 
 const GAME_DB_PATH = join(process.cwd(), 'data', 'gameData.db');
 
+/**
+ * How each Lodestone language words an earned achievement; the text before
+ * the keyword is the category (only shown in English)
+ */
+const ACHIEVEMENT_LINE_PATTERNS: Record<AchievementLocale, RegExp> = {
+  en: /^(.*?)\s*achievement\s+["“](.+)["”]\s+earned!$/i,
+  ja: /^(.*?)\s*アチーブメント「(.+)」を達成した[！!]?$/,
+  de: /^(.*?)\s*Errungenschaft\s+[„"“](.+)[“"”]\s+erhalten!$/i,
+  fr: /^(.*?)\s*haut fait\s+«\s*(.+?)\s*»\s+(?:obtenu|accompli|remporté)\s*!$/i,
+};
+
+const LOCALE_NAMES: Record<AchievementLocale, string> = {
+  en: 'English',
+  ja: 'Japanese',
+  de: 'German',
+  fr: 'French',
+};
+
+/** MM/DD/YYYY (English), DD/MM/YYYY (French), DD.MM.YYYY (German), YYYY/MM/DD (Japanese) */
+const DATE_PATTERN = /^(\d{1,2}\/\d{1,2}\/\d{4}|\d{1,2}\.\d{1,2}\.\d{4}|\d{4}\/\d{1,2}\/\d{1,2})/;
+
+/**
+ * Unmatched names within this share of edits (one per three characters) of
+ * an achievement are reported as near-misses
+ */
+const NEAR_MISS_CHARS_PER_EDIT = 3;
+
 /**
  * Parse Lodestone achievement text format
  *
@@ -33,6 +74,10 @@ const GAME_DB_PATH = join(process.cwd(), 'data', 'gameData.db');
  * 2. Multi-line: MM/DD/YYYY\nCategory achievement "Achievement Name" earned!
  *
  * Example: 11/01/2025\nQuests achievement "On Wings of Hope" earned!
+ *
+ * The Japanese (アチーブメント「…」を達成した！), German (Errungenschaft
+ * „…“ erhalten!) and French (haut fait « … » obtenu !) wordings are read the
+ * same way, with their date formats.
  */
 export function parseLodestoneAchievementText(text: string): ParsedAchievement[] {
   const achievements: ParsedAchievement[] = [];
@@ -45,44 +90,46 @@ export function parseLodestoneAchievementText(text: string): ParsedAchievement[]
   for (const line of lines) {
     const trimmedLine = line.trim();
 
-    // Check if line is a date
-    const dateMatch = trimmedLine.match(/^(\d{2}\/\d{2}\/\d{4})$/);
+    // The date is on its own line, or directly in front of the achievement
+    const dateMatch = trimmedLine.match(DATE_PATTERN);
+    const rest = dateMatch ? trimmedLine.slice(dateMatch[1].length).trim() : trimmedLine;
     if (dateMatch) {
       currentDate = dateMatch[1];
-      continue;
-    }
-
-    // Check if line contains an achievement
-    const achievementMatch = trimmedLine.match(
-      /^([A-Za-z &]+)\s+achievement\s+"([^"]+)"\s+earned!$/
-    );
-    if (achievementMatch && currentDate) {
-      achievements.push({
-        date: currentDate,
-        category: achievementMatch[1].trim(),
-        name: achievementMatch[2].trim(),
-      });
-      continue;
+      if (!rest) continue;
     }
 
-    // Also handle single-line format for backward compatibility
-    const singleLineMatch = trimmedLine.match(
-      /^(\d{2}\/\d{2}\/\d{4})([A-Za-z &]+)\s+achievement\s+"([^"]+)"\s+earned!$/
-    );
-    if (singleLineMatch) {
-      achievements.push({
-        date: singleLineMatch[1],
-        category: singleLineMatch[2].trim(),
-        name: singleLineMatch[3].trim(),
-      });
+    const parsed = parseAchievementLine(rest);
+    if (parsed && currentDate) {
+      achievements.push({ date: currentDate, ...parsed });
     }
   }
 
   return achievements;
 }
 
+/**
+ * Parse a saved Lodestone achievement page
+ *
+ * Entries link to the achievement, so they're matched by ID whatever the
+ * page language.
+ */
+export function parseLodestoneAchievementHtml(html: string): ParsedAchievement[] {
+  return parseLodestoneAchievementPage(html).achievements.map((achievement) => ({
+    date: achievement.earnedAt ? achievement.earnedAt.toISOString().slice(0, 10) : '',
+    category: '',
+    name: achievement.name,
+    achievementId: achievement.id,
+  }));
+}
+
 /**
  * Match achievement names to database IDs
+ *
+ * Achievements with an ID (from HTML pages) are matched by ID. Names are
+ * tried as-is, then normalized (case, punctuation, quote styles), then
+ * fuzzy-matched; what's still unmatched is reported with the closest name.
+ * Non-English names are never fuzzy-matched, a close English name would be a
+ * different achievement.
  */
 export function matchAchievementsToDatabase(
   achievements: ParsedAchievement[],
@@ -93,21 +140,68 @@ export function matchAchievementsToDatabase(
   const matched: ParsedAchievement[] = [];
   const unmatched: ParsedAchievement[] = [];
   const unmatchedNames: string[] = [];
+  const fuzzyMatches: ParseResult['fuzzyMatches'] = [];
+  const nearMisses: ParseResult['nearMisses'] = [];
 
   try {
-    const stmt = db.prepare('SELECT id FROM achievements WHERE name = ?');
+    const rows = db.prepare('SELECT id, name FROM achievements').all() as Array<{
+      id: number;
+      name: string;
+    }>;
+
+    const namesById = new Map(rows.map((row) => [row.id, row.name]));
+    const idsByName = new Map<string, number>();
+    const idsByNormalizedName = new Map<string, number>();
+    const candidates: Array<FuzzyCandidate<number>> = [];
+    for (const row of rows) {
+      const normalized = normalizeName(row.name);
+      if (!idsByName.has(row.name)) idsByName.set(row.name, row.id);
+      if (!idsByNormalizedName.has(normalized)) idsByNormalizedName.set(normalized, row.id);
+      candidates.push({ value: row.id, name: row.name, normalized });
+    }
 
     for (const achievement of achievements) {
-      const result = stmt.get(achievement.name) as any;
+      let id =
+        achievement.achievementId !== undefined && namesById.has(achievement.achievementId)
+          ? achievement.achievementId
+          : (idsByName.get(achievement.name) ??
+            idsByNormalizedName.get(normalizeName(achievement.name)));
 
-      if (result) {
+      const english = !achievement.locale || achievement.locale === 'en';
+
+      if (id === undefined && english) {
+        const match = findBestMatch(achievement.name, candidates);
+        if (match) {
+          id = match.value;
+          fuzzyMatches.push({ name: achievement.name, matchedName: match.name, achievementId: id });
+        }
+      }
+
+      if (id !== undefined) {
+        const matchedName = namesById.get(id)!;
         matched.push({
           ...achievement,
-          achievementId: result.id,
+          achievementId: id,
+          matchedName: matchedName !== achievement.name ? matchedName : undefined,
+        });
+        continue;
+      }
+
+      unmatched.push(achievement);
+      unmatchedNames.push(achievement.name);
+      if (!english) continue;
+
+      const nearMiss = findBestMatch(
+        achievement.name,
+        candidates,
+        Math.floor(normalizeName(achievement.name).length / NEAR_MISS_CHARS_PER_EDIT)
+      );
+      if (nearMiss) {
+        nearMisses.push({
+          name: achievement.name,
+          closestName: nearMiss.name,
+          distance: nearMiss.distance,
         });
-      } else {
-        unmatched.push(achievement);
-        unmatchedNames.push(achievement.name);
       }
     }
   } finally {
@@ -120,16 +214,36 @@ export function matchAchievementsToDatabase(
     unmatched: unmatched.length,
     achievements: matched,
     unmatchedNames,
+    fuzzyMatches,
+    nearMisses,
   };
 }
 
 /**
- * Parse achievements from file
+ * Parse achievements from file (copied text or a saved achievement page)
+ *
+ * Copied text from the Japanese, German or French Lodestone is rejected,
+ * its names can't be matched; the saved page matches by ID in any language.
  */
-export function parseAchievementsFromFile(filePath: string): ParseResult {
+export function parseAchievementsFromFile(
+  filePath: string,
+  dbPath: string = GAME_DB_PATH
+): ParseResult {
   const text = readFileSync(filePath, 'utf-8');
+  if (getLodestonePageKind(text) === 'achievements') {
+    return matchAchievementsToDatabase(parseLodestoneAchievementHtml(text), dbPath);
+  }
+
   const parsed = parseLodestoneAchievementText(text);
-  return matchAchievementsToDatabase(parsed);
+  const locale = parsed.find((achievement) => achievement.locale !== 'en')?.locale;
+  if (locale) {
+    throw new Error(
+      `Achievement text in ${LOCALE_NAMES[locale]} can't be matched, the game data only has English names. ` +
+        'Save the Lodestone achievement page as HTML (File → Save Page As…) and sync from that file instead, it is matched by achievement ID.'
+    );
+  }
+
+  return matchAchievementsToDatabase(parsed, dbPath);
 }
 
 /**
@@ -152,5 +266,25 @@ export function getMSQAchievementCount(result: ParseResult): number {
     'Seekers of Eternity',
   ];
 
-  return result.achievements.filter((a) => msqNames.includes(a.name)).length;
+  return result.achievements.filter((a) => msqNames.includes(a.matchedName ?? a.name)).length;
+}
+
+/**
+ * Recognize an achievement line in any supported language
+ */
+function parseAchievementLine(
+  line: string
+): Pick<ParsedAchievement, 'category' | 'name' | 'locale'> | null {
+  for (const [locale, pattern] of Object.entries(ACHIEVEMENT_LINE_PATTERNS)) {
+    const match = line.match(pattern);
+    if (match) {
+      return {
+        category: match[1].trim(),
+        name: match[2].trim(),
+        locale: locale as AchievementLocale,
+      };
+    }
+  }
+
+  return null;
 }
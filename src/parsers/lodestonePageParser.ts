@@ -0,0 +1,244 @@
+/**
+ * Lodestone Page Parser
+ *
+ * Extracts profile details, job levels, mounts, minions and achievements
+ * from character pages on the Lodestone. Works on the raw HTML so the pages
+ * can be parsed (and tested) without a network connection, whether fetched
+ * live or saved from a browser.
+ */
+
+import { readdirSync, readFileSync } from 'fs';
+import { extname, join } from 'path';
+
+export type LodestoneCollectionType = 'mount' | 'minion';
+
+export interface LodestoneProfile {
+  id: string;
+  name: string;
+  server: string;
+  dataCenter?: string;
+  title?: string;
+  avatar?: string;
+  freeCompany?: string;
+  /** Level of the active class/job (main profile page only) */
+  level?: number;
+  /** Active class/job, taken from the equipped main hand (main profile page only) */
+  job?: string;
+}
+
+/** Job levels keyed by job name without spaces (e.g. "DarkKnight") */
+export type LodestoneClassJobs = Record<string, { Level: number }>;
+
+/** Character pages saved from the Lodestone, sorted by kind */
+export interface LodestoneSavedPages {
+  profile?: string;
+  classJob?: string;
+  mount?: string;
+  minion?: string;
+  achievements: string[];
+}
+
+export interface LodestoneAchievementEntry {
+  /** Achievement ID, taken from the detail link (same as the game data ID) */
+  id: number;
+  name: string;
+  earnedAt?: Date;
+}
+
+export interface LodestoneAchievementPage {
+  achievements: LodestoneAchievementEntry[];
+  page: number;
+  totalPages: number;
+  /** The character hides achievements from the Lodestone */
+  isPrivate: boolean;
+}
+
+/**
+ * Parse the character header shared by every character page (name, world,
+ * title, portrait); the free company and active class/job are only on the
+ * main profile page
+ *
+ * Returns null when the page isn't a character page.
+ */
+export function parseLodestoneProfilePage(html: string): LodestoneProfile | null {
+  const id = html.match(/\/lodestone\/character\/(\d+)\//)?.[1];
+  const name = getText(getElementContent(html, 'frame__chara__name'));
+  const world = getText(getElementContent(html, 'frame__chara__world'));
+  if (!id || !name || !world) return null;
+
+  // "Gilgamesh [Aether]"
+  const worldMatch = world.match(/^(.+?)\s*\[(.+)\]$/);
+  const freeCompany = getElementContent(html, 'character__freecompany__name');
+  const level = getText(getElementContent(html, 'character__class__data')).match(/\d+/)?.[0];
+  // The first item tooltip is the main hand: "Paladin's Arm", "Two-handed Conjurer's Arm", ...
+  const mainhand = getText(getElementContent(html, 'db-tooltip__item__category'));
+  const job = mainhand.match(
+    /^(?:(?:One|Two)-handed )?(.+?)'s (?:Arm|Grimoire|Primary Tool)$/
+  )?.[1];
+
+  return {
+    id,
+    name,
+    server: worldMatch ? worldMatch[1] : world,
+    dataCenter: worldMatch?.[2],
+    title: getText(getElementContent(html, 'frame__chara__title')) || undefined,
+    avatar: getElementContent(html, 'frame__chara__face')?.match(/<img[^>]*src="([^"]+)"/)?.[1],
+    freeCompany: getText(freeCompany?.match(/<a[^>]*>([\s\S]*?)<\/a>/)?.[1]) || undefined,
+    level: level ? parseInt(level) : undefined,
+    job,
+  };
+}
+
+/**
+ * Parse the class/job page into levels (jobs that aren't unlocked show "-"
+ * and are left out)
+ */
+export function parseLodestoneClassJobPage(html: string): LodestoneClassJobs {
+  const classJobs: LodestoneClassJobs = {};
+
+  for (const match of html.matchAll(/<li[^>]*>([\s\S]*?)<\/li>/g)) {
+    const level = parseInt(getText(getElementContent(match[1], 'character__job__level')));
+    if (!level) continue;
+
+    // The tooltip always names the job ("Paladin / Gladiator"), the text can be the base class
+    const nameElement = match[1].match(/class="character__job__name[^"]*"[^>]*>/)?.[0];
+    const tooltip = nameElement?.match(/data-tooltip="([^"]+)"/)?.[1];
+    const name = tooltip
+      ? getText(tooltip.split('/')[0])
+      : getText(getElementContent(match[1], 'character__job__name'));
+    if (name) classJobs[name.replace(/\s+/g, '')] = { Level: level };
+  }
+
+  return classJobs;
+}
+
+/**
+ * Sort a saved character page by what it shows
+ */
+export function getLodestonePageKind(html: string): keyof LodestoneSavedPages | null {
+  if (/class="entry__achievement/.test(html) || /class="ldst__achievement/.test(html)) {
+    return 'achievements';
+  }
+  if (/class="[^"]*\bmount__name\b/.test(html)) return 'mount';
+  if (/class="[^"]*\bminion__name\b/.test(html)) return 'minion';
+  if (/class="character__job__level/.test(html)) return 'classJob';
+  if (/class="frame__chara__name/.test(html)) return 'profile';
+  return null;
+}
+
+/**
+ * Read every saved .html/.htm page in a directory
+ *
+ * Pages are recognized by content, so browser file names don't matter.
+ * Pages that aren't Lodestone character pages are ignored.
+ */
+export function readLodestoneSavedPages(dirPath: string): LodestoneSavedPages {
+  const pages: LodestoneSavedPages = { achievements: [] };
+  const files = readdirSync(dirPath)
+    .filter((file) => ['.html', '.htm'].includes(extname(file).toLowerCase()))
+    .sort();
+
+  for (const file of files) {
+    const html = readFileSync(join(dirPath, file), 'utf-8');
+    const kind = getLodestonePageKind(html);
+
+    if (kind === 'achievements') {
+      pages.achievements.push(html);
+    } else if (kind) {
+      pages[kind] = html;
+    }
+  }
+
+  return pages;
+}
+
+/**
+ * Parse the mount or minion list of a character (smartphone layout, which
+ * lists the names instead of only icons with tooltips)
+ *
+ * Returns the names in page order without duplicates.
+ */
+export function parseLodestoneCollectionPage(
+  html: string,
+  type: LodestoneCollectionType
+): string[] {
+  const names = new Set<string>();
+  const namePattern = new RegExp(
+    `<(\\w+)[^>]*class="[^"]*\\b${type}__name\\b[^"]*"[^>]*>([\\s\\S]*?)</\\1>`,
+    'g'
+  );
+
+  for (const match of html.matchAll(namePattern)) {
+    const name = getText(match[2]);
+    if (name) names.add(name);
+  }
+
+  return [...names];
+}
+
+/**
+ * Parse one page of a character's achievement history
+ *
+ * Format of an entry:
+ *   <li class="entry"><a href="/lodestone/character/<id>/achievement/detail/<achievementId>/" ...>
+ *     <p class="entry__activity__txt">Achievement "Name" earned!</p>
+ *     <time class="entry__activity__time">... ldst_strftime(<unix seconds>, 'YMD') ...</time>
+ */
+export function parseLodestoneAchievementPage(html: string): LodestoneAchievementPage {
+  const achievements: LodestoneAchievementEntry[] = [];
+
+  for (const match of html.matchAll(/<li class="entry">([\s\S]*?)<\/li>/g)) {
+    const entry = match[1];
+    const idMatch = entry.match(/\/achievement\/detail\/(\d+)\//);
+    if (!idMatch) continue;
+
+    // Other languages use different wording around the name, fall back to the whole text
+    const text = getText(entry.match(/class="entry__activity__txt"[^>]*>([\s\S]*?)<\/p>/)?.[1]);
+    const quoted = text.match(/["“„「«](.+)["”“」»]/);
+    const timestamp = entry.match(/ldst_strftime\((\d+)/);
+
+    achievements.push({
+      id: parseInt(idMatch[1]),
+      name: quoted ? quoted[1].trim() : text,
+      earnedAt: timestamp ? new Date(parseInt(timestamp[1]) * 1000) : undefined,
+    });
+  }
+
+  const pager = html.match(/class="btn__pager__current"[^>]*>[^<]*?(\d+)\D+(\d+)/);
+
+  return {
+    achievements,
+    page: pager ? parseInt(pager[1]) : 1,
+    totalPages: pager ? parseInt(pager[2]) : 1,
+    isPrivate: achievements.length === 0 && /class="parts__zero"/.test(html),
+  };
+}
+
+/**
+ * Get the inner HTML of the first element with a class
+ */
+function getElementContent(html: string, className: string): string | undefined {
+  const pattern = new RegExp(
+    `<(\\w+)[^>]*class="[^"]*\\b${className}\\b[^"]*"[^>]*>([\\s\\S]*?)</\\1>`
+  );
+  return html.match(pattern)?.[2];
+}
+
+/**
+ * Strip tags and decode entities
+ */
+function getText(html: string | undefined): string {
+  if (!html) return '';
+
+  return html
+    .replace(/<[^>]*>/g, '')
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code)))
+    .replace(/&quot;/g, '"')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
@@ -0,0 +1,263 @@
+/**
+ * Market Price Snapshot Parser
+ *
+ * Parses price snapshots (CSV of `item, world, nq price, hq price, recorded at`
+ * or a JSON array of objects) and resolves item names to database IDs.
+ */
+
+import { parse } from 'csv-parse/sync';
+import type { ItemService } from '../services/itemService.js';
+import type { MarketPrice } from '../types/market.js';
+
+export type MarketPriceFormat = 'csv' | 'json';
+
+export interface MarketPriceRow {
+  /** Line in the CSV file, or position in the JSON array (1-based) */
+  row: number;
+  name?: string;
+  itemId?: number;
+  world?: string;
+  priceNq: number | null;
+  priceHq: number | null;
+  recordedAt?: number;
+}
+
+export interface MarketPriceIssue {
+  row: number;
+  name: string;
+  reason: string;
+}
+
+export interface ParsedMarketPrices {
+  rows: MarketPriceRow[];
+  errors: MarketPriceIssue[];
+}
+
+export interface MarketPriceImportResult {
+  prices: MarketPrice[];
+  /** Rows that couldn't be parsed, matched to an item or assigned a world */
+  unmatched: MarketPriceIssue[];
+}
+
+/** Accepted header names (lowercase, without spaces or underscores) per field */
+const COLUMN_ALIASES: Record<keyof Omit<MarketPriceRow, 'row'>, string[]> = {
+  name: ['name', 'item', 'itemname'],
+  itemId: ['id', 'itemid'],
+  world: ['world', 'server', 'worldname'],
+  priceNq: ['price', 'pricenq', 'nq', 'minprice', 'minpricenq', 'nqprice'],
+  priceHq: ['pricehq', 'hq', 'minpricehq', 'hqprice'],
+  recordedAt: ['recordedat', 'date', 'time', 'timestamp', 'updated', 'lastuploadtime'],
+};
+
+/** Positional columns when the CSV has no header */
+const DEFAULT_COLUMNS: Array<keyof typeof COLUMN_ALIASES> = [
+  'name',
+  'world',
+  'priceNq',
+  'priceHq',
+  'recordedAt',
+];
+
+/**
+ * Guess the format from the file extension, falling back to the content
+ */
+export function detectMarketPriceFormat(filePath: string, text: string): MarketPriceFormat {
+  if (/\.json$/i.test(filePath)) return 'json';
+  if (/\.csv$/i.test(filePath)) return 'csv';
+  return /^\s*[[{]/.test(text) ? 'json' : 'csv';
+}
+
+/**
+ * Parse a CSV price snapshot
+ *
+ * Columns default to `item name, world, nq price, hq price, recorded at`; a
+ * header row with recognizable names (e.g. Item ID, Server, Min Price HQ)
+ * can reorder them.
+ */
+export function parseMarketPriceCsv(text: string): ParsedMarketPrices {
+  const records = parse(text, {
+    bom: true,
+    comment: '#',
+    info: true,
+    relax_column_count: true,
+    relax_quotes: true,
+    skip_empty_lines: true,
+    trim: true,
+  }) as unknown as Array<{ record: string[]; info: { lines: number } }>;
+
+  let columns = DEFAULT_COLUMNS as Array<keyof typeof COLUMN_ALIASES | undefined>;
+  if (records.length > 0 && isHeaderRow(records[0].record)) {
+    columns = records[0].record.map(findColumn);
+    records.shift();
+  }
+
+  const result: ParsedMarketPrices = { rows: [], errors: [] };
+  for (const { record, info } of records) {
+    const fields: Record<string, string> = {};
+    record.forEach((value, index) => {
+      const column = columns[index];
+      if (column && value !== '') fields[column] = value;
+    });
+    addRow(result, info.lines, fields);
+  }
+
+  return result;
+}
+
+/**
+ * Parse a JSON price snapshot: an array of objects (or `{items: [...]}`)
+ * using the same field names as the CSV header
+ */
+export function parseMarketPriceJson(text: string): ParsedMarketPrices {
+  const data = JSON.parse(text);
+  const items = Array.isArray(data) ? data : data?.items;
+
+  if (!Array.isArray(items)) {
+    throw new Error('Expected a JSON array of market prices');
+  }
+
+  const result: ParsedMarketPrices = { rows: [], errors: [] };
+  items.forEach((item, index) => {
+    const fields: Record<string, unknown> = {};
+    if (item && typeof item === 'object') {
+      for (const [key, value] of Object.entries(item)) {
+        const column = findColumn(key);
+        if (column && value !== null && value !== '') fields[column] = value;
+      }
+    }
+    addRow(result, index + 1, fields);
+  });
+
+  return result;
+}
+
+/**
+ * Parse a price snapshot in the given format
+ */
+export function parseMarketPrices(text: string, format: MarketPriceFormat): ParsedMarketPrices {
+  return format === 'json' ? parseMarketPriceJson(text) : parseMarketPriceCsv(text);
+}
+
+/**
+ * Resolve item names to IDs and build the prices to store
+ *
+ * Names must match exactly: a fuzzy match could silently price the wrong item.
+ * Rows without a world get the default one; rows without a date get `now`.
+ */
+export function matchMarketPriceRows(
+  parsed: ParsedMarketPrices,
+  itemService: ItemService,
+  defaultWorld?: string,
+  now: number = Date.now()
+): MarketPriceImportResult {
+  const result: MarketPriceImportResult = { prices: [], unmatched: [...parsed.errors] };
+
+  for (const row of parsed.rows) {
+    const label = row.name ?? `#${row.itemId}`;
+    const world = row.world ?? defaultWorld;
+
+    if (!world) {
+      result.unmatched.push({ row: row.row, name: label, reason: 'missing world' });
+      continue;
+    }
+
+    let itemId = row.itemId;
+    if (itemId === undefined && row.name) {
+      const match = itemService.matchItemName(row.name);
+      if (!match?.exact) {
+        result.unmatched.push({ row: row.row, name: row.name, reason: 'no matching item' });
+        continue;
+      }
+      itemId = match.id;
+    }
+
+    result.prices.push({
+      item_id: itemId!,
+      world,
+      price_nq: row.priceNq,
+      price_hq: row.priceHq,
+      recorded_at: row.recordedAt ?? now,
+    });
+  }
+
+  result.unmatched.sort((a, b) => a.row - b.row);
+  return result;
+}
+
+function findColumn(header: string): keyof typeof COLUMN_ALIASES | undefined {
+  const key = header.toLowerCase().replace(/[\s_-]/g, '');
+  return (Object.keys(COLUMN_ALIASES) as Array<keyof typeof COLUMN_ALIASES>).find((column) =>
+    COLUMN_ALIASES[column].includes(key)
+  );
+}
+
+function isHeaderRow(record: string[]): boolean {
+  const columns = record.map(findColumn);
+  return (
+    (columns.includes('priceNq') || columns.includes('priceHq')) &&
+    (columns.includes('name') || columns.includes('itemId'))
+  );
+}
+
+/**
+ * Gil amounts like "1,200" or 1200; null when not given
+ */
+function parsePrice(value: unknown): number | null | undefined {
+  if (value === undefined) return null;
+  const price = typeof value === 'number' ? value : Number(String(value).replace(/[,\s]/g, ''));
+  return Number.isFinite(price) && price >= 0 ? Math.round(price) : undefined;
+}
+
+/**
+ * ISO dates, or Unix timestamps in seconds or milliseconds
+ */
+function parseTimestamp(value: unknown): number | undefined {
+  const number = Number(value);
+  if (Number.isFinite(number) && number > 0) {
+    return number < 1e12 ? number * 1000 : number;
+  }
+  const date = Date.parse(String(value));
+  return isNaN(date) ? undefined : date;
+}
+
+function addRow(result: ParsedMarketPrices, row: number, fields: Record<string, unknown>): void {
+  const name = fields.name !== undefined ? String(fields.name).trim() : undefined;
+  const label = name ?? (fields.itemId !== undefined ? `#${fields.itemId}` : '');
+  const itemId = fields.itemId !== undefined ? Number(fields.itemId) : undefined;
+  const priceNq = parsePrice(fields.priceNq);
+  const priceHq = parsePrice(fields.priceHq);
+  const recordedAt =
+    fields.recordedAt !== undefined ? parseTimestamp(fields.recordedAt) : undefined;
+
+  if (!name && itemId === undefined) {
+    result.errors.push({ row, name: label, reason: 'missing item name' });
+    return;
+  }
+  if (itemId !== undefined && !Number.isInteger(itemId)) {
+    result.errors.push({ row, name: label, reason: `invalid item ID "${fields.itemId}"` });
+    return;
+  }
+  if (priceNq === undefined || priceHq === undefined) {
+    const value = priceNq === undefined ? fields.priceNq : fields.priceHq;
+    result.errors.push({ row, name: label, reason: `invalid price "${value}"` });
+    return;
+  }
+  if (priceNq === null && priceHq === null) {
+    result.errors.push({ row, name: label, reason: 'missing price' });
+    return;
+  }
+  if (fields.recordedAt !== undefined && recordedAt === undefined) {
+    result.errors.push({ row, name: label, reason: `invalid date "${fields.recordedAt}"` });
+    return;
+  }
+
+  result.rows.push({
+    row,
+    name,
+    itemId,
+    world: fields.world !== undefined ? String(fields.world).trim() : undefined,
+    priceNq,
+    priceHq,
+    recordedAt,
+  });
+}
@@ -0,0 +1,203 @@
+/**
+ * Calendar Service
+ *
+ * Turns upcoming fish and timed gathering node windows into calendar events
+ * and iCalendar (.ics) documents.
+ */
+
+import type { FishTrackerService } from './fishTracker.js';
+import type { GatheringNodeService } from './gatheringNodeService.js';
+import type { PlayerProfileService } from './playerProfile.js';
+import { formatTimeWindow, getTimeWindowIntervals } from '../utils/eorzeanTime.js';
+import { buildICalendar, type CalendarEvent } from '../utils/icalendar.js';
+
+export interface CalendarTargets {
+  fishIds: number[];
+  nodeIds: number[];
+}
+
+export interface CalendarTargetOptions {
+  /** Include every big fish the character hasn't caught yet */
+  uncaughtBigFish?: boolean;
+  /** Include every timed gathering node */
+  timedNodes?: boolean;
+}
+
+export interface CalendarWindowOptions {
+  /** Windows per fish/node (default: 5) */
+  count?: number;
+  /** How many real days ahead to search (default: 7) */
+  horizonDays?: number;
+  from?: Date;
+}
+
+export class CalendarService {
+  private fishTracker: FishTrackerService;
+  private nodeService: GatheringNodeService;
+
+  constructor(fishTracker: FishTrackerService, nodeService: GatheringNodeService) {
+    this.fishTracker = fishTracker;
+    this.nodeService = nodeService;
+  }
+
+  /**
+   * Collect the fish and node IDs to export for a character: its fish and
+   * gathering node bookmarks, plus uncaught big fish / all timed nodes if asked
+   */
+  collectTargets(
+    profileService: PlayerProfileService,
+    characterId: string,
+    options: CalendarTargetOptions = {}
+  ): CalendarTargets {
+    const fishIds = new Set(profileService.getBookmarks(characterId, 'fish').map((b) => b.itemId));
+    const nodeIds = new Set(
+      profileService.getBookmarks(characterId, 'gathering_node').map((b) => b.itemId)
+    );
+
+    if (options.uncaughtBigFish) {
+      const caught = new Set(profileService.getCaughtFish(characterId).map((c) => c.fishId));
+      for (const fish of this.fishTracker.getBigFish()) {
+        if (!caught.has(fish._id)) fishIds.add(fish._id);
+      }
+    }
+
+    if (options.timedNodes) {
+      for (const node of this.nodeService.getTimedNodes()) {
+        nodeIds.add(node.id);
+      }
+    }
+
+    return { fishIds: [...fishIds], nodeIds: [...nodeIds] };
+  }
+
+  /**
+   * Build events for the next N windows of each fish
+   * Description includes location, bait chain and weather
+   */
+  getFishEvents(fishIds: number[], options: CalendarWindowOptions = {}): CalendarEvent[] {
+    const { count = 5, horizonDays = 7, from = new Date() } = options;
+    const events: CalendarEvent[] = [];
+
+    for (const fishId of fishIds) {
+      const fish = this.fishTracker.getFishById(fishId);
+      if (!fish) continue;
+
+      const name = fish.name || `Fish #${fishId}`;
+      const location = fish.location
+        ? this.fishTracker.getLocationName(fish.location) || undefined
+        : undefined;
+      const weatherName = (weatherId: number) =>
+        this.fishTracker.getWeatherName(weatherId) || `Weather ${weatherId}`;
+      const baitChain = fish.bestCatchPath
+        .map((itemId) => this.fishTracker.getItemName(itemId) || `Item ${itemId}`)
+        .join(' → ');
+
+      for (const window of this.fishTracker.getUpcomingWindows(fish, {
+        count,
+        horizonDays,
+        from,
+      })) {
+        const description = [`Time: ${formatTimeWindow(fish.startHour, fish.endHour)} ET`];
+
+        if (window.weather !== null) {
+          description.push(
+            window.previousWeather !== null && fish.previousWeatherSet.length > 0
+              ? `Weather: ${weatherName(window.previousWeather)} → ${weatherName(window.weather)}`
+              : `Weather: ${weatherName(window.weather)}`
+          );
+        }
+        if (fish.weatherSet.length > 0) {
+          description.push(`Needs: ${fish.weatherSet.map(weatherName).join(', ')}`);
+        }
+        if (fish.previousWeatherSet.length > 0) {
+          description.push(`After: ${fish.previousWeatherSet.map(weatherName).join(', ')}`);
+        }
+        if (baitChain) {
+          description.push(`Bait: ${baitChain}`);
+        }
+        if (location) {
+          description.push(`Location: ${location}`);
+        }
+
+        events.push({
+          // Keyed by the end, which doesn't move when an open window is clipped to `from`
+          uid: `fish-${fishId}-${window.end.getTime()}@eorzea`,
+          start: window.start,
+          end: window.end,
+          summary: `🎣 ${name}`,
+          location,
+          description: description.join('\n'),
+          categories: fish.bigFish ? ['Fishing', 'Big Fish'] : ['Fishing'],
+        });
+      }
+    }
+
+    return events;
+  }
+
+  /**
+   * Build events for the next N windows of each timed gathering node
+   * Description includes location, coordinates and gatherable items
+   */
+  getNodeEvents(nodeIds: number[], options: CalendarWindowOptions = {}): CalendarEvent[] {
+    const { count = 5, horizonDays = 7, from = new Date() } = options;
+    const until = new Date(from.getTime() + horizonDays * 24 * 60 * 60 * 1000);
+    const events: CalendarEvent[] = [];
+
+    for (const nodeId of nodeIds) {
+      const node = this.nodeService.getNodeById(nodeId);
+      if (!node || node.start_hour >= 24) continue;
+
+      const name = node.name || `Level ${node.level} ${node.type} node`;
+      const location = node.location_name || undefined;
+      const items = this.nodeService
+        .getItemsAtNode(nodeId)
+        .map((item) => item.item_name || `Item ${item.item_id}`);
+
+      const description = [
+        `Time: ${formatTimeWindow(node.start_hour, node.end_hour)} ET`,
+        `Level ${node.level} ${node.type}`,
+      ];
+      if (location) {
+        description.push(
+          node.x !== null && node.y !== null
+            ? `Location: ${location} (${node.x}, ${node.y})`
+            : `Location: ${location}`
+        );
+      }
+      if (items.length > 0) {
+        description.push(`Items: ${items.join(', ')}`);
+      }
+      if (node.folklore) {
+        description.push('Requires folklore');
+      }
+
+      const intervals = getTimeWindowIntervals(node.start_hour, node.end_hour, from, until);
+      for (const interval of intervals.slice(0, count)) {
+        events.push({
+          uid: `node-${nodeId}-${interval.end.getTime()}@eorzea`,
+          start: interval.start,
+          end: interval.end,
+          summary: `⛏️ ${name}`,
+          location,
+          description: description.join('\n'),
+          categories: ['Gathering'],
+        });
+      }
+    }
+
+    return events;
+  }
+
+  /**
+   * Build an .ics document with the windows for the given targets, soonest first
+   */
+  buildCalendar(targets: CalendarTargets, options: CalendarWindowOptions = {}): string {
+    const events = [
+      ...this.getFishEvents(targets.fishIds, options),
+      ...this.getNodeEvents(targets.nodeIds, options),
+    ].sort((a, b) => a.start.getTime() - b.start.getTime());
+
+    return buildICalendar(events, 'Eorzea Windows');
+  }
+}
@@ -24,23 +24,26 @@ import type {
   OrchestrionComplete,
   OrchestrionSearchOptions,
   OrchestrionSearchResult,
-  ObtainedMount,
-  ObtainedCompanion,
-  ObtainedOrchestrion,
   CollectionStats,
   CollectibleGuide,
   CollectibleType,
   CollectibleSource,
   CollectibleSourceType,
 } from '../types/collectibles.js';
+import { getUserDataRepository, type UserDataRepository } from './userDataRepository.js';
 
 export class CollectiblesService {
   private db: Database.Database;
+  private userData: UserDataRepository;
 
-  constructor(dbPath?: string) {
+  /**
+   * @param userData - Character progress store (defaults to the shared userData.db repository)
+   */
+  constructor(dbPath?: string, userData: UserDataRepository = getUserDataRepository()) {
     const path = dbPath || join(process.cwd(), 'data', 'gameData.db');
     this.db = new Database(path, { readonly: true });
     this.db.pragma('foreign_keys = ON');
+    this.userData = userData;
   }
 
   // ============================================================================
@@ -50,7 +53,7 @@ export class CollectiblesService {
   /**
    * Get mount by ID
    */
-  getMountById(id: number, characterId?: number): MountComplete | null {
+  getMountById(id: number, characterId?: string): MountComplete | null {
     const mount = this.db
       .prepare(
         `
@@ -69,15 +72,7 @@ export class CollectiblesService {
 
     // Check if obtained by character
     if (characterId !== undefined) {
-      const obtained = this.db
-        .prepare(
-          `
-        SELECT obtained_at, obtained_from
-        FROM obtained_mounts
-        WHERE character_id = ? AND mount_id = ?
-      `
-        )
-        .get(characterId, id) as { obtained_at: string; obtained_from: string } | undefined;
+      const obtained = this.userData.getObtainedCollectible(characterId, 'mount', id);
 
       mount.obtained = !!obtained;
       mount.obtained_at = obtained?.obtained_at;
@@ -90,7 +85,7 @@ export class CollectiblesService {
   /**
    * Search mounts with filters
    */
-  searchMounts(options: MountSearchOptions, characterId?: number): MountSearchResult {
+  searchMounts(options: MountSearchOptions, characterId?: string): MountSearchResult {
     const {
       name,
       is_flying,
@@ -142,25 +137,8 @@ export class CollectiblesService {
 
     // Filter by obtained status
     if (obtained !== undefined && characterId !== undefined) {
-      if (obtained) {
-        query += `
-          AND m.id IN (
-            SELECT mount_id
-            FROM obtained_mounts
-            WHERE character_id = ?
-          )
-        `;
-        params.push(characterId);
-      } else {
-        query += `
-          AND m.id NOT IN (
-            SELECT mount_id
-            FROM obtained_mounts
-            WHERE character_id = ?
-          )
-        `;
-        params.push(characterId);
-      }
+      query += ` AND m.id ${obtained ? 'IN' : 'NOT IN'} (SELECT value FROM json_each(?))`;
+      params.push(this.getObtainedIds(characterId, 'mount'));
     }
 
     // Get total count
@@ -178,15 +156,7 @@ export class CollectiblesService {
       mount.sources = this.getCollectibleSources('mount', mount.id);
 
       if (characterId !== undefined) {
-        const obtained = this.db
-          .prepare(
-            `
-          SELECT obtained_at, obtained_from
-          FROM obtained_mounts
-          WHERE character_id = ? AND mount_id = ?
-        `
-          )
-          .get(characterId, mount.id) as { obtained_at: string; obtained_from: string } | undefined;
+        const obtained = this.userData.getObtainedCollectible(characterId, 'mount', mount.id);
 
         mount.obtained = !!obtained;
         mount.obtained_at = obtained?.obtained_at;
@@ -206,29 +176,12 @@ export class CollectiblesService {
    * Track obtained mount for a character
    */
   trackObtainedMount(
-    characterId: number,
+    characterId: string,
     mountId: number,
     obtainedFrom?: string,
     notes?: string
   ): void {
-    const writeDb = new Database(join(process.cwd(), 'data', 'gameData.db'));
-
-    try {
-      writeDb
-        .prepare(
-          `
-        INSERT INTO obtained_mounts (character_id, mount_id, obtained_at, obtained_from, notes)
-        VALUES (?, ?, datetime('now'), ?, ?)
-        ON CONFLICT(character_id, mount_id) DO UPDATE SET
-          obtained_at = datetime('now'),
-          obtained_from = excluded.obtained_from,
-          notes = excluded.notes
-      `
-        )
-        .run(characterId, mountId, obtainedFrom, notes);
-    } finally {
-      writeDb.close();
-    }
+    this.userData.markCollectibleObtained(characterId, 'mount', mountId, obtainedFrom, notes);
   }
 
   // ============================================================================
@@ -238,7 +191,7 @@ export class CollectiblesService {
   /**
    * Get companion by ID
    */
-  getCompanionById(id: number, characterId?: number): CompanionComplete | null {
+  getCompanionById(id: number, characterId?: string): CompanionComplete | null {
     const companion = this.db
       .prepare(
         `
@@ -257,15 +210,7 @@ export class CollectiblesService {
 
     // Check if obtained by character
     if (characterId !== undefined) {
-      const obtained = this.db
-        .prepare(
-          `
-        SELECT obtained_at, obtained_from
-        FROM obtained_companions
-        WHERE character_id = ? AND companion_id = ?
-      `
-        )
-        .get(characterId, id) as { obtained_at: string; obtained_from: string } | undefined;
+      const obtained = this.userData.getObtainedCollectible(characterId, 'companion', id);
 
       companion.obtained = !!obtained;
       companion.obtained_at = obtained?.obtained_at;
@@ -278,7 +223,7 @@ export class CollectiblesService {
   /**
    * Search companions with filters
    */
-  searchCompanions(options: CompanionSearchOptions, characterId?: number): CompanionSearchResult {
+  searchCompanions(options: CompanionSearchOptions, characterId?: string): CompanionSearchResult {
     const { name, is_battle, source_type, obtained, limit = 50, offset = 0 } = options;
 
     let query = `
@@ -312,25 +257,8 @@ export class CollectiblesService {
 
     // Filter by obtained status
     if (obtained !== undefined && characterId !== undefined) {
-      if (obtained) {
-        query += `
-          AND c.id IN (
-            SELECT companion_id
-            FROM obtained_companions
-            WHERE character_id = ?
-          )
-        `;
-        params.push(characterId);
-      } else {
-        query += `
-          AND c.id NOT IN (
-            SELECT companion_id
-            FROM obtained_companions
-            WHERE character_id = ?
-          )
-        `;
-        params.push(characterId);
-      }
+      query += ` AND c.id ${obtained ? 'IN' : 'NOT IN'} (SELECT value FROM json_each(?))`;
+      params.push(this.getObtainedIds(characterId, 'companion'));
     }
 
     // Get total count
@@ -348,17 +276,11 @@ export class CollectiblesService {
       companion.sources = this.getCollectibleSources('companion', companion.id);
 
       if (characterId !== undefined) {
-        const obtained = this.db
-          .prepare(
-            `
-          SELECT obtained_at, obtained_from
-          FROM obtained_companions
-          WHERE character_id = ? AND companion_id = ?
-        `
-          )
-          .get(characterId, companion.id) as
-          | { obtained_at: string; obtained_from: string }
-          | undefined;
+        const obtained = this.userData.getObtainedCollectible(
+          characterId,
+          'companion',
+          companion.id
+        );
 
         companion.obtained = !!obtained;
         companion.obtained_at = obtained?.obtained_at;
@@ -378,29 +300,18 @@ export class CollectiblesService {
    * Track obtained companion for a character
    */
   trackObtainedCompanion(
-    characterId: number,
+    characterId: string,
     companionId: number,
     obtainedFrom?: string,
     notes?: string
   ): void {
-    const writeDb = new Database(join(process.cwd(), 'data', 'gameData.db'));
-
-    try {
-      writeDb
-        .prepare(
-          `
-        INSERT INTO obtained_companions (character_id, companion_id, obtained_at, obtained_from, notes)
-        VALUES (?, ?, datetime('now'), ?, ?)
-        ON CONFLICT(character_id, companion_id) DO UPDATE SET
-          obtained_at = datetime('now'),
-          obtained_from = excluded.obtained_from,
-          notes = excluded.notes
-      `
-        )
-        .run(characterId, companionId, obtainedFrom, notes);
-    } finally {
-      writeDb.close();
-    }
+    this.userData.markCollectibleObtained(
+      characterId,
+      'companion',
+      companionId,
+      obtainedFrom,
+      notes
+    );
   }
 
   // ============================================================================
@@ -410,7 +321,7 @@ export class CollectiblesService {
   /**
    * Get orchestrion roll by ID
    */
-  getOrchestrionById(id: number, characterId?: number): OrchestrionComplete | null {
+  getOrchestrionById(id: number, characterId?: string): OrchestrionComplete | null {
     const orchestrion = this.db
       .prepare(
         `
@@ -433,15 +344,7 @@ export class CollectiblesService {
 
     // Check if obtained by character
     if (characterId !== undefined) {
-      const obtained = this.db
-        .prepare(
-          `
-        SELECT obtained_at, obtained_from
-        FROM obtained_orchestrion
-        WHERE character_id = ? AND orchestrion_id = ?
-      `
-        )
-        .get(characterId, id) as { obtained_at: string; obtained_from: string } | undefined;
+      const obtained = this.userData.getObtainedCollectible(characterId, 'orchestrion', id);
 
       orchestrion.obtained = !!obtained;
       orchestrion.obtained_at = obtained?.obtained_at;
@@ -456,7 +359,7 @@ export class CollectiblesService {
    */
   searchOrchestrion(
     options: OrchestrionSearchOptions,
-    characterId?: number
+    characterId?: string
   ): OrchestrionSearchResult {
     const { name, category_id, category_name, source_type, obtained, limit = 50, offset = 0 } = options;
 
@@ -499,25 +402,8 @@ export class CollectiblesService {
 
     // Filter by obtained status
     if (obtained !== undefined && characterId !== undefined) {
-      if (obtained) {
-        query += `
-          AND o.id IN (
-            SELECT orchestrion_id
-            FROM obtained_orchestrion
-            WHERE character_id = ?
-          )
-        `;
-        params.push(characterId);
-      } else {
-        query += `
-          AND o.id NOT IN (
-            SELECT orchestrion_id
-            FROM obtained_orchestrion
-            WHERE character_id = ?
-          )
-        `;
-        params.push(characterId);
-      }
+      query += ` AND o.id ${obtained ? 'IN' : 'NOT IN'} (SELECT value FROM json_each(?))`;
+      params.push(this.getObtainedIds(characterId, 'orchestrion'));
     }
 
     // Get total count
@@ -538,15 +424,7 @@ export class CollectiblesService {
       roll.sources = this.getCollectibleSources('orchestrion', roll.id);
 
       if (characterId !== undefined) {
-        const obtained = this.db
-          .prepare(
-            `
-          SELECT obtained_at, obtained_from
-          FROM obtained_orchestrion
-          WHERE character_id = ? AND orchestrion_id = ?
-        `
-          )
-          .get(characterId, roll.id) as { obtained_at: string; obtained_from: string } | undefined;
+        const obtained = this.userData.getObtainedCollectible(characterId, 'orchestrion', roll.id);
 
         roll.obtained = !!obtained;
         roll.obtained_at = obtained?.obtained_at;
@@ -566,29 +444,18 @@ export class CollectiblesService {
    * Track obtained orchestrion roll for a character
    */
   trackObtainedOrchestrion(
-    characterId: number,
+    characterId: string,
     orchestrionId: number,
     obtainedFrom?: string,
     notes?: string
   ): void {
-    const writeDb = new Database(join(process.cwd(), 'data', 'gameData.db'));
-
-    try {
-      writeDb
-        .prepare(
-          `
-        INSERT INTO obtained_orchestrion (character_id, orchestrion_id, obtained_at, obtained_from, notes)
-        VALUES (?, ?, datetime('now'), ?, ?)
-        ON CONFLICT(character_id, orchestrion_id) DO UPDATE SET
-          obtained_at = datetime('now'),
-          obtained_from = excluded.obtained_from,
-          notes = excluded.notes
-      `
-        )
-        .run(characterId, orchestrionId, obtainedFrom, notes);
-    } finally {
-      writeDb.close();
-    }
+    this.userData.markCollectibleObtained(
+      characterId,
+      'orchestrion',
+      orchestrionId,
+      obtainedFrom,
+      notes
+    );
   }
 
   // ============================================================================
@@ -598,42 +465,44 @@ export class CollectiblesService {
   /**
    * Get collection statistics for a character
    */
-  getCollectionStats(characterId: number): CollectionStats {
+  getCollectionStats(characterId: string): CollectionStats {
+    const mountIds = this.getObtainedIds(characterId, 'mount');
+    const companionIds = this.getObtainedIds(characterId, 'companion');
+    const orchestrionIds = this.getObtainedIds(characterId, 'orchestrion');
+
     // Mount stats
     const mountStats = this.db
       .prepare(
         `
       SELECT
         COUNT(*) as total,
-        (SELECT COUNT(*) FROM obtained_mounts WHERE character_id = ?) as obtained,
+        SUM(CASE WHEN id IN (SELECT value FROM json_each(?)) THEN 1 ELSE 0 END) as obtained,
         SUM(CASE WHEN is_flying = 1 THEN 1 ELSE 0 END) as total_flying,
         SUM(CASE WHEN is_seats > 1 THEN 1 ELSE 0 END) as total_multi_seat
       FROM mounts
     `
       )
-      .get(characterId) as any;
+      .get(mountIds) as any;
 
     const mountsFlyingObtained = this.db
       .prepare(
         `
       SELECT COUNT(*) as count
-      FROM obtained_mounts om
-      JOIN mounts m ON om.mount_id = m.id
-      WHERE om.character_id = ? AND m.is_flying = 1
+      FROM mounts m
+      WHERE m.id IN (SELECT value FROM json_each(?)) AND m.is_flying = 1
     `
       )
-      .get(characterId) as any;
+      .get(mountIds) as any;
 
     const mountsMultiSeatObtained = this.db
       .prepare(
         `
       SELECT COUNT(*) as count
-      FROM obtained_mounts om
-      JOIN mounts m ON om.mount_id = m.id
-      WHERE om.character_id = ? AND m.is_seats > 1
+      FROM mounts m
+      WHERE m.id IN (SELECT value FROM json_each(?)) AND m.is_seats > 1
     `
       )
-      .get(characterId) as any;
+      .get(mountIds) as any;
 
     // Companion stats
     const companionStats = this.db
@@ -641,23 +510,22 @@ export class CollectiblesService {
         `
       SELECT
         COUNT(*) as total,
-        (SELECT COUNT(*) FROM obtained_companions WHERE character_id = ?) as obtained,
+        SUM(CASE WHEN id IN (SELECT value FROM json_each(?)) THEN 1 ELSE 0 END) as obtained,
         SUM(CASE WHEN is_battle = 1 THEN 1 ELSE 0 END) as total_battle
       FROM companions
     `
       )
-      .get(characterId) as any;
+      .get(companionIds) as any;
 
     const companionsBattleObtained = this.db
       .prepare(
         `
       SELECT COUNT(*) as count
-      FROM obtained_companions oc
-      JOIN companions c ON oc.companion_id = c.id
-      WHERE oc.character_id = ? AND c.is_battle = 1
+      FROM companions c
+      WHERE c.id IN (SELECT value FROM json_each(?)) AND c.is_battle = 1
     `
       )
-      .get(characterId) as any;
+      .get(companionIds) as any;
 
     // Orchestrion stats
     const orchestrionStats = this.db
@@ -665,11 +533,11 @@ export class CollectiblesService {
         `
       SELECT
         COUNT(*) as total,
-        (SELECT COUNT(*) FROM obtained_orchestrion WHERE character_id = ?) as obtained
+        SUM(CASE WHEN id IN (SELECT value FROM json_each(?)) THEN 1 ELSE 0 END) as obtained
       FROM orchestrion_rolls
     `
       )
-      .get(characterId) as any;
+      .get(orchestrionIds) as any;
 
     // Orchestrion by category
     const orchestrionByCategory = this.db
@@ -677,14 +545,14 @@ export class CollectiblesService {
         `
       SELECT
         oc.name as category,
-        COUNT(DISTINCT oo.orchestrion_id) as count
+        COUNT(DISTINCT oo.value) as count
       FROM orchestrion_categories oc
       LEFT JOIN orchestrion_rolls o ON oc.id = o.orchestrion_category_id
-      LEFT JOIN obtained_orchestrion oo ON o.id = oo.orchestrion_id AND oo.character_id = ?
+      LEFT JOIN json_each(?) oo ON o.id = oo.value
       GROUP BY oc.name
     `
       )
-      .all(characterId) as any[];
+      .all(orchestrionIds) as any[];
 
     const byCategoryMap: Record<string, number> = {};
     orchestrionByCategory.forEach((row) => {
@@ -695,7 +563,7 @@ export class CollectiblesService {
       character_id: characterId,
       mounts: {
         total: mountStats.total,
-        obtained: mountStats.obtained,
+        obtained: mountStats.obtained || 0,
         flying: mountsFlyingObtained.count,
         multi_seat: mountsMultiSeatObtained.count,
         progress_percentage:
@@ -705,7 +573,7 @@ export class CollectiblesService {
       },
       companions: {
         total: companionStats.total,
-        obtained: companionStats.obtained,
+        obtained: companionStats.obtained || 0,
         battle: companionsBattleObtained.count,
         progress_percentage:
           companionStats.total > 0
@@ -714,7 +582,7 @@ export class CollectiblesService {
       },
       orchestrion: {
         total: orchestrionStats.total,
-        obtained: orchestrionStats.obtained,
+        obtained: orchestrionStats.obtained || 0,
         by_category: byCategoryMap,
         progress_percentage:
           orchestrionStats.total > 0
@@ -734,7 +602,7 @@ export class CollectiblesService {
   getCollectibleGuide(
     collectibleType: CollectibleType,
     collectibleId: number,
-    characterId?: number
+    characterId?: string
   ): CollectibleGuide | null {
     let collectible: any;
     let name: string;
@@ -848,6 +716,8 @@ export class CollectiblesService {
         return `Eureka reward: ${name}`;
       case 'bozja':
         return `Bozja/Zadnor reward: ${name}`;
+      case 'leve':
+        return `Levequest reward: ${name}`;
       default:
         return name;
     }
@@ -919,6 +789,14 @@ export class CollectiblesService {
       .all() as Array<{ id: number; name: string }>;
   }
 
+  /**
+   * IDs of a character's obtained collectibles as a JSON array, for json_each()
+   */
+  private getObtainedIds(characterId: string, type: CollectibleType): string {
+    const obtained = this.userData.getObtainedCollectibles(characterId, type);
+    return JSON.stringify(obtained.map((collectible) => collectible.collectible_id));
+  }
+
   /**
    * Close database connection
    */
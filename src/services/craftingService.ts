@@ -6,6 +6,7 @@
  * - Ingredient tracking with full item details
  * - Recursive material tree generation
  * - Complete crafting guides
+ * - Profit analysis against market prices
  * - Crafted item tracking per character
  */
 
@@ -23,15 +24,26 @@ import type {
   CraftTypeName,
   CraftingMaterialTree,
   CraftingGuide,
+  CraftPlan,
+  CraftPlanItem,
+  CraftPlanStep,
+  CraftingProfit,
 } from '../types/crafting.js';
+import type { PriceProvider } from '../types/market.js';
+import { getUserDataRepository, type UserDataRepository } from './userDataRepository.js';
 
 export class CraftingService {
   private db: Database.Database;
+  private userData: UserDataRepository;
 
-  constructor(dbPath?: string) {
+  /**
+   * @param userData - Character progress store (defaults to the shared userData.db repository)
+   */
+  constructor(dbPath?: string, userData: UserDataRepository = getUserDataRepository()) {
     const path = dbPath || join(process.cwd(), 'data', 'gameData.db');
     this.db = new Database(path, { readonly: true });
     this.db.pragma('foreign_keys = ON');
+    this.userData = userData;
   }
 
   /**
@@ -275,8 +287,15 @@ export class CraftingService {
 
   /**
    * Get material tree (recursive for crafted ingredients)
+   * With `owned`, owned quantities are used up at each level before recursing, so
+   * intermediates already in the inventory aren't expanded. The map is consumed
    */
-  getMaterialTree(recipeId: number, visitedRecipes: Set<number> = new Set()): CraftingMaterialTree[] {
+  getMaterialTree(
+    recipeId: number,
+    visitedRecipes: Set<number> = new Set(),
+    owned?: Map<number, number>,
+    multiplier: number = 1
+  ): CraftingMaterialTree[] {
     // Prevent infinite recursion
     if (visitedRecipes.has(recipeId)) {
       return [];
@@ -298,6 +317,18 @@ export class CraftingService {
         })) || [],
       };
 
+      // Use owned items first, across all crafts of the parent
+      const needed = ingredient.quantity * multiplier;
+      let stillNeeded = needed;
+      if (owned) {
+        const used = Math.min(owned.get(ingredient.item_id) || 0, needed);
+        if (used > 0) {
+          owned.set(ingredient.item_id, (owned.get(ingredient.item_id) || 0) - used);
+          tree.quantity_owned = used;
+          stillNeeded -= used;
+        }
+      }
+
       // Check if this ingredient can be crafted
       const craftingRecipe = this.db
         .prepare(
@@ -309,9 +340,14 @@ export class CraftingService {
         )
         .get(ingredient.item_id) as { id: number } | undefined;
 
-      if (craftingRecipe && !visitedRecipes.has(craftingRecipe.id)) {
+      if (craftingRecipe && !visitedRecipes.has(craftingRecipe.id) && stillNeeded > 0) {
         // Recursively get sub-materials
-        tree.sub_materials = this.getMaterialTree(craftingRecipe.id, new Set(visitedRecipes));
+        tree.sub_materials = this.getMaterialTree(
+          craftingRecipe.id,
+          new Set(visitedRecipes),
+          owned,
+          stillNeeded
+        );
       }
 
       materialTree.push(tree);
@@ -322,23 +358,40 @@ export class CraftingService {
 
   /**
    * Get complete crafting guide for a recipe
+   * With `owned` (item ID → quantity), owned materials and intermediates are subtracted
    */
-  getCraftingGuide(recipeId: number): CraftingGuide | null {
+  getCraftingGuide(recipeId: number, owned?: Map<number, number>): CraftingGuide | null {
     const recipe = this.getRecipeById(recipeId);
     if (!recipe) {
       return null;
     }
 
-    const materialTree = this.getMaterialTree(recipeId);
+    const materialTree = this.getMaterialTree(recipeId, new Set(), owned && new Map(owned));
 
     // Flatten material tree to get total materials needed
     const totalMaterials = this.flattenMaterialTree(materialTree);
 
     // Get intermediate crafts (recipes needed for ingredients)
-    const intermediateCrafts = this.getIntermediateCrafts(recipeId);
+    let intermediateCrafts = this.getIntermediateCrafts(recipeId);
+    if (owned) {
+      // Drop crafts for intermediates the inventory fully covers
+      const expanded = this.getExpandedItemIds(materialTree);
+      intermediateCrafts = intermediateCrafts.filter((craft) => expanded.has(craft.item_result_id));
+    }
 
-    // Estimate cost (placeholder - would need market data)
-    const estimatedCost = 0;
+    // Price leaf materials at their cheapest gil vendor; the rest has to be gathered or bought elsewhere
+    for (const material of totalMaterials) {
+      const vendor = this.getCheapestVendor(material.item_id);
+      material.vendor_purchasable = vendor !== null;
+      if (vendor) {
+        material.vendor_price = vendor.price;
+        material.vendor_name = vendor.name;
+      }
+    }
+    const estimatedCost = totalMaterials.reduce(
+      (sum, material) => sum + (material.vendor_price || 0) * material.quantity_needed,
+      0
+    );
 
     // Estimate time (placeholder - based on number of steps)
     const estimatedTime = (intermediateCrafts.length + 1) * 5; // 5 minutes per craft
@@ -348,6 +401,9 @@ export class CraftingService {
       total_materials: totalMaterials,
       intermediate_crafts: intermediateCrafts,
       estimated_cost: estimatedCost,
+      non_vendor_materials: totalMaterials
+        .filter((material) => !material.vendor_purchasable)
+        .map((material) => material.item_id),
       estimated_time_minutes: estimatedTime,
       requirements: {
         level: recipe.class_job_level || 1,
@@ -361,54 +417,281 @@ export class CraftingService {
     };
   }
 
+  /**
+   * Build one consolidated plan for crafting several recipes at once
+   * Material trees are merged, so shared intermediates are crafted once, and
+   * each craft is rounded up to whole synths using its recipe's amount_result
+   * With `owned` (item ID → quantity), owned intermediates and raw materials are
+   * used first; the requested items themselves are always crafted
+   */
+  getCraftPlan(items: CraftPlanItem[], owned?: Map<number, number>): CraftPlan {
+    const recipes = new Map<number, RecipeComplete>();
+    const recipeForItem = new Map<number, number | null>();
+    const visiting = new Set<number>();
+    const craftedEdges = new Map<number, Set<number>>(); // recipe ID → ingredient item IDs crafted in the plan
+    const order: number[] = []; // Recipe IDs, each after the recipes it depends on
+    const unknownRecipeIds: number[] = [];
+
+    const findRecipeForItem = (itemId: number): number | null => {
+      if (!recipeForItem.has(itemId)) {
+        const row = this.db
+          .prepare('SELECT id FROM recipes WHERE item_result_id = ? LIMIT 1')
+          .get(itemId) as { id: number } | undefined;
+        recipeForItem.set(itemId, row ? row.id : null);
+      }
+      return recipeForItem.get(itemId) ?? null;
+    };
+
+    const visit = (recipeId: number) => {
+      if (recipes.has(recipeId)) return;
+
+      const recipe = this.getRecipeById(recipeId);
+      if (!recipe) return;
+
+      recipes.set(recipeId, recipe);
+      visiting.add(recipeId);
+
+      const crafted = new Set<number>();
+      for (const ingredient of recipe.ingredients || []) {
+        const subRecipeId = findRecipeForItem(ingredient.item_id);
+        // An ingredient that loops back to a recipe in progress is treated as a raw material
+        if (subRecipeId !== null && !visiting.has(subRecipeId)) {
+          visit(subRecipeId);
+          if (recipes.has(subRecipeId)) crafted.add(ingredient.item_id);
+        }
+      }
+
+      craftedEdges.set(recipeId, crafted);
+      visiting.delete(recipeId);
+      order.push(recipeId);
+    };
+
+    // Requested quantities are per result item. The requested recipe wins for its
+    // item (the first one if several are requested), also where the item is an
+    // intermediate of another request, so it's mapped before anything is expanded
+    const craftDemand = new Map<number, number>();
+    const targetItems = new Set<number>();
+    const requested: Array<{ itemId: number; quantity: number }> = [];
+
+    for (const item of items) {
+      const recipe = this.getRecipeById(item.recipeId);
+      if (!recipe) {
+        unknownRecipeIds.push(item.recipeId);
+        continue;
+      }
+
+      if (!targetItems.has(recipe.item_result_id)) {
+        recipeForItem.set(recipe.item_result_id, recipe.id);
+        targetItems.add(recipe.item_result_id);
+      }
+      requested.push({ itemId: recipe.item_result_id, quantity: item.quantity });
+    }
+
+    for (const { itemId, quantity } of requested) {
+      craftDemand.set(itemId, (craftDemand.get(itemId) || 0) + quantity);
+      visit(recipeForItem.get(itemId)!);
+    }
+
+    // Walk from the requested items down, so every craft sees its full demand
+    // before it passes its own ingredients on
+    const rawDemand = new Map<number, number>();
+    const rawDetails = new Map<number, RecipeIngredientWithDetails>();
+    const steps = new Map<number, CraftPlanStep>();
+    const available = new Map(owned || []);
+
+    const useOwned = (itemId: number, needed: number): number => {
+      const used = Math.min(available.get(itemId) || 0, needed);
+      available.set(itemId, (available.get(itemId) || 0) - used);
+      return used;
+    };
+
+    for (const recipeId of [...order].reverse()) {
+      const recipe = recipes.get(recipeId)!;
+      const needed = craftDemand.get(recipe.item_result_id) || 0;
+      if (needed <= 0 || recipeForItem.get(recipe.item_result_id) !== recipeId) continue;
+
+      const quantityOwned = targetItems.has(recipe.item_result_id)
+        ? 0
+        : useOwned(recipe.item_result_id, needed);
+      if (quantityOwned >= needed) continue;
+
+      const toCraft = needed - quantityOwned;
+      const yieldPerCraft = Math.max(1, recipe.amount_result || 1);
+      const crafts = Math.ceil(toCraft / yieldPerCraft);
+      const crafted = craftedEdges.get(recipeId)!;
+
+      for (const ingredient of recipe.ingredients || []) {
+        const quantity = ingredient.quantity * crafts;
+        const demand = crafted.has(ingredient.item_id) ? craftDemand : rawDemand;
+        demand.set(ingredient.item_id, (demand.get(ingredient.item_id) || 0) + quantity);
+        if (!crafted.has(ingredient.item_id) && !rawDetails.has(ingredient.item_id)) {
+          rawDetails.set(ingredient.item_id, ingredient);
+        }
+      }
+
+      steps.set(recipeId, {
+        recipe_id: recipeId,
+        item_id: recipe.item_result_id,
+        item_name: recipe.result_item_name || 'Unknown',
+        craft_type_name: recipe.craft_type_name,
+        class_job_level: recipe.class_job_level,
+        amount_result: yieldPerCraft,
+        quantity_needed: toCraft,
+        quantity_owned: quantityOwned,
+        crafts,
+        surplus: crafts * yieldPerCraft - toCraft,
+        is_target: targetItems.has(recipe.item_result_id),
+      });
+    }
+
+    const crafts = order
+      .filter((recipeId) => steps.has(recipeId))
+      .map((recipeId) => steps.get(recipeId)!);
+
+    const rawMaterials: CraftPlan['raw_materials'] = [];
+    for (const [itemId, quantity] of rawDemand) {
+      const quantityOwned = useOwned(itemId, quantity);
+      if (quantityOwned >= quantity) continue;
+
+      const ingredient = rawDetails.get(itemId)!;
+      rawMaterials.push({
+        item_id: itemId,
+        item_name: ingredient.item_name || 'Unknown',
+        quantity_needed: quantity - quantityOwned,
+        quantity_owned: quantityOwned || undefined,
+        can_be_hq: ingredient.can_be_hq || false,
+        sources: (ingredient.sources || []).map((source) => ({
+          type: source.type,
+          description: source.name,
+        })),
+      });
+    }
+
+    return {
+      items,
+      raw_materials: rawMaterials,
+      crafts,
+      total_crafts: crafts.reduce((sum, step) => sum + step.crafts, 0),
+      unknown_recipe_ids: unknownRecipeIds,
+    };
+  }
+
+  /**
+   * Compare the cost of one synth's raw materials with the market value of its result
+   * Each material is priced at the cheaper of its gil vendor and its NQ market
+   * price (HQ when only HQ is listed); the inventory isn't subtracted, since
+   * owned materials could be sold instead. Profit is left out while any
+   * material has no price.
+   */
+  async getCraftingProfit(
+    recipeId: number,
+    prices: PriceProvider,
+    world: string,
+    hq: boolean = false
+  ): Promise<CraftingProfit | null> {
+    const guide = this.getCraftingGuide(recipeId);
+    if (!guide) {
+      return null;
+    }
+
+    const { recipe } = guide;
+    const marketPrices = await prices.getPrices(
+      [recipe.item_result_id, ...guide.total_materials.map((material) => material.item_id)],
+      world
+    );
+
+    const materials: CraftingProfit['materials'] = guide.total_materials.map((material) => {
+      const market = marketPrices.get(material.item_id);
+      const marketPrice = market ? (market.price_nq ?? market.price_hq) : null;
+      const vendorPrice = material.vendor_price ?? null;
+
+      let unitPrice: number | null = null;
+      let priceSource: 'vendor' | 'market' | null = null;
+      if (vendorPrice !== null && (marketPrice === null || vendorPrice <= marketPrice)) {
+        unitPrice = vendorPrice;
+        priceSource = 'vendor';
+      } else if (marketPrice !== null) {
+        unitPrice = marketPrice;
+        priceSource = 'market';
+      }
+
+      return {
+        item_id: material.item_id,
+        item_name: material.item_name,
+        quantity_needed: material.quantity_needed,
+        unit_price: unitPrice,
+        price_source: priceSource,
+        total_cost: (unitPrice ?? 0) * material.quantity_needed,
+      };
+    });
+
+    const result = marketPrices.get(recipe.item_result_id);
+    const salePrice = (hq ? result?.price_hq : result?.price_nq) ?? null;
+    const amountResult = recipe.amount_result || 1;
+    const saleValue = salePrice !== null ? salePrice * amountResult : null;
+    const materialCost = materials.reduce((sum, material) => sum + material.total_cost, 0);
+    const unpricedMaterials = materials
+      .filter((material) => material.unit_price === null)
+      .map((material) => material.item_id);
+    const profit =
+      saleValue !== null && unpricedMaterials.length === 0 ? saleValue - materialCost : null;
+
+    const usedSnapshots = [...marketPrices.values()].map((price) => price.recorded_at);
+
+    return {
+      recipe_id: recipe.id,
+      item_id: recipe.item_result_id,
+      item_name: recipe.result_item_name || 'Unknown',
+      world,
+      price_source: prices.name,
+      hq,
+      amount_result: amountResult,
+      sale_price: salePrice,
+      sale_value: saleValue,
+      material_cost: materialCost,
+      materials,
+      unpriced_materials: unpricedMaterials,
+      profit,
+      margin_percent:
+        profit !== null && saleValue ? Math.round((profit / saleValue) * 1000) / 10 : null,
+      prices_recorded_at: usedSnapshots.length > 0 ? Math.min(...usedSnapshots) : null,
+    };
+  }
+
   /**
    * Flatten material tree to get total quantities needed
    */
   private flattenMaterialTree(
     tree: CraftingMaterialTree[],
     multiplier: number = 1
-  ): Array<{
-    item_id: number;
-    item_name: string;
-    quantity_needed: number;
-    can_be_hq: boolean;
-    sources: Array<{
-      type: string;
-      description: string;
-      location?: string;
-    }>;
-  }> {
-    const materials = new Map<
-      number,
-      {
-        item_id: number;
-        item_name: string;
-        quantity_needed: number;
-        can_be_hq: boolean;
-        sources: Array<{
-          type: string;
-          description: string;
-          location?: string;
-        }>;
-      }
-    >();
+  ): CraftingGuide['total_materials'] {
+    const materials = new Map<number, CraftingGuide['total_materials'][number]>();
 
     const processNode = (node: CraftingMaterialTree, mult: number) => {
+      // Sub-materials are only needed for what the inventory doesn't cover
+      const quantity = node.quantity * mult - (node.quantity_owned || 0);
+      if (quantity <= 0) {
+        return;
+      }
+
       if (node.sub_materials && node.sub_materials.length > 0) {
         // Has sub-materials, recurse
-        node.sub_materials.forEach((sub) => processNode(sub, mult * node.quantity));
+        node.sub_materials.forEach((sub) => processNode(sub, quantity));
       } else {
         // Leaf node, add to materials
         const existing = materials.get(node.item_id);
-        const quantity = node.quantity * mult;
 
         if (existing) {
           existing.quantity_needed += quantity;
+          if (node.quantity_owned) {
+            existing.quantity_owned = (existing.quantity_owned || 0) + node.quantity_owned;
+          }
         } else {
           materials.set(node.item_id, {
             item_id: node.item_id,
             item_name: node.item_name,
             quantity_needed: quantity,
+            quantity_owned: node.quantity_owned,
             can_be_hq: node.can_be_hq,
             sources: node.sources.map((s) => ({
               type: s.type,
@@ -424,6 +707,22 @@ export class CraftingService {
     return Array.from(materials.values());
   }
 
+  /**
+   * Get the item IDs that are expanded into sub-materials anywhere in a tree
+   */
+  private getExpandedItemIds(
+    tree: CraftingMaterialTree[],
+    ids: Set<number> = new Set()
+  ): Set<number> {
+    for (const node of tree) {
+      if (node.sub_materials && node.sub_materials.length > 0) {
+        ids.add(node.item_id);
+        this.getExpandedItemIds(node.sub_materials, ids);
+      }
+    }
+    return ids;
+  }
+
   /**
    * Get all intermediate crafts needed for a recipe
    */
@@ -477,7 +776,7 @@ export class CraftingService {
    * Track crafted item for a character
    */
   trackCraftedItem(
-    characterId: number,
+    characterId: string,
     recipeId: number,
     itemId: number,
     isHq: boolean = false,
@@ -485,155 +784,109 @@ export class CraftingService {
     collectibility?: number,
     notes?: string
   ): void {
-    const writeDb = new Database(join(process.cwd(), 'data', 'gameData.db'));
-
-    try {
-      writeDb
-        .prepare(
-          `
-        INSERT INTO crafted_items (character_id, recipe_id, item_id, crafted_at, is_hq, is_collectible, collectibility, notes)
-        VALUES (?, ?, ?, datetime('now'), ?, ?, ?, ?)
-        ON CONFLICT(character_id, recipe_id) DO UPDATE SET
-          crafted_at = datetime('now'),
-          is_hq = excluded.is_hq,
-          is_collectible = excluded.is_collectible,
-          collectibility = excluded.collectibility,
-          notes = excluded.notes
-      `
-        )
-        .run(
-          characterId,
-          recipeId,
-          itemId,
-          isHq ? 1 : 0,
-          isCollectible ? 1 : 0,
-          collectibility,
-          notes
-        );
-    } finally {
-      writeDb.close();
-    }
+    this.userData.markItemCrafted(
+      characterId,
+      recipeId,
+      itemId,
+      isHq,
+      isCollectible,
+      collectibility,
+      notes
+    );
   }
 
   /**
    * Get crafted items for a character
    */
-  getCraftedItems(characterId: number, craftType?: CraftTypeName): CraftedItem[] {
-    let query = `
-      SELECT
-        ci.*,
-        i.name as item_name,
-        r.craft_type_id
-      FROM crafted_items ci
-      JOIN items i ON ci.item_id = i.id
-      JOIN recipes r ON ci.recipe_id = r.id
-      WHERE ci.character_id = ?
-    `;
+  getCraftedItems(characterId: string, craftType?: CraftTypeName): CraftedItem[] {
+    const crafted = this.userData.getCraftedItems(characterId);
+    const recipes = this.getCraftedRecipes(crafted);
+
+    return crafted
+      .filter((item) => {
+        const recipe = recipes.get(item.recipe_id);
+        return recipe && (!craftType || recipe.craft_type === craftType);
+      })
+      .map((item) => {
+        const recipe = recipes.get(item.recipe_id)!;
+        return { ...item, item_name: recipe.item_name, craft_type_id: recipe.craft_type_id };
+      });
+  }
 
-    const params: any[] = [characterId];
+  /**
+   * Get crafting statistics for a character
+   */
+  getCraftingStats(characterId: string, craftType?: CraftTypeName): CraftingStats[] {
+    const crafted = this.userData.getCraftedItems(characterId);
+    const recipes = this.getCraftedRecipes(crafted);
+    const statsByType = new Map<CraftTypeName, CraftingStats>();
+
+    for (const item of crafted) {
+      const recipe = recipes.get(item.recipe_id);
+      if (!recipe || (craftType && recipe.craft_type !== craftType)) continue;
+
+      const stats = statsByType.get(recipe.craft_type) || {
+        character_id: characterId,
+        craft_type: recipe.craft_type,
+        total_recipes: 0,
+        recipes_crafted: 0,
+        hq_items_crafted: 0,
+        collectibles_crafted: 0,
+        total_exp_earned: 0,
+        progress_percentage: 0,
+      };
 
-    if (craftType) {
-      query += `
-        AND r.craft_type_id = (
-          SELECT id FROM craft_types WHERE name = ?
-        )
-      `;
-      params.push(craftType);
+      // Progress stores one row per recipe
+      stats.total_recipes++;
+      stats.recipes_crafted++;
+      if (item.is_hq) stats.hq_items_crafted++;
+      if (item.is_collectible) stats.collectibles_crafted++;
+      stats.total_exp_earned += recipe.exp_reward || 0;
+      statsByType.set(recipe.craft_type, stats);
     }
 
-    query += ` ORDER BY ci.crafted_at DESC`;
+    return [...statsByType.values()]
+      .sort((a, b) => a.craft_type.localeCompare(b.craft_type))
+      .map((stats) => {
+        // Calculate progress percentage
+        const totalPossibleRecipes = this.getTotalRecipes(stats.craft_type);
+        const progress =
+          totalPossibleRecipes > 0 ? (stats.recipes_crafted / totalPossibleRecipes) * 100 : 0;
 
-    return this.db.prepare(query).all(...params) as CraftedItem[];
+        return { ...stats, progress_percentage: Math.round(progress * 100) / 100 };
+      });
   }
 
   /**
-   * Get crafting statistics for a character
+   * Recipe details for crafted items, keyed by recipe ID
    */
-  getCraftingStats(characterId: number, craftType?: CraftTypeName): CraftingStats[] {
-    if (craftType) {
-      // Get stats for specific craft type
-      const result = this.db
-        .prepare(
-          `
-        SELECT
-          ? as character_id,
-          ct.name as craft_type,
-          COUNT(*) as total_recipes,
-          COUNT(DISTINCT ci.recipe_id) as recipes_crafted,
-          SUM(CASE WHEN ci.is_hq = 1 THEN 1 ELSE 0 END) as hq_items_crafted,
-          SUM(CASE WHEN ci.is_collectible = 1 THEN 1 ELSE 0 END) as collectibles_crafted,
-          SUM(r.exp_reward) as total_exp_earned
-        FROM crafted_items ci
-        JOIN recipes r ON ci.recipe_id = r.id
-        JOIN craft_types ct ON r.craft_type_id = ct.id
-        WHERE ci.character_id = ? AND ct.name = ?
-        GROUP BY ct.name
-      `
-        )
-        .get(characterId, characterId, craftType) as any;
-
-      if (!result || result.total_recipes === 0) {
-        return [];
-      }
-
-      // Calculate progress percentage
-      const totalPossibleRecipes = this.getTotalRecipes(craftType);
-      const progress = totalPossibleRecipes > 0
-        ? (result.recipes_crafted / totalPossibleRecipes) * 100
-        : 0;
-
-      return [
-        {
-          character_id: characterId,
-          craft_type: result.craft_type as CraftTypeName,
-          total_recipes: result.total_recipes,
-          recipes_crafted: result.recipes_crafted,
-          hq_items_crafted: result.hq_items_crafted,
-          collectibles_crafted: result.collectibles_crafted,
-          total_exp_earned: result.total_exp_earned,
-          progress_percentage: Math.round(progress * 100) / 100,
-        },
-      ];
-    } else {
-      // Get stats for all craft types
-      const results = this.db
-        .prepare(
-          `
-        SELECT
-          ? as character_id,
-          ct.name as craft_type,
-          COUNT(*) as total_recipes,
-          COUNT(DISTINCT ci.recipe_id) as recipes_crafted,
-          SUM(CASE WHEN ci.is_hq = 1 THEN 1 ELSE 0 END) as hq_items_crafted,
-          SUM(CASE WHEN ci.is_collectible = 1 THEN 1 ELSE 0 END) as collectibles_crafted,
-          SUM(r.exp_reward) as total_exp_earned
-        FROM crafted_items ci
-        JOIN recipes r ON ci.recipe_id = r.id
-        JOIN craft_types ct ON r.craft_type_id = ct.id
-        WHERE ci.character_id = ?
-        GROUP BY ct.name
-      `
-        )
-        .all(characterId, characterId) as any[];
-
-      return results.map((result) => {
-        const totalPossibleRecipes = this.getTotalRecipes(result.craft_type as CraftTypeName);
-        const progress = totalPossibleRecipes > 0
-          ? (result.recipes_crafted / totalPossibleRecipes) * 100
-          : 0;
-
-        return {
-          character_id: characterId,
-          craft_type: result.craft_type as CraftTypeName,
-          total_recipes: result.total_recipes,
-          recipes_crafted: result.recipes_crafted,
-          hq_items_crafted: result.hq_items_crafted,
-          collectibles_crafted: result.collectibles_crafted,
-          total_exp_earned: result.total_exp_earned,
-          progress_percentage: Math.round(progress * 100) / 100,
-        };
-      });
+  private getCraftedRecipes(crafted: CraftedItem[]): Map<
+    number,
+    {
+      craft_type_id: number;
+      craft_type: CraftTypeName;
+      item_name: string;
+      exp_reward: number | null;
     }
+  > {
+    const rows = this.db
+      .prepare(
+        `
+      SELECT
+        r.id,
+        r.craft_type_id,
+        ct.name as craft_type,
+        i.name as item_name,
+        r.exp_reward
+      FROM recipes r
+      JOIN items i ON r.item_result_id = i.id
+      JOIN craft_types ct ON r.craft_type_id = ct.id
+      WHERE r.id IN (SELECT value FROM json_each(?))
+    `
+      )
+      .all(JSON.stringify(crafted.map((item) => item.recipe_id))) as any[];
+
+    return new Map(rows.map((row) => [row.id, row]));
   }
 
   /**
@@ -691,6 +944,31 @@ export class CraftingService {
     return recipes;
   }
 
+  /**
+   * Get the cheapest gil vendor for an item, or null if no vendor sells it
+   * Shop sources without a cost fall back to the item's vendor price
+   */
+  private getCheapestVendor(itemId: number): { price: number; name: string } | null {
+    const row = this.db
+      .prepare(
+        `
+      SELECT s.source_name as name,
+        COALESCE(json_extract(s.source_details, '$.cost'), i.price_mid) as price
+      FROM item_sources s
+      JOIN items i ON i.id = s.item_id
+      WHERE s.item_id = ?
+        AND s.source_type IN ('shop', 'vendor')
+        AND COALESCE(json_extract(s.source_details, '$.currency'), 'Gil') = 'Gil'
+        AND COALESCE(json_extract(s.source_details, '$.cost'), i.price_mid) > 0
+      ORDER BY price
+      LIMIT 1
+    `
+      )
+      .get(itemId) as { name: string | null; price: number } | undefined;
+
+    return row ? { price: row.price, name: row.name || 'Vendor' } : null;
+  }
+
   /**
    * Get item name by ID
    */
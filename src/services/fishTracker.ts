@@ -6,11 +6,27 @@
 
 import Database from 'better-sqlite3';
 import { join } from 'path';
-import type { Fish, FishSearchOptions } from '../types/fish.js';
-import { getEorzeanTime, isInTimeWindow } from '../utils/eorzeanTime.js';
+import type {
+  Fish,
+  FishAvailability,
+  FishAvailabilityWindow,
+  FishSearchOptions,
+  IntuitionPlan,
+  IntuitionStep,
+  IntuitionWindow,
+  UpcomingWindowOptions,
+} from '../types/fish.js';
+import {
+  formatTimeWindow,
+  getEorzeanTime,
+  getTimeWindowIntervals,
+  isInTimeWindow,
+} from '../utils/eorzeanTime.js';
 import {
   calculateWeather,
-  findNextWeatherWindow,
+  getNextWeatherPeriodStart,
+  getPreviousWeatherPeriodStart,
+  getWeatherPeriodStart,
   type WeatherRate,
 } from '../utils/weatherForecast.js';
 
@@ -114,13 +130,40 @@ export class FishTrackerService {
   }
 
   /**
-   * Get fish available at current Eorzean time
+   * Get fish that can be caught right now (time window and weather)
+   */
+  getAvailableFish(currentTime: Date = new Date()): FishAvailability[] {
+    return this.getFishInTimeWindow(currentTime).filter((fish) => fish.available);
+  }
+
+  /**
+   * Get every fish whose time window is open, with current/previous weather
+   * at its spot and the reason it can or can't be caught
    */
-  getAvailableFish(currentTime: Date = new Date()): Fish[] {
+  getFishInTimeWindow(currentTime: Date = new Date()): FishAvailability[] {
     const eorzeaTime = getEorzeanTime(currentTime);
-    const allFish = this.searchFish();
+    const ratesByLocation = new Map<number, WeatherRate[] | null>();
+
+    return this.searchFish()
+      .filter((fish) => isInTimeWindow(eorzeaTime.hours, fish.startHour, fish.endHour))
+      .map((fish) => {
+        let rates: WeatherRate[] | null = null;
+        if (fish.location) {
+          if (!ratesByLocation.has(fish.location)) {
+            ratesByLocation.set(fish.location, this.getWeatherRatesForSpot(fish.location));
+          }
+          rates = ratesByLocation.get(fish.location) ?? null;
+        }
+        return this.evaluateAvailability(fish, currentTime, rates);
+      });
+  }
 
-    return allFish.filter((fish) => isInTimeWindow(eorzeaTime.hours, fish.startHour, fish.endHour));
+  /**
+   * Check whether a single fish can be caught at a given time
+   */
+  getFishAvailability(fish: Fish, currentTime: Date = new Date()): FishAvailability {
+    const rates = fish.location ? this.getWeatherRatesForSpot(fish.location) : null;
+    return this.evaluateAvailability(fish, currentTime, rates);
   }
 
   /**
@@ -213,104 +256,159 @@ export class FishTrackerService {
 
   /**
    * Find next available window for a fish considering time and weather
+   * Returns `from` if the fish is available right now
    */
   getNextAvailableWindow(fish: Fish, from: Date = new Date()): Date | null {
-    // Get weather rates for this location
+    const [nextWindow] = this.getUpcomingWindows(fish, { count: 1, from });
+    return nextWindow ? nextWindow.start : null;
+  }
+
+  /**
+   * Plan the next N real-time windows for a fish
+   *
+   * Walks weather periods from `from` up to the horizon, keeps the periods whose
+   * current and previous weather satisfy the fish, and intersects them with the
+   * fish's Eorzean time window. Back-to-back intervals are merged, so each
+   * result runs from the moment the fish becomes catchable until it stops.
+   * A window that is already open at `from` starts at `from`.
+   */
+  getUpcomingWindows(fish: Fish, options: UpcomingWindowOptions = {}): FishAvailabilityWindow[] {
+    const { count = 10, horizonDays = 7, from = new Date() } = options;
+    const horizon = new Date(from.getTime() + horizonDays * 24 * 60 * 60 * 1000);
+
+    // Without weather rates we can only plan on time
     const weatherRates = fish.location ? this.getWeatherRatesForSpot(fish.location) : null;
 
-    // If no weather requirements or no weather rates available, just use time
-    if (!weatherRates || (fish.weatherSet.length === 0 && fish.previousWeatherSet.length === 0)) {
-      // Fallback to time-only calculation
-      const et = getEorzeanTime(from);
-      if (isInTimeWindow(et.hours, fish.startHour, fish.endHour)) {
-        return from; // Available now
+    const windows: FishAvailabilityWindow[] = [];
+    let periodStart = getWeatherPeriodStart(from);
+    let previousWeather = weatherRates
+      ? calculateWeather(getPreviousWeatherPeriodStart(periodStart), weatherRates)
+      : null;
+
+    while (periodStart < horizon) {
+      const periodEnd = getNextWeatherPeriodStart(periodStart);
+      const weather = weatherRates ? calculateWeather(periodStart, weatherRates) : null;
+
+      if (this.matchesWeatherRequirements(fish, weather, previousWeather)) {
+        const intervals = getTimeWindowIntervals(
+          fish.startHour,
+          fish.endHour,
+          periodStart < from ? from : periodStart,
+          periodEnd > horizon ? horizon : periodEnd
+        );
+
+        for (const interval of intervals) {
+          const last = windows[windows.length - 1];
+
+          if (last && last.end.getTime() === interval.start.getTime()) {
+            // Continuation of the previous window into the next weather period
+            last.end = interval.end;
+          } else {
+            if (windows.length >= count) {
+              return windows;
+            }
+            windows.push({ start: interval.start, end: interval.end, weather, previousWeather });
+          }
+        }
       }
 
-      // Calculate next time window (simplified - doesn't account for weather)
-      const hoursUntilStart =
-        fish.startHour > et.hours ? fish.startHour - et.hours : 24 - et.hours + fish.startHour;
+      previousWeather = weather;
+      periodStart = periodEnd;
+    }
+
+    return windows;
+  }
+
+  /**
+   * Get the predators a fish needs for Fisher's Intuition
+   * Carbuncle Plushy stores these as { fishId: count } or as [fishId, count] pairs
+   */
+  getPredators(fish: Fish): Array<{ fishId: number; count: number }> {
+    const predators = fish.predators as unknown;
+
+    if (Array.isArray(predators)) {
+      return predators.map((entry) =>
+        Array.isArray(entry)
+          ? { fishId: Number(entry[0]), count: Number(entry[1]) || 1 }
+          : { fishId: Number(entry), count: 1 }
+      );
+    }
 
-      const millisUntilStart = hoursUntilStart * 175 * 1000;
-      return new Date(from.getTime() + millisUntilStart);
+    if (predators && typeof predators === 'object') {
+      return Object.entries(predators).map(([fishId, count]) => ({
+        fishId: parseInt(fishId),
+        count: Number(count) || 1,
+      }));
     }
 
-    // Find next weather window matching conditions
-    const nextWeatherWindow = findNextWeatherWindow(
-      from,
-      weatherRates,
-      fish.weatherSet,
-      fish.previousWeatherSet.length > 0 ? fish.previousWeatherSet : undefined
-    );
-
-    if (!nextWeatherWindow) return null;
-
-    // Now find when within this weather window the time is right
-    // Weather windows are 8 ET hours (23min 20sec real time)
-    const windowStart = nextWeatherWindow.startTime;
-    const windowEnd = nextWeatherWindow.endTime;
-
-    // Get the ET hour when this weather period starts
-    const weatherStartET = getEorzeanTime(windowStart);
-
-    // Calculate if the fish's time window overlaps with this weather period
-    // This follows Carbuncle Plushy's logic in availableRangeDuring()
-    const fishStartHour = fish.startHour;
-    const fishEndHour = fish.endHour;
-
-    if (fishEndHour < fishStartHour) {
-      // Fish time wraps around midnight (e.g., 20:00-4:00)
-      if (weatherStartET.hours < fishEndHour) {
-        // Weather starts before fish window ends (e.g., weather at 0:00, fish ends at 4:00)
-        // The fish window actually started YESTERDAY and may have already ended
-        // We need to check if we're still within that window
-        const fishWindowStart = new Date(
-          windowStart.getTime() - (24 - fishStartHour + weatherStartET.hours) * 175 * 1000
-        );
-        const fishWindowEnd = new Date(
-          fishWindowStart.getTime() + (24 - fishStartHour + fishEndHour) * 175 * 1000
-        );
+    return [];
+  }
 
-        // Check if the current time falls within this window
-        if (from >= fishWindowStart && from < fishWindowEnd) {
-          return from; // Available right now
-        }
-        // If we've passed the end, this weather period doesn't work
-        if (from >= fishWindowEnd) {
-          return this.getNextAvailableWindow(fish, windowEnd);
-        }
-        // Otherwise, return when the window starts
-        return fishWindowStart > from ? fishWindowStart : from;
-      } else {
-        // Weather starts after fish window ended (e.g., weather at 8:00, fish ended at 4:00)
-        // The fish window starts LATER in this weather period
-        const fishWindowStart = new Date(
-          windowStart.getTime() + (fishStartHour - weatherStartET.hours) * 175 * 1000
-        );
+  /**
+   * Plan a Fisher's Intuition chain for a fish
+   *
+   * Finds the moments where every predator is catchable at once and the last
+   * predator can be landed so that the target is still inside its own window
+   * before intuition (intuitionLength seconds) wears off. Steps list the
+   * predators first, then the target, each with its bait chain.
+   */
+  getIntuitionPlan(fish: Fish, options: UpcomingWindowOptions = {}): IntuitionPlan {
+    const { count = 5, horizonDays = 7, from = new Date() } = options;
+    const horizon = new Date(from.getTime() + horizonDays * 24 * 60 * 60 * 1000);
+    const intuitionMillis = (fish.intuitionLength || 0) * 1000;
+    const predators = this.getPredators(fish);
+
+    const steps: IntuitionStep[] = [];
+    let predatorIntervals: Array<{ start: Date; end: Date }> = [{ start: from, end: horizon }];
+
+    for (const predator of predators) {
+      const predatorFish = this.getFishById(predator.fishId);
+      steps.push(
+        this.buildIntuitionStep(steps.length + 1, predator.fishId, predatorFish, predator.count)
+      );
+
+      // Unknown predators can't narrow the schedule
+      if (!predatorFish) continue;
+
+      const predatorWindows = this.getUpcomingWindows(predatorFish, {
+        count: Infinity,
+        horizonDays,
+        from,
+      });
+      predatorIntervals = this.intersectIntervals(predatorIntervals, predatorWindows);
+    }
 
-        // Check if this fish window start is still within the weather period
-        if (fishWindowStart < windowEnd) {
-          return fishWindowStart > from ? fishWindowStart : from;
-        }
-        // Fish window starts after weather ends, try next weather period
-        return this.getNextAvailableWindow(fish, windowEnd);
-      }
-    } else {
-      // Fish time doesn't wrap (e.g., 8:00-16:00)
-      if (weatherStartET.hours < fishEndHour) {
-        // Weather period might overlap with fish window
-        const fishWindowStart =
-          weatherStartET.hours < fishStartHour
-            ? new Date(windowStart.getTime() + (fishStartHour - weatherStartET.hours) * 175 * 1000)
-            : windowStart;
-
-        // Check if this is still within the weather period
-        if (fishWindowStart < windowEnd) {
-          return fishWindowStart > from ? fishWindowStart : from;
+    steps.push({ ...this.buildIntuitionStep(steps.length + 1, fish._id, fish, 1), isTarget: true });
+
+    const windows: IntuitionWindow[] = [];
+    const targetWindows = this.getUpcomingWindows(fish, { count: Infinity, horizonDays, from });
+
+    for (const targetWindow of targetWindows) {
+      for (const interval of predatorIntervals) {
+        // The last predator (trigger) must land inside the predator interval, and the
+        // target must be catchable somewhere in [trigger, trigger + intuitionLength]
+        const triggerFrom = Math.max(
+          interval.start.getTime(),
+          targetWindow.start.getTime() - intuitionMillis
+        );
+        const triggerUntil = Math.min(interval.end.getTime(), targetWindow.end.getTime());
+
+        if (triggerFrom < triggerUntil) {
+          windows.push({
+            predatorsFrom: interval.start,
+            triggerFrom: new Date(triggerFrom),
+            triggerUntil: new Date(triggerUntil),
+            targetWindow,
+          });
+
+          if (windows.length >= count) {
+            return { fish, intuitionLength: fish.intuitionLength, steps, windows };
+          }
         }
       }
-      // No overlap, try next weather period
-      return this.getNextAvailableWindow(fish, windowEnd);
     }
+
+    return { fish, intuitionLength: fish.intuitionLength, steps, windows };
   }
 
   /**
@@ -321,6 +419,155 @@ export class FishTrackerService {
     return row ? row.name : null;
   }
 
+  /**
+   * Get the zone name of a fishing spot
+   */
+  getLocationName(locationId: number): string | null {
+    const row = this.db
+      .prepare(
+        `
+        SELECT pn.name
+        FROM fishing_spots fs
+        LEFT JOIN place_names pn ON pn.id = fs.zone_id
+        WHERE fs.id = ?
+      `
+      )
+      .get(locationId) as any;
+    return row?.name || null;
+  }
+
+  /**
+   * Combine the time window and weather checks into an availability entry
+   */
+  private evaluateAvailability(
+    fish: Fish,
+    currentTime: Date,
+    rates: WeatherRate[] | null
+  ): FishAvailability {
+    const eorzeaTime = getEorzeanTime(currentTime);
+    const timeOk = isInTimeWindow(eorzeaTime.hours, fish.startHour, fish.endHour);
+
+    const periodStart = getWeatherPeriodStart(currentTime);
+    const currentWeather = rates ? calculateWeather(periodStart, rates) : null;
+    const previousWeather = rates
+      ? calculateWeather(getPreviousWeatherPeriodStart(periodStart), rates)
+      : null;
+
+    const weatherNames = (ids: number[]) =>
+      ids.map((id) => this.getWeatherName(id) || `Weather ${id}`).join(' or ');
+    const hasWeatherRequirement = fish.weatherSet.length > 0 || fish.previousWeatherSet.length > 0;
+
+    let weatherOk = true;
+    let weatherReason: string;
+
+    if (!hasWeatherRequirement) {
+      weatherReason = 'no weather requirement';
+    } else if (currentWeather === null) {
+      weatherReason = 'weather unknown';
+    } else if (fish.weatherSet.length > 0 && !fish.weatherSet.includes(currentWeather)) {
+      weatherOk = false;
+      weatherReason = `weather wrong (need ${weatherNames(fish.weatherSet)})`;
+    } else if (
+      previousWeather !== null &&
+      fish.previousWeatherSet.length > 0 &&
+      !fish.previousWeatherSet.includes(previousWeather)
+    ) {
+      weatherOk = false;
+      weatherReason = `previous weather wrong (need ${weatherNames(fish.previousWeatherSet)} first)`;
+    } else {
+      weatherReason = `weather ok (${weatherNames([currentWeather])})`;
+    }
+
+    const timeReason = timeOk
+      ? 'time ok'
+      : `time wrong (need ${formatTimeWindow(fish.startHour, fish.endHour)} ET)`;
+
+    return {
+      ...fish,
+      available: timeOk && weatherOk,
+      timeOk,
+      weatherOk,
+      currentWeather,
+      previousWeather,
+      reason: `${timeReason}, ${weatherReason}`,
+    };
+  }
+
+  /**
+   * Check current/previous weather against a fish's requirements
+   * Unknown weather (no rates for the spot) never blocks a fish
+   */
+  private matchesWeatherRequirements(
+    fish: Fish,
+    weather: number | null,
+    previousWeather: number | null
+  ): boolean {
+    if (weather !== null && fish.weatherSet.length > 0 && !fish.weatherSet.includes(weather)) {
+      return false;
+    }
+
+    if (
+      previousWeather !== null &&
+      fish.previousWeatherSet.length > 0 &&
+      !fish.previousWeatherSet.includes(previousWeather)
+    ) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Build one step of an intuition chain
+   */
+  private buildIntuitionStep(
+    order: number,
+    fishId: number,
+    fish: Fish | null,
+    count: number
+  ): IntuitionStep {
+    const baitChain = fish ? fish.bestCatchPath : [];
+
+    return {
+      order,
+      fishId,
+      fishName: fish?.name,
+      count,
+      baitChain,
+      baitNames: baitChain.map((baitId) => this.getItemName(baitId) || `Bait ${baitId}`),
+      isTarget: false,
+    };
+  }
+
+  /**
+   * Intersect two sorted lists of non-overlapping intervals
+   */
+  private intersectIntervals(
+    a: Array<{ start: Date; end: Date }>,
+    b: Array<{ start: Date; end: Date }>
+  ): Array<{ start: Date; end: Date }> {
+    const result: Array<{ start: Date; end: Date }> = [];
+    let i = 0;
+    let j = 0;
+
+    while (i < a.length && j < b.length) {
+      const start = Math.max(a[i].start.getTime(), b[j].start.getTime());
+      const end = Math.min(a[i].end.getTime(), b[j].end.getTime());
+
+      if (start < end) {
+        result.push({ start: new Date(start), end: new Date(end) });
+      }
+
+      if (a[i].end.getTime() < b[j].end.getTime()) {
+        i++;
+      } else {
+        j++;
+      }
+    }
+
+    return result;
+  }
+
   /**
    * Map database row to Fish object
    */
@@ -23,14 +23,20 @@ import type {
   GatheringAvailability,
   GatheringTimeWindow,
 } from '../types/gathering.js';
+import { getUserDataRepository, type UserDataRepository } from './userDataRepository.js';
 
 export class GatheringService {
   private db: Database.Database;
+  private userData: UserDataRepository;
 
-  constructor(dbPath?: string) {
+  /**
+   * @param userData - Character progress store (defaults to the shared userData.db repository)
+   */
+  constructor(dbPath?: string, userData: UserDataRepository = getUserDataRepository()) {
     const path = dbPath || join(process.cwd(), 'data', 'gameData.db');
     this.db = new Database(path, { readonly: true });
     this.db.pragma('foreign_keys = ON');
+    this.userData = userData;
   }
 
   /**
@@ -315,153 +321,107 @@ export class GatheringService {
    * Track gathered item for a character
    */
   trackGatheredItem(
-    characterId: number,
+    characterId: string,
     itemId: number,
     gatheringPointId?: number,
     isHq: boolean = false,
     notes?: string
   ): void {
-    const writeDb = new Database(join(process.cwd(), 'data', 'gameData.db'));
-
-    try {
-      writeDb
-        .prepare(
-          `
-        INSERT INTO gathered_items (character_id, item_id, gathering_point_id, gathered_at, is_hq, notes)
-        VALUES (?, ?, ?, datetime('now'), ?, ?)
-        ON CONFLICT(character_id, item_id, gathering_point_id) DO UPDATE SET
-          gathered_at = datetime('now'),
-          is_hq = excluded.is_hq,
-          notes = excluded.notes
-      `
-        )
-        .run(characterId, itemId, gatheringPointId, isHq ? 1 : 0, notes);
-    } finally {
-      writeDb.close();
-    }
+    this.userData.markItemGathered(characterId, itemId, gatheringPointId, isHq, notes);
   }
 
   /**
    * Get gathered items for a character
    */
-  getGatheredItems(characterId: number, gatheringType?: GatheringTypeName): GatheredItem[] {
-    let query = `
-      SELECT
-        gi.*,
-        i.name as item_name
-      FROM gathered_items gi
-      JOIN items i ON gi.item_id = i.id
-      WHERE gi.character_id = ?
-    `;
-
-    const params: any[] = [characterId];
-
-    if (gatheringType) {
-      query += `
-        AND gi.gathering_point_id IN (
-          SELECT gp.id
-          FROM gathering_points gp
-          JOIN gathering_point_base gpb ON gp.gathering_point_base_id = gpb.id
-          JOIN gathering_types gt ON gpb.gathering_type_id = gt.id
-          WHERE gt.name = ?
-        )
-      `;
-      params.push(gatheringType);
-    }
-
-    query += ` ORDER BY gi.gathered_at DESC`;
-
-    return this.db.prepare(query).all(...params) as GatheredItem[];
+  getGatheredItems(characterId: string, gatheringType?: GatheringTypeName): GatheredItem[] {
+    const gathered = this.userData.getGatheredItems(characterId);
+    const itemNames = this.getItemNames(gathered);
+    const pointTypes = gatheringType ? this.getGatheringPointTypes(gathered) : undefined;
+
+    return gathered
+      .filter(
+        (item) =>
+          itemNames.has(item.item_id) &&
+          (!pointTypes ||
+            (item.gathering_point_id !== undefined &&
+              pointTypes.get(item.gathering_point_id) === gatheringType))
+      )
+      .map((item) => ({ ...item, item_name: itemNames.get(item.item_id) }));
   }
 
   /**
    * Get gathering statistics for a character
+   *
+   * Only items tracked at a known gathering point count towards a gathering type
    */
-  getGatheringStats(characterId: number, gatheringType?: GatheringTypeName): GatheringStats[] {
-    if (gatheringType) {
-      // Get stats for specific gathering type
-      const result = this.db
-        .prepare(
-          `
-        SELECT
-          ? as character_id,
-          gt.name as gathering_type,
-          COUNT(*) as total_items,
-          COUNT(DISTINCT gi.item_id) as unique_items_gathered,
-          COUNT(DISTINCT gi.gathering_point_id) as unique_nodes_visited,
-          SUM(CASE WHEN gi.is_hq = 1 THEN 1 ELSE 0 END) as hq_items_gathered
-        FROM gathered_items gi
-        JOIN gathering_points gp ON gi.gathering_point_id = gp.id
-        JOIN gathering_point_base gpb ON gp.gathering_point_base_id = gpb.id
-        JOIN gathering_types gt ON gpb.gathering_type_id = gt.id
-        WHERE gi.character_id = ? AND gt.name = ?
-        GROUP BY gt.name
-      `
-        )
-        .get(characterId, characterId, gatheringType) as any;
+  getGatheringStats(characterId: string, gatheringType?: GatheringTypeName): GatheringStats[] {
+    const gathered = this.userData.getGatheredItems(characterId);
+    const pointTypes = this.getGatheringPointTypes(gathered);
+    const byType = new Map<GatheringTypeName, GatheredItem[]>();
 
-      if (!result || result.total_items === 0) {
-        return [];
-      }
+    for (const item of gathered) {
+      const type =
+        item.gathering_point_id !== undefined ? pointTypes.get(item.gathering_point_id) : undefined;
+      if (!type || (gatheringType && type !== gatheringType)) continue;
 
-      // Calculate progress percentage (placeholder - requires total items count)
-      const totalPossibleItems = this.getTotalGatherableItems(gatheringType);
-      const progress = totalPossibleItems > 0
-        ? (result.unique_items_gathered / totalPossibleItems) * 100
-        : 0;
+      byType.set(type, [...(byType.get(type) || []), item]);
+    }
 
-      return [
-        {
-          character_id: characterId,
-          gathering_type: result.gathering_type as GatheringTypeName,
-          total_items: result.total_items,
-          unique_items_gathered: result.unique_items_gathered,
-          unique_nodes_visited: result.unique_nodes_visited,
-          hq_items_gathered: result.hq_items_gathered,
-          progress_percentage: Math.round(progress * 100) / 100,
-        },
-      ];
-    } else {
-      // Get stats for all gathering types
-      const results = this.db
-        .prepare(
-          `
-        SELECT
-          ? as character_id,
-          gt.name as gathering_type,
-          COUNT(*) as total_items,
-          COUNT(DISTINCT gi.item_id) as unique_items_gathered,
-          COUNT(DISTINCT gi.gathering_point_id) as unique_nodes_visited,
-          SUM(CASE WHEN gi.is_hq = 1 THEN 1 ELSE 0 END) as hq_items_gathered
-        FROM gathered_items gi
-        JOIN gathering_points gp ON gi.gathering_point_id = gp.id
-        JOIN gathering_point_base gpb ON gp.gathering_point_base_id = gpb.id
-        JOIN gathering_types gt ON gpb.gathering_type_id = gt.id
-        WHERE gi.character_id = ?
-        GROUP BY gt.name
-      `
-        )
-        .all(characterId, characterId) as any[];
+    return [...byType.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([type, items]) => {
+        const uniqueItems = new Set(items.map((item) => item.item_id)).size;
 
-      return results.map((result) => {
-        const totalPossibleItems = this.getTotalGatherableItems(
-          result.gathering_type as GatheringTypeName
-        );
-        const progress = totalPossibleItems > 0
-          ? (result.unique_items_gathered / totalPossibleItems) * 100
-          : 0;
+        // Calculate progress percentage (placeholder - requires total items count)
+        const totalPossibleItems = this.getTotalGatherableItems(type);
+        const progress = totalPossibleItems > 0 ? (uniqueItems / totalPossibleItems) * 100 : 0;
 
         return {
           character_id: characterId,
-          gathering_type: result.gathering_type as GatheringTypeName,
-          total_items: result.total_items,
-          unique_items_gathered: result.unique_items_gathered,
-          unique_nodes_visited: result.unique_nodes_visited,
-          hq_items_gathered: result.hq_items_gathered,
+          gathering_type: type,
+          total_items: items.length,
+          unique_items_gathered: uniqueItems,
+          unique_nodes_visited: new Set(items.map((item) => item.gathering_point_id)).size,
+          hq_items_gathered: items.filter((item) => item.is_hq).length,
           progress_percentage: Math.round(progress * 100) / 100,
         };
       });
-    }
+  }
+
+  /**
+   * Names of gathered items, keyed by item ID
+   */
+  private getItemNames(gathered: GatheredItem[]): Map<number, string> {
+    const rows = this.db
+      .prepare('SELECT id, name FROM items WHERE id IN (SELECT value FROM json_each(?))')
+      .all(JSON.stringify(gathered.map((item) => item.item_id))) as Array<{
+      id: number;
+      name: string;
+    }>;
+
+    return new Map(rows.map((row) => [row.id, row.name]));
+  }
+
+  /**
+   * Gathering type of the points items were gathered at, keyed by gathering point ID
+   */
+  private getGatheringPointTypes(gathered: GatheredItem[]): Map<number, GatheringTypeName> {
+    const rows = this.db
+      .prepare(
+        `
+      SELECT gp.id, gt.name as gathering_type
+      FROM gathering_points gp
+      JOIN gathering_point_base gpb ON gp.gathering_point_base_id = gpb.id
+      JOIN gathering_types gt ON gpb.gathering_type_id = gt.id
+      WHERE gp.id IN (SELECT value FROM json_each(?))
+    `
+      )
+      .all(JSON.stringify(gathered.map((item) => item.gathering_point_id ?? null))) as Array<{
+      id: number;
+      gathering_type: GatheringTypeName;
+    }>;
+
+    return new Map(rows.map((row) => [row.id, row.gathering_type]));
   }
 
   /**
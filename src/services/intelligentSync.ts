@@ -1,11 +1,17 @@
 /**
  * Intelligent Sync Service
  *
- * Analyzes achievements to infer quest completions with confidence scoring
+ * Rule engine that analyzes achievements to infer quest completions,
+ * collectibles, titles, reward items and fish, with confidence scoring.
+ * Each rule sees the inferences of the rules before it, so e.g. fish can be
+ * inferred from quests that were themselves inferred.
  */
 
 import Database from 'better-sqlite3';
 import { join } from 'path';
+import { QuestGraphService } from './questGraph.js';
+import { getQuestFishObjectives } from './questFishInference.js';
+import type { QuestGraphNode } from '../types/quest.js';
 
 const GAME_DB_PATH = join(process.cwd(), 'data', 'gameData.db');
 
@@ -18,15 +24,59 @@ export interface QuestInference {
   reason: string;
 }
 
+export type InferenceType =
+  'quest' | 'fish' | 'mount' | 'companion' | 'orchestrion' | 'title' | 'item';
+
+export const INFERENCE_TYPES: InferenceType[] = [
+  'quest',
+  'fish',
+  'mount',
+  'companion',
+  'orchestrion',
+  'title',
+  'item',
+];
+
+export interface Inference {
+  type: InferenceType;
+  targetId: number;
+  targetName: string;
+  confidence: number; // 0-100
+  rule: string; // name of the rule that produced it
+  inferredFrom: {
+    type: 'achievement' | 'quest';
+    id: number;
+    name: string;
+  };
+  reason: string;
+}
+
+export interface InferenceContext {
+  achievementIds: number[];
+  /** Quests the character is already known to have completed */
+  completedQuestIds: number[];
+  /** Inferences of the rules that ran before */
+  inferences: Inference[];
+}
+
+export interface InferenceRule {
+  name: string;
+  infer(context: InferenceContext): Inference[];
+}
+
 export interface InferenceResult {
   achievements: Array<{
     achievementId: number;
     achievementName: string;
   }>;
+  inferences: Inference[];
   inferredQuests: QuestInference[];
   summary: {
     totalAchievements: number;
     totalQuestsInferred: number;
+    totalInferences: number;
+    byType: Record<InferenceType, number>;
+    // Confidence breakdown of the inferred quests
     highConfidence: number; // >= 90
     mediumConfidence: number; // 70-89
     lowConfidence: number; // < 70
@@ -132,45 +182,89 @@ const MSQ_ACHIEVEMENTS: Record<
 };
 
 /**
- * Job level achievements for inferring job quest completion
+ * Confidence for job quests inferred from a job level achievement: reaching
+ * the level doesn't prove every job quest up to it was done
  */
-const JOB_LEVEL_ACHIEVEMENTS: Record<
-  string,
-  Array<{ achievementId: number; level: number; confidence: number }>
-> = {
-  // Combat jobs
-  Paladin: [
-    { achievementId: 144, level: 50, confidence: 90 },
-    { achievementId: 145, level: 60, confidence: 90 },
-    { achievementId: 146, level: 70, confidence: 90 },
-    { achievementId: 2563, level: 80, confidence: 90 },
-    { achievementId: 3065, level: 90, confidence: 90 },
-  ],
-  Warrior: [
-    { achievementId: 147, level: 50, confidence: 90 },
-    { achievementId: 148, level: 60, confidence: 90 },
-    { achievementId: 149, level: 70, confidence: 90 },
-    { achievementId: 2564, level: 80, confidence: 90 },
-    { achievementId: 3066, level: 90, confidence: 90 },
-  ],
-  // Add more jobs as needed
-};
+const JOB_QUEST_CONFIDENCE = 85;
+
+/**
+ * Achievement categories must cover at least this many jobs to count as job
+ * level categories, so a one-off achievement mentioning a job is ignored
+ */
+const MIN_JOBS_PER_CATEGORY = 2;
+
+interface JobLevelAchievement {
+  achievementName: string;
+  jobId: number;
+  jobName: string;
+  level: number;
+}
+
+/**
+ * Confidence for mounts, minions, orchestrion rolls and items rewarded by an
+ * achievement: rewards are claimed from an NPC, so having the achievement
+ * doesn't guarantee the reward was picked up
+ */
+const ACHIEVEMENT_REWARD_CONFIDENCE = 90;
+
+/** Titles are unlocked together with the achievement */
+const ACHIEVEMENT_TITLE_CONFIDENCE = 100;
+
+/** Fish required by a quest the character is known to have completed */
+const COMPLETED_QUEST_FISH_CONFIDENCE = 100;
+
+/**
+ * Confidence taken off for side quests that are only inferred because an MSQ
+ * quest requires them (the game data doesn't say whether prerequisites are
+ * all required or alternatives)
+ */
+const REQUIRED_SIDE_QUEST_PENALTY = 5;
 
 export class IntelligentSyncService {
   private gameDb: Database.Database;
+  private questGraph: QuestGraphService;
+  private msqGenres?: Set<number>;
+  private jobLevelAchievements?: Map<number, JobLevelAchievement>;
+  private jobQuests?: Map<number, QuestGraphNode[]>;
+  private rules: InferenceRule[];
 
   constructor(gameDbPath: string = GAME_DB_PATH) {
     this.gameDb = new Database(gameDbPath, { readonly: true });
+    this.questGraph = new QuestGraphService(gameDbPath);
+
+    // Quest rules first, the fish rule builds on the inferred quests
+    this.rules = [
+      { name: 'msq', infer: (context) => this.inferMSQQuests(context) },
+      { name: 'job_quests', infer: (context) => this.inferJobQuests(context) },
+      createAchievementCollectibleRule(this.gameDb),
+      createAchievementTitleRule(this.gameDb),
+      createAchievementItemRule(this.gameDb),
+      createQuestFishRule(this.gameDb),
+    ];
+  }
+
+  /**
+   * Add an inference rule; it runs after the rules already registered
+   */
+  addRule(rule: InferenceRule): void {
+    this.rules.push(rule);
+  }
+
+  /**
+   * Names of the registered rules, in the order they run
+   */
+  getRuleNames(): string[] {
+    return this.rules.map((rule) => rule.name);
   }
 
   /**
-   * Analyze achievements and infer quest completions
+   * Analyze achievements and run every inference rule
+   *
+   * @param completedQuestIds - Quests already known to be complete (used by quest-based rules)
    */
-  analyzeAchievements(achievementIds: number[]): InferenceResult {
+  analyzeAchievements(achievementIds: number[], completedQuestIds: number[] = []): InferenceResult {
     const achievements: Array<{ achievementId: number; achievementName: string }> = [];
-    const inferredQuests: QuestInference[] = [];
 
-    // Check for MSQ achievements
     for (const achievementId of achievementIds) {
       const achievementData = this.gameDb
         .prepare('SELECT name FROM achievements WHERE id = ?')
@@ -182,23 +276,50 @@ export class IntelligentSyncService {
           achievementName: achievementData.name,
         });
       }
+    }
 
-      // Check if this is a key MSQ achievement
-      const maqInfo = MSQ_ACHIEVEMENTS[achievementId];
-      if (maqInfo) {
-        const quests = this.inferMSQCompletion(achievementId, maqInfo);
-        inferredQuests.push(...quests);
+    // Several achievements can imply the same thing (later expansions include
+    // the earlier story); keep the most confident inference per target
+    const byTarget = new Map<string, Inference>();
+    const context: InferenceContext = { achievementIds, completedQuestIds, inferences: [] };
+
+    for (const rule of this.rules) {
+      for (const inference of rule.infer(context)) {
+        const key = `${inference.type}:${inference.targetId}`;
+        const existing = byTarget.get(key);
+        if (!existing || inference.confidence > existing.confidence) {
+          byTarget.set(key, inference);
+        }
       }
+      context.inferences = [...byTarget.values()];
+    }
 
-      // Check for job achievements
-      const jobQuests = this.inferJobQuestCompletion(achievementId);
-      inferredQuests.push(...jobQuests);
+    const inferences = context.inferences;
+    const inferredQuests: QuestInference[] = inferences
+      .filter((inference) => inference.type === 'quest')
+      .map((inference) => ({
+        questId: inference.targetId,
+        questName: inference.targetName,
+        source: 'sync_inferred',
+        confidence: inference.confidence,
+        inferredFrom: inference.inferredFrom.id,
+        reason: inference.reason,
+      }));
+
+    const byType = Object.fromEntries(INFERENCE_TYPES.map((type) => [type, 0])) as Record<
+      InferenceType,
+      number
+    >;
+    for (const inference of inferences) {
+      byType[inference.type]++;
     }
 
     // Calculate summary
     const summary = {
       totalAchievements: achievements.length,
       totalQuestsInferred: inferredQuests.length,
+      totalInferences: inferences.length,
+      byType,
       highConfidence: inferredQuests.filter((q) => q.confidence >= 90).length,
       mediumConfidence: inferredQuests.filter((q) => q.confidence >= 70 && q.confidence < 90)
         .length,
@@ -207,11 +328,31 @@ export class IntelligentSyncService {
 
     return {
       achievements,
+      inferences,
       inferredQuests,
       summary,
     };
   }
 
+  /**
+   * Rule: MSQ quests from the known MSQ milestone achievements
+   */
+  private inferMSQQuests(context: InferenceContext): Inference[] {
+    return context.achievementIds.flatMap((achievementId) => {
+      const msqInfo = MSQ_ACHIEVEMENTS[achievementId];
+      return msqInfo ? this.inferMSQCompletion(achievementId, msqInfo) : [];
+    });
+  }
+
+  /**
+   * Rule: job quests from job level achievements
+   */
+  private inferJobQuests(context: InferenceContext): Inference[] {
+    return context.achievementIds.flatMap((achievementId) =>
+      this.inferJobQuestCompletion(achievementId)
+    );
+  }
+
   /**
    * Infer MSQ completion based on achievement
    */
@@ -223,8 +364,8 @@ export class IntelligentSyncService {
       finalQuestName: string;
       confidence: number;
     }
-  ): QuestInference[] {
-    const inferences: QuestInference[] = [];
+  ): Inference[] {
+    const inferences: Inference[] = [];
 
     // Find the final quest by name and expansion
     const finalQuest = this.gameDb
@@ -243,26 +384,28 @@ export class IntelligentSyncService {
       return inferences;
     }
 
-    // Get all MSQ quests for this expansion (up to and including the final quest)
-    // We'll use a heuristic: quests in the same expansion with journal_genre_id matching MSQ patterns
-    const msqQuests = this.gameDb
-      .prepare(
-        `SELECT id, name FROM quests 
-         WHERE expansion_id = ?
-         AND id <= ?
-         ORDER BY id ASC`
-      )
-      .all(msqInfo.expansion, finalQuest.id) as any[];
-
-    // Infer all these quests as complete
-    for (const quest of msqQuests) {
+    const msqGenres = this.getMSQGenres();
+    const { mainline, side } = this.walkMSQPrerequisites(finalQuest.id, msqGenres);
+    const chain = [
+      ...this.questGraph.getPrerequisiteChain(
+        finalQuest.id,
+        (node) => mainline.has(node.id) || side.has(node.id)
+      ),
+      this.questGraph.getNode(finalQuest.id)!,
+    ];
+
+    for (const quest of chain) {
+      const isSide = side.has(quest.id);
       inferences.push({
-        questId: quest.id,
-        questName: quest.name,
-        source: 'sync_inferred',
-        confidence: msqInfo.confidence,
-        inferredFrom: achievementId,
-        reason: `Inferred from achievement: ${msqInfo.name}`,
+        type: 'quest',
+        targetId: quest.id,
+        targetName: quest.name,
+        confidence: isSide ? msqInfo.confidence - REQUIRED_SIDE_QUEST_PENALTY : msqInfo.confidence,
+        rule: 'msq',
+        inferredFrom: { type: 'achievement', id: achievementId, name: msqInfo.name },
+        reason: isSide
+          ? `Required before the MSQ in achievement: ${msqInfo.name}`
+          : `Inferred from achievement: ${msqInfo.name}`,
       });
     }
 
@@ -270,40 +413,225 @@ export class IntelligentSyncService {
   }
 
   /**
-   * Infer job quest completion based on level achievement
+   * Walk previous_quests backwards from the final MSQ quest
+   *
+   * MSQ prerequisites (MSQ journal genre, or the only prerequisite of an MSQ
+   * quest, which covers the genre changing between patches) continue the
+   * chain. Side quests are only included when they're genuinely required: the
+   * single non-MSQ prerequisite of a quest. Several non-MSQ prerequisites
+   * (e.g. one starting class quest per class) are alternatives, so none of
+   * them is inferred.
    */
-  private inferJobQuestCompletion(achievementId: number): QuestInference[] {
-    const inferences: QuestInference[] = [];
-
-    // Check all job level achievements
-    for (const [jobName, jobAchievements] of Object.entries(JOB_LEVEL_ACHIEVEMENTS)) {
-      const jobAchievement = jobAchievements.find((ja) => ja.achievementId === achievementId);
-
-      if (jobAchievement) {
-        // Find job quests for this job up to this level
-        const jobQuests = this.gameDb
-          .prepare(
-            `SELECT id, name, level FROM quests 
-             WHERE name LIKE ?
-             AND level <= ?
-             ORDER BY level ASC`
-          )
-          .all(`%${jobName}%`, jobAchievement.level) as any[];
-
-        for (const quest of jobQuests) {
-          inferences.push({
-            questId: quest.id,
-            questName: quest.name,
-            source: 'sync_inferred',
-            confidence: jobAchievement.confidence,
-            inferredFrom: achievementId,
-            reason: `Inferred from ${jobName} level ${jobAchievement.level} achievement`,
-          });
+  private walkMSQPrerequisites(
+    finalQuestId: number,
+    msqGenres: Set<number>
+  ): { mainline: Set<number>; side: Set<number> } {
+    const mainline = new Set<number>([finalQuestId]);
+    const side = new Set<number>();
+    const stack = [finalQuestId];
+    const isMSQGenre = (node: QuestGraphNode) =>
+      node.journalGenreId !== null && msqGenres.has(node.journalGenreId);
+
+    while (stack.length > 0) {
+      const node = this.questGraph.getNode(stack.pop()!);
+      if (!node) continue;
+
+      const prerequisites = node.previousQuests.map((id) => this.questGraph.getNode(id)!);
+      const nonMSQ = prerequisites.filter((prereq) => !isMSQGenre(prereq));
+
+      for (const prereq of prerequisites) {
+        if (mainline.has(prereq.id) || side.has(prereq.id)) continue;
+
+        const onlyPrerequisite = prerequisites.length === 1;
+        if (isMSQGenre(prereq) || (onlyPrerequisite && mainline.has(node.id))) {
+          mainline.add(prereq.id);
+        } else if (onlyPrerequisite || nonMSQ.length === 1) {
+          side.add(prereq.id);
+        } else {
+          continue;
         }
+        stack.push(prereq.id);
       }
     }
 
-    return inferences;
+    mainline.delete(finalQuestId);
+    return { mainline, side };
+  }
+
+  /**
+   * Journal genres of the MSQ: the genres of the final quests of the known
+   * MSQ achievements
+   */
+  private getMSQGenres(): Set<number> {
+    if (!this.msqGenres) {
+      const names = [...new Set(Object.values(MSQ_ACHIEVEMENTS).map((a) => a.finalQuestName))];
+      const rows = this.gameDb
+        .prepare(
+          `SELECT DISTINCT journal_genre_id FROM quests
+           WHERE name IN (${names.map(() => '?').join(', ')})
+           AND journal_genre_id IS NOT NULL`
+        )
+        .all(...names) as Array<{ journal_genre_id: number }>;
+      this.msqGenres = new Set(rows.map((row) => row.journal_genre_id));
+    }
+
+    return this.msqGenres;
+  }
+
+  /**
+   * Infer job quest completion based on level achievement
+   *
+   * Every quest of the job up to the achieved level is inferred, plus the
+   * job quests of other classes it requires (e.g. the base class quests).
+   */
+  private inferJobQuestCompletion(achievementId: number): Inference[] {
+    const job = this.getJobLevelAchievements().get(achievementId);
+    if (!job) return [];
+
+    const jobQuests = this.getJobQuests();
+    const jobQuestIds = new Set([...jobQuests.values()].flat().map((quest) => quest.id));
+    const isJobQuest = (node: QuestGraphNode) =>
+      node.level <= job.level && jobQuestIds.has(node.id);
+    const quests = (jobQuests.get(job.jobId) || []).filter((quest) => quest.level <= job.level);
+    const ownQuests = new Set(quests.map((quest) => quest.id));
+
+    const required = new Map<number, QuestGraphNode>();
+    for (const quest of quests) {
+      for (const prereq of this.questGraph.getPrerequisiteChain(quest.id, isJobQuest)) {
+        if (!ownQuests.has(prereq.id)) required.set(prereq.id, prereq);
+      }
+    }
+
+    return [...required.values(), ...quests]
+      .sort((a, b) => a.level - b.level || a.id - b.id)
+      .map((quest): Inference => {
+        const isRequired = !ownQuests.has(quest.id);
+        return {
+          type: 'quest',
+          targetId: quest.id,
+          targetName: quest.name,
+          confidence: isRequired
+            ? JOB_QUEST_CONFIDENCE - REQUIRED_SIDE_QUEST_PENALTY
+            : JOB_QUEST_CONFIDENCE,
+          rule: 'job_quests',
+          inferredFrom: { type: 'achievement', id: achievementId, name: job.achievementName },
+          reason: isRequired
+            ? `Required before ${job.jobName} job quests (level ${job.level} achievement)`
+            : `Inferred from ${job.jobName} level ${job.level} achievement`,
+        };
+      });
+  }
+
+  /**
+   * Job level achievements by ID, derived from the achievement descriptions
+   * ("Achieve level 50 as a paladin.") matched against class_jobs names;
+   * only categories covering several jobs are used
+   */
+  private getJobLevelAchievements(): Map<number, JobLevelAchievement> {
+    if (this.jobLevelAchievements) return this.jobLevelAchievements;
+
+    // Longest names first so e.g. "dark knight" wins over a shorter name it contains
+    const jobs = (
+      this.gameDb
+        .prepare(`SELECT id, name FROM class_jobs WHERE name IS NOT NULL AND name != ''`)
+        .all() as Array<{ id: number; name: string }>
+    ).sort((a, b) => b.name.length - a.name.length);
+
+    const rows = this.gameDb
+      .prepare(
+        `SELECT id, category_id, name, description FROM achievements
+         WHERE description LIKE '%level%'`
+      )
+      .all() as Array<{
+      id: number;
+      category_id: number | null;
+      name: string;
+      description: string;
+    }>;
+
+    const candidates: Array<JobLevelAchievement & { achievementId: number; categoryId: number }> =
+      [];
+    for (const row of rows) {
+      const level = row.description.match(/\blevel (\d+)\b/i);
+      const job = jobs.find((j) =>
+        new RegExp(`\\b${escapeRegExp(j.name)}\\b`, 'i').test(row.description)
+      );
+      if (!level || !job) continue;
+
+      candidates.push({
+        achievementId: row.id,
+        achievementName: row.name,
+        categoryId: row.category_id ?? 0,
+        jobId: job.id,
+        jobName: job.name,
+        level: parseInt(level[1]),
+      });
+    }
+
+    const jobsPerCategory = new Map<number, Set<number>>();
+    for (const candidate of candidates) {
+      const categoryJobs = jobsPerCategory.get(candidate.categoryId) || new Set<number>();
+      categoryJobs.add(candidate.jobId);
+      jobsPerCategory.set(candidate.categoryId, categoryJobs);
+    }
+
+    this.jobLevelAchievements = new Map();
+    for (const { achievementId, categoryId, ...job } of candidates) {
+      if (jobsPerCategory.get(categoryId)!.size >= MIN_JOBS_PER_CATEGORY) {
+        this.jobLevelAchievements.set(achievementId, job);
+      }
+    }
+
+    return this.jobLevelAchievements;
+  }
+
+  /**
+   * Quests of each class/job, keyed by class_jobs ID
+   *
+   * Quests with class_job_required_id belong to that job. A quest that only
+   * has a class_job_category_id belongs to a job when every quest of that
+   * category that names a required job names the same one.
+   */
+  private getJobQuests(): Map<number, QuestGraphNode[]> {
+    if (this.jobQuests) return this.jobQuests;
+
+    const rows = this.gameDb
+      .prepare(
+        `SELECT id, class_job_required_id, class_job_category_id FROM quests
+         WHERE class_job_required_id > 0 OR class_job_category_id > 0`
+      )
+      .all() as Array<{
+      id: number;
+      class_job_required_id: number | null;
+      class_job_category_id: number | null;
+    }>;
+
+    const categoryJobs = new Map<number, Set<number>>();
+    for (const row of rows) {
+      if (!row.class_job_required_id || !row.class_job_category_id) continue;
+
+      const jobs = categoryJobs.get(row.class_job_category_id) || new Set<number>();
+      jobs.add(row.class_job_required_id);
+      categoryJobs.set(row.class_job_category_id, jobs);
+    }
+
+    this.jobQuests = new Map();
+    for (const row of rows) {
+      let jobId = row.class_job_required_id || null;
+      if (!jobId && row.class_job_category_id) {
+        const jobs = categoryJobs.get(row.class_job_category_id);
+        if (jobs?.size === 1) jobId = [...jobs][0];
+      }
+
+      const node = this.questGraph.getNode(row.id);
+      if (!jobId || !node) continue;
+
+      const quests = this.jobQuests.get(jobId) || [];
+      quests.push(node);
+      this.jobQuests.set(jobId, quests);
+    }
+
+    return this.jobQuests;
   }
 
   /**
@@ -323,10 +651,143 @@ export class IntelligentSyncService {
    * Close database connection
    */
   close(): void {
+    this.questGraph.close();
     this.gameDb.close();
   }
 }
 
+// ==================== Built-in Rules ====================
+
+/**
+ * Mounts, minions and orchestrion rolls listed in collectible_sources as
+ * rewards of the achievements
+ */
+export function createAchievementCollectibleRule(gameDb: Database.Database): InferenceRule {
+  return {
+    name: 'achievement_collectibles',
+    infer: (context) => {
+      const rows = gameDb
+        .prepare(
+          `SELECT cs.collectible_type, cs.collectible_id, a.id as achievement_id,
+                  a.name as achievement_name,
+                  COALESCE(m.name, m.singular, c.name, c.singular, o.name) as name
+           FROM collectible_sources cs
+           JOIN achievements a ON a.id = cs.source_id
+           LEFT JOIN mounts m ON cs.collectible_type = 'mount' AND m.id = cs.collectible_id
+           LEFT JOIN companions c ON cs.collectible_type = 'companion' AND c.id = cs.collectible_id
+           LEFT JOIN orchestrion_rolls o
+             ON cs.collectible_type = 'orchestrion' AND o.id = cs.collectible_id
+           WHERE cs.source_type = 'achievement'
+           AND cs.source_id IN (SELECT value FROM json_each(?))
+           ORDER BY cs.source_id, cs.collectible_type, cs.collectible_id`
+        )
+        .all(JSON.stringify(context.achievementIds)) as any[];
+
+      return rows
+        .filter((row) => ['mount', 'companion', 'orchestrion'].includes(row.collectible_type))
+        .map((row) => ({
+          type: row.collectible_type as InferenceType,
+          targetId: row.collectible_id,
+          targetName: row.name || `#${row.collectible_id}`,
+          confidence: ACHIEVEMENT_REWARD_CONFIDENCE,
+          rule: 'achievement_collectibles',
+          inferredFrom: { type: 'achievement', id: row.achievement_id, name: row.achievement_name },
+          reason: `Reward of achievement: ${row.achievement_name}`,
+        }));
+    },
+  };
+}
+
+/**
+ * Titles rewarded by the achievements (achievements.title_reward_id)
+ */
+export function createAchievementTitleRule(gameDb: Database.Database): InferenceRule {
+  return {
+    name: 'achievement_titles',
+    infer: (context) => {
+      const rows = gameDb
+        .prepare(
+          `SELECT a.id, a.name, t.id as title_id, t.name_masculine as title_name
+           FROM achievements a
+           JOIN titles t ON t.id = a.title_reward_id
+           WHERE a.id IN (SELECT value FROM json_each(?))
+           ORDER BY a.id`
+        )
+        .all(JSON.stringify(context.achievementIds)) as any[];
+
+      return rows.map((row) => ({
+        type: 'title',
+        targetId: row.title_id,
+        targetName: row.title_name,
+        confidence: ACHIEVEMENT_TITLE_CONFIDENCE,
+        rule: 'achievement_titles',
+        inferredFrom: { type: 'achievement', id: row.id, name: row.name },
+        reason: `Auto-unlocked from achievement: ${row.name}`,
+      }));
+    },
+  };
+}
+
+/**
+ * Items rewarded by the achievements (achievements.item_reward_id)
+ */
+export function createAchievementItemRule(gameDb: Database.Database): InferenceRule {
+  return {
+    name: 'achievement_items',
+    infer: (context) => {
+      const rows = gameDb
+        .prepare(
+          `SELECT a.id, a.name, i.id as item_id, i.name as item_name
+           FROM achievements a
+           JOIN items i ON i.id = a.item_reward_id
+           WHERE a.id IN (SELECT value FROM json_each(?))
+           ORDER BY a.id`
+        )
+        .all(JSON.stringify(context.achievementIds)) as any[];
+
+      return rows.map((row) => ({
+        type: 'item',
+        targetId: row.item_id,
+        targetName: row.item_name,
+        confidence: ACHIEVEMENT_REWARD_CONFIDENCE,
+        rule: 'achievement_items',
+        inferredFrom: { type: 'achievement', id: row.id, name: row.name },
+        reason: `Reward of achievement: ${row.name}`,
+      }));
+    },
+  };
+}
+
+/**
+ * Fish required by quest objectives, for completed and inferred quests; a
+ * fish is only as certain as the quest that requires it
+ */
+export function createQuestFishRule(gameDb: Database.Database): InferenceRule {
+  return {
+    name: 'quest_fish',
+    infer: (context) => {
+      const questConfidence = new Map<number, number>(
+        context.completedQuestIds.map((id) => [id, COMPLETED_QUEST_FISH_CONFIDENCE])
+      );
+      for (const inference of context.inferences) {
+        if (inference.type === 'quest' && !questConfidence.has(inference.targetId)) {
+          questConfidence.set(inference.targetId, inference.confidence);
+        }
+      }
+
+      return getQuestFishObjectives(gameDb, [...questConfidence.keys()]).map((objective) => ({
+        type: 'fish',
+        targetId: objective.fishId,
+        targetName: objective.fishName,
+        confidence: questConfidence.get(objective.questId)!,
+        rule: 'quest_fish',
+        inferredFrom: { type: 'quest', id: objective.questId, name: objective.questName },
+        reason: `Inferred from quest: ${objective.questName}`,
+      }));
+    },
+  };
+}
+
 // Export singleton instance
 let intelligentSyncInstance: IntelligentSyncService | null = null;
 
@@ -343,3 +804,7 @@ export function resetIntelligentSyncService(): void {
     intelligentSyncInstance = null;
   }
 }
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -19,10 +19,13 @@ import type {
   ItemUse,
   ItemSourceDetails,
   ItemUseDetails,
+  ItemNameMatch,
 } from '../types/item.js';
+import { findBestMatch, normalizeName, type FuzzyCandidate } from '../utils/fuzzyMatch.js';
 
 export class ItemService {
   private db: Database.Database;
+  private nameCandidates?: FuzzyCandidate<number>[];
 
   constructor(dbPath?: string) {
     const path = dbPath || join(process.cwd(), 'data', 'gameData.db');
@@ -343,6 +346,33 @@ export class ItemService {
     return item;
   }
 
+  /**
+   * Resolve an item name from user input or an export
+   * Tries an exact match first, then a case/punctuation-insensitive and
+   * typo-tolerant match against all item names
+   */
+  matchItemName(name: string): ItemNameMatch | null {
+    const exact = this.getItemByName(name);
+
+    if (exact) {
+      return { id: exact.id, name: exact.name, exact: true };
+    }
+
+    if (!this.nameCandidates) {
+      const rows = this.db
+        .prepare("SELECT id, name FROM items WHERE name IS NOT NULL AND name != '' ORDER BY id")
+        .all() as Array<{ id: number; name: string }>;
+      this.nameCandidates = rows.map((row) => ({
+        value: row.id,
+        name: row.name,
+        normalized: normalizeName(row.name),
+      }));
+    }
+
+    const match = findBestMatch(name, this.nameCandidates);
+    return match ? { id: match.value, name: match.name, exact: false } : null;
+  }
+
   /**
    * Get all item categories
    */
@@ -551,6 +581,8 @@ export class ItemService {
         return `Gathered from ${source.source_name || 'a node'}`;
       case 'quest':
         return `Reward from quest: ${source.source_name || 'Unknown'}`;
+      case 'leve':
+        return `Reward from levequest: ${source.source_name || 'Unknown'}`;
       case 'shop':
       case 'vendor':
         return `Purchased from ${source.source_name || 'a vendor'}`;
@@ -580,6 +612,8 @@ export class ItemService {
         return `Grand Company supply mission: ${use.use_name || 'Unknown'}`;
       case 'desynth':
         return `Can be desynthesized`;
+      case 'currency_exchange':
+        return `Exchanged for ${use.use_name || 'Unknown'}`;
       default:
         return use.use_name || use.use_type;
     }
@@ -1,4 +1,19 @@
-import { Character, CharacterSearch, ClassJob } from '@xivapi/nodestone';
+import { CharacterSearch } from '@xivapi/nodestone';
+import {
+  parseLodestoneAchievementPage,
+  parseLodestoneClassJobPage,
+  parseLodestoneCollectionPage,
+  parseLodestoneProfilePage,
+  type LodestoneAchievementEntry,
+  type LodestoneClassJobs,
+  type LodestoneCollectionType,
+} from '../parsers/lodestonePageParser.js';
+
+const LODESTONE_CHARACTER_URL = 'https://na.finalfantasyxiv.com/lodestone/character';
+
+// The desktop mount/minion pages only show icons, the smartphone layout lists names
+const SMARTPHONE_USER_AGENT =
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1';
 
 export interface LodestoneCharacter {
   id: string;
@@ -10,8 +25,6 @@ export interface LodestoneCharacter {
   job?: string;
   freeCompany?: string;
   dataCenter?: string;
-  // Additional fields from nodestone
-  [key: string]: any;
 }
 
 export interface LodestoneSearchResult {
@@ -20,15 +33,16 @@ export interface LodestoneSearchResult {
   page?: number;
 }
 
+export interface LodestoneAchievementList {
+  achievements: LodestoneAchievementEntry[];
+  isPrivate: boolean;
+}
+
 export class LodestoneClient {
-  private characterParser: Character;
   private characterSearchParser: CharacterSearch;
-  private classJobParser: ClassJob;
 
   constructor() {
-    this.characterParser = new Character();
     this.characterSearchParser = new CharacterSearch();
-    this.classJobParser = new ClassJob();
   }
 
   async searchCharacter(name: string, server?: string): Promise<LodestoneSearchResult> {
@@ -76,36 +90,19 @@ export class LodestoneClient {
     }
   }
 
+  /**
+   * Get a character's profile, parsed the same way as saved pages imported offline
+   */
   async getCharacter(characterId: string): Promise<LodestoneCharacter | null> {
     try {
-      // Create a mock Express request object with character ID
-      const mockReq: any = {
-        params: {
-          characterId,
-        },
-        query: {},
-      };
+      const html = await this.fetchCharacterPage(characterId, '');
+      const profile = parseLodestoneProfilePage(html);
 
-      const character = await this.characterParser.parse(mockReq) as any;
-
-      if (!character) {
+      if (!profile) {
         return null;
       }
 
-      // Transform nodestone character data to our format
-      return {
-        id: characterId,
-        name: character.Name || '',
-        server: character.World || '', // nodestone uses "World" not "Server"
-        avatar: character.Avatar || '',
-        title: character.Title || undefined,
-        level: character.Level || undefined,
-        job: character.Mainhand?.ClassList || undefined, // Active job from equipped mainhand
-        freeCompany: character.FreeCompany?.Name || undefined,
-        dataCenter: character.DC || undefined,
-        // Include all other fields from nodestone
-        ...character,
-      };
+      return { ...profile, id: characterId };
     } catch (error) {
       if (error instanceof Error) {
         // Check for 404 errors
@@ -118,18 +115,10 @@ export class LodestoneClient {
     }
   }
 
-  async getCharacterClassJobs(characterId: string): Promise<any> {
+  async getCharacterClassJobs(characterId: string): Promise<LodestoneClassJobs> {
     try {
-      // Create a mock Express request object with character ID
-      const mockReq: any = {
-        params: {
-          characterId,
-        },
-        query: {},
-      };
-
-      const classJobs = await this.classJobParser.parse(mockReq) as any;
-      return classJobs;
+      const html = await this.fetchCharacterPage(characterId, 'class_job/');
+      return parseLodestoneClassJobPage(html);
     } catch (error) {
       if (error instanceof Error) {
         throw new Error(`Lodestone class/job fetch failed: ${error.message}`);
@@ -137,6 +126,75 @@ export class LodestoneClient {
       throw new Error(`Lodestone class/job fetch failed: ${error}`);
     }
   }
+
+  async getCharacterMounts(characterId: string): Promise<string[]> {
+    return this.getCharacterCollection(characterId, 'mount');
+  }
+
+  async getCharacterMinions(characterId: string): Promise<string[]> {
+    return this.getCharacterCollection(characterId, 'minion');
+  }
+
+  /**
+   * Get every achievement a character has earned, walking all history pages
+   */
+  async getCharacterAchievements(characterId: string): Promise<LodestoneAchievementList> {
+    try {
+      const achievements: LodestoneAchievementEntry[] = [];
+      let page = 1;
+      let totalPages = 1;
+
+      do {
+        const html = await this.fetchCharacterPage(characterId, `achievement/?page=${page}`);
+        const result = parseLodestoneAchievementPage(html);
+
+        if (result.isPrivate) {
+          return { achievements: [], isPrivate: true };
+        }
+
+        achievements.push(...result.achievements);
+        totalPages = result.totalPages;
+        page++;
+      } while (page <= totalPages);
+
+      return { achievements, isPrivate: false };
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Lodestone achievement fetch failed: ${error.message}`);
+      }
+      throw new Error(`Lodestone achievement fetch failed: ${error}`);
+    }
+  }
+
+  private async getCharacterCollection(
+    characterId: string,
+    type: LodestoneCollectionType
+  ): Promise<string[]> {
+    try {
+      const html = await this.fetchCharacterPage(characterId, `${type}/`, SMARTPHONE_USER_AGENT);
+      return parseLodestoneCollectionPage(html, type);
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Lodestone ${type} fetch failed: ${error.message}`);
+      }
+      throw new Error(`Lodestone ${type} fetch failed: ${error}`);
+    }
+  }
+
+  private async fetchCharacterPage(
+    characterId: string,
+    path: string,
+    userAgent?: string
+  ): Promise<string> {
+    const response = await fetch(`${LODESTONE_CHARACTER_URL}/${characterId}/${path}`, {
+      headers: userAgent ? { 'User-Agent': userAgent } : undefined,
+    });
+
+    if (!response.ok) {
+      throw new Error(`${response.status} ${response.statusText}`);
+    }
+    return response.text();
+  }
 }
 
 // Export singleton instance
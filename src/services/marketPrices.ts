@@ -0,0 +1,113 @@
+/**
+ * Market Prices
+ *
+ * Stores imported marketboard price snapshots in data/marketPrices.db and
+ * serves them to profit analysis through the PriceProvider interface.
+ */
+
+import Database from 'better-sqlite3';
+import { join } from 'path';
+import type { MarketPrice, PriceProvider } from '../types/market.js';
+
+const MARKET_DB_PATH = join(process.cwd(), 'data', 'marketPrices.db');
+
+export class SnapshotPriceProvider implements PriceProvider {
+  readonly name = 'snapshot';
+  private db: Database.Database;
+
+  constructor(dbPath: string = MARKET_DB_PATH) {
+    this.db = new Database(dbPath);
+
+    // Only the latest snapshot of each item per world is kept
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS market_prices (
+        item_id INTEGER NOT NULL,
+        world TEXT NOT NULL COLLATE NOCASE,
+        price_nq INTEGER,
+        price_hq INTEGER,
+        recorded_at INTEGER NOT NULL,
+        PRIMARY KEY (item_id, world)
+      );
+    `);
+  }
+
+  /**
+   * Store prices, replacing older snapshots of the same item and world
+   * Prices older than the stored snapshot are skipped
+   */
+  importPrices(prices: MarketPrice[]): { imported: number; skipped: number } {
+    const upsert = this.db.prepare(`
+      INSERT INTO market_prices (item_id, world, price_nq, price_hq, recorded_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT (item_id, world) DO UPDATE SET
+        world = excluded.world,
+        price_nq = excluded.price_nq,
+        price_hq = excluded.price_hq,
+        recorded_at = excluded.recorded_at
+      WHERE excluded.recorded_at >= market_prices.recorded_at
+    `);
+
+    const result = { imported: 0, skipped: 0 };
+    this.db.transaction(() => {
+      for (const price of prices) {
+        const { changes } = upsert.run(
+          price.item_id,
+          price.world,
+          price.price_nq,
+          price.price_hq,
+          price.recorded_at
+        );
+        result[changes > 0 ? 'imported' : 'skipped']++;
+      }
+    })();
+
+    return result;
+  }
+
+  async getPrices(itemIds: number[], world: string): Promise<Map<number, MarketPrice>> {
+    const rows = this.db
+      .prepare(
+        `SELECT item_id, world, price_nq, price_hq, recorded_at FROM market_prices
+         WHERE world = ? AND item_id IN (SELECT value FROM json_each(?))`
+      )
+      .all(world, JSON.stringify(itemIds)) as MarketPrice[];
+
+    return new Map(rows.map((row) => [row.item_id, row]));
+  }
+
+  /**
+   * Worlds with imported prices, with the number of items and latest snapshot
+   */
+  getWorlds(): Array<{ world: string; items: number; latest: number }> {
+    return this.db
+      .prepare(
+        `SELECT world, COUNT(*) as items, MAX(recorded_at) as latest FROM market_prices
+         GROUP BY world ORDER BY world`
+      )
+      .all() as Array<{ world: string; items: number; latest: number }>;
+  }
+
+  /**
+   * Close database connection
+   */
+  close(): void {
+    this.db.close();
+  }
+}
+
+// Singleton instance
+let priceProviderInstance: SnapshotPriceProvider | null = null;
+
+export function getPriceProvider(): SnapshotPriceProvider {
+  if (!priceProviderInstance) {
+    priceProviderInstance = new SnapshotPriceProvider();
+  }
+  return priceProviderInstance;
+}
+
+export function resetPriceProvider(): void {
+  if (priceProviderInstance) {
+    priceProviderInstance.close();
+    priceProviderInstance = null;
+  }
+}
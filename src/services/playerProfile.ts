@@ -13,30 +13,140 @@ import {
   CompletedQuest,
   CaughtFish,
   Bookmark,
+  BookmarkType,
+  InventoryEntry,
+  InventoryItem,
   SessionHistory,
   Goal,
   ProgressStats,
   CharacterSyncResult,
+  CharacterHtmlImportResult,
+  LodestoneCollectionSync,
+  SyncChangeType,
+  SyncRevertResult,
+  SyncRun,
+  SyncRunChange,
+  SyncRunDetails,
 } from '../types/profile.js';
 import { UnlockedTitle, UnlockedAchievement } from '../types/title.js';
-import { getLodestoneClient } from './lodestone.js';
+import type { CollectibleType } from '../types/collectibles.js';
+import { getLodestoneClient, type LodestoneAchievementList } from './lodestone.js';
+import {
+  applySchemaAdditions,
+  getUserDataRepository,
+  type UserDataRepository,
+} from './userDataRepository.js';
+import {
+  parseLodestoneAchievementPage,
+  parseLodestoneClassJobPage,
+  parseLodestoneCollectionPage,
+  parseLodestoneProfilePage,
+  type LodestoneSavedPages,
+} from '../parsers/lodestonePageParser.js';
 
 const USER_DB_PATH = join(process.cwd(), 'data', 'userData.db');
 const GAME_DB_PATH = join(process.cwd(), 'data', 'gameData.db');
 
+export const DEFAULT_INVENTORY_LOCATION = 'bag';
+
+/** Source recorded for mounts, minions and achievements read from the Lodestone */
+export const LODESTONE_SYNC_SOURCE = 'lodestone_sync';
+
+/**
+ * Progress tables intelligent sync writes to, with the timestamp column every
+ * write updates and the source the sync records
+ */
+const SYNC_CHANGE_TABLES: Record<
+  SyncChangeType,
+  { table: string; column: string; timeColumn: string; source?: string }
+> = {
+  quest: {
+    table: 'completed_quests',
+    column: 'quest_id',
+    timeColumn: 'completed_at',
+    source: 'sync_inferred',
+  },
+  achievement: {
+    table: 'unlocked_achievements',
+    column: 'achievement_id',
+    timeColumn: 'unlocked_at',
+    source: 'sync_confirmed',
+  },
+  title: {
+    table: 'unlocked_titles',
+    column: 'title_id',
+    timeColumn: 'unlocked_at',
+    source: 'achievement',
+  },
+  fish: { table: 'caught_fish', column: 'fish_id', timeColumn: 'caught_at' },
+  mount: { table: 'obtained_mounts', column: 'mount_id', timeColumn: 'obtained_at' },
+  companion: { table: 'obtained_companions', column: 'companion_id', timeColumn: 'obtained_at' },
+  orchestrion: {
+    table: 'obtained_orchestrion',
+    column: 'orchestrion_id',
+    timeColumn: 'obtained_at',
+  },
+};
+
+/** Job keys in a parsed class/job page (see parseLodestoneClassJobPage), in Lodestone order */
+const LODESTONE_JOB_NAMES = [
+  'Paladin',
+  'Warrior',
+  'DarkKnight',
+  'Gunbreaker',
+  'WhiteMage',
+  'Scholar',
+  'Astrologian',
+  'Sage',
+  'Monk',
+  'Dragoon',
+  'Ninja',
+  'Samurai',
+  'Reaper',
+  'Bard',
+  'Machinist',
+  'Dancer',
+  'BlackMage',
+  'Summoner',
+  'RedMage',
+  'BlueMage',
+  'Viper',
+  'Pictomancer',
+  'Carpenter',
+  'Blacksmith',
+  'Armorer',
+  'Goldsmith',
+  'Leatherworker',
+  'Weaver',
+  'Alchemist',
+  'Culinarian',
+  'Miner',
+  'Botanist',
+  'Fisher',
+];
+
 export class PlayerProfileService {
   private db: Database.Database;
   private gameDb: Database.Database;
+  private userData: UserDataRepository;
 
+  /**
+   * @param userData - Collectible progress store (defaults to the shared userData.db repository)
+   */
   constructor(
     userDbPath: string = USER_DB_PATH,
-    gameDbPath: string = GAME_DB_PATH
+    gameDbPath: string = GAME_DB_PATH,
+    userData: UserDataRepository = getUserDataRepository()
   ) {
     this.db = new Database(userDbPath);
     this.gameDb = new Database(gameDbPath, { readonly: true });
+    this.userData = userData;
 
     // Enable foreign keys
     this.db.pragma('foreign_keys = ON');
+
+    // Create tables added to the schema since the profile was created
+    applySchemaAdditions(this.db);
   }
 
   // ==================== Character Management ====================
@@ -111,52 +221,16 @@ export class PlayerProfileService {
       const classJobs = await lodestone.getCharacterClassJobs(match.id);
 
       if (classJobs) {
-        const jobNames = [
-          'Paladin',
-          'Warrior',
-          'DarkKnight',
-          'Gunbreaker',
-          'WhiteMage',
-          'Scholar',
-          'Astrologian',
-          'Sage',
-          'Monk',
-          'Dragoon',
-          'Ninja',
-          'Samurai',
-          'Reaper',
-          'Bard',
-          'Machinist',
-          'Dancer',
-          'BlackMage',
-          'Summoner',
-          'RedMage',
-          'BlueMage',
-          'Viper',
-          'Pictomancer',
-          'Carpenter',
-          'Blacksmith',
-          'Armorer',
-          'Goldsmith',
-          'Leatherworker',
-          'Weaver',
-          'Alchemist',
-          'Culinarian',
-          'Miner',
-          'Botanist',
-          'Fisher',
-        ];
-
         const insertJob = this.db.prepare(
           `INSERT INTO job_progress (character_id, job_name, level, updated_at)
            VALUES (?, ?, ?, ?)
            ON CONFLICT(character_id, job_name) DO UPDATE SET level = ?, updated_at = ?`
         );
 
-        for (const jobName of jobNames) {
+        for (const jobName of LODESTONE_JOB_NAMES) {
           const jobData = classJobs[jobName];
           if (jobData && jobData.Level) {
-            const level = parseInt(jobData.Level);
+            const level = jobData.Level;
             if (level > 0) {
               insertJob.run(match.id, jobName, level, now, level, now);
             }
@@ -605,7 +679,7 @@ export class PlayerProfileService {
    */
   addBookmark(
     characterId: string,
-    type: 'quest' | 'fish' | 'location',
+    type: BookmarkType,
     itemId: number,
     notes?: string,
     priority: number = 0
@@ -624,7 +698,7 @@ export class PlayerProfileService {
   /**
    * Get bookmarks for a character
    */
-  getBookmarks(characterId: string, type?: 'quest' | 'fish' | 'location'): Bookmark[] {
+  getBookmarks(characterId: string, type?: BookmarkType): Bookmark[] {
     let query = 'SELECT * FROM bookmarks WHERE character_id = ?';
     const params: any[] = [characterId];
 
@@ -649,7 +723,7 @@ export class PlayerProfileService {
   /**
    * Remove all bookmarks of a type
    */
-  clearBookmarks(characterId: string, type?: 'quest' | 'fish' | 'location'): void {
+  clearBookmarks(characterId: string, type?: BookmarkType): void {
     if (type) {
       this.db
         .prepare('DELETE FROM bookmarks WHERE character_id = ? AND type = ?')
@@ -659,6 +733,160 @@ export class PlayerProfileService {
     }
   }
 
+  // ==================== Inventory ====================
+
+  /**
+   * Add items to a character's inventory (adds to any quantity already stored)
+   */
+  addInventoryItem(
+    characterId: string,
+    itemId: number,
+    quantity: number,
+    isHq: boolean = false,
+    location: string = DEFAULT_INVENTORY_LOCATION
+  ): void {
+    this.db
+      .prepare(
+        `INSERT INTO inventory (character_id, item_id, quantity, is_hq, location, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT(character_id, item_id, is_hq, location) DO UPDATE SET
+           quantity = quantity + excluded.quantity,
+           updated_at = excluded.updated_at`
+      )
+      .run(characterId, itemId, quantity, isHq ? 1 : 0, location, Date.now());
+  }
+
+  /**
+   * Remove items from a character's inventory
+   * Without a quantity, every matching stack is removed. Returns the number of items removed
+   */
+  removeInventoryItem(
+    characterId: string,
+    itemId: number,
+    options: { quantity?: number; isHq?: boolean; location?: string } = {}
+  ): number {
+    let query = 'SELECT * FROM inventory WHERE character_id = ? AND item_id = ?';
+    const params: any[] = [characterId, itemId];
+
+    if (options.isHq !== undefined) {
+      query += ' AND is_hq = ?';
+      params.push(options.isHq ? 1 : 0);
+    }
+
+    if (options.location) {
+      query += ' AND location = ?';
+      params.push(options.location);
+    }
+
+    const rows = this.db.prepare(query).all(...params) as any[];
+    let remaining = options.quantity ?? Infinity;
+    let removed = 0;
+
+    const remove = this.db.transaction(() => {
+      for (const row of rows) {
+        if (remaining <= 0) break;
+
+        const taken = Math.min(row.quantity, remaining);
+        if (taken === row.quantity) {
+          this.db.prepare('DELETE FROM inventory WHERE id = ?').run(row.id);
+        } else {
+          this.db
+            .prepare('UPDATE inventory SET quantity = ?, updated_at = ? WHERE id = ?')
+            .run(row.quantity - taken, Date.now(), row.id);
+        }
+
+        remaining -= taken;
+        removed += taken;
+      }
+    });
+    remove();
+
+    return removed;
+  }
+
+  /**
+   * Import a batch of inventory entries
+   * With `replace`, each location in the batch is cleared before its entries are stored
+   */
+  importInventory(
+    characterId: string,
+    entries: InventoryEntry[],
+    replace: boolean = false
+  ): number {
+    const importAll = this.db.transaction(() => {
+      if (replace) {
+        const locations = new Set(
+          entries.map((entry) => entry.location || DEFAULT_INVENTORY_LOCATION)
+        );
+        for (const location of locations) {
+          this.clearInventory(characterId, location);
+        }
+      }
+
+      for (const entry of entries) {
+        this.addInventoryItem(
+          characterId,
+          entry.itemId,
+          entry.quantity,
+          entry.isHq || false,
+          entry.location || DEFAULT_INVENTORY_LOCATION
+        );
+      }
+    });
+    importAll();
+
+    return entries.length;
+  }
+
+  /**
+   * Get a character's inventory, optionally for a single location
+   */
+  getInventory(characterId: string, location?: string): InventoryItem[] {
+    let query = 'SELECT * FROM inventory WHERE character_id = ?';
+    const params: any[] = [characterId];
+
+    if (location) {
+      query += ' AND location = ?';
+      params.push(location);
+    }
+
+    query += ' ORDER BY location, item_id, is_hq';
+
+    const itemName = this.gameDb.prepare('SELECT name FROM items WHERE id = ?');
+    const rows = this.db.prepare(query).all(...params) as any[];
+    return rows.map((row) => ({
+      ...this.mapRowToInventoryItem(row),
+      itemName: (itemName.get(row.item_id) as any)?.name || undefined,
+    }));
+  }
+
+  /**
+   * Get total owned quantity per item ID, across locations and HQ/NQ
+   */
+  getOwnedQuantities(characterId: string): Map<number, number> {
+    const rows = this.db
+      .prepare(
+        `SELECT item_id, SUM(quantity) as quantity FROM inventory
+         WHERE character_id = ? GROUP BY item_id`
+      )
+      .all(characterId) as any[];
+
+    return new Map(rows.map((row) => [row.item_id, row.quantity]));
+  }
+
+  /**
+   * Remove all inventory for a character, optionally for a single location
+   */
+  clearInventory(characterId: string, location?: string): void {
+    if (location) {
+      this.db
+        .prepare('DELETE FROM inventory WHERE character_id = ? AND location = ?')
+        .run(characterId, location);
+    } else {
+      this.db.prepare('DELETE FROM inventory WHERE character_id = ?').run(characterId);
+    }
+  }
+
   // ==================== Session History ====================
 
   /**
@@ -912,105 +1140,218 @@ export class PlayerProfileService {
       );
 
     // Fetch and update job levels
-    const changes = {
+    let changes: CharacterSyncResult['changes'] = {
       jobsUpdated: 0,
-      newJobs: [] as string[],
-      levelChanges: [] as Array<{ jobName: string; oldLevel: number; newLevel: number }>,
+      newJobs: [],
+      levelChanges: [],
     };
 
     try {
       const classJobs = await lodestone.getCharacterClassJobs(characterId);
 
       if (classJobs) {
-        const jobNames = [
-          'Paladin',
-          'Warrior',
-          'DarkKnight',
-          'Gunbreaker',
-          'WhiteMage',
-          'Scholar',
-          'Astrologian',
-          'Sage',
-          'Monk',
-          'Dragoon',
-          'Ninja',
-          'Samurai',
-          'Reaper',
-          'Bard',
-          'Machinist',
-          'Dancer',
-          'BlackMage',
-          'Summoner',
-          'RedMage',
-          'BlueMage',
-          'Viper',
-          'Pictomancer',
-          'Carpenter',
-          'Blacksmith',
-          'Armorer',
-          'Goldsmith',
-          'Leatherworker',
-          'Weaver',
-          'Alchemist',
-          'Culinarian',
-          'Miner',
-          'Botanist',
-          'Fisher',
-        ];
-
-        for (const jobName of jobNames) {
-          const jobData = classJobs[jobName];
-          if (jobData && jobData.Level) {
-            const newLevel = parseInt(jobData.Level);
-            if (newLevel > 0) {
-              // Check existing level
-              const existing = this.db
-                .prepare('SELECT level FROM job_progress WHERE character_id = ? AND job_name = ?')
-                .get(characterId, jobName) as any;
-
-              if (existing) {
-                if (existing.level !== newLevel) {
-                  changes.levelChanges.push({
-                    jobName,
-                    oldLevel: existing.level,
-                    newLevel,
-                  });
-                  changes.jobsUpdated++;
-                }
-              } else {
-                changes.newJobs.push(jobName);
-                changes.jobsUpdated++;
-              }
-
-              this.updateJobLevel(characterId, jobName, newLevel);
-            }
-          }
-        }
+        changes = this.applyClassJobs(characterId, classJobs);
       }
     } catch (error) {
       console.warn('Could not sync job data:', error);
     }
 
+    // Fetch mounts, minions and achievements
+    let collections: LodestoneCollectionSync | undefined;
+
+    try {
+      collections = this.importLodestoneCollections(characterId, {
+        mounts: await lodestone.getCharacterMounts(characterId),
+        minions: await lodestone.getCharacterMinions(characterId),
+        achievements: await lodestone.getCharacterAchievements(characterId),
+      });
+    } catch (error) {
+      console.warn('Could not sync collections:', error);
+    }
+
     return {
       success: true,
       characterId,
       changes,
+      collections,
       lastSyncedAt: new Date(now),
     };
   }
 
+  /**
+   * Create or update a character from Lodestone pages saved to disk
+   * Works offline, using the same page parsers as the live sync
+   */
+  importCharacterFromHtml(pages: LodestoneSavedPages): CharacterHtmlImportResult {
+    // Every character page carries the name/world header, prefer the profile for the free company
+    const headerPage = [
+      pages.profile,
+      pages.classJob,
+      pages.mount,
+      pages.minion,
+      ...pages.achievements,
+    ].find((html) => html !== undefined);
+    const profile = headerPage ? parseLodestoneProfilePage(headerPage) : null;
+
+    if (!profile) {
+      throw new Error('No Lodestone character page found');
+    }
+
+    const existing = this.getCharacterById(profile.id);
+    const now = Date.now();
+
+    if (existing) {
+      this.db
+        .prepare(
+          `UPDATE characters
+           SET name = ?, server = ?, data_center = COALESCE(?, data_center),
+               avatar_url = COALESCE(?, avatar_url), title = COALESCE(?, title),
+               free_company = COALESCE(?, free_company), last_synced_at = ?
+           WHERE id = ?`
+        )
+        .run(
+          profile.name,
+          profile.server,
+          profile.dataCenter || null,
+          profile.avatar || null,
+          profile.title || null,
+          profile.freeCompany || null,
+          now,
+          profile.id
+        );
+    } else {
+      const characterCount = this.db
+        .prepare('SELECT COUNT(*) as count FROM characters')
+        .get() as any;
+
+      this.db
+        .prepare(
+          `INSERT INTO characters
+          (id, name, server, data_center, last_synced_at, created_at, is_active, avatar_url, title, free_company)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        )
+        .run(
+          profile.id,
+          profile.name,
+          profile.server,
+          profile.dataCenter || null,
+          now,
+          now,
+          characterCount.count === 0 ? 1 : 0,
+          profile.avatar || null,
+          profile.title || null,
+          profile.freeCompany || null
+        );
+    }
+
+    const changes = pages.classJob
+      ? this.applyClassJobs(profile.id, parseLodestoneClassJobPage(pages.classJob))
+      : { jobsUpdated: 0, newJobs: [], levelChanges: [] };
+
+    let collections: LodestoneCollectionSync | undefined;
+
+    if (pages.mount || pages.minion || pages.achievements.length > 0) {
+      const achievementPages = pages.achievements.map((html) =>
+        parseLodestoneAchievementPage(html)
+      );
+
+      collections = this.importLodestoneCollections(profile.id, {
+        mounts: pages.mount ? parseLodestoneCollectionPage(pages.mount, 'mount') : undefined,
+        minions: pages.minion ? parseLodestoneCollectionPage(pages.minion, 'minion') : undefined,
+        achievements:
+          achievementPages.length > 0
+            ? {
+                achievements: achievementPages.flatMap((page) => page.achievements),
+                isPrivate: achievementPages.every((page) => page.isPrivate),
+              }
+            : undefined,
+      });
+    }
+
+    return {
+      success: true,
+      characterId: profile.id,
+      created: !existing,
+      changes,
+      collections,
+      lastSyncedAt: new Date(now),
+    };
+  }
+
+  /**
+   * Record mounts, minions and achievements listed on the Lodestone
+   *
+   * Mounts and minions are matched to game data by name (case-insensitive),
+   * achievements by the ID in their detail link. Entries the character
+   * already has keep their original source.
+   */
+  importLodestoneCollections(
+    characterId: string,
+    collections: {
+      mounts?: string[];
+      minions?: string[];
+      achievements?: LodestoneAchievementList;
+    }
+  ): LodestoneCollectionSync {
+    const unmatched: string[] = [];
+    const result: LodestoneCollectionSync = {
+      mountsAdded: this.importLodestoneCollectibles(
+        characterId,
+        'mount',
+        collections.mounts || [],
+        unmatched
+      ),
+      minionsAdded: this.importLodestoneCollectibles(
+        characterId,
+        'companion',
+        collections.minions || [],
+        unmatched
+      ),
+      achievementsAdded: 0,
+      unmatched,
+      achievementsPrivate: collections.achievements?.isPrivate ?? false,
+    };
+
+    const findById = this.gameDb.prepare('SELECT id FROM achievements WHERE id = ?');
+    const findByName = this.gameDb.prepare('SELECT id FROM achievements WHERE name = ?');
+
+    for (const entry of collections.achievements?.achievements || []) {
+      const row = (findById.get(entry.id) || findByName.get(entry.name)) as any;
+      if (!row) {
+        unmatched.push(entry.name);
+        continue;
+      }
+
+      if (!this.isAchievementUnlocked(characterId, row.id)) {
+        this.markAchievementUnlocked(characterId, row.id, LODESTONE_SYNC_SOURCE);
+        result.achievementsAdded++;
+      }
+    }
+
+    return result;
+  }
+
   // ==================== Intelligent Sync ====================
 
   /**
-   * Perform intelligent sync: analyze achievements and infer quest completions
+   * Perform intelligent sync: analyze achievements and apply every inference
+   * (quests, fish, collectibles, titles)
+   *
+   * Reward items are counted but not stored, there's no record of owned items
+   * outside the inventory. Everything the sync adds is recorded as a sync run
+   * in the same transaction, and can be reverted with revertSyncRun().
    */
   async performIntelligentSync(
     characterId: string,
     achievementIds: number[]
   ): Promise<{
+    runId: number;
     achievementsProcessed: number;
     questsInferred: number;
     fishInferred: number;
+    collectiblesInferred: number;
+    titlesInferred: number;
+    itemsInferred: number;
     highConfidence: number;
     mediumConfidence: number;
     lowConfidence: number;
@@ -1019,39 +1360,11 @@ export class PlayerProfileService {
     const { getIntelligentSyncService } = await import('./intelligentSync.js');
     const intelligentSync = getIntelligentSyncService();
 
-    // Analyze achievements
-    const inferenceResult = intelligentSync.analyzeAchievements(achievementIds);
+    // Analyze achievements (completed quests feed the fish rule)
+    const completedQuestIds = this.getCompletedQuests(characterId).map((q) => q.questId);
+    const inferenceResult = intelligentSync.analyzeAchievements(achievementIds, completedQuestIds);
 
-    // Mark unlocked achievements
-    for (const achievement of inferenceResult.achievements) {
-      if (!this.isAchievementUnlocked(characterId, achievement.achievementId)) {
-        this.markAchievementUnlocked(
-          characterId,
-          achievement.achievementId,
-          'sync_confirmed',
-          'Detected from Lodestone sync'
-        );
-
-        // Check if this achievement rewards a title
-        const { getAchievementTrackerService } = await import('./achievementTracker.js');
-        const achievementTracker = getAchievementTrackerService();
-        const achievementData = achievementTracker.getAchievementById(achievement.achievementId);
-
-        if (achievementData?.titleRewardId) {
-          if (!this.isTitleUnlocked(characterId, achievementData.titleRewardId)) {
-            this.markTitleUnlocked(
-              characterId,
-              achievementData.titleRewardId,
-              'achievement',
-              achievement.achievementId,
-              `Auto-unlocked from achievement: ${achievementData.name}`
-            );
-          }
-        }
-      }
-    }
-
-    // Batch mark inferred quests
+    // Quests not marked yet
     const questsToMark = inferenceResult.inferredQuests
       .filter((q: any) => !this.isQuestComplete(characterId, q.questId))
       .map((q: any) => ({
@@ -1062,30 +1375,189 @@ export class PlayerProfileService {
         inferredFrom: q.inferredFrom,
       }));
 
-    if (questsToMark.length > 0) {
-      this.markQuestsCompleteBatch(characterId, questsToMark);
-    }
+    const changes: SyncRunChange[] = [];
+    let fishInferred = 0;
+    let collectiblesInferred = 0;
+    let titlesInferred = 0;
+
+    // Apply every inference and record the run in one transaction, so a
+    // failed sync doesn't leave rows behind that no run can revert
+    const runId = this.db.transaction(() => {
+      // Mark unlocked achievements
+      for (const achievement of inferenceResult.achievements) {
+        if (!this.isAchievementUnlocked(characterId, achievement.achievementId)) {
+          this.markAchievementUnlocked(
+            characterId,
+            achievement.achievementId,
+            'sync_confirmed',
+            'Detected from Lodestone sync'
+          );
+          changes.push({
+            type: 'achievement',
+            targetId: achievement.achievementId,
+            targetName: achievement.achievementName,
+          });
+        }
+      }
 
-    // Infer fish catches from completed quest objectives
-    const { inferFishFromCompletedQuests, markInferredFish } = await import(
-      './questFishInference.js'
-    );
-    const fishInferenceResult = inferFishFromCompletedQuests(characterId);
+      // Batch mark inferred quests
+      if (questsToMark.length > 0) {
+        this.markQuestsCompleteBatch(characterId, questsToMark);
+      }
+      const markedQuestIds = new Set(questsToMark.map((q) => q.questId));
+      for (const quest of inferenceResult.inferredQuests) {
+        if (markedQuestIds.has(quest.questId)) {
+          changes.push({
+            type: 'quest',
+            targetId: quest.questId,
+            targetName: quest.questName,
+            confidence: quest.confidence,
+          });
+        }
+      }
 
-    if (fishInferenceResult.fishToMark.length > 0) {
-      markInferredFish(characterId, fishInferenceResult.fishToMark);
-    }
+      for (const inference of inferenceResult.inferences) {
+        const change: SyncRunChange = {
+          type: inference.type as SyncChangeType,
+          targetId: inference.targetId,
+          targetName: inference.targetName,
+          confidence: inference.confidence,
+        };
+
+        switch (inference.type) {
+          case 'fish':
+            if (!this.isFishCaught(characterId, inference.targetId)) {
+              this.markFishCaught(characterId, inference.targetId, undefined, inference.reason);
+              changes.push(change);
+              fishInferred++;
+            }
+            break;
+          case 'mount':
+          case 'companion':
+          case 'orchestrion':
+            if (!this.isCollectibleObtained(characterId, inference.type, inference.targetId)) {
+              this.markCollectibleInferred(
+                characterId,
+                inference.type,
+                inference.targetId,
+                inference.reason
+              );
+              changes.push(change);
+              collectiblesInferred++;
+            }
+            break;
+          case 'title':
+            if (!this.isTitleUnlocked(characterId, inference.targetId)) {
+              this.markTitleUnlocked(
+                characterId,
+                inference.targetId,
+                'achievement',
+                inference.inferredFrom.id,
+                inference.reason
+              );
+              changes.push(change);
+              titlesInferred++;
+            }
+            break;
+        }
+      }
+
+      return this.recordSyncRun(characterId, achievementIds, changes);
+    })();
 
     return {
+      runId,
       achievementsProcessed: inferenceResult.achievements.length,
       questsInferred: questsToMark.length,
-      fishInferred: fishInferenceResult.fishToMark.length,
+      fishInferred,
+      collectiblesInferred,
+      titlesInferred,
+      itemsInferred: inferenceResult.summary.byType.item,
       highConfidence: inferenceResult.summary.highConfidence,
       mediumConfidence: inferenceResult.summary.mediumConfidence,
       lowConfidence: inferenceResult.summary.lowConfidence,
     };
   }
 
+  /**
+   * Get the intelligent sync runs of a character, most recent first
+   */
+  getSyncRuns(characterId: string, limit?: number): SyncRun[] {
+    let query = 'SELECT * FROM sync_runs WHERE character_id = ? ORDER BY started_at DESC, id DESC';
+    const params: any[] = [characterId];
+
+    if (limit) {
+      query += ' LIMIT ?';
+      params.push(limit);
+    }
+
+    const rows = this.db.prepare(query).all(...params) as any[];
+    return rows.map((row) => this.mapRowToSyncRun(row));
+  }
+
+  /**
+   * Get a sync run with every row it added
+   */
+  getSyncRun(runId: number): SyncRunDetails | null {
+    const row = this.db.prepare('SELECT * FROM sync_runs WHERE id = ?').get(runId);
+    if (!row) return null;
+
+    const changes = this.db
+      .prepare('SELECT * FROM sync_run_changes WHERE run_id = ? ORDER BY id')
+      .all(runId) as any[];
+
+    return {
+      ...this.mapRowToSyncRun(row),
+      changes: changes.map((change) => ({
+        type: change.change_type,
+        targetId: change.target_id,
+        targetName: change.target_name || undefined,
+        confidence: change.confidence ?? undefined,
+      })),
+    };
+  }
+
+  /**
+   * Revert a sync run: remove the rows it added
+   *
+   * Rows changed after the run (e.g. a quest marked complete by hand) are
+   * kept, and rows that existed before the run were never touched by it.
+   */
+  revertSyncRun(runId: number): SyncRevertResult {
+    const run = this.db.prepare('SELECT * FROM sync_runs WHERE id = ?').get(runId) as any;
+    if (!run) {
+      throw new Error(`Sync run ${runId} not found`);
+    }
+    if (run.reverted_at) {
+      throw new Error(`Sync run ${runId} has already been reverted`);
+    }
+
+    const changes = this.db
+      .prepare('SELECT * FROM sync_run_changes WHERE run_id = ? ORDER BY id')
+      .all(runId) as any[];
+    const result: SyncRevertResult = { runId, removed: 0, kept: 0 };
+
+    const transaction = this.db.transaction(() => {
+      for (const change of changes) {
+        const { table, timeColumn, source } =
+          SYNC_CHANGE_TABLES[change.change_type as SyncChangeType];
+        const removed = this.db
+          .prepare(
+            `DELETE FROM ${table}
+             WHERE id = ? AND character_id = ? AND ${timeColumn} = ?
+             ${source ? 'AND source = ?' : ''}`
+          )
+          .run(change.row_id, run.character_id, change.written_at, ...(source ? [source] : []));
+        result[removed.changes > 0 ? 'removed' : 'kept']++;
+      }
+
+      this.db.prepare('UPDATE sync_runs SET reverted_at = ? WHERE id = ?').run(Date.now(), runId);
+    });
+
+    transaction();
+    return result;
+  }
+
   // ==================== Utility Methods ====================
 
   /**
@@ -1096,6 +1568,177 @@ export class PlayerProfileService {
     this.gameDb.close();
   }
 
+  /**
+   * Store job levels parsed from a class/job page and report what changed
+   */
+  private applyClassJobs(
+    characterId: string,
+    classJobs: Record<string, any>
+  ): CharacterSyncResult['changes'] {
+    const changes: CharacterSyncResult['changes'] = {
+      jobsUpdated: 0,
+      newJobs: [],
+      levelChanges: [],
+    };
+
+    for (const jobName of LODESTONE_JOB_NAMES) {
+      const jobData = classJobs[jobName];
+      if (jobData && jobData.Level) {
+        const newLevel = parseInt(jobData.Level);
+        if (newLevel > 0) {
+          // Check existing level
+          const existing = this.db
+            .prepare('SELECT level FROM job_progress WHERE character_id = ? AND job_name = ?')
+            .get(characterId, jobName) as any;
+
+          if (existing) {
+            if (existing.level !== newLevel) {
+              changes.levelChanges.push({
+                jobName,
+                oldLevel: existing.level,
+                newLevel,
+              });
+              changes.jobsUpdated++;
+            }
+          } else {
+            changes.newJobs.push(jobName);
+            changes.jobsUpdated++;
+          }
+
+          this.updateJobLevel(characterId, jobName, newLevel);
+        }
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Mark Lodestone mount or minion names as obtained, returns how many were new
+   */
+  private importLodestoneCollectibles(
+    characterId: string,
+    type: 'mount' | 'companion',
+    names: string[],
+    unmatched: string[]
+  ): number {
+    const table = type === 'mount' ? 'mounts' : 'companions';
+    const rows = this.gameDb.prepare(`SELECT id, name, singular FROM ${table}`).all() as any[];
+
+    const ids = new Map<string, number>();
+    for (const row of rows) {
+      for (const name of [row.name, row.singular]) {
+        if (name && !ids.has(name.toLowerCase())) ids.set(name.toLowerCase(), row.id);
+      }
+    }
+
+    const userData = this.userData;
+    let added = 0;
+
+    for (const name of names) {
+      const id = ids.get(name.toLowerCase());
+      if (id === undefined) {
+        unmatched.push(name);
+        continue;
+      }
+
+      if (!userData.getObtainedCollectible(characterId, type, id)) {
+        userData.markCollectibleObtained(characterId, type, id, LODESTONE_SYNC_SOURCE);
+        added++;
+      }
+    }
+
+    return added;
+  }
+
+  /**
+   * Record a sync run and link the rows it added, returns the run ID
+   */
+  private recordSyncRun(
+    characterId: string,
+    achievementIds: number[],
+    changes: SyncRunChange[]
+  ): number {
+    const rows = changes.map((change) => {
+      const { table, column, timeColumn } = SYNC_CHANGE_TABLES[change.type];
+      const row = this.db
+        .prepare(
+          `SELECT id, ${timeColumn} as written_at FROM ${table}
+           WHERE character_id = ? AND ${column} = ?`
+        )
+        .get(characterId, change.targetId) as any;
+      return row && { id: row.id as number, writtenAt: row.written_at as number };
+    });
+
+    const insertChange = this.db.prepare(
+      `INSERT INTO sync_run_changes
+         (run_id, change_type, target_id, target_name, confidence, row_id, written_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    );
+
+    const transaction = this.db.transaction(() => {
+      const runId = Number(
+        this.db
+          .prepare(
+            'INSERT INTO sync_runs (character_id, started_at, achievement_ids) VALUES (?, ?, ?)'
+          )
+          .run(characterId, Date.now(), JSON.stringify(achievementIds)).lastInsertRowid
+      );
+
+      changes.forEach((change, index) => {
+        const row = rows[index];
+        if (!row) return;
+
+        insertChange.run(
+          runId,
+          change.type,
+          change.targetId,
+          change.targetName ?? null,
+          change.confidence ?? null,
+          row.id,
+          row.writtenAt
+        );
+      });
+
+      return runId;
+    });
+
+    return transaction();
+  }
+
+  /**
+   * Whether a character has a mount, companion or orchestrion roll
+   */
+  private isCollectibleObtained(
+    characterId: string,
+    type: CollectibleType,
+    collectibleId: number
+  ): boolean {
+    const { table, column } = SYNC_CHANGE_TABLES[type];
+    return !!this.db
+      .prepare(`SELECT 1 FROM ${table} WHERE character_id = ? AND ${column} = ?`)
+      .get(characterId, collectibleId);
+  }
+
+  /**
+   * Mark a collectible inferred by the sync as obtained; written on this
+   * connection instead of the user data repository's so the sync transaction covers it
+   */
+  private markCollectibleInferred(
+    characterId: string,
+    type: CollectibleType,
+    collectibleId: number,
+    notes: string
+  ): void {
+    const { table, column } = SYNC_CHANGE_TABLES[type];
+    this.db
+      .prepare(
+        `INSERT INTO ${table} (character_id, ${column}, obtained_at, obtained_from, notes)
+         VALUES (?, ?, ?, 'achievement', ?)`
+      )
+      .run(characterId, collectibleId, Date.now(), notes);
+  }
+
   // ==================== Row Mapping ====================
 
   private mapRowToCharacter(row: any): PlayerCharacter {
@@ -1160,6 +1803,18 @@ export class PlayerProfileService {
     };
   }
 
+  private mapRowToInventoryItem(row: any): InventoryItem {
+    return {
+      id: row.id,
+      characterId: row.character_id,
+      itemId: row.item_id,
+      quantity: row.quantity,
+      isHq: row.is_hq === 1,
+      location: row.location,
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
   private mapRowToSessionHistory(row: any): SessionHistory {
     return {
       id: row.id,
@@ -1207,6 +1862,24 @@ export class PlayerProfileService {
       notes: row.notes || undefined,
     };
   }
+
+  private mapRowToSyncRun(row: any): SyncRun {
+    const counts = this.db
+      .prepare(
+        `SELECT change_type, COUNT(*) as count FROM sync_run_changes
+         WHERE run_id = ? GROUP BY change_type`
+      )
+      .all(row.id) as Array<{ change_type: SyncChangeType; count: number }>;
+
+    return {
+      id: row.id,
+      characterId: row.character_id,
+      startedAt: new Date(row.started_at),
+      achievementIds: JSON.parse(row.achievement_ids),
+      revertedAt: row.reverted_at ? new Date(row.reverted_at) : undefined,
+      changeCounts: Object.fromEntries(counts.map((count) => [count.change_type, count.count])),
+    };
+  }
 }
 
 // Export singleton instance
@@ -0,0 +1,266 @@
+/**
+ * Profile Bundle Service
+ *
+ * Exports a character's progress from userData.db as a versioned JSON bundle
+ * and imports bundles back, merging with what the profile already has.
+ */
+
+import Database from 'better-sqlite3';
+import { join } from 'path';
+import type { ProfileBundle, ProfileImportResult, ProfileMergeStrategy } from '../types/profile.js';
+
+const USER_DB_PATH = join(process.cwd(), 'data', 'userData.db');
+
+export const PROFILE_BUNDLE_FORMAT = 'eorzea-profile';
+
+/** Bumped whenever the bundle layout changes in a way older versions can't read */
+export const PROFILE_BUNDLE_VERSION = 1;
+
+export const PROFILE_MERGE_STRATEGIES: ProfileMergeStrategy[] = ['skip', 'overwrite', 'newest'];
+
+/**
+ * Per-character tables in the bundle, with the columns that identify a row
+ * (besides character_id) and the timestamp newest-wins compares
+ */
+const BUNDLE_TABLES: Record<string, { key: string[]; timestamp: string }> = {
+  job_progress: { key: ['job_name'], timestamp: 'updated_at' },
+  completed_quests: { key: ['quest_id'], timestamp: 'completed_at' },
+  caught_fish: { key: ['fish_id'], timestamp: 'caught_at' },
+  gathered_items: { key: ['item_id', 'gathering_point_id'], timestamp: 'gathered_at' },
+  crafted_items: { key: ['recipe_id'], timestamp: 'crafted_at' },
+  obtained_mounts: { key: ['mount_id'], timestamp: 'obtained_at' },
+  obtained_companions: { key: ['companion_id'], timestamp: 'obtained_at' },
+  obtained_orchestrion: { key: ['orchestrion_id'], timestamp: 'obtained_at' },
+  unlocked_titles: { key: ['title_id'], timestamp: 'unlocked_at' },
+  unlocked_achievements: { key: ['achievement_id'], timestamp: 'unlocked_at' },
+  bookmarks: { key: ['type', 'item_id'], timestamp: 'created_at' },
+  goals: { key: ['title', 'created_at'], timestamp: 'COALESCE(completed_at, created_at)' },
+};
+
+/** Newest-wins compares characters by their last Lodestone sync */
+const CHARACTER_TIMESTAMP = 'COALESCE(last_synced_at, created_at)';
+
+export class ProfileBundleService {
+  private db: Database.Database;
+
+  constructor(userDbPath: string = USER_DB_PATH) {
+    this.db = new Database(userDbPath);
+    this.db.pragma('foreign_keys = ON');
+  }
+
+  /**
+   * Export characters and all their progress
+   */
+  exportProfile(characterIds: string[]): ProfileBundle {
+    const characters = characterIds.map((id) => {
+      const row = this.db.prepare('SELECT * FROM characters WHERE id = ?').get(id);
+      if (!row) {
+        throw new Error(`Character ${id} not found`);
+      }
+      return row as Record<string, unknown>;
+    });
+
+    const tables: ProfileBundle['tables'] = {};
+    for (const table of Object.keys(BUNDLE_TABLES)) {
+      if (this.getColumns(table).length === 0) continue;
+
+      tables[table] = characterIds.flatMap((characterId) =>
+        (
+          this.db
+            .prepare(`SELECT * FROM ${table} WHERE character_id = ? ORDER BY id`)
+            .all(characterId) as Array<Record<string, unknown>>
+        ).map((row) => {
+          delete row.id;
+          return row;
+        })
+      );
+    }
+
+    return {
+      format: PROFILE_BUNDLE_FORMAT,
+      version: PROFILE_BUNDLE_VERSION,
+      exportedAt: new Date().toISOString(),
+      characters,
+      tables,
+    };
+  }
+
+  /**
+   * Import a bundle
+   *
+   * Rows the profile doesn't have are added. Existing rows (same character
+   * and e.g. quest ID) are kept with 'skip', replaced with 'overwrite', and
+   * replaced only when the bundle's copy is more recent with 'newest'.
+   * Imported characters don't change which character is active.
+   */
+  importProfile(
+    bundle: ProfileBundle,
+    strategy: ProfileMergeStrategy = 'skip'
+  ): ProfileImportResult {
+    this.validateBundle(bundle);
+    if (!PROFILE_MERGE_STRATEGIES.includes(strategy)) {
+      throw new Error(
+        `Unknown merge strategy "${strategy}" (use ${PROFILE_MERGE_STRATEGIES.join(', ')})`
+      );
+    }
+
+    const characterIds = bundle.characters.map((character) => String(character.id));
+    const result: ProfileImportResult = { characterIds, tables: {} };
+
+    this.db.transaction(() => {
+      // Only the first added character becomes active, and only if the profile has none
+      let hasActive = !!this.db.prepare('SELECT 1 FROM characters WHERE is_active = 1').get();
+      result.tables.characters = { added: 0, updated: 0, skipped: 0 };
+
+      for (const character of bundle.characters) {
+        const outcome = this.mergeRow(
+          'characters',
+          character,
+          ['id'],
+          CHARACTER_TIMESTAMP,
+          strategy,
+          {
+            is_active: hasActive ? 0 : 1,
+          }
+        );
+        result.tables.characters[outcome]++;
+        if (outcome === 'added') hasActive = true;
+      }
+
+      for (const [table, rows] of Object.entries(bundle.tables)) {
+        const tableInfo = BUNDLE_TABLES[table];
+        if (!tableInfo) continue;
+
+        const counts = { added: 0, updated: 0, skipped: 0 };
+        const localTable = this.getColumns(table).length > 0;
+
+        for (const row of rows) {
+          if (!characterIds.includes(String(row.character_id))) {
+            throw new Error(`Row in ${table} belongs to a character that isn't in the bundle`);
+          }
+          if (!localTable) {
+            counts.skipped++;
+            continue;
+          }
+
+          const outcome = this.mergeRow(
+            table,
+            row,
+            ['character_id', ...tableInfo.key],
+            tableInfo.timestamp,
+            strategy
+          );
+          counts[outcome]++;
+        }
+
+        result.tables[table] = counts;
+      }
+    })();
+
+    return result;
+  }
+
+  /**
+   * Check a parsed bundle before importing it
+   */
+  validateBundle(bundle: any): asserts bundle is ProfileBundle {
+    if (!bundle || bundle.format !== PROFILE_BUNDLE_FORMAT) {
+      throw new Error('Not an eorzea profile bundle');
+    }
+    if (!Number.isInteger(bundle.version) || bundle.version < 1) {
+      throw new Error('Profile bundle has no valid version');
+    }
+    if (bundle.version > PROFILE_BUNDLE_VERSION) {
+      throw new Error(
+        `Profile bundle version ${bundle.version} is newer than this version of eorzea supports (${PROFILE_BUNDLE_VERSION}), please update`
+      );
+    }
+    if (!Array.isArray(bundle.characters) || typeof bundle.tables !== 'object') {
+      throw new Error('Profile bundle is missing characters or tables');
+    }
+  }
+
+  /**
+   * Close database connection
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Insert a row, or merge it into the row with the same key
+   *
+   * Only columns the local table has are written, so bundles from newer
+   * versions with extra columns still import. Local row IDs are never
+   * copied, except for characters where the ID is the Lodestone ID.
+   * insertOnly values are only written when the row is added.
+   */
+  private mergeRow(
+    table: string,
+    row: Record<string, unknown>,
+    key: string[],
+    timestamp: string,
+    strategy: ProfileMergeStrategy,
+    insertOnly: Record<string, unknown> = {}
+  ): 'added' | 'updated' | 'skipped' {
+    const localColumns = this.getColumns(table);
+    const columns = Object.keys(row).filter(
+      (column) => localColumns.includes(column) && (column !== 'id' || key.includes('id'))
+    );
+
+    const existing = this.db
+      .prepare(
+        `SELECT id, ${timestamp} as timestamp FROM ${table}
+         WHERE ${key.map((column) => `${column} IS ?`).join(' AND ')}`
+      )
+      .get(...key.map((column) => row[column] ?? null)) as
+      { id: unknown; timestamp: number | null } | undefined;
+
+    if (!existing) {
+      const insert = { ...Object.fromEntries(columns.map((c) => [c, row[c]])), ...insertOnly };
+      const insertColumns = Object.keys(insert);
+      this.db
+        .prepare(
+          `INSERT INTO ${table} (${insertColumns.join(', ')})
+           VALUES (${insertColumns.map(() => '?').join(', ')})`
+        )
+        .run(...insertColumns.map((column) => insert[column] ?? null));
+      return 'added';
+    }
+
+    if (strategy === 'skip') return 'skipped';
+
+    if (strategy === 'newest') {
+      const incoming = this.db
+        .prepare(
+          `SELECT ${timestamp} as timestamp FROM (SELECT ${columns
+            .map((column) => `? as ${column}`)
+            .join(', ')})`
+        )
+        .get(...columns.map((column) => row[column] ?? null)) as { timestamp: number | null };
+      if ((incoming.timestamp ?? 0) <= (existing.timestamp ?? 0)) return 'skipped';
+    }
+
+    const updateColumns = columns.filter(
+      (column) => !key.includes(column) && !(column in insertOnly)
+    );
+    if (updateColumns.length > 0) {
+      this.db
+        .prepare(
+          `UPDATE ${table} SET ${updateColumns.map((column) => `${column} = ?`).join(', ')}
+           WHERE id IS ?`
+        )
+        .run(...updateColumns.map((column) => row[column] ?? null), existing.id);
+    }
+    return 'updated';
+  }
+
+  /**
+   * Column names of a local table (empty when the table doesn't exist)
+   */
+  private getColumns(table: string): string[] {
+    return (this.db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>).map(
+      (column) => column.name
+    );
+  }
+}
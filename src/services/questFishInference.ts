@@ -46,41 +46,19 @@ export function inferFishFromCompletedQuests(characterId: string): FishInference
       return { totalFish: 0, fishToMark: [], alreadyCaught: 0 };
     }
 
-    // Get all quests with fish objectives
-    const questsWithFish = gameDb
-      .prepare(
-        `SELECT id, name, objectives FROM quests 
-         WHERE id IN (${completedQuestIds.join(',')})
-         AND objectives LIKE '%"type":"fish"%'`
-      )
-      .all() as any[];
-
-    // Parse fish objectives from each quest
-    for (const quest of questsWithFish) {
-      const objectives = JSON.parse(quest.objectives);
-
-      for (const objective of objectives) {
-        if (objective.type === 'fish' && objective.details?.fish) {
-          const fishId = objective.details.fish.fishId;
-          const fishName = objective.details.fish.fishName;
-
-          // Check if already caught
-          const existing = profileDb
-            .prepare('SELECT id FROM caught_fish WHERE character_id = ? AND fish_id = ?')
-            .get(characterId, fishId);
-
-          if (existing) {
-            alreadyCaught++;
-          } else {
-            fishToMark.push({
-              fishId,
-              fishName,
-              questId: quest.id,
-              questName: quest.name,
-              confidence: 100, // 100% confidence - quest requires this fish
-            });
-          }
-        }
+    for (const objective of getQuestFishObjectives(gameDb, completedQuestIds)) {
+      // Check if already caught
+      const existing = profileDb
+        .prepare('SELECT id FROM caught_fish WHERE character_id = ? AND fish_id = ?')
+        .get(characterId, objective.fishId);
+
+      if (existing) {
+        alreadyCaught++;
+      } else {
+        fishToMark.push({
+          ...objective,
+          confidence: 100, // 100% confidence - quest requires this fish
+        });
       }
     }
   } finally {
@@ -95,6 +73,42 @@ export function inferFishFromCompletedQuests(characterId: string): FishInference
   };
 }
 
+/**
+ * Get the fish that quest objectives require, for the given quests
+ */
+export function getQuestFishObjectives(
+  gameDb: Database.Database,
+  questIds: number[]
+): Array<Omit<FishInference, 'confidence'>> {
+  if (questIds.length === 0) return [];
+
+  const questsWithFish = gameDb
+    .prepare(
+      `SELECT id, name, objectives FROM quests
+       WHERE id IN (SELECT value FROM json_each(?))
+       AND objectives LIKE '%"type":"fish"%'`
+    )
+    .all(JSON.stringify(questIds)) as any[];
+
+  const objectives: Array<Omit<FishInference, 'confidence'>> = [];
+
+  // Parse fish objectives from each quest
+  for (const quest of questsWithFish) {
+    for (const objective of JSON.parse(quest.objectives)) {
+      if (objective.type === 'fish' && objective.details?.fish) {
+        objectives.push({
+          fishId: objective.details.fish.fishId,
+          fishName: objective.details.fish.fishName,
+          questId: quest.id,
+          questName: quest.name,
+        });
+      }
+    }
+  }
+
+  return objectives;
+}
+
 /**
  * Mark inferred fish as caught
  */
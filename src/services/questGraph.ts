@@ -0,0 +1,204 @@
+/**
+ * Quest Graph Service
+ *
+ * Builds the quest dependency graph from each quest's previous_quests and
+ * answers "what do I need before X" and "what can I pick up now".
+ *
+ * All listed previous quests are treated as required.
+ */
+
+import Database from 'better-sqlite3';
+import { join } from 'path';
+import type { QuestGraphNode, QuestPath } from '../types/quest.js';
+
+// Default database path (relative to project root)
+const DB_PATH = join(process.cwd(), 'data', 'gameData.db');
+
+export class QuestGraphService {
+  private db: Database.Database;
+  private nodes?: Map<number, QuestGraphNode>;
+  private dependents?: Map<number, number[]>;
+
+  constructor(dbPath: string = DB_PATH) {
+    this.db = new Database(dbPath, { readonly: true });
+  }
+
+  /**
+   * Get a quest node by ID
+   */
+  getNode(questId: number): QuestGraphNode | null {
+    return this.getNodes().get(questId) ?? null;
+  }
+
+  /**
+   * Get every prerequisite of a quest (transitively), ordered so each quest
+   * comes after its own prerequisites; the quest itself is not included
+   *
+   * @param filter - Only walk through quests that pass (e.g. one journal genre)
+   */
+  getPrerequisiteChain(
+    questId: number,
+    filter?: (node: QuestGraphNode) => boolean
+  ): QuestGraphNode[] {
+    const nodes = this.getNodes();
+    const target = nodes.get(questId);
+    if (!target) return [];
+
+    // Collect the ancestors
+    const ancestors = new Set<number>();
+    const stack = [...target.previousQuests];
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      const node = nodes.get(id);
+      if (ancestors.has(id) || id === questId || !node || (filter && !filter(node))) continue;
+
+      ancestors.add(id);
+      stack.push(...node.previousQuests);
+    }
+
+    return this.sortByDependencies([...ancestors].map((id) => nodes.get(id)!));
+  }
+
+  /**
+   * Get the prerequisite chain of a quest marked with what is already done
+   */
+  getPathTo(questId: number, completedIds: Iterable<number> = []): QuestPath | null {
+    const quest = this.getNode(questId);
+    if (!quest) return null;
+
+    const completed = new Set(completedIds);
+    const prerequisites = this.getPrerequisiteChain(questId).map((node) => ({
+      ...node,
+      completed: completed.has(node.id),
+    }));
+
+    return {
+      quest,
+      prerequisites,
+      remaining: prerequisites.filter((step) => !step.completed).length,
+    };
+  }
+
+  /**
+   * Get quests that are unlocked by completed quests: not completed yet and
+   * every prerequisite done (quests without prerequisites are not listed)
+   */
+  getUnlockedQuests(completedIds: Iterable<number>): QuestGraphNode[] {
+    const nodes = this.getNodes();
+    const dependents = this.getDependents();
+    const completed = new Set(completedIds);
+    const unlocked = new Map<number, QuestGraphNode>();
+
+    for (const id of completed) {
+      for (const dependentId of dependents.get(id) || []) {
+        const node = nodes.get(dependentId)!;
+        if (completed.has(dependentId) || unlocked.has(dependentId)) continue;
+
+        if (node.previousQuests.every((prereqId) => completed.has(prereqId))) {
+          unlocked.set(dependentId, node);
+        }
+      }
+    }
+
+    return [...unlocked.values()].sort(compareNodes);
+  }
+
+  /**
+   * Get the quests that list this quest as a prerequisite
+   */
+  getDependentQuests(questId: number): QuestGraphNode[] {
+    const nodes = this.getNodes();
+    return (this.getDependents().get(questId) || []).map((id) => nodes.get(id)!).sort(compareNodes);
+  }
+
+  /**
+   * Close database connection
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Topological order (Kahn's algorithm), picking the lowest level first
+   * whenever several quests are ready; quests stuck in a cycle go last
+   */
+  private sortByDependencies(chain: QuestGraphNode[]): QuestGraphNode[] {
+    const ids = new Set(chain.map((node) => node.id));
+    const pending = new Map(
+      chain.map((node) => [node.id, node.previousQuests.filter((id) => ids.has(id)).length])
+    );
+    const dependents = this.getDependents();
+    const ordered: QuestGraphNode[] = [];
+    let ready = chain.filter((node) => pending.get(node.id) === 0);
+
+    while (ready.length > 0) {
+      ready.sort(compareNodes);
+      const node = ready.shift()!;
+      ordered.push(node);
+      pending.delete(node.id);
+
+      for (const dependentId of dependents.get(node.id) || []) {
+        const count = pending.get(dependentId);
+        if (count === undefined) continue;
+
+        pending.set(dependentId, count - 1);
+        if (count === 1) ready.push(this.getNodes().get(dependentId)!);
+      }
+    }
+
+    const cyclic = chain.filter((node) => pending.has(node.id)).sort(compareNodes);
+    return [...ordered, ...cyclic];
+  }
+
+  private getNodes(): Map<number, QuestGraphNode> {
+    if (this.nodes) return this.nodes;
+
+    const rows = this.db
+      .prepare(
+        `SELECT id, name, level, level_offset, journal_genre_id, expansion_id, is_repeatable, previous_quests
+         FROM quests`
+      )
+      .all() as any[];
+
+    this.nodes = new Map();
+    for (const row of rows) {
+      this.nodes.set(row.id, {
+        id: row.id,
+        name: row.name,
+        level: row.level + (row.level_offset || 0),
+        journalGenreId: row.journal_genre_id || null,
+        expansionId: row.expansion_id ?? null,
+        isRepeatable: row.is_repeatable === 1,
+        previousQuests: JSON.parse(row.previous_quests || '[]'),
+      });
+    }
+
+    // Drop references to quests that aren't in the database
+    for (const node of this.nodes.values()) {
+      node.previousQuests = node.previousQuests.filter(
+        (id) => id !== node.id && this.nodes!.has(id)
+      );
+    }
+
+    return this.nodes;
+  }
+
+  private getDependents(): Map<number, number[]> {
+    if (this.dependents) return this.dependents;
+
+    this.dependents = new Map();
+    for (const node of this.getNodes().values()) {
+      for (const prereqId of node.previousQuests) {
+        const list = this.dependents.get(prereqId) || [];
+        list.push(node.id);
+        this.dependents.set(prereqId, list);
+      }
+    }
+
+    return this.dependents;
+  }
+}
+
+function compareNodes(a: QuestGraphNode, b: QuestGraphNode): number {
+  return a.level - b.level || a.id - b.id;
+}
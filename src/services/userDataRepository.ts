@@ -0,0 +1,433 @@
+/**
+ * User Data Repository
+ *
+ * Stores per-character collectible, crafting and gathering progress in
+ * userData.db, keyed by Lodestone character ID like the rest of the profile.
+ * Game data services use it instead of writing to gameData.db, which is
+ * rebuilt whenever game data is reseeded.
+ */
+
+import Database from 'better-sqlite3';
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import type { CollectibleType, ObtainedCollectible } from '../types/collectibles.js';
+import type { CraftedItem } from '../types/crafting.js';
+import type { GatheredItem } from '../types/gathering.js';
+import type { LegacyProgressMigration } from '../types/profile.js';
+
+const USER_DB_PATH = join(process.cwd(), 'data', 'userData.db');
+const GAME_DB_PATH = join(process.cwd(), 'data', 'gameData.db');
+const USER_SCHEMA_PATH = join(process.cwd(), 'data', 'userData-schema.sql');
+
+/**
+ * Tables added to data/userData-schema.sql after the initial schema, by the
+ * name recorded in schema_migrations once older profiles have them
+ */
+const SCHEMA_ADDITIONS: Record<string, string[]> = {
+  'add-inventory': ['inventory'],
+  'add-sync-runs': ['sync_runs', 'sync_run_changes'],
+};
+
+/** Name recorded in schema_migrations once legacy progress has been moved */
+const LEGACY_PROGRESS_MIGRATION = 'move-progress-from-game-data';
+
+/** Progress table and ID column per collectible type */
+const COLLECTIBLE_TABLES: Record<CollectibleType, { table: string; column: string }> = {
+  mount: { table: 'obtained_mounts', column: 'mount_id' },
+  companion: { table: 'obtained_companions', column: 'companion_id' },
+  orchestrion: { table: 'obtained_orchestrion', column: 'orchestrion_id' },
+};
+
+/** Progress tables that older versions kept in gameData.db, with their timestamp column */
+const LEGACY_TABLES: Record<string, string> = {
+  obtained_mounts: 'obtained_at',
+  obtained_companions: 'obtained_at',
+  obtained_orchestrion: 'obtained_at',
+  crafted_items: 'crafted_at',
+  gathered_items: 'gathered_at',
+};
+
+export class UserDataRepository {
+  private db: Database.Database;
+
+  constructor(userDbPath: string = USER_DB_PATH, gameDbPath: string = GAME_DB_PATH) {
+    this.db = new Database(userDbPath);
+    this.db.pragma('foreign_keys = ON');
+
+    applySchemaAdditions(this.db);
+    this.migrateLegacyProgress(gameDbPath);
+  }
+
+  // ==================== Collectibles ====================
+
+  /**
+   * Mark a mount, companion or orchestrion roll as obtained
+   */
+  markCollectibleObtained(
+    characterId: string,
+    type: CollectibleType,
+    collectibleId: number,
+    obtainedFrom?: string,
+    notes?: string
+  ): void {
+    const { table, column } = COLLECTIBLE_TABLES[type];
+    this.db
+      .prepare(
+        `INSERT INTO ${table} (character_id, ${column}, obtained_at, obtained_from, notes)
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT(character_id, ${column}) DO UPDATE SET
+           obtained_at = excluded.obtained_at,
+           obtained_from = excluded.obtained_from,
+           notes = excluded.notes`
+      )
+      .run(characterId, collectibleId, Date.now(), obtainedFrom ?? null, notes ?? null);
+  }
+
+  /**
+   * Get one obtained collectible, or null if the character doesn't have it
+   */
+  getObtainedCollectible(
+    characterId: string,
+    type: CollectibleType,
+    collectibleId: number
+  ): ObtainedCollectible | null {
+    const { table, column } = COLLECTIBLE_TABLES[type];
+    const row = this.db
+      .prepare(`SELECT * FROM ${table} WHERE character_id = ? AND ${column} = ?`)
+      .get(characterId, collectibleId);
+
+    return row ? this.mapRowToObtainedCollectible(row, type) : null;
+  }
+
+  /**
+   * Get every obtained collectible of a type
+   */
+  getObtainedCollectibles(characterId: string, type: CollectibleType): ObtainedCollectible[] {
+    const { table } = COLLECTIBLE_TABLES[type];
+    const rows = this.db
+      .prepare(`SELECT * FROM ${table} WHERE character_id = ? ORDER BY obtained_at DESC`)
+      .all(characterId);
+
+    return rows.map((row) => this.mapRowToObtainedCollectible(row, type));
+  }
+
+  /**
+   * Remove an obtained collectible
+   *
+   * @param obtainedAt - Only remove it if it wasn't marked again since (Unix ms)
+   * @returns Whether a row was removed
+   */
+  removeObtainedCollectible(
+    characterId: string,
+    type: CollectibleType,
+    collectibleId: number,
+    obtainedAt?: number
+  ): boolean {
+    const { table, column } = COLLECTIBLE_TABLES[type];
+    const result = this.db
+      .prepare(
+        `DELETE FROM ${table} WHERE character_id = ? AND ${column} = ?
+         AND (? IS NULL OR obtained_at = ?)`
+      )
+      .run(characterId, collectibleId, obtainedAt ?? null, obtainedAt ?? null);
+
+    return result.changes > 0;
+  }
+
+  // ==================== Crafting ====================
+
+  /**
+   * Mark a recipe as crafted
+   */
+  markItemCrafted(
+    characterId: string,
+    recipeId: number,
+    itemId: number,
+    isHq: boolean = false,
+    isCollectible: boolean = false,
+    collectibility?: number,
+    notes?: string
+  ): void {
+    this.db
+      .prepare(
+        `INSERT INTO crafted_items
+           (character_id, recipe_id, item_id, crafted_at, is_hq, is_collectible, collectibility, notes)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(character_id, recipe_id) DO UPDATE SET
+           crafted_at = excluded.crafted_at,
+           is_hq = excluded.is_hq,
+           is_collectible = excluded.is_collectible,
+           collectibility = excluded.collectibility,
+           notes = excluded.notes`
+      )
+      .run(
+        characterId,
+        recipeId,
+        itemId,
+        Date.now(),
+        isHq ? 1 : 0,
+        isCollectible ? 1 : 0,
+        collectibility ?? null,
+        notes ?? null
+      );
+  }
+
+  /**
+   * Get crafted recipes, most recent first
+   */
+  getCraftedItems(characterId: string): CraftedItem[] {
+    const rows = this.db
+      .prepare('SELECT * FROM crafted_items WHERE character_id = ? ORDER BY crafted_at DESC')
+      .all(characterId);
+
+    return rows.map((row) => this.mapRowToCraftedItem(row));
+  }
+
+  // ==================== Gathering ====================
+
+  /**
+   * Mark an item as gathered (optionally at a specific gathering point)
+   */
+  markItemGathered(
+    characterId: string,
+    itemId: number,
+    gatheringPointId?: number,
+    isHq: boolean = false,
+    notes?: string
+  ): void {
+    this.db
+      .prepare(
+        `INSERT INTO gathered_items (character_id, item_id, gathering_point_id, gathered_at, is_hq, notes)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT(character_id, item_id, gathering_point_id) DO UPDATE SET
+           gathered_at = excluded.gathered_at,
+           is_hq = excluded.is_hq,
+           notes = excluded.notes`
+      )
+      .run(characterId, itemId, gatheringPointId ?? null, Date.now(), isHq ? 1 : 0, notes ?? null);
+  }
+
+  /**
+   * Get gathered items, most recent first
+   */
+  getGatheredItems(characterId: string): GatheredItem[] {
+    const rows = this.db
+      .prepare('SELECT * FROM gathered_items WHERE character_id = ? ORDER BY gathered_at DESC')
+      .all(characterId);
+
+    return rows.map((row) => this.mapRowToGatheredItem(row));
+  }
+
+  // ==================== Legacy Migration ====================
+
+  /**
+   * Move progress rows that older versions wrote to gameData.db (numeric
+   * character IDs, SQLite datetime strings) into userData.db
+   *
+   * Rows already in userData.db win; rows for characters that aren't in
+   * the profile are left in gameData.db and counted as skipped. The
+   * migration is only recorded once nothing was skipped, so skipped rows
+   * move on a later run after their character is added. Returns null when
+   * the migration had already completed.
+   */
+  migrateLegacyProgress(gameDbPath: string = GAME_DB_PATH): LegacyProgressMigration | null {
+    const applied = this.db
+      .prepare('SELECT 1 FROM schema_migrations WHERE name = ?')
+      .get(LEGACY_PROGRESS_MIGRATION);
+    if (applied) return null;
+
+    const result: LegacyProgressMigration = { migrated: {}, skipped: {} };
+    const gameDb = existsSync(gameDbPath) ? new Database(gameDbPath) : null;
+
+    try {
+      const characterIds = new Set(
+        (this.db.prepare('SELECT id FROM characters').all() as Array<{ id: string }>).map(
+          (row) => row.id
+        )
+      );
+      const moved = new Map<string, number[]>();
+
+      this.db.transaction(() => {
+        for (const [table, timestampColumn] of Object.entries(LEGACY_TABLES)) {
+          const exists = gameDb
+            ?.prepare(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?`)
+            .get(table);
+          if (!gameDb || !exists) continue;
+
+          const rows = gameDb.prepare(`SELECT * FROM ${table}`).all() as Array<Record<string, any>>;
+          moved.set(table, []);
+
+          for (const { id, ...values } of rows) {
+            values.character_id = String(values.character_id);
+            if (!characterIds.has(values.character_id)) continue;
+
+            values[timestampColumn] = parseLegacyTimestamp(values[timestampColumn]);
+            const columns = Object.keys(values);
+            this.db
+              .prepare(
+                `INSERT OR IGNORE INTO ${table} (${columns.join(', ')})
+                 VALUES (${columns.map(() => '?').join(', ')})`
+              )
+              .run(...columns.map((column) => values[column]));
+            moved.get(table)!.push(id);
+          }
+
+          result.migrated[table] = moved.get(table)!.length;
+          result.skipped[table] = rows.length - moved.get(table)!.length;
+        }
+
+        if (Object.values(result.skipped).every((count) => count === 0)) {
+          this.db
+            .prepare('INSERT INTO schema_migrations (name, applied_at) VALUES (?, ?)')
+            .run(LEGACY_PROGRESS_MIGRATION, Date.now());
+        }
+      })();
+
+      // Only remove the legacy rows once they're safely in userData.db
+      if (gameDb && moved.size > 0) {
+        gameDb.transaction(() => {
+          for (const [table, ids] of moved) {
+            const deleteRow = gameDb.prepare(`DELETE FROM ${table} WHERE id = ?`);
+            ids.forEach((id) => deleteRow.run(id));
+          }
+        })();
+      }
+    } finally {
+      gameDb?.close();
+    }
+
+    return result;
+  }
+
+  // ==================== Utility Methods ====================
+
+  /**
+   * Close database connection
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  // ==================== Row Mapping ====================
+
+  private mapRowToObtainedCollectible(row: any, type: CollectibleType): ObtainedCollectible {
+    return {
+      id: row.id,
+      character_id: row.character_id,
+      collectible_type: type,
+      collectible_id: row[COLLECTIBLE_TABLES[type].column],
+      obtained_at: new Date(row.obtained_at).toISOString(),
+      obtained_from: row.obtained_from || undefined,
+      notes: row.notes || undefined,
+    };
+  }
+
+  private mapRowToCraftedItem(row: any): CraftedItem {
+    return {
+      id: row.id,
+      character_id: row.character_id,
+      recipe_id: row.recipe_id,
+      item_id: row.item_id,
+      crafted_at: new Date(row.crafted_at).toISOString(),
+      is_hq: row.is_hq === 1,
+      is_collectible: row.is_collectible === 1,
+      collectibility: row.collectibility ?? undefined,
+      notes: row.notes || undefined,
+    };
+  }
+
+  private mapRowToGatheredItem(row: any): GatheredItem {
+    return {
+      id: row.id,
+      character_id: row.character_id,
+      item_id: row.item_id,
+      gathering_point_id: row.gathering_point_id ?? undefined,
+      gathered_at: new Date(row.gathered_at).toISOString(),
+      is_hq: row.is_hq === 1,
+      notes: row.notes || undefined,
+    };
+  }
+}
+
+/**
+ * Legacy rows were stamped with SQLite's datetime('now') (UTC, no zone)
+ */
+function parseLegacyTimestamp(value: unknown): number {
+  if (typeof value === 'number') return value;
+
+  const time = Date.parse(`${String(value).replace(' ', 'T')}Z`);
+  return Number.isNaN(time) ? Date.now() : time;
+}
+
+/**
+ * Create the tables added since a profile was created, once per addition
+ *
+ * Statements are taken from data/userData-schema.sql, so the schema file stays
+ * the only definition of every table. Tables a profile already has are kept.
+ */
+export function applySchemaAdditions(
+  db: Database.Database,
+  schemaPath: string = USER_SCHEMA_PATH
+): void {
+  const schema = readFileSync(schemaPath, 'utf-8');
+
+  // Migration bookkeeping is itself an addition to older profiles
+  db.exec(getSchemaStatements(schema, ['schema_migrations']).join(';\n'));
+
+  const applied = new Set(
+    (db.prepare('SELECT name FROM schema_migrations').all() as Array<{ name: string }>).map(
+      (row) => row.name
+    )
+  );
+
+  for (const [name, tables] of Object.entries(SCHEMA_ADDITIONS)) {
+    if (applied.has(name)) continue;
+
+    db.transaction(() => {
+      db.exec(getSchemaStatements(schema, tables).join(';\n'));
+      db.prepare('INSERT INTO schema_migrations (name, applied_at) VALUES (?, ?)').run(
+        name,
+        Date.now()
+      );
+    })();
+  }
+}
+
+/**
+ * CREATE TABLE and CREATE INDEX statements for the given tables in a schema file
+ * Indexes get IF NOT EXISTS, like the tables already have
+ */
+function getSchemaStatements(schema: string, tables: string[]): string[] {
+  const patterns = tables.map(
+    (table) =>
+      new RegExp(
+        `^CREATE (TABLE IF NOT EXISTS ${table}|INDEX (IF NOT EXISTS )?\\w+ ON ${table})\\s*\\(`
+      )
+  );
+
+  return schema
+    .replace(/--.*$/gm, '')
+    .split(';')
+    .map((statement) => statement.trim())
+    .filter((statement) => patterns.some((pattern) => pattern.test(statement)))
+    .map((statement) =>
+      statement.replace(/^CREATE INDEX (?!IF NOT EXISTS)/, 'CREATE INDEX IF NOT EXISTS ')
+    );
+}
+
+// Export singleton instance
+let userDataRepositoryInstance: UserDataRepository | null = null;
+
+export function getUserDataRepository(): UserDataRepository {
+  if (!userDataRepositoryInstance) {
+    userDataRepositoryInstance = new UserDataRepository();
+  }
+  return userDataRepositoryInstance;
+}
+
+export function resetUserDataRepository(): void {
+  if (userDataRepositoryInstance) {
+    userDataRepositoryInstance.close();
+    userDataRepositoryInstance = null;
+  }
+}
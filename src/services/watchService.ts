@@ -0,0 +1,127 @@
+/**
+ * Watch Service
+ *
+ * Computes upcoming windows for watched fish and timed gathering nodes and
+ * decides when an alert is due. Each window is alerted once.
+ */
+
+import type { FishTrackerService } from './fishTracker.js';
+import type { GatheringNodeService } from './gatheringNodeService.js';
+import type { WatchAlert, WatchTargetType, WatchWindow } from '../types/watch.js';
+import { eorzeanHoursToMillis } from '../utils/eorzeanTime.js';
+
+export interface WatchTarget {
+  type: WatchTargetType;
+  id: number;
+}
+
+export class WatchService {
+  private fishTracker: FishTrackerService;
+  private nodeService: GatheringNodeService;
+  private notified = new Set<string>();
+
+  constructor(fishTracker: FishTrackerService, nodeService: GatheringNodeService) {
+    this.fishTracker = fishTracker;
+    this.nodeService = nodeService;
+  }
+
+  /**
+   * Get the next (or currently open) window for each target, soonest first
+   * Targets that don't exist or have no window in the search horizon are skipped
+   */
+  getWindows(targets: WatchTarget[], from: Date = new Date()): WatchWindow[] {
+    const windows: WatchWindow[] = [];
+
+    for (const target of targets.filter((t) => t.type === 'fish')) {
+      const window = this.getFishWindow(target.id, from);
+      if (window) windows.push(window);
+    }
+
+    const nodeIds = new Set(targets.filter((t) => t.type === 'gathering_node').map((t) => t.id));
+    if (nodeIds.size > 0) {
+      for (const node of this.nodeService.getTimedNodes()) {
+        if (!nodeIds.has(node.id)) continue;
+
+        const duration = eorzeanHoursToMillis(
+          node.start_hour <= node.end_hour
+            ? node.end_hour - node.start_hour
+            : 24 - node.start_hour + node.end_hour
+        );
+        const end = node.is_available
+          ? node.window_closes
+          : node.next_available && new Date(node.next_available.getTime() + duration);
+        if (!end) continue;
+
+        windows.push({
+          type: 'gathering_node',
+          id: node.id,
+          name: node.name || `Level ${node.level} ${node.type} node`,
+          location: node.location_name || undefined,
+          start: new Date(end.getTime() - duration),
+          end,
+        });
+      }
+    }
+
+    return windows.sort((a, b) => a.start.getTime() - b.start.getTime());
+  }
+
+  /**
+   * Get alerts for windows opening within `leadMinutes` of `now` (or already open)
+   * that haven't been alerted yet
+   */
+  collectDueAlerts(windows: WatchWindow[], now: Date, leadMinutes: number): WatchAlert[] {
+    const alerts: WatchAlert[] = [];
+
+    for (const window of windows) {
+      if (window.end <= now) continue;
+
+      const msUntil = window.start.getTime() - now.getTime();
+      if (msUntil > leadMinutes * 60 * 1000) continue;
+
+      // Windows are keyed by their end, which stays put while a window is open
+      const key = `${window.type}:${window.id}:${window.end.getTime()}`;
+      if (this.notified.has(key)) continue;
+      this.notified.add(key);
+
+      const minutesUntil = Math.max(0, Math.ceil(msUntil / 60000));
+      const label = window.type === 'fish' ? '🎣' : '⛏️';
+      const until = window.end.toLocaleTimeString();
+
+      alerts.push({
+        window,
+        minutesUntil,
+        title:
+          minutesUntil > 0
+            ? `${label} ${window.name} in ${minutesUntil} min`
+            : `${label} ${window.name} is up now`,
+        message:
+          (minutesUntil > 0
+            ? `Opens ${window.start.toLocaleTimeString()}, closes ${until}`
+            : `Open until ${until}`) + (window.location ? ` @ ${window.location}` : ''),
+      });
+    }
+
+    return alerts;
+  }
+
+  private getFishWindow(fishId: number, from: Date): WatchWindow | null {
+    const fish = this.fishTracker.getFishById(fishId);
+    if (!fish) return null;
+
+    // Same search as getNextAvailableWindow, but keeps the window end
+    const [next] = this.fishTracker.getUpcomingWindows(fish, { count: 1, from });
+    if (!next) return null;
+
+    return {
+      type: 'fish',
+      id: fishId,
+      name: fish.name || `Fish #${fishId}`,
+      location: fish.location
+        ? this.fishTracker.getLocationName(fish.location) || undefined
+        : undefined,
+      start: next.start,
+      end: next.end,
+    };
+  }
+}
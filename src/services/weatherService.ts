@@ -0,0 +1,269 @@
+/**
+ * Weather Service
+ *
+ * Resolves zones and weather names from the game database and wraps the
+ * deterministic forecast utilities so they can be queried for any zone.
+ */
+
+import Database from 'better-sqlite3';
+import { join } from 'path';
+import type {
+  WeatherConstraint,
+  WeatherPeriod,
+  WeatherSearchOptions,
+  WeatherSlot,
+  WeatherTransitionQuery,
+  WeatherZone,
+} from '../types/weather.js';
+import { getEorzeanTime } from '../utils/eorzeanTime.js';
+import {
+  calculateWeather,
+  findNextWeatherWindow,
+  findWeatherConditionSlots,
+  forecastWeather,
+  getPreviousWeatherPeriodStart,
+  WEATHER_PERIOD_SECONDS,
+  type WeatherForecast,
+  type WeatherRate,
+} from '../utils/weatherForecast.js';
+
+const DB_PATH = join(process.cwd(), 'data', 'gameData.db');
+
+// 100 periods is under two real days; transitions between rare weathers need more
+const DEFAULT_MAX_TRANSITION_PERIODS = 1000;
+
+export class WeatherService {
+  private db: Database.Database;
+  private weatherNames: Map<number, string> | null = null;
+
+  constructor(dbPath: string = DB_PATH) {
+    this.db = new Database(dbPath, { readonly: true });
+  }
+
+  /**
+   * Get a zone with weather data by its place name ID
+   */
+  getZoneById(zoneId: number): WeatherZone | null {
+    const row = this.db
+      .prepare(
+        `
+        SELECT wr.zone_id, pn.name
+        FROM weather_rates wr
+        LEFT JOIN place_names pn ON pn.id = wr.zone_id
+        WHERE wr.zone_id = ?
+        LIMIT 1
+      `
+      )
+      .get(zoneId) as any;
+
+    return row ? { id: row.zone_id, name: row.name || null } : null;
+  }
+
+  /**
+   * Find zones with weather data whose name contains the query
+   * Exact (case-insensitive) matches are returned first
+   */
+  findZones(query: string): WeatherZone[] {
+    const rows = this.db
+      .prepare(
+        `
+        SELECT DISTINCT wr.zone_id, pn.name
+        FROM weather_rates wr
+        JOIN place_names pn ON pn.id = wr.zone_id
+        WHERE pn.name LIKE ?
+        ORDER BY (LOWER(pn.name) = LOWER(?)) DESC, pn.name ASC
+      `
+      )
+      .all(`%${query}%`, query) as any[];
+
+    return rows.map((row) => ({ id: row.zone_id, name: row.name }));
+  }
+
+  /**
+   * Get weather rates for a zone
+   */
+  getWeatherRatesForZone(zoneId: number): WeatherRate[] | null {
+    const row = this.db
+      .prepare('SELECT rates FROM weather_rates WHERE zone_id = ? LIMIT 1')
+      .get(zoneId) as any;
+
+    if (!row) return null;
+
+    try {
+      const rates = JSON.parse(row.rates);
+      return rates.map(([weatherId, rate]: [number, number]) => ({ weatherId, rate }));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Get weather name by ID
+   */
+  getWeatherName(weatherId: number): string | null {
+    return this.getWeatherNames().get(weatherId) || null;
+  }
+
+  /**
+   * Resolve a weather name (case-insensitive) or numeric ID to a weather ID
+   */
+  getWeatherIdByName(name: string): number | null {
+    const trimmed = name.trim();
+    if (/^\d+$/.test(trimmed)) {
+      return parseInt(trimmed);
+    }
+
+    const lower = trimmed.toLowerCase();
+    for (const [id, weatherName] of this.getWeatherNames()) {
+      if (weatherName.toLowerCase() === lower) {
+        return id;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Forecast the next N weather periods for a zone, starting with the current one
+   */
+  forecast(zoneId: number, periods: number = 10, from: Date = new Date()): WeatherPeriod[] | null {
+    const rates = this.getWeatherRatesForZone(zoneId);
+    if (!rates) return null;
+
+    return forecastWeather(from, rates, periods).map((forecast) => this.toWeatherPeriod(forecast));
+  }
+
+  /**
+   * Find the next period in a zone where the weather is one of `weatherIds`
+   * and, optionally, the preceding period was one of `previousWeatherIds`
+   */
+  findTransition(zoneId: number, query: WeatherTransitionQuery): WeatherPeriod | null {
+    const rates = this.getWeatherRatesForZone(zoneId);
+    if (!rates) return null;
+
+    const match = findNextWeatherWindow(
+      query.from || new Date(),
+      rates,
+      query.weatherIds,
+      query.previousWeatherIds,
+      query.maxPeriods || DEFAULT_MAX_TRANSITION_PERIODS
+    );
+
+    return match ? this.toWeatherPeriod(match) : null;
+  }
+
+  /**
+   * Find the earliest real-time slots where any or all of the constraints are
+   * satisfied, each constraint possibly in a different zone
+   *
+   * Returns null if one of the constraint zones has no weather data.
+   */
+  searchConstraints(
+    constraints: WeatherConstraint[],
+    options: WeatherSearchOptions = {}
+  ): WeatherSlot[] | null {
+    const { mode = 'all', from = new Date(), count = 10, horizonDays = 30 } = options;
+
+    const rates: WeatherRate[][] = [];
+    for (const constraint of constraints) {
+      const zoneRates = this.getWeatherRatesForZone(constraint.zoneId);
+      if (!zoneRates) return null;
+      rates.push(zoneRates);
+    }
+
+    const slots = findWeatherConditionSlots(
+      constraints.map((constraint, index) => ({
+        weatherRates: rates[index],
+        weatherIds: constraint.weatherIds,
+        previousWeatherIds: constraint.previousWeatherIds,
+        etHourRange: constraint.etHourRange,
+      })),
+      {
+        mode,
+        from,
+        count,
+        maxPeriodsToCheck: Math.ceil((horizonDays * 86400) / WEATHER_PERIOD_SECONDS),
+      }
+    );
+
+    return slots.map((slot) => ({
+      start: slot.start,
+      end: slot.end,
+      matches: slot.matched.map((index) => {
+        const weatherId = calculateWeather(slot.start, rates[index]);
+        const previousWeatherId = calculateWeather(
+          getPreviousWeatherPeriodStart(slot.start),
+          rates[index]
+        );
+        return {
+          constraintIndex: index,
+          zoneId: constraints[index].zoneId,
+          weatherId,
+          weatherName: this.getWeatherName(weatherId),
+          previousWeatherId,
+          previousWeatherName: this.getWeatherName(previousWeatherId),
+        };
+      }),
+    }));
+  }
+
+  /**
+   * Close database connection
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  private toWeatherPeriod(forecast: WeatherForecast): WeatherPeriod {
+    const previousWeatherId = forecast.previousWeatherId ?? null;
+    return {
+      weatherId: forecast.weatherId,
+      weatherName: this.getWeatherName(forecast.weatherId),
+      previousWeatherId,
+      previousWeatherName:
+        previousWeatherId !== null ? this.getWeatherName(previousWeatherId) : null,
+      startTime: forecast.startTime,
+      endTime: forecast.endTime,
+      eorzeanHour: getEorzeanTime(forecast.startTime).hours,
+    };
+  }
+
+  /**
+   * Load weather names once; weather_types only has a name column after
+   * scripts/seed-weather-names.ts has been run
+   */
+  private getWeatherNames(): Map<number, string> {
+    if (this.weatherNames) return this.weatherNames;
+
+    const names = new Map<number, string>();
+    for (const table of ['weather_types', 'weather_names']) {
+      try {
+        const rows = this.db.prepare(`SELECT id, name FROM ${table}`).all() as any[];
+        for (const row of rows) {
+          if (row.name) names.set(row.id, row.name);
+        }
+      } catch {
+        // Table or column not present in this database
+      }
+    }
+
+    this.weatherNames = names;
+    return names;
+  }
+}
+
+// Export singleton instance
+let weatherServiceInstance: WeatherService | null = null;
+
+export function getWeatherService(): WeatherService {
+  if (!weatherServiceInstance) {
+    weatherServiceInstance = new WeatherService();
+  }
+  return weatherServiceInstance;
+}
+
+export function resetWeatherService(): void {
+  if (weatherServiceInstance) {
+    weatherServiceInstance.close();
+    weatherServiceInstance = null;
+  }
+}
@@ -84,7 +84,8 @@ export type CollectibleSourceType =
   | 'hunt'
   | 'deep_dungeon'
   | 'eureka'
-  | 'bozja';
+  | 'bozja'
+  | 'leve';
 
 export interface CollectibleSource {
   id: number;
@@ -108,6 +109,8 @@ export interface CollectibleSourceDetails {
   notes?: string;
   difficulty?: string;
   party_size?: number;
+  unlock_item_id?: number; // Item that unlocks the collectible, for derived sources
+  unlock_item_name?: string;
 }
 
 /**
@@ -146,7 +149,7 @@ export interface OrchestrionComplete extends OrchestrionRoll {
  */
 export interface ObtainedMount {
   id: number;
-  character_id: number;
+  character_id: string;
   mount_id: number;
   obtained_at: string; // ISO timestamp
   obtained_from?: string;
@@ -155,7 +158,7 @@ export interface ObtainedMount {
 
 export interface ObtainedCompanion {
   id: number;
-  character_id: number;
+  character_id: string;
   companion_id: number;
   obtained_at: string;
   obtained_from?: string;
@@ -164,13 +167,26 @@ export interface ObtainedCompanion {
 
 export interface ObtainedOrchestrion {
   id: number;
-  character_id: number;
+  character_id: string;
   orchestrion_id: number;
   obtained_at: string;
   obtained_from?: string;
   notes?: string;
 }
 
+/**
+ * Obtained collectible of any type, as stored in userData.db
+ */
+export interface ObtainedCollectible {
+  id: number;
+  character_id: string;
+  collectible_type: CollectibleType;
+  collectible_id: number;
+  obtained_at: string; // ISO timestamp
+  obtained_from?: string;
+  notes?: string;
+}
+
 /**
  * Collectible search options
  */
@@ -232,7 +248,7 @@ export interface OrchestrionSearchResult {
  * Collection statistics (for progress tracking)
  */
 export interface CollectionStats {
-  character_id: number;
+  character_id: string;
   mounts: {
     total: number;
     obtained: number;
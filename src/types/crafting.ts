@@ -105,7 +105,7 @@ export interface RecipeIngredientWithDetails extends RecipeIngredient {
  */
 export interface CraftedItem {
   id: number;
-  character_id: number;
+  character_id: string;
   recipe_id: number;
   item_id: number;
   crafted_at: string; // ISO timestamp
@@ -149,7 +149,7 @@ export interface RecipeSearchResult {
  * Crafting statistics (for progress tracking)
  */
 export interface CraftingStats {
-  character_id: number;
+  character_id: string;
   craft_type: CraftTypeName;
   total_recipes: number;
   recipes_crafted: number;
@@ -168,6 +168,7 @@ export interface CraftingMaterialTree {
   item_id: number;
   item_name: string;
   quantity: number;
+  quantity_owned?: number; // Covered by the character's inventory (across all parent crafts)
   can_be_hq: boolean;
   sources: Array<{
     type: 'crafting' | 'gathering' | 'shop' | 'other';
@@ -186,15 +187,20 @@ export interface CraftingGuide {
     item_id: number;
     item_name: string;
     quantity_needed: number;
+    quantity_owned?: number;
     can_be_hq: boolean;
     sources: Array<{
       type: string;
       description: string;
       location?: string;
     }>;
+    vendor_purchasable?: boolean;
+    vendor_price?: number; // Cheapest gil vendor price per item
+    vendor_name?: string;
   }>;
   intermediate_crafts: RecipeComplete[];
-  estimated_cost: number;
+  estimated_cost: number; // Gil for the vendor-purchasable materials still needed
+  non_vendor_materials: number[]; // Item IDs no vendor sells (gather or buy elsewhere)
   estimated_time_minutes: number;
   requirements: {
     level: number;
@@ -205,6 +211,73 @@ export interface CraftingGuide {
   };
 }
 
+/**
+ * One line of a batch crafting plan
+ * Quantity is the number of result items wanted, not the number of synths
+ */
+export interface CraftPlanItem {
+  recipeId: number;
+  quantity: number;
+}
+
+/**
+ * A synth step in a crafting plan (intermediate or final)
+ */
+export interface CraftPlanStep {
+  recipe_id: number;
+  item_id: number;
+  item_name: string;
+  craft_type_name?: CraftTypeName;
+  class_job_level?: number;
+  amount_result: number; // Items produced per synth
+  quantity_needed: number; // Items to craft for the plan (after the inventory)
+  quantity_owned: number; // Taken from the inventory instead of crafted
+  crafts: number; // Synths to perform (quantity_needed / amount_result, rounded up)
+  surplus: number; // Extra items left over because of the yield
+  is_target: boolean; // Requested directly (vs. an intermediate craft)
+}
+
+/**
+ * Consolidated shopping list for a batch of recipes
+ * Material trees are merged, and intermediate crafts account for amount_result yields
+ */
+export interface CraftPlan {
+  items: CraftPlanItem[];
+  raw_materials: CraftingGuide['total_materials'];
+  crafts: CraftPlanStep[]; // Dependency order: every craft comes after the crafts it needs
+  total_crafts: number;
+  unknown_recipe_ids: number[];
+}
+
+/**
+ * Material cost of a recipe compared with the market value of its result
+ * Materials are priced at the cheaper of their gil vendor and marketboard price
+ */
+export interface CraftingProfit {
+  recipe_id: number;
+  item_id: number;
+  item_name: string;
+  world: string;
+  price_source: string; // Name of the PriceProvider
+  hq: boolean; // Result sold as HQ
+  amount_result: number;
+  sale_price: number | null; // Per item; null without a market price
+  sale_value: number | null; // sale_price × amount_result
+  material_cost: number;
+  materials: Array<{
+    item_id: number;
+    item_name: string;
+    quantity_needed: number;
+    unit_price: number | null;
+    price_source: 'vendor' | 'market' | null;
+    total_cost: number;
+  }>;
+  unpriced_materials: number[]; // Item IDs without any price (material_cost is a lower bound)
+  profit: number | null; // sale_value - material_cost; null if anything is unpriced
+  margin_percent: number | null; // profit / sale_value
+  prices_recorded_at: number | null; // Oldest market snapshot used (Unix ms)
+}
+
 /**
  * Quick synth requirements
  */
@@ -99,6 +99,72 @@ export interface FishWindow {
   requiredWeather?: string[];
 }
 
+/**
+ * A single real-time interval in which a fish can be caught
+ * (time window and weather requirements both satisfied)
+ */
+export interface FishAvailabilityWindow {
+  start: Date;
+  end: Date;
+  weather: number | null; // Weather at the start of the window (null if rates unknown)
+  previousWeather: number | null;
+}
+
+/**
+ * Whether a fish can be caught right now, with a human-readable reason
+ * (e.g. "time ok, weather wrong (need Fog)")
+ */
+export interface FishAvailability extends Fish {
+  available: boolean;
+  timeOk: boolean;
+  weatherOk: boolean; // True when weather is unknown for the spot
+  currentWeather: number | null;
+  previousWeather: number | null;
+  reason: string;
+}
+
+/**
+ * Options for planning upcoming fish windows
+ */
+export interface UpcomingWindowOptions {
+  count?: number; // Number of windows to return (default: 10)
+  horizonDays?: number; // How far ahead to search, in real days (default: 7)
+  from?: Date;
+}
+
+/**
+ * A predator (or the target itself) in an intuition chain
+ */
+export interface IntuitionStep {
+  order: number;
+  fishId: number;
+  fishName?: string;
+  count: number; // How many must be caught
+  baitChain: number[]; // From bestCatchPath (bait first, mooch fish after)
+  baitNames: string[];
+  isTarget: boolean;
+}
+
+/**
+ * A moment when every predator and the target line up
+ */
+export interface IntuitionWindow {
+  predatorsFrom: Date; // Predators are all catchable from here
+  triggerFrom: Date; // Catch the last predator between triggerFrom and triggerUntil
+  triggerUntil: Date;
+  targetWindow: FishAvailabilityWindow;
+}
+
+/**
+ * Step-by-step schedule for catching a fish that requires Fisher's Intuition
+ */
+export interface IntuitionPlan {
+  fish: Fish;
+  intuitionLength: number | null; // Seconds
+  steps: IntuitionStep[];
+  windows: IntuitionWindow[];
+}
+
 /**
  * Raw data structure from Carbuncle Plushy
  */
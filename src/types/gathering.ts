@@ -74,7 +74,7 @@ export interface GatheringItemWithDetails extends GatheringItem {
  */
 export interface GatheredItem {
   id: number;
-  character_id: number;
+  character_id: string;
   item_id: number;
   gathering_point_id?: number;
   gathered_at: string; // ISO timestamp
@@ -113,7 +113,7 @@ export interface GatheringSearchResult {
  * Gathering statistics (for progress tracking)
  */
 export interface GatheringStats {
-  character_id: number;
+  character_id: string;
   gathering_type: GatheringTypeName;
   total_items: number;
   unique_items_gathered: number;
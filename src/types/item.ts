@@ -74,7 +74,8 @@ export type ItemSourceType =
   | 'raid'
   | 'fishing'
   | 'event'
-  | 'vendor';
+  | 'vendor'
+  | 'leve';
 
 export interface ItemSource {
   id: number;
@@ -86,6 +87,7 @@ export interface ItemSource {
 }
 
 export interface ItemSourceDetails {
+  npc?: string;
   location?: string;
   coordinates?: { x: number; y: number };
   drop_rate?: number;
@@ -102,7 +104,8 @@ export type ItemUseType =
   | 'leve_required'
   | 'gc_supply'
   | 'desynth'
-  | 'aetherial_reduction';
+  | 'aetherial_reduction'
+  | 'currency_exchange';
 
 export interface ItemUse {
   id: number;
@@ -137,6 +140,16 @@ export interface ItemComplete extends Item {
   gathering_points?: number[]; // Gathering point IDs where this can be gathered
 }
 
+/**
+ * Item resolved from a possibly misspelled name
+ */
+export interface ItemNameMatch {
+  id: number;
+  name: string;
+  /** False when found by fuzzy matching */
+  exact: boolean;
+}
+
 /**
  * Item search options
  */
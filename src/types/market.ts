@@ -0,0 +1,26 @@
+/**
+ * Market Price Types
+ */
+
+/**
+ * Marketboard price of an item on one world
+ */
+export interface MarketPrice {
+  item_id: number;
+  world: string;
+  price_nq: number | null; // Cheapest NQ listing per item
+  price_hq: number | null; // Cheapest HQ listing per item
+  recorded_at: number; // Unix timestamp (milliseconds) the prices were seen
+}
+
+/**
+ * Source of market prices
+ *
+ * Prices currently come from imported snapshots; a live marketboard source
+ * only has to implement this interface to be used for profit analysis.
+ */
+export interface PriceProvider {
+  name: string;
+  /** Latest prices on a world, keyed by item ID (items without prices are left out) */
+  getPrices(itemIds: number[], world: string): Promise<Map<number, MarketPrice>>;
+}
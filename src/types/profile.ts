@@ -47,16 +47,36 @@ export interface CaughtFish {
   notes?: string;
 }
 
+export type BookmarkType = 'quest' | 'fish' | 'location' | 'gathering_node';
+
 export interface Bookmark {
   id: number;
   characterId: string;
-  type: 'quest' | 'fish' | 'location';
+  type: BookmarkType;
   itemId: number;
   notes?: string;
   priority: number; // 0=normal, 1=high
   createdAt: Date;
 }
 
+export interface InventoryItem {
+  id: number;
+  characterId: string;
+  itemId: number;
+  itemName?: string;
+  quantity: number;
+  isHq: boolean;
+  location: string; // 'bag', 'saddlebag', or a retainer name
+  updatedAt: Date;
+}
+
+export interface InventoryEntry {
+  itemId: number;
+  quantity: number;
+  isHq?: boolean;
+  location?: string; // Defaults to 'bag'
+}
+
 export interface SessionHistory {
   id: number;
   characterId?: string;
@@ -126,5 +146,77 @@ export interface CharacterSyncResult {
     mediumConfidence: number;
     lowConfidence: number;
   };
+  collections?: LodestoneCollectionSync;
   lastSyncedAt: Date;
 }
+
+export interface CharacterHtmlImportResult extends CharacterSyncResult {
+  /** The character wasn't in the profile before the import */
+  created: boolean;
+}
+
+export interface LodestoneCollectionSync {
+  mountsAdded: number;
+  minionsAdded: number;
+  achievementsAdded: number;
+  /** Lodestone names that didn't match any mount, minion or achievement in game data */
+  unmatched: string[];
+  achievementsPrivate: boolean;
+}
+
+export interface LegacyProgressMigration {
+  /** Rows moved from gameData.db, per table */
+  migrated: Record<string, number>;
+  /** Rows left behind because their character isn't in userData.db, per table */
+  skipped: Record<string, number>;
+}
+
+/** Kinds of rows an intelligent sync run writes */
+export type SyncChangeType =
+  'quest' | 'achievement' | 'title' | 'fish' | 'mount' | 'companion' | 'orchestrion';
+
+export interface SyncRun {
+  id: number;
+  characterId: string;
+  startedAt: Date;
+  achievementIds: number[];
+  revertedAt?: Date;
+  /** Rows the run added, per type */
+  changeCounts: Partial<Record<SyncChangeType, number>>;
+}
+
+export interface SyncRunChange {
+  type: SyncChangeType;
+  targetId: number;
+  targetName?: string;
+  confidence?: number;
+}
+
+export interface SyncRunDetails extends SyncRun {
+  changes: SyncRunChange[];
+}
+
+export interface SyncRevertResult {
+  runId: number;
+  removed: number;
+  /** Rows left in place because they changed after the run (e.g. marked again by hand) */
+  kept: number;
+}
+
+/** How import treats rows the profile already has */
+export type ProfileMergeStrategy = 'skip' | 'overwrite' | 'newest';
+
+export interface ProfileBundle {
+  format: 'eorzea-profile';
+  version: number;
+  exportedAt: string; // ISO timestamp
+  characters: Array<Record<string, unknown>>;
+  /** Rows per userData.db table, without their local row IDs */
+  tables: Record<string, Array<Record<string, unknown>>>;
+}
+
+export interface ProfileImportResult {
+  characterIds: string[];
+  /** Row counts per table (characters included) */
+  tables: Record<string, { added: number; updated: number; skipped: number }>;
+}
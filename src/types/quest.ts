@@ -95,3 +95,26 @@ export interface QuestSearchOptions {
   limit?: number; // Max results
   offset?: number; // Pagination offset
 }
+
+/**
+ * Quest as a node of the prerequisite graph (built from previous_quests)
+ */
+export interface QuestGraphNode {
+  id: number;
+  name: string;
+  level: number;
+  journalGenreId: number | null;
+  expansionId: number | null;
+  isRepeatable: boolean;
+  previousQuests: number[]; // Prerequisites that exist in the database
+}
+
+export interface QuestPathStep extends QuestGraphNode {
+  completed: boolean;
+}
+
+export interface QuestPath {
+  quest: QuestGraphNode;
+  prerequisites: QuestPathStep[]; // Every prerequisite, each after its own prerequisites
+  remaining: number; // Prerequisites not completed yet
+}
@@ -0,0 +1,34 @@
+/**
+ * Watch / Alarm Types
+ */
+
+export type WatchTargetType = 'fish' | 'gathering_node';
+
+export interface WatchWindow {
+  type: WatchTargetType;
+  id: number;
+  name: string;
+  location?: string;
+  start: Date;
+  end: Date;
+}
+
+export interface WatchAlert {
+  window: WatchWindow;
+  minutesUntil: number; // 0 when the window is already open
+  title: string;
+  message: string;
+}
+
+export interface AlertSink {
+  name: string;
+  send(alert: WatchAlert): Promise<void>;
+}
+
+export interface WatchConfig {
+  leadMinutes: number;
+  pollSeconds: number;
+  bell: boolean;
+  notifyCommand?: string;
+  webhookUrl?: string;
+}
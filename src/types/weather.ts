@@ -0,0 +1,54 @@
+/**
+ * Weather Types
+ */
+
+export interface WeatherZone {
+  id: number;
+  name: string | null;
+}
+
+export interface WeatherPeriod {
+  weatherId: number;
+  weatherName: string | null;
+  previousWeatherId: number | null;
+  previousWeatherName: string | null;
+  startTime: Date;
+  endTime: Date;
+  eorzeanHour: number; // 0, 8 or 16
+}
+
+export interface WeatherTransitionQuery {
+  weatherIds: number[];
+  previousWeatherIds?: number[];
+  from?: Date;
+  maxPeriods?: number;
+}
+
+export interface WeatherConstraint {
+  zoneId: number;
+  weatherIds?: number[];
+  previousWeatherIds?: number[];
+  etHourRange?: [number, number]; // [startHour, endHour), may cross midnight
+}
+
+export interface WeatherSearchOptions {
+  mode?: 'any' | 'all';
+  from?: Date;
+  count?: number;
+  horizonDays?: number;
+}
+
+export interface WeatherConstraintMatch {
+  constraintIndex: number;
+  zoneId: number;
+  weatherId: number;
+  weatherName: string | null;
+  previousWeatherId: number;
+  previousWeatherName: string | null;
+}
+
+export interface WeatherSlot {
+  start: Date;
+  end: Date;
+  matches: WeatherConstraintMatch[];
+}
@@ -0,0 +1,111 @@
+/**
+ * Alert Sinks
+ *
+ * Destinations for watch alerts: terminal bell, a user-supplied notify
+ * command (e.g. notify-send) and an HTTP webhook.
+ */
+
+import { spawn } from 'child_process';
+import type { AlertSink, WatchAlert, WatchConfig } from '../types/watch.js';
+
+/**
+ * Print the alert and ring the terminal bell
+ */
+export function createBellSink(): AlertSink {
+  return {
+    name: 'bell',
+    async send(alert: WatchAlert): Promise<void> {
+      process.stdout.write('\x07');
+      console.log(`🔔 ${alert.title} - ${alert.message}`);
+    },
+  };
+}
+
+/**
+ * Run a shell command for every alert
+ *
+ * The alert is passed through environment variables rather than interpolated
+ * into the command, e.g. `notify-send "$EORZEA_ALERT_TITLE" "$EORZEA_ALERT_MESSAGE"`
+ */
+export function createCommandSink(command: string): AlertSink {
+  return {
+    name: 'command',
+    send(alert: WatchAlert): Promise<void> {
+      return new Promise((resolve, reject) => {
+        const child = spawn(command, {
+          shell: true,
+          stdio: 'ignore',
+          env: {
+            ...process.env,
+            EORZEA_ALERT_TITLE: alert.title,
+            EORZEA_ALERT_MESSAGE: alert.message,
+            EORZEA_ALERT_TYPE: alert.window.type,
+            EORZEA_ALERT_ID: alert.window.id.toString(),
+            EORZEA_ALERT_START: alert.window.start.toISOString(),
+            EORZEA_ALERT_END: alert.window.end.toISOString(),
+          },
+        });
+
+        child.on('error', reject);
+        child.on('exit', (code) => {
+          if (code === 0) {
+            resolve();
+          } else {
+            reject(new Error(`Notify command exited with code ${code}`));
+          }
+        });
+      });
+    },
+  };
+}
+
+/**
+ * POST every alert as JSON to a webhook URL
+ */
+export function createWebhookSink(url: string): AlertSink {
+  return {
+    name: 'webhook',
+    async send(alert: WatchAlert): Promise<void> {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          title: alert.title,
+          message: alert.message,
+          minutesUntil: alert.minutesUntil,
+          type: alert.window.type,
+          id: alert.window.id,
+          name: alert.window.name,
+          location: alert.window.location || null,
+          start: alert.window.start.toISOString(),
+          end: alert.window.end.toISOString(),
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Webhook responded with ${response.status} ${response.statusText}`);
+      }
+    },
+  };
+}
+
+/**
+ * Build the sinks enabled in a watch configuration
+ */
+export function createAlertSinks(config: WatchConfig): AlertSink[] {
+  const sinks: AlertSink[] = [];
+
+  if (config.bell) {
+    sinks.push(createBellSink());
+  }
+
+  if (config.notifyCommand) {
+    sinks.push(createCommandSink(config.notifyCommand));
+  }
+
+  if (config.webhookUrl) {
+    sinks.push(createWebhookSink(config.webhookUrl));
+  }
+
+  return sinks;
+}
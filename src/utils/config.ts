@@ -2,6 +2,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import { config as loadEnv } from 'dotenv';
+import type { WatchConfig } from '../types/watch.js';
 
 export interface AppConfig {
   xivapi: {
@@ -16,6 +17,7 @@ export interface AppConfig {
     enabled: boolean;
     ttl: number;
   };
+  watch: WatchConfig;
 }
 
 const DEFAULT_CONFIG: AppConfig = {
@@ -27,6 +29,11 @@ const DEFAULT_CONFIG: AppConfig = {
     enabled: true,
     ttl: 3600, // 1 hour in seconds
   },
+  watch: {
+    leadMinutes: 5,
+    pollSeconds: 30,
+    bell: true,
+  },
 };
 
 const CONFIG_DIR = path.join(os.homedir(), '.eorzea');
@@ -60,6 +67,14 @@ export class ConfigManager {
       this.config.character.defaultServer = process.env.DEFAULT_SERVER;
     }
 
+    if (process.env.EORZEA_WATCH_NOTIFY_COMMAND) {
+      this.config.watch.notifyCommand = process.env.EORZEA_WATCH_NOTIFY_COMMAND;
+    }
+
+    if (process.env.EORZEA_WATCH_WEBHOOK_URL) {
+      this.config.watch.webhookUrl = process.env.EORZEA_WATCH_WEBHOOK_URL;
+    }
+
     // Load from config file if it exists
     if (fs.existsSync(CONFIG_FILE)) {
       try {
@@ -85,6 +100,10 @@ export class ConfigManager {
         ...base.cache,
         ...override.cache,
       },
+      watch: {
+        ...base.watch,
+        ...override.watch,
+      },
     };
   }
 
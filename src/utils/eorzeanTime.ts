@@ -11,6 +11,7 @@ import { EorzeanTime } from '../types/fish.js';
 // Constants
 export const EORZEA_MULTIPLIER = 3600 / 175; // 20.571428571...
 const MILLISECONDS_PER_EORZEAN_HOUR = 175 * 1000;
+const MILLISECONDS_PER_EORZEAN_DAY = 24 * MILLISECONDS_PER_EORZEAN_HOUR;
 
 /**
  * Get current Eorzean time based on real-world time
@@ -133,6 +134,51 @@ export function getCurrentWindowEnd(
   return new Date(fromTime.getTime() + millisUntilEnd);
 }
 
+/**
+ * Get the real-world intervals within [rangeStart, rangeEnd) during which
+ * the Eorzean clock is inside a time window.
+ * Handles windows that cross midnight; intervals are clipped to the range.
+ */
+export function getTimeWindowIntervals(
+  startHour: number,
+  endHour: number,
+  rangeStart: Date,
+  rangeEnd: Date
+): Array<{ start: Date; end: Date }> {
+  if (rangeEnd.getTime() <= rangeStart.getTime()) {
+    return [];
+  }
+
+  // 24-hour availability covers the whole range
+  if (startHour === 0 && endHour === 24) {
+    return [{ start: rangeStart, end: rangeEnd }];
+  }
+
+  const windowLength = startHour <= endHour ? endHour - startHour : 24 - startHour + endHour;
+  const intervals: Array<{ start: Date; end: Date }> = [];
+
+  // Start one Eorzean day early so a window that opened yesterday and wraps
+  // past midnight is still picked up
+  let dayStart =
+    Math.floor(rangeStart.getTime() / MILLISECONDS_PER_EORZEAN_DAY) * MILLISECONDS_PER_EORZEAN_DAY -
+    MILLISECONDS_PER_EORZEAN_DAY;
+
+  while (dayStart < rangeEnd.getTime()) {
+    const windowStart = dayStart + eorzeanHoursToMillis(startHour);
+    const windowEnd = windowStart + eorzeanHoursToMillis(windowLength);
+    const start = Math.max(windowStart, rangeStart.getTime());
+    const end = Math.min(windowEnd, rangeEnd.getTime());
+
+    if (start < end) {
+      intervals.push({ start: new Date(start), end: new Date(end) });
+    }
+
+    dayStart += MILLISECONDS_PER_EORZEAN_DAY;
+  }
+
+  return intervals;
+}
+
 /**
  * Format Eorzean time as HH:MM string
  */
@@ -0,0 +1,98 @@
+/**
+ * Fuzzy Name Matching
+ *
+ * Helpers for matching user-typed or exported names (items, achievements)
+ * against the names in the game database, tolerating case, punctuation
+ * and small typos.
+ */
+
+export interface FuzzyCandidate<T> {
+  value: T;
+  name: string;
+  /** Precomputed normalizeName(name), to avoid redoing it for every lookup */
+  normalized?: string;
+}
+
+export interface FuzzyMatch<T> {
+  value: T;
+  name: string;
+  /** Edit distance between the normalized names (0 = same after normalizing) */
+  distance: number;
+}
+
+/**
+ * Normalize a name for comparison: lowercase, unify apostrophes and dashes,
+ * drop other punctuation and collapse whitespace
+ */
+export function normalizeName(name: string): string {
+  return name
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[‘’`´]/g, "'")
+    .replace(/[‐‑‒–—]/g, '-')
+    .replace(/[^\p{L}\p{N}'\- ]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Levenshtein edit distance, giving up once it exceeds maxDistance
+ */
+export function levenshteinDistance(a: string, b: string, maxDistance = Infinity): number {
+  if (a === b) return 0;
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+
+    if (rowMin > maxDistance) return maxDistance + 1;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Find the closest candidate to a name
+ *
+ * Allows roughly one typo per five characters; returns null when nothing is
+ * close enough or when two different names are equally close.
+ */
+export function findBestMatch<T>(
+  name: string,
+  candidates: Iterable<FuzzyCandidate<T>>,
+  maxDistance?: number
+): FuzzyMatch<T> | null {
+  const query = normalizeName(name);
+  if (!query) return null;
+
+  const limit = maxDistance ?? Math.max(1, Math.floor(query.length / 5));
+  let best: FuzzyMatch<T> | null = null;
+  let ambiguous = false;
+
+  for (const candidate of candidates) {
+    const normalized = candidate.normalized ?? normalizeName(candidate.name);
+    const distance = levenshteinDistance(query, normalized, limit);
+    if (distance > limit) continue;
+
+    if (!best || distance < best.distance) {
+      best = { value: candidate.value, name: candidate.name, distance };
+      ambiguous = false;
+    } else if (distance === best.distance && candidate.name !== best.name) {
+      ambiguous = true;
+    }
+
+    if (distance === 0 && !ambiguous) break;
+  }
+
+  return best && !ambiguous ? best : null;
+}
@@ -8,6 +8,8 @@
  * Weather periods: 0:00-8:00, 8:00-16:00, 16:00-24:00 ET
  */
 
+import { getTimeWindowIntervals } from './eorzeanTime.js';
+
 export interface WeatherRate {
   weatherId: number;
   rate: number; // Cumulative probability (0-100)
@@ -20,8 +22,28 @@ export interface WeatherForecast {
   previousWeatherId?: number;
 }
 
+export interface WeatherCondition {
+  weatherRates: WeatherRate[];
+  weatherIds?: number[]; // Empty or omitted = any weather
+  previousWeatherIds?: number[];
+  etHourRange?: [number, number]; // [startHour, endHour), may cross midnight
+}
+
+export interface WeatherConditionSlot {
+  start: Date;
+  end: Date;
+  matched: number[]; // Indices of the conditions satisfied during the slot
+}
+
+export interface WeatherConditionSearchOptions {
+  mode?: 'any' | 'all';
+  from?: Date;
+  count?: number;
+  maxPeriodsToCheck?: number;
+}
+
 // 8 Eorzean hours = 175 * 8 = 1400 seconds real time
-const WEATHER_PERIOD_SECONDS = 1400;
+export const WEATHER_PERIOD_SECONDS = 1400;
 
 /**
  * Calculate weather for a given timestamp and zone
@@ -156,3 +178,90 @@ export function findNextWeatherWindow(
 
   return null;
 }
+
+/**
+ * Find the earliest real-time slots where any (or all) of several weather
+ * conditions hold, possibly in different zones
+ *
+ * All zones share the same weather period boundaries, so each period is split
+ * at the ET hour range edges and every piece is checked against each condition.
+ * Adjacent pieces satisfying the same conditions are merged into one slot.
+ */
+export function findWeatherConditionSlots(
+  conditions: WeatherCondition[],
+  options: WeatherConditionSearchOptions = {}
+): WeatherConditionSlot[] {
+  const { mode = 'all', from = new Date(), count = 10, maxPeriodsToCheck = 2000 } = options;
+  if (conditions.length === 0 || count <= 0) return [];
+
+  const slots: WeatherConditionSlot[] = [];
+  let periodStart = getWeatherPeriodStart(from);
+  const previousWeather = conditions.map((condition) =>
+    calculateWeather(getPreviousWeatherPeriodStart(periodStart), condition.weatherRates)
+  );
+
+  for (let i = 0; i < maxPeriodsToCheck && slots.length <= count; i++) {
+    const periodEnd = getNextWeatherPeriodStart(periodStart);
+    const rangeStart = periodStart < from ? from : periodStart;
+
+    const intervals = conditions.map((condition, index) => {
+      const weather = calculateWeather(periodStart, condition.weatherRates);
+      const previous = previousWeather[index];
+      previousWeather[index] = weather;
+
+      if (
+        !matchesWeatherIds(condition.weatherIds, weather) ||
+        !matchesWeatherIds(condition.previousWeatherIds, previous)
+      ) {
+        return [];
+      }
+
+      const [startHour, endHour] = condition.etHourRange ?? [0, 24];
+      return getTimeWindowIntervals(startHour, endHour, rangeStart, periodEnd);
+    });
+
+    // Split the period at every interval edge and check each piece
+    const edges = new Set<number>([rangeStart.getTime(), periodEnd.getTime()]);
+    for (const interval of intervals.flat()) {
+      edges.add(interval.start.getTime());
+      edges.add(interval.end.getTime());
+    }
+    const points = [...edges].sort((a, b) => a - b);
+
+    for (let j = 0; j < points.length - 1; j++) {
+      const [segmentStart, segmentEnd] = [points[j], points[j + 1]];
+      const matched = intervals
+        .map((conditionIntervals, index) =>
+          conditionIntervals.some(
+            (interval) =>
+              interval.start.getTime() <= segmentStart && interval.end.getTime() >= segmentEnd
+          )
+            ? index
+            : -1
+        )
+        .filter((index) => index >= 0);
+
+      const satisfied = mode === 'all' ? matched.length === conditions.length : matched.length > 0;
+      if (!satisfied) continue;
+
+      const last = slots[slots.length - 1];
+      if (
+        last &&
+        last.end.getTime() === segmentStart &&
+        last.matched.join(',') === matched.join(',')
+      ) {
+        last.end = new Date(segmentEnd);
+      } else {
+        slots.push({ start: new Date(segmentStart), end: new Date(segmentEnd), matched });
+      }
+    }
+
+    periodStart = periodEnd;
+  }
+
+  return slots.slice(0, count);
+}
+
+function matchesWeatherIds(required: number[] | undefined, weatherId: number): boolean {
+  return !required || required.length === 0 || required.includes(weatherId);
+}
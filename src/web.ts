@@ -11,10 +11,22 @@ import path from 'path';
 import { fileURLToPath } from 'url';
 import { FishTrackerService } from './services/fishTracker.js';
 import { QuestTrackerService } from './services/questTracker.js';
+import { QuestGraphService } from './services/questGraph.js';
 import { ItemService } from './services/itemService.js';
 import { GatheringNodeService } from './services/gatheringNodeService.js';
 import { CraftingService } from './services/craftingService.js';
 import { CollectiblesService } from './services/collectiblesService.js';
+import { WeatherService } from './services/weatherService.js';
+import { CalendarService } from './services/calendarService.js';
+import { getPriceProvider } from './services/marketPrices.js';
+import { getPlayerProfileService } from './services/playerProfile.js';
+import {
+  matchInventoryRows,
+  normalizeLocation,
+  parseInventoryCsv,
+  parseInventoryItems,
+} from './parsers/inventoryParser.js';
+import type { WeatherConstraint } from './types/weather.js';
 import {
   getEorzeanTime,
   isInTimeWindow,
@@ -36,10 +48,13 @@ const openapiSpec = yaml.load(fs.readFileSync(openapiPath, 'utf8')) as any;
 
 const fishTracker = new FishTrackerService();
 const questTracker = new QuestTrackerService();
+const questGraph = new QuestGraphService();
 const itemService = new ItemService();
 const gatheringNodeService = new GatheringNodeService();
 const craftingService = new CraftingService();
 const collectiblesService = new CollectiblesService();
+const weatherService = new WeatherService();
+const calendarService = new CalendarService(fishTracker, gatheringNodeService);
 
 // Swagger UI for API documentation at /openapi
 app.use(
@@ -468,7 +483,7 @@ app.get('/fish/available', (_req, res) => {
         <h1>🕐 Available Now</h1>
         
         <p style="color: #aaa; margin-bottom: 16px;">
-          ${fish.length} fish available at current Eorzean time
+          ${fish.length} fish available at current Eorzean time and weather
           <br><small>Page auto-refreshes every minute</small>
         </p>
 
@@ -499,6 +514,9 @@ app.get('/fish/available', (_req, res) => {
             <div style="margin-top: 8px; font-size: 0.9em; color: #aaa;">
               ⏰ ${f.startHour}:00 - ${f.endHour}:00 ET
             </div>
+            <div style="margin-top: 4px; font-size: 0.85em; color: #4ecca3;">
+              ✓ ${f.reason}
+            </div>
           </div>
         `
           )
@@ -1055,6 +1073,37 @@ app.get('/quest/:id', (req, res) => {
 // API ROUTES - Fish
 // ============================================================================
 
+/** Upper bounds for window searches, so one request can't walk the weather indefinitely */
+const MAX_WINDOW_COUNT = 100;
+const MAX_HORIZON_DAYS = 60;
+
+/**
+ * Parse the count and horizon (days) parameters of a window search
+ * Values above the maximum are clamped; missing values use the defaults
+ */
+function parseWindowQuery(
+  query: Record<string, unknown>,
+  defaultCount: number,
+  horizonParam: string = 'horizonDays',
+  defaultHorizonDays: number = 7
+): { count: number; horizonDays: number } | { error: string } {
+  const count = query.count !== undefined ? Number(query.count) : defaultCount;
+  const horizonDays =
+    query[horizonParam] !== undefined ? Number(query[horizonParam]) : defaultHorizonDays;
+
+  if (!Number.isInteger(count) || count < 1) {
+    return { error: 'count must be a positive integer' };
+  }
+  if (!Number.isFinite(horizonDays) || horizonDays <= 0) {
+    return { error: `${horizonParam} must be a positive number` };
+  }
+
+  return {
+    count: Math.min(count, MAX_WINDOW_COUNT),
+    horizonDays: Math.min(horizonDays, MAX_HORIZON_DAYS),
+  };
+}
+
 /**
  * @openapi
  * /api/fish:
@@ -1136,7 +1185,11 @@ app.get('/api/fish', (req, res) => {
  * /api/fish/available:
  *   get:
  *     summary: Get currently available fish
- *     description: Returns fish that are available to catch at the current Eorzean time, considering time windows and weather conditions
+ *     description: |
+ *       Returns fish that are available to catch at the current Eorzean time, considering
+ *       time windows and the current/previous weather at each fish's spot. Fish whose time
+ *       window is open but whose weather doesn't match are listed in weatherBlockedFish.
+ *       Every entry carries a reason such as "time ok, weather wrong (need Fog)".
  *     tags:
  *       - Fish
  *     responses:
@@ -1157,7 +1210,11 @@ app.get('/api/fish', (req, res) => {
  *                 availableFish:
  *                   type: array
  *                   items:
- *                     type: object
+ *                     $ref: '#/components/schemas/FishAvailability'
+ *                 weatherBlockedFish:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/FishAvailability'
  *       500:
  *         description: Server error
  */
@@ -1165,14 +1222,15 @@ app.get('/api/fish/available', (req, res) => {
   try {
     const now = new Date();
     const et = getEorzeanTime(now);
-    const availableFish = fishTracker.getAvailableFish(now);
+    const inTimeWindow = fishTracker.getFishInTimeWindow(now);
 
     res.json({
       eorzeanTime: {
         hours: et.hours,
         minutes: et.minutes,
       },
-      availableFish,
+      availableFish: inTimeWindow.filter((fish) => fish.available),
+      weatherBlockedFish: inTimeWindow.filter((fish) => !fish.available),
     });
   } catch (error) {
     res.status(500).json({ error: 'Failed to get available fish', message: String(error) });
@@ -1240,281 +1298,870 @@ app.get('/api/fish/:id', (req, res) => {
   }
 });
 
-// ============================================================================
-// API ROUTES - Quests
-// ============================================================================
-
 /**
  * @openapi
- * /api/quests:
+ * /api/fish/{id}/windows:
  *   get:
- *     summary: Search quests
- *     description: Search and filter quests by name, level, expansion, and other criteria
+ *     summary: Get upcoming catch windows for a fish
+ *     description: Returns the next N real-time windows in which the fish can be caught, combining its Eorzean time window with current and previous weather requirements
  *     tags:
- *       - Quests
+ *       - Fish
  *     parameters:
- *       - in: query
- *         name: name
- *         schema:
- *           type: string
- *         description: Search by quest name (partial match)
- *       - in: query
- *         name: level
- *         schema:
- *           type: integer
- *         description: Filter by exact level
- *       - in: query
- *         name: minLevel
- *         schema:
- *           type: integer
- *         description: Minimum quest level
- *       - in: query
- *         name: maxLevel
- *         schema:
- *           type: integer
- *         description: Maximum quest level
- *       - in: query
- *         name: expansionId
+ *       - in: path
+ *         name: id
+ *         required: true
  *         schema:
  *           type: integer
- *         description: Filter by expansion ID
- *       - in: query
- *         name: isRepeatable
- *         schema:
- *           type: boolean
- *         description: Filter for repeatable quests
+ *         description: Fish ID
  *       - in: query
- *         name: limit
+ *         name: count
  *         schema:
  *           type: integer
- *           default: 50
- *         description: Maximum number of results
+ *           default: 10
+ *           minimum: 1
+ *           maximum: 100
+ *         description: Number of windows to return
  *       - in: query
- *         name: offset
+ *         name: horizonDays
  *         schema:
- *           type: integer
- *           default: 0
- *         description: Pagination offset
+ *           type: number
+ *           default: 7
+ *           maximum: 60
+ *         description: How many real days ahead to search (at most 60)
  *     responses:
  *       200:
- *         description: List of quests matching criteria
+ *         description: Upcoming windows
  *         content:
  *           application/json:
  *             schema:
- *               type: array
- *               items:
- *                 type: object
+ *               type: object
+ *               properties:
+ *                 fishId:
+ *                   type: integer
+ *                 windows:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *       400:
+ *         description: Invalid count or days
+ *       404:
+ *         description: Fish not found
  *       500:
  *         description: Server error
  */
-app.get('/api/quests', (req, res) => {
+app.get('/api/fish/:id/windows', (req, res) => {
   try {
-    const options: any = {
-      name: req.query.name as string,
-      level: req.query.level ? parseInt(req.query.level as string) : undefined,
-      minLevel: req.query.minLevel ? parseInt(req.query.minLevel as string) : undefined,
-      maxLevel: req.query.maxLevel ? parseInt(req.query.maxLevel as string) : undefined,
-      expansionId: req.query.expansionId ? parseInt(req.query.expansionId as string) : undefined,
-      isRepeatable:
-        req.query.isRepeatable === 'true'
-          ? true
-          : req.query.isRepeatable === 'false'
-            ? false
-            : undefined,
-      limit: req.query.limit ? parseInt(req.query.limit as string) : 50,
-      offset: req.query.offset ? parseInt(req.query.offset as string) : 0,
-    };
+    const fishId = parseInt(req.params.id);
+    const fish = fishTracker.getFishById(fishId);
 
-    const quests = questTracker.searchQuests(options);
-    res.json(quests);
+    if (!fish) {
+      return res.status(404).json({ error: 'Fish not found' });
+    }
+
+    const search = parseWindowQuery(req.query, 10);
+    if ('error' in search) {
+      return res.status(400).json({ error: search.error });
+    }
+
+    const windows = fishTracker.getUpcomingWindows(fish, search);
+
+    res.json({
+      fishId,
+      windows: windows.map((w) => ({
+        start: w.start,
+        end: w.end,
+        durationMinutes: Math.round((w.end.getTime() - w.start.getTime()) / 60000),
+        weather: w.weather,
+        weatherName: w.weather !== null ? fishTracker.getWeatherName(w.weather) : null,
+        previousWeather: w.previousWeather,
+        previousWeatherName:
+          w.previousWeather !== null ? fishTracker.getWeatherName(w.previousWeather) : null,
+      })),
+    });
   } catch (error) {
-    res.status(500).json({ error: 'Failed to search quests', message: String(error) });
+    res.status(500).json({ error: 'Failed to get fish windows', message: String(error) });
   }
 });
 
 /**
  * @openapi
- * /api/quests/{id}:
+ * /api/fish/{id}/intuition:
  *   get:
- *     summary: Get quest by ID
- *     description: Returns detailed information about a specific quest including embedded objectives
+ *     summary: Get the Fisher's Intuition schedule for a fish
+ *     description: Returns the predator chain (with bait chains) and the upcoming times when every predator and the target can be caught within the intuition duration
  *     tags:
- *       - Quests
+ *       - Fish
  *     parameters:
  *       - in: path
  *         name: id
  *         required: true
  *         schema:
  *           type: integer
- *         description: Quest ID
+ *         description: Fish ID
+ *       - in: query
+ *         name: count
+ *         schema:
+ *           type: integer
+ *           default: 5
+ *           minimum: 1
+ *           maximum: 100
+ *         description: Number of schedule windows to return
+ *       - in: query
+ *         name: horizonDays
+ *         schema:
+ *           type: number
+ *           default: 7
+ *           maximum: 60
+ *         description: How many real days ahead to search (at most 60)
  *     responses:
  *       200:
- *         description: Quest details with objectives
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 id:
- *                   type: integer
- *                 name:
- *                   type: string
- *                 level:
- *                   type: integer
- *                 objectives:
- *                   type: array
- *                 gilReward:
- *                   type: integer
- *                 isRepeatable:
- *                   type: boolean
+ *         description: Intuition plan
+ *       400:
+ *         description: Invalid count or days
  *       404:
- *         description: Quest not found
+ *         description: Fish not found
  *       500:
  *         description: Server error
  */
-app.get('/api/quests/:id', (req, res) => {
+app.get('/api/fish/:id/intuition', (req, res) => {
   try {
-    const questId = parseInt(req.params.id);
-    const quest = questTracker.getQuestById(questId);
+    const fishId = parseInt(req.params.id);
+    const fish = fishTracker.getFishById(fishId);
 
-    if (!quest) {
-      return res.status(404).json({ error: 'Quest not found' });
+    if (!fish) {
+      return res.status(404).json({ error: 'Fish not found' });
     }
 
-    res.json(quest);
+    const search = parseWindowQuery(req.query, 5);
+    if ('error' in search) {
+      return res.status(400).json({ error: search.error });
+    }
+
+    const plan = fishTracker.getIntuitionPlan(fish, search);
+
+    res.json({
+      fishId,
+      intuitionLength: plan.intuitionLength,
+      steps: plan.steps,
+      windows: plan.windows,
+    });
   } catch (error) {
-    res.status(500).json({ error: 'Failed to get quest', message: String(error) });
+    res.status(500).json({ error: 'Failed to plan intuition chain', message: String(error) });
   }
 });
 
 // ============================================================================
-// API ROUTES - Items
+// API ROUTES - Weather
 // ============================================================================
 
+/**
+ * Parse weather names or IDs given as a comma-separated string or an array
+ * Returns the first unresolved name as an error
+ */
+function parseWeatherQuery(value: unknown): { ids: number[]; unknown?: string } {
+  const names = Array.isArray(value)
+    ? value.map(String)
+    : typeof value === 'string' && value.trim() !== ''
+      ? value.split(',')
+      : [];
+
+  const ids: number[] = [];
+  for (const name of names) {
+    const id = weatherService.getWeatherIdByName(name);
+    if (id === null) {
+      return { ids, unknown: name.trim() };
+    }
+    ids.push(id);
+  }
+  return { ids };
+}
+
 /**
  * @openapi
- * /api/items:
+ * /api/weather/zones:
  *   get:
- *     summary: Search items
- *     description: Search and filter items by name, level, rarity, and category with pagination
+ *     summary: Search zones with weather data
+ *     description: Find zone IDs by (partial) place name for use with the weather forecast endpoints
  *     tags:
- *       - Items
+ *       - Weather
  *     parameters:
  *       - in: query
  *         name: name
+ *         required: true
  *         schema:
  *           type: string
- *         description: Search by item name (partial match)
- *       - in: query
- *         name: level_min
- *         schema:
- *           type: integer
- *         description: Minimum item level
- *       - in: query
- *         name: level_max
- *         schema:
- *           type: integer
- *         description: Maximum item level
- *       - in: query
- *         name: rarity
- *         schema:
- *           type: integer
- *         description: Item rarity (1-7)
- *       - in: query
- *         name: category
- *         schema:
- *           type: integer
- *         description: Item UI category ID
- *       - in: query
- *         name: limit
- *         schema:
- *           type: integer
- *           default: 50
- *         description: Maximum number of results
- *       - in: query
- *         name: offset
- *         schema:
- *           type: integer
- *           default: 0
- *         description: Pagination offset
+ *         description: Zone name (partial match)
  *     responses:
  *       200:
- *         description: Search results with pagination info
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 results:
- *                   type: array
- *                   items:
- *                     type: object
- *                 total:
- *                   type: integer
- *                 limit:
- *                   type: integer
- *                 offset:
- *                   type: integer
+ *         description: Matching zones
+ *       400:
+ *         description: Missing name parameter
  *       500:
  *         description: Server error
  */
-app.get('/api/items', (req, res) => {
+app.get('/api/weather/zones', (req, res) => {
   try {
-    const options = {
-      name: req.query.name as string,
-      level_min: req.query.level_min ? parseInt(req.query.level_min as string) : undefined,
-      level_max: req.query.level_max ? parseInt(req.query.level_max as string) : undefined,
-      rarity: req.query.rarity ? parseInt(req.query.rarity as string) : undefined,
-      category: req.query.category ? parseInt(req.query.category as string) : undefined,
-      limit: req.query.limit ? parseInt(req.query.limit as string) : 50,
-      offset: req.query.offset ? parseInt(req.query.offset as string) : 0,
-    };
+    if (!req.query.name) {
+      return res.status(400).json({ error: 'name parameter is required' });
+    }
 
-    const result = itemService.searchItems(options);
-    res.json(result);
+    res.json(weatherService.findZones(req.query.name as string));
   } catch (error) {
-    res.status(500).json({ error: 'Failed to search items', message: String(error) });
+    res.status(500).json({ error: 'Failed to search zones', message: String(error) });
   }
 });
 
 /**
  * @openapi
- * /api/items/{id}:
- *   get:
- *     summary: Get item by ID
- *     description: Returns detailed information about a specific item
+ * /api/weather/search:
+ *   post:
+ *     summary: Search for weather lining up across zones
+ *     description: Returns the earliest real-time slots where all (or any) of the given zone weather constraints are satisfied
  *     tags:
- *       - Items
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: integer
- *         description: Item ID
+ *       - Weather
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               constraints:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *               mode:
+ *                 type: string
+ *                 enum: [all, any]
+ *               count:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 100
+ *               horizonDays:
+ *                 type: number
+ *                 maximum: 60
+ *               from:
+ *                 type: string
+ *                 format: date-time
  *     responses:
  *       200:
- *         description: Item details
- *         content:
- *           application/json:
- *             schema:
- *               type: object
+ *         description: Matching slots
+ *       400:
+ *         description: Invalid constraints, count, days or start date
  *       404:
- *         description: Item not found
+ *         description: Zone not found
  *       500:
  *         description: Server error
  */
-app.get('/api/items/:id', (req, res) => {
+app.post('/api/weather/search', express.json(), (req, res) => {
   try {
-    const itemId = parseInt(req.params.id);
-    const item = itemService.getItemById(itemId);
+    const body = req.body || {};
 
-    if (!item) {
-      return res.status(404).json({ error: 'Item not found' });
+    if (!Array.isArray(body.constraints) || body.constraints.length === 0) {
+      return res.status(400).json({ error: 'constraints must be a non-empty array' });
     }
 
-    res.json(item);
-  } catch (error) {
+    if (body.mode !== undefined && body.mode !== 'all' && body.mode !== 'any') {
+      return res.status(400).json({ error: 'mode must be "all" or "any"' });
+    }
+
+    const constraints: WeatherConstraint[] = [];
+    for (const raw of body.constraints) {
+      const zoneId = parseInt(raw?.zoneId);
+      if (!weatherService.getZoneById(zoneId)) {
+        return res.status(404).json({ error: `Zone not found: ${raw?.zoneId}` });
+      }
+
+      const weather = parseWeatherQuery(raw.weatherIds);
+      const previous = parseWeatherQuery(raw.previousWeatherIds);
+      const unknown = weather.unknown || previous.unknown;
+      if (unknown) {
+        return res.status(400).json({ error: `Unknown weather: ${unknown}` });
+      }
+
+      const range = raw.etHourRange;
+      if (
+        range !== undefined &&
+        (!Array.isArray(range) ||
+          range.length !== 2 ||
+          range.some((h) => typeof h !== 'number' || !(h >= 0 && h <= 24)))
+      ) {
+        return res
+          .status(400)
+          .json({ error: 'etHourRange must be [startHour, endHour] with hours from 0 to 24' });
+      }
+
+      constraints.push({
+        zoneId,
+        weatherIds: weather.ids,
+        previousWeatherIds: previous.ids,
+        etHourRange: range,
+      });
+    }
+
+    const search = parseWindowQuery(body, 10, 'horizonDays', 30);
+    if ('error' in search) {
+      return res.status(400).json({ error: search.error });
+    }
+
+    const from = body.from !== undefined ? new Date(body.from) : new Date();
+    if (isNaN(from.getTime())) {
+      return res.status(400).json({ error: 'from must be a valid date' });
+    }
+
+    const slots = weatherService.searchConstraints(constraints, {
+      mode: body.mode,
+      ...search,
+      from,
+    });
+
+    res.json({ mode: body.mode || 'all', slots: slots || [] });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to search weather', message: String(error) });
+  }
+});
+
+/**
+ * @openapi
+ * /api/weather/{zoneId}:
+ *   get:
+ *     summary: Get the weather forecast for a zone
+ *     description: Returns the next N weather periods (8 Eorzean hours each) starting with the current one, with weather names and real-time start/end
+ *     tags:
+ *       - Weather
+ *     parameters:
+ *       - in: path
+ *         name: zoneId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Zone (place name) ID
+ *       - in: query
+ *         name: periods
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *           minimum: 1
+ *           maximum: 100
+ *         description: Number of weather periods to return
+ *     responses:
+ *       200:
+ *         description: Weather forecast
+ *       400:
+ *         description: Invalid periods
+ *       404:
+ *         description: Zone not found
+ *       500:
+ *         description: Server error
+ */
+app.get('/api/weather/:zoneId', (req, res) => {
+  try {
+    const zoneId = parseInt(req.params.zoneId);
+    const zone = weatherService.getZoneById(zoneId);
+
+    if (!zone) {
+      return res.status(404).json({ error: 'Zone not found' });
+    }
+
+    const periods = req.query.periods !== undefined ? Number(req.query.periods) : 10;
+    if (!Number.isInteger(periods) || periods < 1) {
+      return res.status(400).json({ error: 'periods must be a positive integer' });
+    }
+
+    res.json({
+      zone,
+      forecast: weatherService.forecast(zoneId, Math.min(periods, MAX_WINDOW_COUNT)) || [],
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to get weather forecast', message: String(error) });
+  }
+});
+
+/**
+ * @openapi
+ * /api/weather/{zoneId}/next:
+ *   get:
+ *     summary: Find the next weather transition in a zone
+ *     description: Returns the next period where the weather is one of `weather`, optionally preceded by one of `previous` (e.g. Thunderstorms following Clouds)
+ *     tags:
+ *       - Weather
+ *     parameters:
+ *       - in: path
+ *         name: zoneId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Zone (place name) ID
+ *       - in: query
+ *         name: weather
+ *         schema:
+ *           type: string
+ *         description: Comma-separated weather names or IDs
+ *       - in: query
+ *         name: previous
+ *         schema:
+ *           type: string
+ *         description: Comma-separated weather names or IDs for the preceding period
+ *     responses:
+ *       200:
+ *         description: Next matching period (null if none in the search range)
+ *       400:
+ *         description: Unknown weather name
+ *       404:
+ *         description: Zone not found
+ *       500:
+ *         description: Server error
+ */
+app.get('/api/weather/:zoneId/next', (req, res) => {
+  try {
+    const zoneId = parseInt(req.params.zoneId);
+    const zone = weatherService.getZoneById(zoneId);
+
+    if (!zone) {
+      return res.status(404).json({ error: 'Zone not found' });
+    }
+
+    const weather = parseWeatherQuery(req.query.weather);
+    const previous = parseWeatherQuery(req.query.previous);
+    const unknown = weather.unknown || previous.unknown;
+
+    if (unknown) {
+      return res.status(400).json({ error: `Unknown weather: ${unknown}` });
+    }
+
+    res.json({
+      zone,
+      match: weatherService.findTransition(zoneId, {
+        weatherIds: weather.ids,
+        previousWeatherIds: previous.ids,
+      }),
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to find weather transition', message: String(error) });
+  }
+});
+
+// ============================================================================
+// API ROUTES - Calendar
+// ============================================================================
+
+/**
+ * @openapi
+ * /api/calendar.ics:
+ *   get:
+ *     summary: Export upcoming windows as iCalendar
+ *     description: Returns an .ics feed with the next N windows of the character's bookmarked fish and gathering nodes, optionally including every uncaught big fish and every timed node
+ *     tags:
+ *       - Calendar
+ *     parameters:
+ *       - in: query
+ *         name: character_id
+ *         schema:
+ *           type: string
+ *         description: Lodestone character ID (defaults to the active character)
+ *       - in: query
+ *         name: count
+ *         schema:
+ *           type: integer
+ *           default: 5
+ *           minimum: 1
+ *           maximum: 100
+ *         description: Windows per fish/node
+ *       - in: query
+ *         name: days
+ *         schema:
+ *           type: number
+ *           default: 7
+ *           maximum: 60
+ *         description: How many real days ahead to search (at most 60)
+ *       - in: query
+ *         name: uncaughtBigFish
+ *         schema:
+ *           type: boolean
+ *         description: Include every big fish the character hasn't caught
+ *       - in: query
+ *         name: timedNodes
+ *         schema:
+ *           type: boolean
+ *         description: Include every timed gathering node
+ *     responses:
+ *       200:
+ *         description: iCalendar document
+ *         content:
+ *           text/calendar:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Invalid count or days
+ *       404:
+ *         description: Character not found
+ *       500:
+ *         description: Server error
+ */
+app.get('/api/calendar.ics', (req, res) => {
+  try {
+    const profileService = getPlayerProfileService();
+    const character = req.query.character_id
+      ? profileService.getCharacterById(req.query.character_id as string)
+      : profileService.getActiveCharacter();
+
+    if (!character) {
+      return res.status(404).json({ error: 'Character not found' });
+    }
+
+    const search = parseWindowQuery(req.query, 5, 'days');
+    if ('error' in search) {
+      return res.status(400).json({ error: search.error });
+    }
+
+    const targets = calendarService.collectTargets(profileService, character.id, {
+      uncaughtBigFish: req.query.uncaughtBigFish === 'true',
+      timedNodes: req.query.timedNodes === 'true',
+    });
+
+    const calendar = calendarService.buildCalendar(targets, search);
+
+    res.type('text/calendar').set('Content-Disposition', 'inline; filename="eorzea.ics"');
+    res.send(calendar);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to build calendar', message: String(error) });
+  }
+});
+
+// ============================================================================
+// API ROUTES - Quests
+// ============================================================================
+
+/**
+ * @openapi
+ * /api/quests:
+ *   get:
+ *     summary: Search quests
+ *     description: Search and filter quests by name, level, expansion, and other criteria
+ *     tags:
+ *       - Quests
+ *     parameters:
+ *       - in: query
+ *         name: name
+ *         schema:
+ *           type: string
+ *         description: Search by quest name (partial match)
+ *       - in: query
+ *         name: level
+ *         schema:
+ *           type: integer
+ *         description: Filter by exact level
+ *       - in: query
+ *         name: minLevel
+ *         schema:
+ *           type: integer
+ *         description: Minimum quest level
+ *       - in: query
+ *         name: maxLevel
+ *         schema:
+ *           type: integer
+ *         description: Maximum quest level
+ *       - in: query
+ *         name: expansionId
+ *         schema:
+ *           type: integer
+ *         description: Filter by expansion ID
+ *       - in: query
+ *         name: isRepeatable
+ *         schema:
+ *           type: boolean
+ *         description: Filter for repeatable quests
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *         description: Maximum number of results
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *         description: Pagination offset
+ *     responses:
+ *       200:
+ *         description: List of quests matching criteria
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *       500:
+ *         description: Server error
+ */
+app.get('/api/quests', (req, res) => {
+  try {
+    const options: any = {
+      name: req.query.name as string,
+      level: req.query.level ? parseInt(req.query.level as string) : undefined,
+      minLevel: req.query.minLevel ? parseInt(req.query.minLevel as string) : undefined,
+      maxLevel: req.query.maxLevel ? parseInt(req.query.maxLevel as string) : undefined,
+      expansionId: req.query.expansionId ? parseInt(req.query.expansionId as string) : undefined,
+      isRepeatable:
+        req.query.isRepeatable === 'true'
+          ? true
+          : req.query.isRepeatable === 'false'
+            ? false
+            : undefined,
+      limit: req.query.limit ? parseInt(req.query.limit as string) : 50,
+      offset: req.query.offset ? parseInt(req.query.offset as string) : 0,
+    };
+
+    const quests = questTracker.searchQuests(options);
+    res.json(quests);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to search quests', message: String(error) });
+  }
+});
+
+/**
+ * @openapi
+ * /api/quests/{id}:
+ *   get:
+ *     summary: Get quest by ID
+ *     description: Returns detailed information about a specific quest including embedded objectives
+ *     tags:
+ *       - Quests
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Quest ID
+ *     responses:
+ *       200:
+ *         description: Quest details with objectives
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 id:
+ *                   type: integer
+ *                 name:
+ *                   type: string
+ *                 level:
+ *                   type: integer
+ *                 objectives:
+ *                   type: array
+ *                 gilReward:
+ *                   type: integer
+ *                 isRepeatable:
+ *                   type: boolean
+ *       404:
+ *         description: Quest not found
+ *       500:
+ *         description: Server error
+ */
+app.get('/api/quests/:id', (req, res) => {
+  try {
+    const questId = parseInt(req.params.id);
+    const quest = questTracker.getQuestById(questId);
+
+    if (!quest) {
+      return res.status(404).json({ error: 'Quest not found' });
+    }
+
+    res.json(quest);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to get quest', message: String(error) });
+  }
+});
+
+/**
+ * @openapi
+ * /api/quests/{id}/prerequisites:
+ *   get:
+ *     summary: Get the prerequisite chain of a quest
+ *     description: Returns every quest required before this one (following previous_quests transitively), each listed after its own prerequisites. With a character, steps are marked completed from its quest log.
+ *     tags:
+ *       - Quests
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Quest ID
+ *       - in: query
+ *         name: character_id
+ *         schema:
+ *           type: string
+ *         description: Lodestone character ID whose completed quests are marked
+ *     responses:
+ *       200:
+ *         description: Ordered prerequisite chain
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/QuestPath'
+ *       404:
+ *         description: Quest or character not found
+ *       500:
+ *         description: Server error
+ */
+app.get('/api/quests/:id/prerequisites', (req, res) => {
+  try {
+    let completedIds: number[] = [];
+
+    if (req.query.character_id) {
+      const profileService = getPlayerProfileService();
+      const character = profileService.getCharacterById(req.query.character_id as string);
+
+      if (!character) {
+        return res.status(404).json({ error: 'Character not found' });
+      }
+
+      completedIds = profileService.getCompletedQuests(character.id).map((q) => q.questId);
+    }
+
+    const path = questGraph.getPathTo(parseInt(req.params.id), completedIds);
+
+    if (!path) {
+      return res.status(404).json({ error: 'Quest not found' });
+    }
+
+    res.json(path);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to get quest prerequisites', message: String(error) });
+  }
+});
+
+// ============================================================================
+// API ROUTES - Items
+// ============================================================================
+
+/**
+ * @openapi
+ * /api/items:
+ *   get:
+ *     summary: Search items
+ *     description: Search and filter items by name, level, rarity, and category with pagination
+ *     tags:
+ *       - Items
+ *     parameters:
+ *       - in: query
+ *         name: name
+ *         schema:
+ *           type: string
+ *         description: Search by item name (partial match)
+ *       - in: query
+ *         name: level_min
+ *         schema:
+ *           type: integer
+ *         description: Minimum item level
+ *       - in: query
+ *         name: level_max
+ *         schema:
+ *           type: integer
+ *         description: Maximum item level
+ *       - in: query
+ *         name: rarity
+ *         schema:
+ *           type: integer
+ *         description: Item rarity (1-7)
+ *       - in: query
+ *         name: category
+ *         schema:
+ *           type: integer
+ *         description: Item UI category ID
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *         description: Maximum number of results
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *         description: Pagination offset
+ *     responses:
+ *       200:
+ *         description: Search results with pagination info
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 results:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                 total:
+ *                   type: integer
+ *                 limit:
+ *                   type: integer
+ *                 offset:
+ *                   type: integer
+ *       500:
+ *         description: Server error
+ */
+app.get('/api/items', (req, res) => {
+  try {
+    const options = {
+      name: req.query.name as string,
+      level_min: req.query.level_min ? parseInt(req.query.level_min as string) : undefined,
+      level_max: req.query.level_max ? parseInt(req.query.level_max as string) : undefined,
+      rarity: req.query.rarity ? parseInt(req.query.rarity as string) : undefined,
+      category: req.query.category ? parseInt(req.query.category as string) : undefined,
+      limit: req.query.limit ? parseInt(req.query.limit as string) : 50,
+      offset: req.query.offset ? parseInt(req.query.offset as string) : 0,
+    };
+
+    const result = itemService.searchItems(options);
+    res.json(result);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to search items', message: String(error) });
+  }
+});
+
+/**
+ * @openapi
+ * /api/items/{id}:
+ *   get:
+ *     summary: Get item by ID
+ *     description: Returns detailed information about a specific item
+ *     tags:
+ *       - Items
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Item ID
+ *     responses:
+ *       200:
+ *         description: Item details
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *       404:
+ *         description: Item not found
+ *       500:
+ *         description: Server error
+ */
+app.get('/api/items/:id', (req, res) => {
+  try {
+    const itemId = parseInt(req.params.id);
+    const item = itemService.getItemById(itemId);
+
+    if (!item) {
+      return res.status(404).json({ error: 'Item not found' });
+    }
+
+    res.json(item);
+  } catch (error) {
     res.status(500).json({ error: 'Failed to get item', message: String(error) });
   }
 });
@@ -1996,6 +2643,11 @@ app.get('/api/recipes/:id', (req, res) => {
  *         schema:
  *           type: integer
  *         description: Recipe ID
+ *       - in: query
+ *         name: character_id
+ *         schema:
+ *           type: string
+ *         description: Lodestone character ID whose inventory is subtracted from the materials
  *     responses:
  *       200:
  *         description: Crafting guide
@@ -2004,14 +2656,20 @@ app.get('/api/recipes/:id', (req, res) => {
  *             schema:
  *               type: object
  *       404:
- *         description: Recipe not found
+ *         description: Recipe or character not found
  *       500:
  *         description: Server error
  */
 app.get('/api/recipes/:id/guide', (req, res) => {
   try {
     const recipeId = parseInt(req.params.id);
-    const guide = craftingService.getCraftingGuide(recipeId);
+    const owned = getCharacterInventory(req.query.character_id as string | undefined);
+
+    if (owned === null) {
+      return res.status(404).json({ error: 'Character not found' });
+    }
+
+    const guide = craftingService.getCraftingGuide(recipeId, owned);
 
     if (!guide) {
       return res.status(404).json({ error: 'Recipe not found' });
@@ -2038,6 +2696,11 @@ app.get('/api/recipes/:id/guide', (req, res) => {
  *         schema:
  *           type: integer
  *         description: Recipe ID
+ *       - in: query
+ *         name: character_id
+ *         schema:
+ *           type: string
+ *         description: Lodestone character ID whose inventory is subtracted from the materials
  *     responses:
  *       200:
  *         description: Material tree with all required materials
@@ -2045,19 +2708,172 @@ app.get('/api/recipes/:id/guide', (req, res) => {
  *           application/json:
  *             schema:
  *               type: object
+ *       404:
+ *         description: Character not found
  *       500:
  *         description: Server error
  */
 app.get('/api/recipes/:id/materials', (req, res) => {
   try {
     const recipeId = parseInt(req.params.id);
-    const materialTree = craftingService.getMaterialTree(recipeId);
+    const owned = getCharacterInventory(req.query.character_id as string | undefined);
+
+    if (owned === null) {
+      return res.status(404).json({ error: 'Character not found' });
+    }
+
+    const materialTree = craftingService.getMaterialTree(recipeId, new Set(), owned);
     res.json(materialTree);
   } catch (error) {
     res.status(500).json({ error: 'Failed to get material tree', message: String(error) });
   }
 });
 
+/**
+ * @openapi
+ * /api/recipes/{id}/profit:
+ *   get:
+ *     summary: Get craft profit for recipe
+ *     description: Compares the cost of one synth's raw materials (cheaper of gil vendor and market price) with the market value of the result, using imported price snapshots; profit is null while any material has no price
+ *     tags:
+ *       - Crafting
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Recipe ID
+ *       - in: query
+ *         name: world
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: World whose market prices are used
+ *       - in: query
+ *         name: hq
+ *         schema:
+ *           type: boolean
+ *         description: Value the result at its HQ price
+ *     responses:
+ *       200:
+ *         description: Material cost, sale value and profit
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *       400:
+ *         description: Missing world
+ *       404:
+ *         description: Recipe not found
+ *       500:
+ *         description: Server error
+ */
+app.get('/api/recipes/:id/profit', async (req, res) => {
+  try {
+    const recipeId = parseInt(req.params.id);
+    const world = req.query.world as string | undefined;
+
+    if (!world) {
+      return res.status(400).json({ error: 'world is required' });
+    }
+
+    const profit = await craftingService.getCraftingProfit(
+      recipeId,
+      getPriceProvider(),
+      world,
+      req.query.hq === '1' || req.query.hq === 'true'
+    );
+
+    if (!profit) {
+      return res.status(404).json({ error: 'Recipe not found' });
+    }
+
+    res.json(profit);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to calculate profit', message: String(error) });
+  }
+});
+
+/**
+ * @openapi
+ * /api/recipes/plan:
+ *   post:
+ *     summary: Plan a batch of crafts
+ *     description: Merges the material trees of several recipes into one list of raw materials and intermediate crafts in dependency order, rounding each craft up to whole synths using its yield
+ *     tags:
+ *       - Crafting
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               items:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     recipeId:
+ *                       type: integer
+ *                     quantity:
+ *                       type: integer
+ *               characterId:
+ *                 type: string
+ *                 description: Lodestone character ID whose inventory is used first
+ *     responses:
+ *       200:
+ *         description: Consolidated crafting plan
+ *       400:
+ *         description: Invalid items
+ *       404:
+ *         description: Recipe or character not found
+ *       500:
+ *         description: Server error
+ */
+app.post('/api/recipes/plan', express.json(), (req, res) => {
+  try {
+    const items = req.body?.items;
+
+    if (!Array.isArray(items) || items.length === 0) {
+      return res.status(400).json({ error: 'items must be a non-empty array' });
+    }
+
+    if (
+      !items.every(
+        (item) =>
+          Number.isInteger(item?.recipeId) && Number.isInteger(item?.quantity) && item.quantity > 0
+      )
+    ) {
+      return res
+        .status(400)
+        .json({ error: 'Each item needs an integer recipeId and a positive integer quantity' });
+    }
+
+    const owned = getCharacterInventory(req.body.characterId);
+
+    if (owned === null) {
+      return res.status(404).json({ error: 'Character not found' });
+    }
+
+    const plan = craftingService.getCraftPlan(
+      items.map((item) => ({ recipeId: item.recipeId, quantity: item.quantity })),
+      owned
+    );
+
+    if (plan.unknown_recipe_ids.length > 0) {
+      return res
+        .status(404)
+        .json({ error: `Recipe not found: ${plan.unknown_recipe_ids.join(', ')}` });
+    }
+
+    res.json(plan);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to plan crafts', message: String(error) });
+  }
+});
+
 /**
  * @openapi
  * /api/craft-types:
@@ -2087,6 +2903,18 @@ app.get('/api/craft-types', (_req, res) => {
   }
 });
 
+/**
+ * Owned quantities for a character's inventory
+ * Returns undefined when no character is given, null when it doesn't exist
+ */
+function getCharacterInventory(characterId?: string): Map<number, number> | null | undefined {
+  if (!characterId) return undefined;
+
+  const profileService = getPlayerProfileService();
+  const character = profileService.getCharacterById(characterId);
+  return character ? profileService.getOwnedQuantities(character.id) : null;
+}
+
 // ============================================================================
 // API ROUTES - Collectibles
 // ============================================================================
@@ -2435,8 +3263,8 @@ app.get('/api/orchestrion/:id', (req, res) => {
  *         name: character_id
  *         required: true
  *         schema:
- *           type: integer
- *         description: Character ID
+ *           type: string
+ *         description: Character ID (Lodestone ID)
  *     responses:
  *       200:
  *         description: Collection statistics
@@ -2473,9 +3301,7 @@ app.get('/api/orchestrion/:id', (req, res) => {
  */
 app.get('/api/collection/stats', (req, res) => {
   try {
-    const characterId = req.query.character_id
-      ? parseInt(req.query.character_id as string)
-      : undefined;
+    const characterId = req.query.character_id as string | undefined;
 
     if (!characterId) {
       return res.status(400).json({ error: 'character_id parameter is required' });
@@ -2488,6 +3314,247 @@ app.get('/api/collection/stats', (req, res) => {
   }
 });
 
+// ============================================================================
+// API ROUTES - Inventory
+// ============================================================================
+
+/**
+ * @openapi
+ * /api/inventory:
+ *   get:
+ *     summary: Get a character's inventory
+ *     description: Returns the owned items recorded for a character, used by crafting guides and plans
+ *     tags:
+ *       - Inventory
+ *     parameters:
+ *       - in: query
+ *         name: character_id
+ *         schema:
+ *           type: string
+ *         description: Lodestone character ID (defaults to the active character)
+ *       - in: query
+ *         name: location
+ *         schema:
+ *           type: string
+ *         description: Only items in this location (e.g. bag, saddlebag, retainer)
+ *     responses:
+ *       200:
+ *         description: Inventory items
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/InventoryItem'
+ *       404:
+ *         description: Character not found
+ *       500:
+ *         description: Server error
+ */
+app.get('/api/inventory', (req, res) => {
+  try {
+    const profileService = getPlayerProfileService();
+    const character = req.query.character_id
+      ? profileService.getCharacterById(req.query.character_id as string)
+      : profileService.getActiveCharacter();
+
+    if (!character) {
+      return res.status(404).json({ error: 'Character not found' });
+    }
+
+    res.json(profileService.getInventory(character.id, req.query.location as string | undefined));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to get inventory', message: String(error) });
+  }
+});
+
+/**
+ * @openapi
+ * /api/inventory:
+ *   post:
+ *     summary: Add an item to a character's inventory
+ *     description: Adds to the quantity already stored for the same item, quality and location
+ *     tags:
+ *       - Inventory
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/InventoryEntry'
+ *     responses:
+ *       200:
+ *         description: Updated inventory
+ *       400:
+ *         description: Invalid item
+ *       404:
+ *         description: Character not found
+ *       500:
+ *         description: Server error
+ */
+app.post('/api/inventory', express.json(), (req, res) => {
+  try {
+    const profileService = getPlayerProfileService();
+    const character = req.body?.characterId
+      ? profileService.getCharacterById(req.body.characterId)
+      : profileService.getActiveCharacter();
+
+    if (!character) {
+      return res.status(404).json({ error: 'Character not found' });
+    }
+
+    const { itemId, quantity, isHq, location } = req.body;
+    if (!Number.isInteger(itemId) || !Number.isInteger(quantity) || quantity < 1) {
+      return res.status(400).json({ error: 'itemId and a positive integer quantity are required' });
+    }
+
+    profileService.addInventoryItem(character.id, itemId, quantity, !!isHq, location);
+    res.json(profileService.getInventory(character.id));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to update inventory', message: String(error) });
+  }
+});
+
+/**
+ * @openapi
+ * /api/inventory/import:
+ *   post:
+ *     summary: Import inventory items in bulk
+ *     description: Imports a CSV export (item name, quantity, hq, location) or a list of items by name or ID into a character's inventory, resolving names with fuzzy matching and reporting rows that couldn't be matched
+ *     tags:
+ *       - Inventory
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               characterId:
+ *                 type: string
+ *               items:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/InventoryImportItem'
+ *               csv:
+ *                 type: string
+ *               location:
+ *                 type: string
+ *                 description: Location for rows without one
+ *               replace:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Import summary
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/InventoryImportResult'
+ *       400:
+ *         description: Invalid import
+ *       404:
+ *         description: Character not found
+ *       500:
+ *         description: Server error
+ */
+app.post('/api/inventory/import', express.json(), (req, res) => {
+  try {
+    const profileService = getPlayerProfileService();
+    const character = req.body?.characterId
+      ? profileService.getCharacterById(req.body.characterId)
+      : profileService.getActiveCharacter();
+
+    if (!character) {
+      return res.status(404).json({ error: 'Character not found' });
+    }
+
+    const { items, csv } = req.body;
+    if (!Array.isArray(items) && typeof csv !== 'string') {
+      return res.status(400).json({ error: 'Either items (array) or csv (string) is required' });
+    }
+
+    const parsed = Array.isArray(items) ? parseInventoryItems(items) : parseInventoryCsv(csv);
+    const result = matchInventoryRows(
+      parsed,
+      itemService,
+      req.body.location ? normalizeLocation(req.body.location) : undefined
+    );
+    const imported = profileService.importInventory(
+      character.id,
+      result.entries,
+      !!req.body.replace
+    );
+
+    res.json({ imported, fuzzyMatches: result.fuzzyMatches, unmatched: result.unmatched });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to import inventory', message: String(error) });
+  }
+});
+
+/**
+ * @openapi
+ * /api/inventory/{itemId}:
+ *   delete:
+ *     summary: Remove an item from a character's inventory
+ *     description: Removes the given quantity (or all of it) across matching qualities and locations
+ *     tags:
+ *       - Inventory
+ *     parameters:
+ *       - in: path
+ *         name: itemId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: character_id
+ *         schema:
+ *           type: string
+ *         description: Lodestone character ID (defaults to the active character)
+ *       - in: query
+ *         name: quantity
+ *         schema:
+ *           type: integer
+ *         description: How many to remove (default: all)
+ *       - in: query
+ *         name: hq
+ *         schema:
+ *           type: boolean
+ *         description: Only remove HQ (true) or NQ (false) items
+ *       - in: query
+ *         name: location
+ *         schema:
+ *           type: string
+ *         description: Only remove from this location
+ *     responses:
+ *       200:
+ *         description: Number of removed items
+ *       404:
+ *         description: Character not found
+ *       500:
+ *         description: Server error
+ */
+app.delete('/api/inventory/:itemId', (req, res) => {
+  try {
+    const profileService = getPlayerProfileService();
+    const character = req.query.character_id
+      ? profileService.getCharacterById(req.query.character_id as string)
+      : profileService.getActiveCharacter();
+
+    if (!character) {
+      return res.status(404).json({ error: 'Character not found' });
+    }
+
+    const removed = profileService.removeInventoryItem(character.id, parseInt(req.params.itemId), {
+      quantity: req.query.quantity ? parseInt(req.query.quantity as string) : undefined,
+      isHq: req.query.hq !== undefined ? req.query.hq === 'true' : undefined,
+      location: req.query.location as string | undefined,
+    });
+    res.json({ removed });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to update inventory', message: String(error) });
+  }
+});
+
 // ============================================================================
 // WEB UI ROUTES - Items
 // ============================================================================
@@ -3477,7 +4544,10 @@ app.get('/orchestrion', (req, res) => {
 // Collection stats page
 app.get('/collection', (req, res) => {
   try {
-    const characterId = req.query.character_id ? parseInt(req.query.character_id as string) : 1;
+    const characterId =
+      (req.query.character_id as string) ||
+      getPlayerProfileService().getActiveCharacter()?.id ||
+      '';
 
     const stats = collectiblesService.getCollectionStats(characterId);
 